@@ -0,0 +1,396 @@
+/**
+ * broker-stand-in.mjs
+ * A local HTTP stand-in for the Alpaca and Tradier trading APIs, so the
+ * broker adapters can be exercised without a brokerage account. Orders are
+ * kept in memory and only fill when told to.
+ *
+ * Usage: node broker-stand-in.mjs [port]      (default 4010)
+ *
+ * Point the backend at it:
+ *   ALPACA_BASE_URL=http://localhost:4010/alpaca
+ *   TRADIER_BROKER_BASE_URL=http://localhost:4010/tradier
+ * (any non-empty credentials work — they only have to be sent)
+ *
+ * Control endpoints:
+ *   GET  /_stand-in/orders                           every order, both brokers
+ *   POST /_stand-in/fill   {broker, id, price, quantity?}   fill (partially, with quantity)
+ *   POST /_stand-in/reject {broker, id}              reject a working order
+ *   POST /_stand-in/fail   {count, status?}          answer the next count broker requests with status (default 503)
+ *   POST /_stand-in/reset                            forget all orders and positions
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+
+const port = Number(process.argv[2]) || 4010;
+
+const alpacaOrders = new Map();   // id → Alpaca order JSON
+const tradierOrders = new Map();  // id → Tradier order JSON
+const positions = { alpaca: new Map(), tradier: new Map() };  // symbol → { quantity (signed), cost }
+let nextTradierId = 1000;
+let failures = { count: 0, status: 503 };
+
+const WORKING = ['new', 'accepted', 'partially_filled', 'open', 'pending'];
+
+function send(res, status, body) {
+  if (body === undefined) {
+    res.writeHead(status);
+    return res.end();
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req) {
+  let text = '';
+  for await (const chunk of req) text += chunk;
+  if (!text) return {};
+  if ((req.headers['content-type'] || '').includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/** Book a fill on the broker's position: signed quantity, cost at the fill price */
+function bookFill(broker, symbol, signedQty, price) {
+  const book = positions[broker];
+  const position = book.get(symbol) ?? { quantity: 0, cost: 0 };
+  const opening = position.quantity === 0 || Math.sign(position.quantity) === Math.sign(signedQty);
+  if (opening) {
+    position.cost += signedQty * price;
+  } else {
+    // Closing takes cost off at the average entry, not the fill price
+    const avg = position.cost / position.quantity;
+    position.cost += signedQty * avg;
+  }
+  position.quantity += signedQty;
+  if (position.quantity === 0) book.delete(symbol);
+  else book.set(symbol, position);
+}
+
+// ── Alpaca ────────────────────────────────────────────────────────────────
+
+function alpacaOrder(fields) {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    created_at: now,
+    updated_at: now,
+    submitted_at: now,
+    filled_at: null,
+    filled_qty: '0',
+    filled_avg_price: null,
+    status: 'new',
+    legs: null,
+    replaced_by: null,
+    replaces: null,
+    ...fields
+  };
+}
+
+async function alpaca(req, res, path, url) {
+  if (!req.headers['apca-api-key-id'] || !req.headers['apca-api-secret-key']) {
+    return send(res, 403, { code: 40310000, message: 'forbidden.' });
+  }
+
+  if (req.method === 'POST' && path === '/v2/orders') {
+    const body = await readBody(req);
+    if (!body || !body.symbol || !(Number(body.qty) > 0) || !['buy', 'sell'].includes(body.side) || !body.type) {
+      return send(res, 422, { code: 40010001, message: 'symbol, qty, side and type are required' });
+    }
+    if (body.client_order_id && [...alpacaOrders.values()].some(o => o.client_order_id === body.client_order_id)) {
+      return send(res, 422, { code: 40010001, message: 'client_order_id must be unique' });
+    }
+    if (['limit', 'stop_limit'].includes(body.type) && !body.limit_price) {
+      return send(res, 422, { code: 40010001, message: 'limit_price is required' });
+    }
+
+    const order = alpacaOrder({
+      client_order_id: body.client_order_id || crypto.randomUUID(),
+      symbol: String(body.symbol).toUpperCase(),
+      qty: String(body.qty),
+      side: body.side,
+      type: body.type,
+      order_type: body.type,
+      time_in_force: body.time_in_force || 'day',
+      limit_price: body.limit_price ?? null,
+      stop_price: body.stop_price ?? null,
+      trail_price: body.trail_price ?? null,
+      trail_percent: body.trail_percent ?? null,
+      extended_hours: body.extended_hours === true,
+      order_class: body.order_class || ''
+    });
+    // Bracket / OTO legs are their own orders, held until the parent fills
+    const exitSide = body.side === 'buy' ? 'sell' : 'buy';
+    const legs = [];
+    if (body.take_profit) legs.push(alpacaOrder({ symbol: order.symbol, qty: order.qty, side: exitSide, type: 'limit', limit_price: body.take_profit.limit_price, status: 'held' }));
+    if (body.stop_loss) legs.push(alpacaOrder({ symbol: order.symbol, qty: order.qty, side: exitSide, type: 'stop', stop_price: body.stop_loss.stop_price, status: 'held' }));
+    if (legs.length > 0) order.legs = legs;
+
+    alpacaOrders.set(order.id, order);
+    console.log(`📥 alpaca order ${order.id}: ${order.side} ${order.qty} ${order.symbol} ${order.type}${order.limit_price ? ` @ ${order.limit_price}` : ''}`);
+    return send(res, 200, order);
+  }
+
+  if (req.method === 'GET' && path === '/v2/orders:by_client_order_id') {
+    const clientOrderId = url.searchParams.get('client_order_id');
+    const order = [...alpacaOrders.values()].find(o => o.client_order_id === clientOrderId);
+    return order ? send(res, 200, order) : send(res, 404, { code: 40410000, message: 'order not found' });
+  }
+
+  if (req.method === 'GET' && path === '/v2/positions') {
+    return send(res, 200, [...positions.alpaca.entries()].map(([symbol, p]) => ({
+      symbol,
+      qty: String(p.quantity),
+      side: p.quantity > 0 ? 'long' : 'short',
+      avg_entry_price: String(Math.abs(p.cost / p.quantity))
+    })));
+  }
+
+  const match = path.match(/^\/v2\/orders\/([^/]+)$/);
+  if (!match) return send(res, 404, { code: 40410000, message: 'endpoint not found' });
+  const order = alpacaOrders.get(decodeURIComponent(match[1]));
+  if (!order) return send(res, 404, { code: 40410000, message: 'order not found' });
+
+  if (req.method === 'GET') return send(res, 200, order);
+
+  if (req.method === 'DELETE') {
+    if (!WORKING.includes(order.status)) {
+      return send(res, 422, { code: 42210000, message: `order is already in "${order.status}" state` });
+    }
+    order.status = 'canceled';
+    order.updated_at = new Date().toISOString();
+    console.log(`🗑️ alpaca order ${order.id} cancelled`);
+    return send(res, 204);
+  }
+
+  if (req.method === 'PATCH') {
+    const body = await readBody(req);
+    if (!WORKING.includes(order.status)) {
+      return send(res, 422, { code: 42210000, message: `order is already in "${order.status}" state` });
+    }
+    if (body?.qty !== undefined && Number(body.qty) < Number(order.filled_qty)) {
+      return send(res, 422, { code: 40010001, message: 'qty must be at least the filled quantity' });
+    }
+    // A replace is a new order; the old one ends up "replaced"
+    const replacement = alpacaOrder({
+      ...order,
+      id: crypto.randomUUID(),
+      client_order_id: crypto.randomUUID(),
+      qty: body?.qty ?? order.qty,
+      limit_price: body?.limit_price ?? order.limit_price,
+      stop_price: body?.stop_price ?? order.stop_price,
+      trail_price: order.trail_price !== null && body?.trail !== undefined ? body.trail : order.trail_price,
+      trail_percent: order.trail_percent !== null && body?.trail !== undefined ? body.trail : order.trail_percent,
+      replaces: order.id,
+      replaced_by: null
+    });
+    order.status = 'replaced';
+    order.replaced_by = replacement.id;
+    alpacaOrders.set(replacement.id, replacement);
+    console.log(`🔁 alpaca order ${order.id} replaced by ${replacement.id}`);
+    return send(res, 200, replacement);
+  }
+
+  return send(res, 405, { code: 40510000, message: 'method not allowed' });
+}
+
+// ── Tradier ───────────────────────────────────────────────────────────────
+
+// Tradier lists one item as an object and none as the string "null"
+const tradierList = (key, items) => ({ [`${key}s`]: items.length === 0 ? 'null' : { [key]: items.length === 1 ? items[0] : items } });
+
+async function tradier(req, res, path) {
+  if (!/^Bearer \S+/.test(req.headers.authorization || '')) {
+    return send(res, 401, 'Invalid Access Token');
+  }
+  const match = path.match(/^\/v1\/accounts\/([^/]+)\/(orders|positions)(?:\/([^/]+))?$/);
+  if (!match || !match[1]) return send(res, 404, { errors: { error: 'endpoint not found' } });
+  const [, , collection, id] = match;
+
+  if (collection === 'positions') {
+    if (req.method !== 'GET') return send(res, 405, { errors: { error: 'method not allowed' } });
+    return send(res, 200, tradierList('position', [...positions.tradier.entries()].map(([symbol, p], i) => ({
+      id: i + 1,
+      symbol,
+      quantity: p.quantity,
+      cost_basis: Math.round(p.cost * 100) / 100,
+      date_acquired: new Date().toISOString()
+    }))));
+  }
+
+  if (!id) {
+    if (req.method === 'GET') return send(res, 200, tradierList('order', [...tradierOrders.values()]));
+    if (req.method !== 'POST') return send(res, 405, { errors: { error: 'method not allowed' } });
+
+    const form = await readBody(req);
+    const sides = ['buy', 'buy_to_cover', 'sell', 'sell_short'];
+    if (!form?.symbol || !(Number(form.quantity) > 0) || !sides.includes(form.side) || !form.type || !form.duration) {
+      return send(res, 400, { errors: { error: 'symbol, side, quantity, type and duration are required' } });
+    }
+    if (['pre', 'post'].includes(form.duration) && form.type !== 'limit') {
+      return send(res, 400, { errors: { error: 'Extended hours orders must be limit orders' } });
+    }
+    const now = new Date().toISOString();
+    const order = {
+      id: nextTradierId++,
+      type: form.type,
+      symbol: String(form.symbol).toUpperCase(),
+      side: form.side,
+      quantity: Number(form.quantity),
+      status: 'open',
+      duration: form.duration,
+      price: form.price !== undefined ? Number(form.price) : undefined,
+      stop_price: form.stop !== undefined ? Number(form.stop) : undefined,
+      avg_fill_price: 0,
+      exec_quantity: 0,
+      last_fill_price: 0,
+      last_fill_quantity: 0,
+      remaining_quantity: Number(form.quantity),
+      create_date: now,
+      transaction_date: now,
+      class: form.class || 'equity',
+      tag: form.tag
+    };
+    tradierOrders.set(String(order.id), order);
+    console.log(`📥 tradier order ${order.id}: ${order.side} ${order.quantity} ${order.symbol} ${order.type}${order.price ? ` @ ${order.price}` : ''}`);
+    return send(res, 200, { order: { id: order.id, status: 'ok', partner_id: 'stand-in' } });
+  }
+
+  const order = tradierOrders.get(decodeURIComponent(id));
+  if (!order) return send(res, 404, { errors: { error: 'Order not found' } });
+
+  if (req.method === 'GET') return send(res, 200, { order });
+
+  if (!WORKING.includes(order.status)) {
+    return send(res, 400, { errors: { error: `Order is ${order.status} and can't be changed` } });
+  }
+  if (req.method === 'DELETE') {
+    order.status = 'canceled';
+    order.transaction_date = new Date().toISOString();
+    console.log(`🗑️ tradier order ${order.id} cancelled`);
+    return send(res, 200, { order: { id: order.id, status: 'ok' } });
+  }
+  if (req.method === 'PUT') {
+    const form = await readBody(req);
+    if (form?.type) order.type = form.type;
+    if (form?.price !== undefined) order.price = Number(form.price);
+    if (form?.stop !== undefined) order.stop_price = Number(form.stop);
+    if (form?.duration) order.duration = form.duration;
+    order.transaction_date = new Date().toISOString();
+    console.log(`🔁 tradier order ${order.id} modified`);
+    return send(res, 200, { order: { id: order.id, status: 'ok' } });
+  }
+  return send(res, 405, { errors: { error: 'method not allowed' } });
+}
+
+// ── Control ───────────────────────────────────────────────────────────────
+
+function fillOrder(broker, order, price, quantity) {
+  const isAlpaca = broker === 'alpaca';
+  const total = Number(isAlpaca ? order.qty : order.quantity);
+  const filled = Number(isAlpaca ? order.filled_qty : order.exec_quantity);
+  const qty = Math.min(quantity ?? total - filled, total - filled);
+  if (!(qty > 0)) return 'nothing left to fill';
+
+  const prevAvg = Number(isAlpaca ? order.filled_avg_price ?? 0 : order.avg_fill_price);
+  const nowFilled = filled + qty;
+  const avg = Math.round(((prevAvg * filled) + price * qty) / nowFilled * 10000) / 10000;
+  const complete = nowFilled >= total;
+  const buying = order.side === 'buy' || order.side === 'buy_to_cover';
+  bookFill(broker, order.symbol, buying ? qty : -qty, price);
+
+  if (isAlpaca) {
+    Object.assign(order, {
+      filled_qty: String(nowFilled),
+      filled_avg_price: String(avg),
+      status: complete ? 'filled' : 'partially_filled',
+      filled_at: complete ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString()
+    });
+    // The parent's fill releases its legs
+    if (complete && order.legs) for (const leg of order.legs) leg.status = 'new';
+  } else {
+    Object.assign(order, {
+      exec_quantity: nowFilled,
+      avg_fill_price: avg,
+      last_fill_price: price,
+      last_fill_quantity: qty,
+      remaining_quantity: total - nowFilled,
+      status: complete ? 'filled' : 'partially_filled',
+      transaction_date: new Date().toISOString()
+    });
+  }
+  console.log(`✅ ${broker} order ${order.id} filled ${qty} @ ${price} (${nowFilled}/${total})`);
+  return null;
+}
+
+async function control(req, res, path) {
+  if (req.method === 'GET' && path === '/_stand-in/orders') {
+    return send(res, 200, { alpaca: [...alpacaOrders.values()], tradier: [...tradierOrders.values()] });
+  }
+  if (req.method !== 'POST') return send(res, 404, { error: 'not found' });
+
+  const body = (await readBody(req)) ?? {};
+  if (path === '/_stand-in/reset') {
+    alpacaOrders.clear();
+    tradierOrders.clear();
+    positions.alpaca.clear();
+    positions.tradier.clear();
+    failures = { count: 0, status: 503 };
+    return send(res, 200, { reset: true });
+  }
+  if (path === '/_stand-in/fail') {
+    failures = { count: Math.max(0, Number(body.count) || 0), status: Number(body.status) || 503 };
+    return send(res, 200, failures);
+  }
+
+  const orders = body.broker === 'alpaca' ? alpacaOrders : body.broker === 'tradier' ? tradierOrders : null;
+  if (!orders) return send(res, 400, { error: 'broker must be alpaca or tradier' });
+  const order = orders.get(String(body.id));
+  if (!order) return send(res, 404, { error: `No ${body.broker} order ${body.id}` });
+  if (!WORKING.includes(order.status)) return send(res, 409, { error: `Order is ${order.status}` });
+
+  if (path === '/_stand-in/fill') {
+    const price = Number(body.price);
+    if (!(price > 0)) return send(res, 400, { error: 'price is required' });
+    const error = fillOrder(body.broker, order, price, body.quantity !== undefined ? Number(body.quantity) : undefined);
+    return error ? send(res, 409, { error }) : send(res, 200, order);
+  }
+  if (path === '/_stand-in/reject') {
+    order.status = 'rejected';
+    console.log(`🚫 ${body.broker} order ${order.id} rejected`);
+    return send(res, 200, order);
+  }
+  return send(res, 404, { error: 'not found' });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const path = url.pathname;
+  try {
+    if (path.startsWith('/_stand-in/')) return await control(req, res, path);
+
+    if (failures.count > 0) {
+      failures.count--;
+      console.log(`💥 ${req.method} ${path} → ${failures.status} (${failures.count} more to fail)`);
+      return send(res, failures.status, { message: 'stand-in failure' });
+    }
+    if (path.startsWith('/alpaca/')) return await alpaca(req, res, path.slice('/alpaca'.length), url);
+    if (path.startsWith('/tradier/')) return await tradier(req, res, path.slice('/tradier'.length));
+    send(res, 404, { error: 'Use /alpaca/... or /tradier/...' });
+  } catch (error) {
+    console.error(`❌ ${req.method} ${path}:`, error.message);
+    send(res, 500, { message: error.message });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`🧪 Broker stand-in listening on http://localhost:${port}`);
+  console.log(`   ALPACA_BASE_URL=http://localhost:${port}/alpaca`);
+  console.log(`   TRADIER_BROKER_BASE_URL=http://localhost:${port}/tradier`);
+});
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "execution_settings" ADD COLUMN "webhook_auth_required" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "execution_settings" ADD COLUMN "webhook_secret_overlap_minutes" INTEGER NOT NULL DEFAULT 60;
+
+-- CreateTable
+CREATE TABLE "webhook_secrets" (
+    "id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "expires_at" TIMESTAMP(3),
+    "last_used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "webhook_secrets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "webhook_secrets_source_idx" ON "webhook_secrets"("source");
+
+-- CreateIndex
+CREATE INDEX "webhook_secrets_active_idx" ON "webhook_secrets"("active");
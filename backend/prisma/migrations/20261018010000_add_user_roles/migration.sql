@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "role" TEXT NOT NULL DEFAULT 'viewer';
+
+-- Accounts created before roles existed already had full access
+UPDATE "users" SET "role" = 'admin';
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "execution_settings" ADD COLUMN "pushover_on_risk" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "execution_settings" ADD COLUMN "risk_max_shares" INTEGER;
+ALTER TABLE "execution_settings" ADD COLUMN "risk_max_notional" DECIMAL(65,30);
+ALTER TABLE "execution_settings" ADD COLUMN "risk_max_open_positions" INTEGER;
+ALTER TABLE "execution_settings" ADD COLUMN "risk_max_gross_exposure" DECIMAL(65,30);
+ALTER TABLE "execution_settings" ADD COLUMN "risk_max_orders_per_ticker" INTEGER;
+ALTER TABLE "execution_settings" ADD COLUMN "risk_strategy_caps" TEXT;
+
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN "strategy_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "executions_strategy_id_idx" ON "executions"("strategy_id");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "execution_settings" ADD COLUMN "pushover_on_kill_switch" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "execution_settings" ADD COLUMN "kill_daily_loss_limit" DECIMAL(65,30);
+ALTER TABLE "execution_settings" ADD COLUMN "kill_max_consecutive_losses" INTEGER;
+ALTER TABLE "execution_settings" ADD COLUMN "kill_max_broker_failures" INTEGER;
+ALTER TABLE "execution_settings" ADD COLUMN "session_realized_pnl" DECIMAL(65,30) NOT NULL DEFAULT 0;
+ALTER TABLE "execution_settings" ADD COLUMN "session_consecutive_losses" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "execution_settings" ADD COLUMN "session_broker_failures" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "execution_settings" ADD COLUMN "kill_switch_tripped" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "execution_settings" ADD COLUMN "kill_switch_tripped_at" TIMESTAMP(3);
+ALTER TABLE "execution_settings" ADD COLUMN "kill_switch_reason" TEXT;
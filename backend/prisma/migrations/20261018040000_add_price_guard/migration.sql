@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "execution_settings" ADD COLUMN "price_guard_enabled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "execution_settings" ADD COLUMN "price_guard_max_deviation_pct" DECIMAL(65,30);
+ALTER TABLE "execution_settings" ADD COLUMN "price_guard_max_ticks_outside" INTEGER;
+ALTER TABLE "execution_settings" ADD COLUMN "price_guard_action" TEXT NOT NULL DEFAULT 'hold';
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "positions" ADD COLUMN "exit_price" DECIMAL(65,30);
+ALTER TABLE "positions" ADD COLUMN "exited_quantity" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "positions" ADD COLUMN "realized_pnl" DECIMAL(65,30);
+ALTER TABLE "positions" ADD COLUMN "fees" DECIMAL(65,30) NOT NULL DEFAULT 0;
+ALTER TABLE "positions" ADD COLUMN "close_reason" TEXT;
+ALTER TABLE "positions" ADD COLUMN "holding_seconds" INTEGER;
+
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN "position_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "executions_position_id_idx" ON "executions"("position_id");
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "execution_settings" ADD COLUMN "position_accounting" TEXT NOT NULL DEFAULT 'intent';
+
+-- CreateTable
+CREATE TABLE "fills" (
+    "id" TEXT NOT NULL,
+    "fill_key" TEXT NOT NULL,
+    "execution_id" TEXT NOT NULL,
+    "position_id" TEXT,
+    "ticker" TEXT NOT NULL,
+    "order_action" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "applied_qty" INTEGER NOT NULL,
+    "price" DECIMAL(65,30) NOT NULL,
+    "status" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "fills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fills_fill_key_key" ON "fills"("fill_key");
+
+-- CreateIndex
+CREATE INDEX "fills_execution_id_idx" ON "fills"("execution_id");
+
+-- CreateIndex
+CREATE INDEX "fills_ticker_idx" ON "fills"("ticker");
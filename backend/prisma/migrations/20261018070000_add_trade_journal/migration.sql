@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "trades" (
+    "id" TEXT NOT NULL,
+    "position_id" TEXT NOT NULL,
+    "intent_id" TEXT,
+    "ticker" TEXT NOT NULL,
+    "side" TEXT NOT NULL,
+    "strategy_id" TEXT,
+    "timeframe" TEXT,
+    "quality_tier" TEXT,
+    "sec_bias" TEXT,
+    "snapshot_bias" TEXT,
+    "pre_fall_tier" TEXT,
+    "entry_execution_ids" TEXT NOT NULL DEFAULT '[]',
+    "exit_execution_ids" TEXT NOT NULL DEFAULT '[]',
+    "grade_snapshot" TEXT,
+    "sec_checklist_snapshot" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "entry_price" DECIMAL(65,30) NOT NULL,
+    "exit_price" DECIMAL(65,30),
+    "realized_pnl" DECIMAL(65,30),
+    "fees" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "outcome" TEXT NOT NULL,
+    "close_reason" TEXT,
+    "opened_at" TIMESTAMP(3) NOT NULL,
+    "closed_at" TIMESTAMP(3),
+    "holding_seconds" INTEGER,
+    "notes" TEXT,
+    "tags" TEXT,
+    "setup_rating" INTEGER,
+    "mistake" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trades_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trades_position_id_key" ON "trades"("position_id");
+
+-- CreateIndex
+CREATE INDEX "trades_ticker_idx" ON "trades"("ticker");
+
+-- CreateIndex
+CREATE INDEX "trades_strategy_id_idx" ON "trades"("strategy_id");
+
+-- CreateIndex
+CREATE INDEX "trades_outcome_idx" ON "trades"("outcome");
+
+-- CreateIndex
+CREATE INDEX "trades_opened_at_idx" ON "trades"("opened_at");
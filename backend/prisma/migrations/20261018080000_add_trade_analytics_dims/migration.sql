@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN "snapshot_section" TEXT,
+ADD COLUMN "entry_mode" TEXT;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "execution_settings" ADD COLUMN "broker_adapter" TEXT NOT NULL DEFAULT 'webhook',
+ADD COLUMN "broker_paper" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN "broker" TEXT,
+ADD COLUMN "broker_order_id" TEXT,
+ADD COLUMN "broker_status" TEXT,
+ADD COLUMN "broker_filled_quantity" INTEGER,
+ADD COLUMN "broker_avg_fill_price" DECIMAL(65,30);
+
+-- CreateIndex
+CREATE INDEX "executions_broker_order_id_idx" ON "executions"("broker_order_id");
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "execution_settings" ADD COLUMN "paper_slippage_pct" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN "paper_max_volume_pct" DECIMAL(65,30) NOT NULL DEFAULT 25;
+
+-- CreateTable
+CREATE TABLE "paper_orders" (
+    "id" TEXT NOT NULL,
+    "client_order_id" TEXT NOT NULL,
+    "execution_id" TEXT,
+    "symbol" TEXT NOT NULL,
+    "side" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "limit_price" DECIMAL(65,30),
+    "status" TEXT NOT NULL DEFAULT 'accepted',
+    "filled_quantity" INTEGER NOT NULL DEFAULT 0,
+    "avg_fill_price" DECIMAL(65,30),
+    "last_bar_at" TIMESTAMP(3),
+    "submitted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "paper_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "paper_orders_client_order_id_key" ON "paper_orders"("client_order_id");
+
+-- CreateIndex
+CREATE INDEX "paper_orders_status_idx" ON "paper_orders"("status");
+
+-- CreateIndex
+CREATE INDEX "paper_orders_symbol_idx" ON "paper_orders"("symbol");
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN "idempotency_key" TEXT;
+
+-- CreateTable
+CREATE TABLE "broker_deliveries" (
+    "id" TEXT NOT NULL,
+    "execution_id" TEXT NOT NULL,
+    "ticker" TEXT NOT NULL,
+    "idempotency_key" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 5,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_error" TEXT,
+    "last_status_code" INTEGER,
+    "delivered_at" TIMESTAMP(3),
+    "dead_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "broker_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "executions_idempotency_key_key" ON "executions"("idempotency_key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "broker_deliveries_execution_id_key" ON "broker_deliveries"("execution_id");
+
+-- CreateIndex
+CREATE INDEX "broker_deliveries_status_next_attempt_at_idx" ON "broker_deliveries"("status", "next_attempt_at");
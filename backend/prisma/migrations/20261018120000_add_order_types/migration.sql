@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN "order_type" TEXT NOT NULL DEFAULT 'limit',
+ADD COLUMN "stop_price" DECIMAL(65,30),
+ADD COLUMN "trail_amount" DECIMAL(65,30),
+ADD COLUMN "trail_percent" DECIMAL(65,30),
+ADD COLUMN "time_in_force" TEXT NOT NULL DEFAULT 'day',
+ADD COLUMN "take_profit_price" DECIMAL(65,30),
+ADD COLUMN "stop_loss_price" DECIMAL(65,30);
+
+-- Executions without a limit price were sent as market orders
+UPDATE "executions" SET "order_type" = 'market' WHERE "limit_price" IS NULL;
+
+-- AlterTable
+ALTER TABLE "paper_orders" ADD COLUMN "order_type" TEXT NOT NULL DEFAULT 'limit',
+ADD COLUMN "stop_price" DECIMAL(65,30),
+ADD COLUMN "trail_amount" DECIMAL(65,30),
+ADD COLUMN "trail_percent" DECIMAL(65,30),
+ADD COLUMN "time_in_force" TEXT NOT NULL DEFAULT 'day',
+ADD COLUMN "take_profit_price" DECIMAL(65,30),
+ADD COLUMN "stop_loss_price" DECIMAL(65,30),
+ADD COLUMN "parent_id" TEXT,
+ADD COLUMN "triggered_at" TIMESTAMP(3),
+ADD COLUMN "trail_extreme" DECIMAL(65,30);
+
+UPDATE "paper_orders" SET "order_type" = 'market' WHERE "limit_price" IS NULL;
+
+-- CreateTable
+CREATE TABLE "protective_orders" (
+    "id" TEXT NOT NULL,
+    "position_id" TEXT NOT NULL,
+    "execution_id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "order_type" TEXT NOT NULL,
+    "side" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "limit_price" DECIMAL(65,30),
+    "stop_price" DECIMAL(65,30),
+    "time_in_force" TEXT NOT NULL DEFAULT 'gtc',
+    "status" TEXT NOT NULL DEFAULT 'working',
+    "broker" TEXT,
+    "broker_order_id" TEXT,
+    "filled_quantity" INTEGER NOT NULL DEFAULT 0,
+    "avg_fill_price" DECIMAL(65,30),
+    "closed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "protective_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "paper_orders_parent_id_idx" ON "paper_orders"("parent_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "protective_orders_execution_id_kind_key" ON "protective_orders"("execution_id", "kind");
+
+-- CreateIndex
+CREATE INDEX "protective_orders_position_id_idx" ON "protective_orders"("position_id");
+
+-- CreateIndex
+CREATE INDEX "protective_orders_status_idx" ON "protective_orders"("status");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "execution_settings" ADD COLUMN "broker_payload_templates" TEXT;
@@ -0,0 +1,83 @@
+-- CreateTable
+CREATE TABLE "broker_accounts" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "adapter" TEXT NOT NULL DEFAULT 'webhook',
+    "paper" BOOLEAN NOT NULL DEFAULT true,
+    "webhook_url" TEXT,
+    "credentials_env" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "size_mode" TEXT NOT NULL DEFAULT 'multiplier',
+    "size_multiplier" DECIMAL(65,30) NOT NULL DEFAULT 1,
+    "fixed_quantity" INTEGER,
+    "max_notional" DECIMAL(65,30),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "broker_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "account_orders" (
+    "id" TEXT NOT NULL,
+    "execution_id" TEXT NOT NULL,
+    "account_id" TEXT NOT NULL,
+    "ticker" TEXT NOT NULL,
+    "order_action" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "idempotency_key" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "broker" TEXT,
+    "broker_order_id" TEXT,
+    "broker_status" TEXT,
+    "filled_quantity" INTEGER NOT NULL DEFAULT 0,
+    "avg_fill_price" DECIMAL(65,30),
+    "error_message" TEXT,
+    "closed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "account_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "account_positions" (
+    "id" TEXT NOT NULL,
+    "account_id" TEXT NOT NULL,
+    "ticker" TEXT NOT NULL,
+    "side" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "entry_price" DECIMAL(65,30) NOT NULL,
+    "exit_price" DECIMAL(65,30),
+    "exited_quantity" INTEGER NOT NULL DEFAULT 0,
+    "realized_pnl" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "opened_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closed_at" TIMESTAMP(3),
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "account_positions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "broker_accounts_name_key" ON "broker_accounts"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "account_orders_idempotency_key_key" ON "account_orders"("idempotency_key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "account_orders_execution_id_account_id_key" ON "account_orders"("execution_id", "account_id");
+
+-- CreateIndex
+CREATE INDEX "account_orders_status_next_attempt_at_idx" ON "account_orders"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "account_orders_account_id_idx" ON "account_orders"("account_id");
+
+-- CreateIndex
+CREATE INDEX "account_positions_account_id_ticker_idx" ON "account_positions"("account_id", "ticker");
+
+-- CreateIndex
+CREATE INDEX "account_positions_closed_at_idx" ON "account_positions"("closed_at");
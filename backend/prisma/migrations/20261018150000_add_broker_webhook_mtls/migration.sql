@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "execution_settings" ADD COLUMN     "broker_webhook_mtls" BOOLEAN NOT NULL DEFAULT false;
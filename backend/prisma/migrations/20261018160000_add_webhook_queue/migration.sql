@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "webhook_logs" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "started_at" TIMESTAMP(3),
+ADD COLUMN     "ticker" TEXT;
+
+-- CreateIndex
+CREATE INDEX "webhook_logs_status_timestamp_idx" ON "webhook_logs"("status", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "webhook_logs_ticker_idx" ON "webhook_logs"("ticker");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "webhook_logs" ADD COLUMN     "replay_of" TEXT;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "execution_settings" ADD COLUMN     "webhook_idempotency_window_seconds" INTEGER NOT NULL DEFAULT 300;
+
+-- AlterTable
+ALTER TABLE "webhook_logs" ADD COLUMN     "idempotency_key" TEXT,
+ADD COLUMN     "duplicate_of" TEXT;
+
+-- CreateTable
+CREATE TABLE "webhook_idempotency_keys" (
+    "key" TEXT NOT NULL,
+    "log_id" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webhook_idempotency_keys_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "webhook_idempotency_keys_expires_at_idx" ON "webhook_idempotency_keys"("expires_at");
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "symbol_locks" (
+    "key" TEXT NOT NULL,
+    "holder" TEXT NOT NULL,
+    "acquired_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "symbol_locks_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "symbol_locks_expires_at_idx" ON "symbol_locks"("expires_at");
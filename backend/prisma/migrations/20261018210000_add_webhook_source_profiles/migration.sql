@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "webhook_logs" ADD COLUMN     "source_payload" TEXT;
+
+-- CreateTable
+CREATE TABLE "webhook_source_profiles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "fields" TEXT NOT NULL,
+    "defaults" TEXT NOT NULL DEFAULT '{}',
+    "passthrough" BOOLEAN NOT NULL DEFAULT true,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "webhook_source_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_source_profiles_name_key" ON "webhook_source_profiles"("name");
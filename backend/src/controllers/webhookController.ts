@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { acquireSymbolLock, releaseSymbolLock } from '../services/symbolLock';
@@ -6,9 +7,25 @@ import { activateScheduler } from '../services/executionScheduler';
 import { checkSecFilings } from '../services/secCallbackService';
 import { runChecklist } from '../services/secChecklistService';
 import { captureGradeSnapshot } from '../services/gradeSnapshotService';
+import { checkPreTradeRisk, enforcePreTradeRisk } from '../services/riskService';
+import { applyPositionExit, buildPositionExit, exitPriceFor, reconcileExitFill } from '../services/positionExitService';
+import { applyFill, isFillAccounting, FillResult } from '../services/fillAccountingService';
+import { linkEntryExecution, syncTrade } from '../services/tradeJournalService';
+import { recordClosedTrade } from '../services/killSwitchService';
+import { enforcePriceGuard } from '../services/priceGuardService';
 import { checkPretradeStateOnce } from '../services/pretradeStateService';
 import { tryAutoApproveForModeVShort, registerWaitWatch, revalidateModeVOnOrder } from '../services/modeVShortService';
 import { captureSignal } from '../services/liveTradeExportService';
+import { parseOrderSpec, orderSpecData, orderSpecOf, OrderSpecInput, isExitPayload } from '../services/orderSpec';
+import { cancelProtectiveOrders } from '../services/protectiveOrderService';
+import { cancelExecutionOrder, checkOrderEdit, replaceExecutionOrder } from '../services/brokerOrderControl';
+import { cancelAccountOrders } from '../services/accountOrderService';
+import { kickWebhookQueue, requeueWebhookLog } from '../services/webhookQueue';
+import { parseWebhookHistoryCsv, replayItemsFromLogs, replayWebhookLog, replayWebhooks } from '../services/webhookReplayService';
+import { claimIdempotencyKey, DEFAULT_IDEMPOTENCY_WINDOW_SECONDS, idempotencyKeyFor, releaseIdempotencyKey } from '../services/webhookIdempotency';
+import { summarizeFieldErrors, validateWebhookPayload, WEBHOOK_EVENTS, WebhookFieldError, webhookJsonSchema } from '../services/webhookSchema';
+import { applySourceProfile, findSourceProfile, webhookSourceFor } from '../services/webhookSourceProfile';
+import { hasRole } from '../middleware/auth';
 
 /**
  * Helper to safely get settings without failing on missing columns
@@ -38,6 +55,7 @@ async function getSettingsSafe() {
 /**
  * Unified Webhook Handler
  * POST /api/webhook
+ * POST /api/webhook/src/:profile — a sender's own field names, mapped by its source profile
  *
  * Handles:
  * - WALL signals (candidate cards for review with gate scoring)
@@ -68,23 +86,101 @@ export async function handleWebhook(req: Request, res: Response) {
   let logId: string | undefined;
 
   try {
+    const source = webhookSourceFor(req, res.locals.webhookSource);
+
     // CRITICAL: TradingView has a 3-second timeout. We must respond FAST.
-    // Step 1: Quick write to database (acknowledge receipt)
+    // Step 1: A source profile (POST /api/webhook/src/:profile) maps the sender's fields onto the signal shape
+    let body = req.body;
+    let sourcePayload: any = null;
+    let mappingErrors: WebhookFieldError[] = [];
+    if (req.params.profile) {
+      const profile = await findSourceProfile(req.params.profile as string);
+      if (!profile) {
+        const log = await prisma.webhookLog.create({
+          data: {
+            source,
+            payload: JSON.stringify(req.body ?? null),
+            status: 'invalid',
+            error: `No active source profile "${source}"`
+          }
+        });
+        console.warn(`⚠️ Webhook rejected: no active source profile "${source}" (log: ${log.id})`);
+        return res.status(404).json({ success: false, received: true, log_id: log.id, error: `No active source profile "${source}"` });
+      }
+      sourcePayload = req.body;
+      ({ payload: body, errors: mappingErrors } = applySourceProfile(profile, req.body));
+    }
+
+    // Step 2: Extract minimal info for the queue row and the immediate response
+    const { event, type, ticker, symbol, action } = body;
+    const normalizedTicker = ticker || symbol || 'UNKNOWN';
+    const signalType = String(event || type || (action ? 'ORDER' : 'WALL')).toUpperCase();
+
+    // Step 3: Check the payload against its event schema — field errors are stored, never queued
+    const errors = [...mappingErrors, ...(await validateWebhookPayload(body)).errors];
+
+    // Step 4: Duplicate check — the first log to claim the alert's key inside the window owns it
+    const newLogId = crypto.randomUUID();
+    let idempotencyKey: string | null = null;
+    let duplicateOf: string | null = null;
+    if (errors.length === 0) {
+      const settings = await getSettingsSafe();
+      const windowSeconds = settings?.webhook_idempotency_window_seconds ?? DEFAULT_IDEMPOTENCY_WINDOW_SECONDS;
+      if (windowSeconds > 0) {
+        idempotencyKey = idempotencyKeyFor(body);
+        duplicateOf = await claimIdempotencyKey(idempotencyKey, newLogId, windowSeconds);
+      }
+    }
+
+    // Step 5: Quick write to database — the row is the job; it survives a restart
     const log = await prisma.webhookLog.create({
       data: {
-        source: 'tradingview',
-        payload: JSON.stringify(req.body),
-        status: 'processing'
+        id: newLogId,
+        source,
+        payload: JSON.stringify(body),
+        source_payload: sourcePayload !== null ? JSON.stringify(sourcePayload) : null,
+        status: errors.length > 0 ? 'invalid' : duplicateOf ? 'duplicate' : 'queued',
+        ticker: typeof (ticker || symbol) === 'string' ? (ticker || symbol).toUpperCase() : null,
+        idempotency_key: idempotencyKey,
+        duplicate_of: duplicateOf,
+        ...(errors.length > 0 && { error: summarizeFieldErrors(errors), validation_errors: JSON.stringify(errors) }),
+        ...(duplicateOf && { error: `Duplicate of webhook ${duplicateOf}` })
       }
+    }).catch(async (error) => {
+      // Without its log the key would turn TradingView's re-send into a "duplicate" of nothing
+      if (idempotencyKey && !duplicateOf) await releaseIdempotencyKey(idempotencyKey, newLogId).catch(() => {});
+      throw error;
     });
     logId = log.id;
 
-    // Step 2: Extract minimal info for immediate response
-    const { event, type, ticker, symbol, action } = req.body;
-    const normalizedTicker = ticker || symbol || 'UNKNOWN';
-    const signalType = (event || type || (action ? 'ORDER' : 'WALL')).toUpperCase();
+    if (errors.length > 0) {
+      console.warn(`⚠️ Webhook rejected: ${signalType} ${normalizedTicker} — ${errors.length} field error(s) (log: ${logId})`);
+      return res.status(422).json({
+        success: false,
+        received: true,
+        log_id: logId,
+        type: signalType,
+        ticker: normalizedTicker,
+        message: 'Webhook payload does not match its schema — see GET /api/webhook/schema',
+        errors
+      });
+    }
+
+    if (duplicateOf) {
+      console.warn(`⚠️ Duplicate webhook: ${signalType} ${normalizedTicker} — already received as ${duplicateOf} (log: ${logId})`);
+      return res.status(200).json({
+        success: true,
+        received: true,
+        duplicate: true,
+        log_id: duplicateOf,
+        duplicate_log_id: logId,
+        type: signalType,
+        ticker: normalizedTicker,
+        message: 'Duplicate alert — already received, not processed again'
+      });
+    }
 
-    // Step 3: IMMEDIATELY acknowledge receipt to TradingView (before processing)
+    // Step 6: IMMEDIATELY acknowledge receipt to TradingView (before processing)
     // This prevents the 3-second timeout from dropping webhooks
     res.status(200).json({
       success: true,
@@ -92,23 +188,11 @@ export async function handleWebhook(req: Request, res: Response) {
       log_id: logId,
       type: signalType,
       ticker: normalizedTicker,
-      message: 'Webhook received, processing asynchronously'
+      message: 'Webhook received, queued for processing'
     });
 
-    // Step 4: Process webhook asynchronously (after response sent)
-    // Use setImmediate to ensure response is flushed first
-    setImmediate(async () => {
-      try {
-        await processWebhookAsync(req.body, logId!);
-      } catch (error: any) {
-        console.error(`❌ Async webhook processing error for ${logId}:`, error.message);
-        // Update log with error
-        await prisma.webhookLog.update({
-          where: { id: logId },
-          data: { status: 'error', error: error.message }
-        }).catch(e => console.error('Failed to update webhook log:', e));
-      }
-    });
+    // Step 7: The webhook queue processes it (see webhookQueue) — nudge it so it starts now
+    kickWebhookQueue();
 
     return; // Response already sent
 
@@ -125,29 +209,130 @@ export async function handleWebhook(req: Request, res: Response) {
   }
 }
 
+/**
+ * Normalize a webhook body: TradingView aliases (symbol, action, tif, …),
+ * prices rebuilt from ticks, and the event type validated. Throws when the
+ * payload can't be processed. Shared by processing and dry-run replay.
+ */
+function normalizeSignal(body: any) {
+  const {
+    // New WALL format fields
+    event,
+    ticker,
+    symbol,  // TradingView alternative for ticker
+    dir,
+    action,  // TradingView alternative for dir (buy/sell)
+    price,
+    // Legacy/ORDER fields
+    type,
+    limit_price,
+    order_action,
+    stop_price,         // Stop trigger (ORDER/EXIT stop orders)
+    // Order type fields (ORDER/EXIT — see orderSpec)
+    order_type,         // market, limit, stop, stop_limit, trailing_stop
+    trail_amount,
+    trail_percent,
+    time_in_force,
+    tif,                // alias for time_in_force
+    take_profit,        // alias for take_profit_price
+    take_profit_price,
+    stop_loss,          // alias for stop_loss_price
+    stop_loss_price,
+    // Tick-based pricing fields (for TradingView integer cents workaround)
+    price_ticks,        // Integer ticks for price (WALL signals)
+    limit_price_ticks,  // Integer ticks for limit_price (ORDER/EXIT signals)
+    stop_price_ticks,
+    take_profit_ticks,
+    stop_loss_ticks,
+    mintick             // Tick size multiplier (e.g., 0.01)
+  } = body;
+
+  // Helper: Reconstruct price from ticks: limitPx = ticks * mintick
+  const reconstructPrice = (
+    ticks: number | undefined,
+    mintickValue: number | undefined,
+    fallbackPrice: number | undefined
+  ): number => {
+    if (ticks !== undefined && mintickValue !== undefined && mintickValue > 0) {
+      return ticks * mintickValue;
+    }
+    return fallbackPrice || 0;
+  };
+
+  // Normalize prices - prefer tick-based reconstruction, fall back to direct values
+  const normalizedPrice = reconstructPrice(price_ticks, mintick, price);
+  const normalizedLimitPrice = reconstructPrice(limit_price_ticks, mintick, limit_price);
+
+  // Order type and attached legs — validated against the order side in the ORDER/EXIT handlers
+  const orderFields: OrderSpecInput = {
+    order_type,
+    stop_price: reconstructPrice(stop_price_ticks, mintick, stop_price) || undefined,
+    trail_amount,
+    trail_percent,
+    time_in_force: time_in_force ?? tif,
+    take_profit_price: reconstructPrice(take_profit_ticks, mintick, take_profit_price ?? take_profit) || undefined,
+    stop_loss_price: reconstructPrice(stop_loss_ticks, mintick, stop_loss_price ?? stop_loss) || undefined
+  };
+
+  // Normalize TradingView format to internal format
+  // symbol -> ticker, action -> dir, infer event from action
+  const normalizedTicker = ticker || symbol;
+  const normalizedDir = dir || (action === 'sell' ? 'Short' : action === 'buy' ? 'Long' : null);
+  const normalizedAction = order_action || action;
+
+  // Step 1: Validation - verify required fields
+  if (!normalizedTicker) {
+    throw new Error('Missing required field: ticker or symbol');
+  }
+
+  // event is required — reject payloads that omit it to prevent misclassification
+  if (!event && !type) {
+    throw new Error('Missing required field: event (must be WALL, ORDER, EXIT, or SL_HIT)');
+  }
+
+  // Determine signal type from event field (no inference fallback)
+  const signalType = (event || type).toUpperCase();
+
+  // Validate event is a known type
+  if (!(WEBHOOK_EVENTS as readonly string[]).includes(signalType)) {
+    throw new Error(`Unknown event type: "${signalType}". Must be one of: ${WEBHOOK_EVENTS.join(', ')}`);
+  }
+
+  return {
+    signalType,
+    ticker: normalizedTicker,
+    dir: normalizedDir,
+    action: normalizedAction,
+    price: normalizedPrice,
+    limit_price: normalizedLimitPrice,
+    order: orderFields
+  };
+}
+
 /**
  * Async webhook processor - runs after immediate acknowledgment
- * This contains all the heavy processing that was causing timeouts
+ * This contains all the heavy processing that was causing timeouts.
+ * Called by the webhook queue once it has claimed the log row.
  */
-async function processWebhookAsync(body: any, logId: string) {
+export async function processWebhookAsync(body: any, logId: string) {
   try {
+    // Payloads accepted before a schema change, replays and retries are checked here too
+    const { errors } = await validateWebhookPayload(body);
+    if (errors.length > 0) {
+      await prisma.webhookLog.update({
+        where: { id: logId },
+        data: { status: 'invalid', error: summarizeFieldErrors(errors), validation_errors: JSON.stringify(errors) }
+      });
+      console.warn(`⚠️ Webhook invalid: ${errors.length} field error(s) (log: ${logId})`);
+      return;
+    }
+
     const {
-      // New WALL format fields
-      event,
-      ticker,
-      symbol,  // TradingView alternative for ticker
-      dir,
-      action,  // TradingView alternative for dir (buy/sell)
-      price,
       strategy_id,
       tf,
       intent,
       gates,
-      // Legacy/ORDER fields
-      type,
-      limit_price,
       quantity,
-      order_action,
       // Legacy quality fields (still supported for backwards compat)
       quality_tier,
       quality_score,
@@ -155,54 +340,18 @@ async function processWebhookAsync(body: any, logId: string) {
       gates_total,
       primary_blocker,
       card_state,
-      // Stop loss fields
-      stop_price,         // Price at which stop loss was triggered (SL_HIT signals)
-      // Tick-based pricing fields (for TradingView integer cents workaround)
-      price_ticks,        // Integer ticks for price (WALL signals)
-      limit_price_ticks,  // Integer ticks for limit_price (ORDER/EXIT signals)
-      mintick             // Tick size multiplier (e.g., 0.01)
+      stop_price  // Price at which stop loss was triggered (SL_HIT)
     } = body;
 
-    // Helper: Reconstruct price from ticks: limitPx = ticks * mintick
-    const reconstructPrice = (
-      ticks: number | undefined,
-      mintickValue: number | undefined,
-      fallbackPrice: number | undefined
-    ): number => {
-      if (ticks !== undefined && mintickValue !== undefined && mintickValue > 0) {
-        return ticks * mintickValue;
-      }
-      return fallbackPrice || 0;
-    };
-
-    // Normalize prices - prefer tick-based reconstruction, fall back to direct values
-    const normalizedPrice = reconstructPrice(price_ticks, mintick, price);
-    const normalizedLimitPrice = reconstructPrice(limit_price_ticks, mintick, limit_price);
-
-    // Normalize TradingView format to internal format
-    // symbol -> ticker, action -> dir, infer event from action
-    const normalizedTicker = ticker || symbol;
-    const normalizedDir = dir || (action === 'sell' ? 'Short' : action === 'buy' ? 'Long' : null);
-    const normalizedAction = order_action || action;
-
-    // Step 1: Validation - verify required fields
-    if (!normalizedTicker) {
-      throw new Error('Missing required field: ticker or symbol');
-    }
-
-    // event is required — reject payloads that omit it to prevent misclassification
-    if (!event && !type) {
-      throw new Error('Missing required field: event (must be WALL, ORDER, EXIT, or SL_HIT)');
-    }
-
-    // Determine signal type from event field (no inference fallback)
-    const signalType = (event || type).toUpperCase();
-
-    // Validate event is a known type
-    const validEventTypes = ['WALL', 'SIGNAL', 'ORDER', 'EXIT', 'SL_HIT', 'CONFIRMED', 'WALL_55PCT'];
-    if (!validEventTypes.includes(signalType)) {
-      throw new Error(`Unknown event type: "${signalType}". Must be one of: ${validEventTypes.join(', ')}`);
-    }
+    const {
+      signalType,
+      ticker: normalizedTicker,
+      dir: normalizedDir,
+      action: normalizedAction,
+      price: normalizedPrice,
+      limit_price: normalizedLimitPrice,
+      order: orderFields
+    } = normalizeSignal(body);
 
     // Validate event type
     if (signalType === 'WALL' || signalType === 'SIGNAL') {
@@ -250,7 +399,8 @@ async function processWebhookAsync(body: any, logId: string) {
           order_action: normalizedAction,
           quality_tier,
           quality_score,
-          strategy_id
+          strategy_id,
+          order: orderFields
         });
         break;
 
@@ -261,7 +411,55 @@ async function processWebhookAsync(body: any, logId: string) {
           dir: normalizedDir,
           price: normalizedPrice,  // Use reconstructed price
           limit_price: normalizedLimitPrice,  // Use reconstructed limit price
-          quantity
+          quantity,
+          order: orderFields
+        });
+        break;
+
+      case 'SCALE_IN':
+        // Add to the open position — its own order, delayed / approved like ORDER
+        result = await handleScaleInSignal({
+          ticker: normalizedTicker,
+          dir: normalizedDir,
+          price: normalizedPrice,
+          limit_price: normalizedLimitPrice,
+          quantity,
+          order_action: normalizedAction,
+          strategy_id,
+          order: orderFields
+        });
+        break;
+
+      case 'PARTIAL_EXIT':
+        // Take partial profit — an EXIT for part of the position
+        result = await handleExitSignal({
+          ticker: normalizedTicker,
+          dir: normalizedDir,
+          price: normalizedPrice,
+          limit_price: normalizedLimitPrice,
+          quantity,
+          qty_percent: body.qty_percent,
+          partial: true,
+          order: orderFields
+        });
+        break;
+
+      case 'CANCEL':
+        // Cancel a resting entry (pending locally or working at the broker)
+        result = await handleCancelSignal({
+          ticker: normalizedTicker,
+          execution_id: body.execution_id
+        });
+        break;
+
+      case 'MODIFY':
+        // Move a resting entry's limit / stop / trail or change its size
+        result = await handleModifySignal({
+          ticker: normalizedTicker,
+          execution_id: body.execution_id,
+          limit_price: normalizedLimitPrice || undefined,
+          quantity,
+          order: orderFields
         });
         break;
 
@@ -281,7 +479,8 @@ async function processWebhookAsync(body: any, logId: string) {
           dir: normalizedDir,
           quantity,
           fill_price_ticks: body.fill_price_ticks,
-          mintick: body.mintick
+          mintick: body.mintick,
+          fill_id: body.fill_id
         });
         break;
 
@@ -351,6 +550,532 @@ async function processWebhookAsync(body: any, logId: string) {
   }
 }
 
+/**
+ * What earlier rows of a dry-run batch would have left behind, so a replayed
+ * session sees its own WALL cards, pending orders and positions. Nothing here
+ * is written. `fresh` starts from an empty book instead of the live one
+ * (ticker configs and settings are always the live ones).
+ */
+export interface DryRunState {
+  fresh: boolean;
+  intents: Map<string, { id: string | null; status: string; executed: boolean }>;
+  pending: Map<string, { kind: 'entry' | 'exit' | 'partial_exit'; quantity: number }>;
+  positions: Map<string, { id: string | null; side: string; quantity: number; ttp_exit_price: number | null } | null>;  // null: closed
+}
+
+export interface DryRunOutcome {
+  event: string | null;
+  ticker: string | null;
+  outcome: 'processed' | 'blocked' | 'rejected' | 'error';
+  reason?: string;
+  message: string;
+  errors?: WebhookFieldError[];  // schema violations (reason invalid_payload)
+  would: string[];          // what processing would have done
+  not_evaluated: string[];  // checks that need live state a replay doesn't have
+}
+
+export function createDryRunState(fresh = false): DryRunState {
+  return { fresh, intents: new Map(), pending: new Map(), positions: new Map() };
+}
+
+/**
+ * Run a payload through the same normalization and blocking rules as
+ * processWebhookAsync — the handlers' rule functions (orderRefusal,
+ * scaleInRefusal, exitRefusal, …) against the dry run's book, plus the
+ * pre-trade risk limits and, for a MODIFY, the edit check — and report what
+ * would have happened. Reads only: no intents, executions or audit entries are
+ * written and the broker is never contacted.
+ */
+export async function dryRunWebhook(body: any, state: DryRunState = createDryRunState()): Promise<DryRunOutcome> {
+  const event = typeof (body?.event || body?.type) === 'string' ? (body.event || body.type).toUpperCase() : null;
+  const rawTicker = body?.ticker || body?.symbol;
+  const base = { event, ticker: typeof rawTicker === 'string' ? rawTicker.toUpperCase() : null, would: [] as string[], not_evaluated: [] as string[] };
+
+  const { errors } = await validateWebhookPayload(body);
+  if (errors.length > 0) {
+    return { ...base, outcome: 'error', reason: 'invalid_payload', message: summarizeFieldErrors(errors), errors };
+  }
+
+  let signal: ReturnType<typeof normalizeSignal>;
+  try {
+    signal = normalizeSignal(body);
+  } catch (error: any) {
+    return { ...base, outcome: 'error', message: error.message };
+  }
+
+  const tickerUpper = String(signal.ticker).toUpperCase();
+  const result = { ...base, event: signal.signalType, ticker: tickerUpper };
+  const blocked = (reason: string, message: string): DryRunOutcome => ({ ...result, outcome: 'blocked', reason, message });
+  const rejected = (reason: string, message: string): DryRunOutcome => ({ ...result, outcome: 'rejected', reason, message });
+
+  const settings = await getSettingsSafe();
+  const isFullMode = (settings?.execution_mode || 'safe') === 'full';
+  const tickerConfig = await prisma.tickerConfig.findUnique({ where: { ticker: tickerUpper } });
+
+  const openPosition = async () => {
+    if (state.positions.has(tickerUpper)) return state.positions.get(tickerUpper)!;
+    if (state.fresh) return null;
+    const position = await prisma.position.findFirst({ where: { ticker: tickerUpper, closed_at: null } });
+    return position
+      ? { id: position.id, side: position.side, quantity: position.quantity, ttp_exit_price: position.ttp_exit_price !== null ? Number(position.ttp_exit_price) : null }
+      : null;
+  };
+  const hasPendingOrder = async () => state.pending.has(tickerUpper)
+    || (!state.fresh && !!await prisma.execution.findFirst({ where: { ticker: tickerUpper, status: { in: ['pending', 'executing'] } } }));
+  const refused = (refusal: SignalRefusal): DryRunOutcome => ({ ...result, outcome: refusal.outcome, reason: refusal.reason, message: refusal.message });
+  // Risk limits are checked against the live book — a fresh replay has none to check against
+  const riskRefusal = async (order: Parameters<typeof checkPreTradeRisk>[0], label: string) => {
+    if (state.fresh) {
+      result.not_evaluated.push('risk limits');
+      return null;
+    }
+    const violation = await checkPreTradeRisk(order);
+    return violation ? blocked('risk_rejected', `${label} rejected by risk limit - ${violation.reason}`) : null;
+  };
+  const liveIntent = async (statuses: string[]) => {
+    const known = state.intents.get(tickerUpper);
+    if (known) return statuses.includes(known.status) ? known : null;
+    if (state.fresh) return null;
+    const intent = await prisma.tradeIntent.findFirst({
+      where: { ticker: tickerUpper, status: { in: statuses }, expires_at: { gt: new Date() } },
+      orderBy: { created_date: 'desc' }
+    });
+    if (!intent) return null;
+    const executed = await prisma.execution.findFirst({
+      where: { intent_id: intent.id, status: { in: ['executed', 'partially_filled', 'confirmed'] } }
+    });
+    return { id: intent.id, status: intent.status, executed: !!executed };
+  };
+
+  switch (signal.signalType) {
+    case 'WALL':
+    case 'SIGNAL': {
+      if (signal.dir !== 'Long' && signal.dir !== 'Short') {
+        return { ...result, outcome: 'error', message: signal.dir ? `Invalid direction: ${signal.dir}. Must be "Long" or "Short"` : 'Missing required field: dir (Long/Short)' };
+      }
+      const reason = tickerBlockReason(tickerConfig, { alerts: true });
+      if (reason) return rejected('ticker_blocked', `Ticker ${tickerUpper} is blocked - signal rejected (${reason})`);
+
+      const existing = await liveIntent(['pending', 'swiped_on', 'cancelled']);
+      if (existing) {
+        result.would.push(existing.status === 'cancelled' ? `Resurrect cancelled intent${existing.id ? ` ${existing.id}` : ''} as pending` : `Update intent${existing.id ? ` ${existing.id}` : ''}`);
+        state.intents.set(tickerUpper, { ...existing, status: existing.status === 'cancelled' ? 'pending' : existing.status });
+      } else {
+        result.would.push(`Create a ${signal.dir} WALL card for ${tickerUpper}`);
+        state.intents.set(tickerUpper, { id: null, status: 'pending', executed: false });
+      }
+      result.would.push('Run the SEC filing check');
+      return { ...result, outcome: 'processed', message: `WALL card ${existing ? 'updated' : 'created'} for ${tickerUpper}` };
+    }
+
+    case 'ORDER':
+    case 'ENTRY': {
+      const refusal = orderRefusal(tickerUpper, {
+        tickerConfig,
+        hasPosition: !!(await openPosition()),
+        hasPendingOrder: await hasPendingOrder(),
+        refusedIntentStatus: (await liveIntent(['swiped_deny', 'swiped_off']))?.status ?? null
+      });
+      if (refusal) return refused(refusal);
+
+      const action = signal.action || (signal.dir === 'Long' ? 'buy' : signal.dir === 'Short' ? 'sell' : null);
+      if (!action) return { ...result, outcome: 'error', message: 'Missing order_action or dir field' };
+      const limitPrice = signal.limit_price || signal.price || 0;
+      const { spec, error } = parseOrderSpec({ ...signal.order, limit_price: limitPrice }, { side: action, is_exit: false });
+      if (!spec) return { ...result, outcome: 'error', message: `Invalid ORDER: ${error}` };
+
+      const quantity = body.quantity || 1;
+      const risk = await riskRefusal({
+        ticker: tickerUpper,
+        order_action: action,
+        quantity,
+        limit_price: limitPrice || null,
+        strategy_id: body.strategy_id || null,
+        raw_payload: JSON.stringify({ event: 'ORDER', ticker: tickerUpper, limit_price: limitPrice, quantity, order_action: action, strategy_id: body.strategy_id || undefined }),
+        ...orderSpecData(spec)
+      }, 'Order');
+      if (risk) return risk;
+
+      const intent = await liveIntent(['pending', 'swiped_on']);
+      const reentry = reentryRefusal(tickerUpper, !!intent?.executed);
+      if (reentry) return refused(reentry);
+
+      result.would.push(`Create ${isFullMode ? 'an executing' : 'a pending'} ${action} ${quantity} ${spec.order_type} execution at ${limitPrice}`);
+      result.would.push(intent ? `Link it to intent${intent.id ? ` ${intent.id}` : ''}` : 'Create an ORDER_ONLY card');
+      if (isFullMode) {
+        result.would.push('Forward to the broker (not contacted in a dry run)');
+        result.not_evaluated.push('price guard');
+        state.positions.set(tickerUpper, { id: null, side: action === 'buy' ? 'Long' : 'Short', quantity, ttp_exit_price: null });
+        state.intents.set(tickerUpper, { id: intent?.id ?? null, status: 'swiped_on', executed: true });
+      } else {
+        result.not_evaluated.push('approval');
+        state.pending.set(tickerUpper, { kind: 'entry', quantity });
+        state.intents.set(tickerUpper, intent ?? { id: null, status: 'pending', executed: false });
+      }
+      return { ...result, outcome: 'processed', message: isFullMode ? 'Execution would be sent immediately (full mode)' : 'Execution would be created - pending' };
+    }
+
+    case 'SCALE_IN': {
+      const position = await openPosition();
+      const refusal = scaleInRefusal(tickerUpper, {
+        tickerConfig,
+        position,
+        hasPendingOrder: await hasPendingOrder()
+      }, { dir: signal.dir, order_action: signal.action });
+      if (refusal || !position) return refused(refusal as SignalRefusal);
+
+      const action = position.side === 'Short' ? 'sell' : 'buy';
+      const limitPrice = signal.limit_price || signal.price || 0;
+      const { spec, error } = parseOrderSpec({ ...signal.order, limit_price: limitPrice }, { side: action, is_exit: false });
+      if (!spec) return { ...result, outcome: 'error', message: `Invalid SCALE_IN: ${error}` };
+
+      const quantity = Number(body.quantity);
+      const risk = await riskRefusal({
+        ticker: tickerUpper,
+        order_action: action,
+        quantity,
+        limit_price: limitPrice || null,
+        strategy_id: body.strategy_id || null,
+        raw_payload: JSON.stringify({ event: 'SCALE_IN', ticker: tickerUpper, limit_price: limitPrice, quantity, order_action: action, position_id: position.id ?? undefined, strategy_id: body.strategy_id || undefined }),
+        ...orderSpecData(spec)
+      }, 'Scale-in');
+      if (risk) return risk;
+
+      result.would.push(`Create ${isFullMode ? 'an executing' : 'a pending'} ${action} ${quantity} ${spec.order_type} scale-in at ${limitPrice} (${position.quantity} → ${position.quantity + quantity})`);
+      if (isFullMode) {
+        result.would.push('Forward to the broker (not contacted in a dry run)');
+        result.not_evaluated.push('price guard');
+        state.positions.set(tickerUpper, { ...position, quantity: position.quantity + quantity });
+      } else {
+        result.not_evaluated.push('approval');
+        state.pending.set(tickerUpper, { kind: 'entry', quantity });
+      }
+      return { ...result, outcome: 'processed', message: isFullMode ? 'Scale-in would be sent immediately (full mode)' : 'Scale-in would be created - pending' };
+    }
+
+    case 'EXIT':
+    case 'PARTIAL_EXIT': {
+      const partial = signal.signalType === 'PARTIAL_EXIT';
+      const position = await openPosition();
+      const exitPrice = signal.limit_price || signal.price || 0;
+      const refusal = exitRefusal(tickerUpper, signal.signalType, position, exitPrice);
+      if (refusal || !position) return refused(refusal as SignalRefusal);
+
+      const side = position.side === 'Short' ? 'buy' : 'sell';
+      const { spec, error } = parseOrderSpec({ ...signal.order, limit_price: exitPrice }, { side, is_exit: true });
+      if (!spec) return { ...result, outcome: 'error', message: `Invalid ${signal.signalType}: ${error}` };
+
+      const quantity = exitQuantity(position.quantity, { partial, quantity: body.quantity, qty_percent: body.qty_percent });
+      // Exits queued earlier in the batch, plus the live ones against a live position
+      const queued = state.pending.get(tickerUpper);
+      const liveExits = !state.fresh && position.id ? await pendingExitsFor(tickerUpper, position.id) : [];
+
+      if (partial) {
+        const partialRefusal = partialExitRefusal(tickerUpper, {
+          positionQty: position.quantity,
+          exitQty: quantity,
+          qty_percent: body.qty_percent,
+          pendingFullExit: queued?.kind === 'exit' || liveExits.some((exec: any) => JSON.parse(exec.raw_payload).event === 'EXIT'),
+          pendingPartialQty: (queued?.kind === 'partial_exit' ? queued.quantity : 0)
+            + liveExits.reduce((sum: number, exec: any) => sum + exec.quantity, 0)
+        });
+        if (partialRefusal) return refused(partialRefusal);
+      } else if (queued?.kind === 'exit' || queued?.kind === 'partial_exit' || liveExits.length > 0) {
+        result.would.push('Cancel the pending exit(s) it replaces');
+      }
+      result.would.push(`Create a ${side} ${quantity} ${spec.order_type} ${partial ? 'partial exit' : 'exit'} at ${exitPrice}`);
+      result.not_evaluated.push('exit approval rules', 'price guard');
+      state.pending.set(tickerUpper, partial
+        ? { kind: 'partial_exit', quantity: (queued?.kind === 'partial_exit' ? queued.quantity : 0) + quantity }
+        : { kind: 'exit', quantity });
+      return { ...result, outcome: 'processed', message: `${partial ? 'Partial exit' : 'Exit'} would be created for ${tickerUpper}` };
+    }
+
+    case 'CANCEL':
+    case 'MODIFY': {
+      const verb = signal.signalType === 'CANCEL' ? 'Cancel' : 'Modify';
+      // An entry earlier in the batch is still pending here; otherwise look at the live queue
+      const queuedEntry = state.pending.get(tickerUpper)?.kind === 'entry' && !body.execution_id;
+      const target = queuedEntry
+        ? { id: null, status: 'pending' }
+        : state.fresh ? null : await findRestingOrder(tickerUpper, body.execution_id);
+      if (!target) {
+        return rejected('no_resting_order', `No resting order for ${tickerUpper} - ${signal.signalType} signal rejected`);
+      }
+      const label = `${target.status} execution${target.id ? ` ${target.id}` : ''}`;
+
+      if (signal.signalType === 'CANCEL') {
+        result.would.push(`Cancel the ${label}`);
+        if (target.status !== 'pending') result.not_evaluated.push('broker acknowledgment');
+        if (queuedEntry) state.pending.delete(tickerUpper);
+      } else {
+        // A batch's own entry has no stored spec to edit — only a live order is checked as edited
+        const edit = target.id
+          ? modifyUpdateData(target, { limit_price: signal.limit_price || undefined, quantity: body.quantity, order: signal.order })
+          : { updateData: null, error: null };
+        const refusal = modifyRefusal(tickerUpper, target, edit.error, isFullMode);
+        if (refusal) return refused(refusal);
+
+        if (edit.updateData) {
+          const violation = await checkOrderEdit(target, edit.updateData);
+          if (violation) {
+            return blocked(violation.risk ? 'risk_rejected' : 'price_guard', `Modify refused - ${violation.error}`);
+          }
+        } else {
+          result.not_evaluated.push('risk limits', 'price guard');
+        }
+        result.would.push(`Update the ${label}`);
+        if (target.status !== 'pending') result.not_evaluated.push('broker acknowledgment');
+      }
+      return { ...result, outcome: 'processed', message: `${verb} would apply to ${tickerUpper} ${label}` };
+    }
+
+    case 'SL_HIT':
+    case 'STOPLOSS': {
+      if (!(await openPosition())) {
+        return rejected('no_position', `No open position found for ${tickerUpper} - stop loss may have already been processed`);
+      }
+      result.would.push('Close the position at the stop price', 'Cancel pending orders', `Block ${tickerUpper} for 5 minutes`);
+      state.positions.set(tickerUpper, null);
+      state.pending.delete(tickerUpper);
+      return { ...result, outcome: 'processed', message: `Stop loss would close ${tickerUpper}` };
+    }
+
+    case 'CONFIRMED':
+      result.would.push('Apply the fill to the matching execution');
+      result.not_evaluated.push('fill matching');
+      return { ...result, outcome: 'processed', message: `Fill confirmation for ${tickerUpper}` };
+
+    default:
+      result.would.push('Update the intraday mover badge');
+      return { ...result, outcome: 'processed', message: `${signal.signalType} for ${tickerUpper}` };
+  }
+}
+
+/**
+ * Why a ticker's config refuses signals right now, or null. ORDERs ignore
+ * alerts_blocked — it only mutes WALL cards.
+ */
+function tickerBlockReason(
+  config: { enabled: boolean; alerts_blocked: boolean; blocked_until: Date | null } | null,
+  options: { alerts: boolean }
+): string | null {
+  if (!config) return null;
+  if (options.alerts && config.alerts_blocked) return 'alerts blocked';
+  if (config.blocked_until && new Date(config.blocked_until) > new Date()) return 'temporarily blocked';
+  if (config.enabled === false) return 'ticker disabled';
+  return null;
+}
+
+/** TTP Exit SL gate — the position's threshold when an EXIT at this price is blocked, else null */
+function ttpExitBlock(position: { ttp_exit_price: any }, exitPrice: number): number | null {
+  if (position.ttp_exit_price === null || position.ttp_exit_price === undefined) return null;
+  const threshold = Number(position.ttp_exit_price);
+  return exitPrice >= threshold ? threshold : null;
+}
+
+/**
+ * Why a signal is refused. blocked: the book says not now (a position, a
+ * working order, a block); rejected: the signal doesn't fit the book.
+ * The rules below are shared by the handlers and dryRunWebhook — each looks
+ * the facts up in its own book (the database, or a dry run's DryRunState).
+ */
+interface SignalRefusal {
+  outcome: 'blocked' | 'rejected';
+  reason: string;
+  message: string;
+  details?: Record<string, any>;
+}
+
+type TickerGate = Parameters<typeof tickerBlockReason>[0];
+
+/** ORDER gates, first match wins: ticker block, open position, working order, a WALL card the user refused */
+function orderRefusal(ticker: string, book: {
+  tickerConfig: TickerGate;
+  hasPosition: boolean;
+  hasPendingOrder: boolean;
+  refusedIntentStatus: string | null;
+}): SignalRefusal | null {
+  const reason = tickerBlockReason(book.tickerConfig, { alerts: false });
+  if (reason) return { outcome: 'blocked', reason: 'ticker_blocked', message: `Order blocked - ${ticker} is ${reason}` };
+  if (book.hasPosition) {
+    return { outcome: 'blocked', reason: 'position_exists', message: `Order blocked - ${ticker} already has an open position` };
+  }
+  if (book.hasPendingOrder) {
+    return { outcome: 'blocked', reason: 'pending_execution_exists', message: `Order blocked - ${ticker} already has a pending order` };
+  }
+  if (book.refusedIntentStatus) {
+    const denied = book.refusedIntentStatus === 'swiped_deny';
+    return {
+      outcome: 'blocked',
+      reason: denied ? 'intent_denied' : 'intent_blocked',
+      message: `Order blocked - ${ticker} signal was ${denied ? 'denied' : 'blocked'} by user`
+    };
+  }
+  return null;
+}
+
+/** An ORDER under an intent whose entry already executed is a re-entry — it needs a new WALL signal */
+function reentryRefusal(ticker: string, intentExecuted: boolean): SignalRefusal | null {
+  return intentExecuted
+    ? { outcome: 'blocked', reason: 'reentry_blocked', message: `Re-entry blocked for ${ticker} — new WALL signal required` }
+    : null;
+}
+
+/** SCALE_IN gates: ticker block, a position to add to, on its own side, and no working order */
+function scaleInRefusal(ticker: string, book: {
+  tickerConfig: TickerGate;
+  position: { side: string } | null;
+  hasPendingOrder: boolean;
+}, signal: { dir?: string; order_action?: string }): SignalRefusal | null {
+  const reason = tickerBlockReason(book.tickerConfig, { alerts: false });
+  if (reason) return { outcome: 'blocked', reason: 'ticker_blocked', message: `Scale-in blocked - ${ticker} is ${reason}` };
+  if (!book.position) {
+    return { outcome: 'rejected', reason: 'no_position', message: `No open position found for ${ticker} - SCALE_IN signal rejected` };
+  }
+  // The add goes on the position's side; a signal for the other side is a mistake, not a reversal
+  const action = book.position.side === 'Short' ? 'sell' : 'buy';
+  if ((signal.dir && signal.dir !== book.position.side) || (signal.order_action && signal.order_action !== action)) {
+    return {
+      outcome: 'rejected',
+      reason: 'side_mismatch',
+      message: `Scale-in rejected - ${ticker} position is ${book.position.side}, signal was ${signal.dir || signal.order_action}`
+    };
+  }
+  if (book.hasPendingOrder) {
+    return { outcome: 'blocked', reason: 'pending_execution_exists', message: `Scale-in blocked - ${ticker} already has a pending order` };
+  }
+  return null;
+}
+
+/** EXIT / PARTIAL_EXIT gates before the order is built: a position to close, and the TTP Exit SL */
+function exitRefusal(
+  ticker: string,
+  event: string,
+  position: { ttp_exit_price: any } | null,
+  exitPrice: number
+): SignalRefusal | null {
+  if (!position) {
+    return { outcome: 'rejected', reason: 'no_position', message: `No open position found for ${ticker} - ${event} signal rejected` };
+  }
+  // The broker SL already closes at the TTP level; forwarding would double-execute the close
+  const threshold = ttpExitBlock(position, exitPrice);
+  if (threshold !== null) {
+    return {
+      outcome: 'blocked',
+      reason: 'ttp_exit_blocked',
+      message: `TTP Exit SL active — EXIT blocked for ${ticker} (price $${exitPrice} >= TTP $${threshold})`,
+      details: { ttp_exit_price: threshold }
+    };
+  }
+  return null;
+}
+
+/**
+ * Shares an exit closes: the position, or a partial's size — shares, or a
+ * percent of the position rounded down — clamped to it. 0 when a partial
+ * comes to less than one share.
+ */
+function exitQuantity(positionQty: number, signal: { partial: boolean; quantity?: any; qty_percent?: any }): number {
+  const requested = signal.partial && !signal.quantity && signal.qty_percent
+    ? Math.floor(positionQty * Number(signal.qty_percent) / 100)
+    : Number(signal.quantity) || 0;
+  if (signal.partial && requested < 1) return 0;
+  return requested ? Math.min(requested, positionQty) : positionQty;
+}
+
+/**
+ * PARTIAL_EXIT sizing gates: at least one share, no full EXIT already
+ * pending, and no more queued to close than the position holds
+ */
+function partialExitRefusal(ticker: string, book: {
+  positionQty: number;
+  exitQty: number;
+  qty_percent?: any;
+  pendingFullExit: boolean;
+  pendingPartialQty: number;
+}): SignalRefusal | null {
+  if (book.exitQty < 1) {
+    return {
+      outcome: 'rejected',
+      reason: 'quantity_too_small',
+      message: `Partial exit rejected - ${book.qty_percent}% of ${book.positionQty} shares is less than one share`
+    };
+  }
+  // A pending full EXIT already closes everything
+  if (book.pendingFullExit) {
+    return { outcome: 'blocked', reason: 'exit_pending', message: `Partial exit blocked - ${ticker} already has a pending EXIT` };
+  }
+  if (book.pendingPartialQty + book.exitQty > book.positionQty) {
+    return {
+      outcome: 'blocked',
+      reason: 'exceeds_position',
+      message: `Partial exit blocked - ${book.pendingPartialQty} shares already queued to close, ${book.exitQty} more would exceed the ${book.positionQty}-share position`
+    };
+  }
+  return null;
+}
+
+/** Pending exits queued against a position (found by parsing raw_payload) */
+async function pendingExitsFor(tickerUpper: string, positionId: string) {
+  const pending = await prisma.execution.findMany({
+    where: {
+      ticker: tickerUpper,
+      status: 'pending'
+    }
+  });
+  return pending.filter((exec: any) => {
+    if (!isExitPayload(exec.raw_payload)) return false;
+    try {
+      return JSON.parse(exec.raw_payload).position_id === positionId;
+    } catch (e) {
+      return false;
+    }
+  });
+}
+
+/**
+ * A MODIFY signal's changes over the resting order's stored spec — the same
+ * edit as PUT /api/executions/:id, checked as a whole order
+ */
+function modifyUpdateData(
+  target: any,
+  signal: { limit_price?: number; quantity?: number; order?: OrderSpecInput }
+): { updateData: any; error: string | null } {
+  const updateData: any = {};
+  if (signal.limit_price) updateData.limit_price = signal.limit_price.toString();
+  if (signal.quantity) updateData.quantity = Number(signal.quantity);
+
+  const specChanges: OrderSpecInput = {};
+  if (signal.order?.stop_price) specChanges.stop_price = signal.order.stop_price;
+  // A trailing stop carries one distance — the new one replaces whichever it had
+  if (signal.order?.trail_amount) Object.assign(specChanges, { trail_amount: signal.order.trail_amount, trail_percent: null });
+  if (signal.order?.trail_percent) Object.assign(specChanges, { trail_percent: signal.order.trail_percent, trail_amount: null });
+
+  if (Object.keys(specChanges).length > 0 || updateData.limit_price) {
+    const { spec, error } = parseOrderSpec(
+      { ...orderSpecOf(target), ...specChanges, limit_price: updateData.limit_price ?? target.limit_price },
+      { side: target.order_action, is_exit: isExitPayload(target.raw_payload) }
+    );
+    if (!spec) return { updateData, error };
+    Object.assign(updateData, orderSpecData(spec));
+  }
+  return { updateData, error: null };
+}
+
+/** MODIFY gates: the edit must make a valid order, and safe mode only edits an order that hasn't gone out */
+function modifyRefusal(ticker: string, target: { status: string }, editError: string | null, isFullMode: boolean): SignalRefusal | null {
+  if (editError) return { outcome: 'rejected', reason: 'invalid_modification', message: `Modify rejected - ${editError}` };
+  if (target.status !== 'pending' && !isFullMode) {
+    return {
+      outcome: 'blocked',
+      reason: 'requires_full_mode',
+      message: `Modify blocked - ${ticker} order is already ${target.status}; safe mode only edits pending orders`
+    };
+  }
+  return null;
+}
+
 /**
  * Gate Scoring Engine
  * Converts gates object into numerical vector and calculates confidence score
@@ -446,8 +1171,8 @@ async function handleWallSignal(data: {
   const tickerUpper = ticker.toUpperCase();
 
   // Try to acquire symbol lock to prevent duplicate cards from race conditions
-  // Lock TTL: 3 seconds - prevents double webhooks arriving simultaneously
-  if (!acquireSymbolLock(tickerUpper, 'wall', 3000)) {
+  // Never released: the 3 second TTL is the window that drops double webhooks
+  if (!(await acquireSymbolLock(tickerUpper, 'wall', 3000, { renew: false }))) {
     console.warn(`⚠️ Duplicate WALL signal blocked for ${tickerUpper} - symbol locked`);
     return {
       intent_id: null,
@@ -461,14 +1186,8 @@ async function handleWallSignal(data: {
     where: { ticker: tickerUpper }
   });
 
-  if (tickerConfig && (
-    tickerConfig.enabled === false ||
-    tickerConfig.alerts_blocked === true ||
-    (tickerConfig.blocked_until && new Date(tickerConfig.blocked_until) > new Date())
-  )) {
-    const reason = tickerConfig.alerts_blocked ? 'alerts blocked'
-      : tickerConfig.blocked_until && new Date(tickerConfig.blocked_until) > new Date() ? 'temporarily blocked'
-      : 'ticker disabled';
+  const reason = tickerBlockReason(tickerConfig, { alerts: true });
+  if (reason) {
     console.log(`⚠️ WALL signal rejected: ${tickerUpper} (${reason})`);
     return {
       intent_id: null,
@@ -721,6 +1440,7 @@ async function handleOrderSignal(data: {
   quality_tier?: string;
   quality_score?: number;
   strategy_id?: string;
+  order?: OrderSpecInput;
   raw_payload?: any;
 }) {
   const {
@@ -733,14 +1453,15 @@ async function handleOrderSignal(data: {
     quality_tier,
     quality_score,
     strategy_id,
+    order,
     raw_payload
   } = data;
 
   const tickerUpper = ticker.toUpperCase();
 
   // Try to acquire symbol lock to prevent duplicate orders from race conditions
-  // Lock TTL: 3 seconds - prevents double webhooks arriving simultaneously
-  if (!acquireSymbolLock(tickerUpper, 'order', 10000)) {
+  // Held (and renewed) until the order is created and forwarded
+  if (!(await acquireSymbolLock(tickerUpper, 'order', 10000))) {
     console.warn(`⚠️ Duplicate ORDER signal blocked for ${tickerUpper} - symbol locked`);
     return {
       execution_id: null,
@@ -750,101 +1471,66 @@ async function handleOrderSignal(data: {
     };
   }
 
-  // Check if ticker is temporarily blocked (e.g. after SL_HIT, EXIT, or mark-flat)
-  const tickerConfigForOrder = await prisma.tickerConfig.findUnique({
-    where: { ticker: tickerUpper }
-  });
-
-  if (tickerConfigForOrder && (
-    tickerConfigForOrder.enabled === false ||
-    (tickerConfigForOrder.blocked_until && new Date(tickerConfigForOrder.blocked_until) > new Date())
-  )) {
-    const reason = tickerConfigForOrder.blocked_until && new Date(tickerConfigForOrder.blocked_until) > new Date()
-      ? 'temporarily blocked' : 'ticker disabled';
-    console.warn(`⚠️ ORDER signal blocked for ${tickerUpper} - ${reason}`);
-    releaseSymbolLock(tickerUpper, 'order');
-    return {
-      execution_id: null,
-      message: `Order blocked - ${tickerUpper} is ${reason}`,
-      blocked: true,
-      reason: 'ticker_blocked'
-    };
-  }
-
-  // Check for existing open position - block new entry orders if position already exists
-  const existingOpenPosition = await prisma.position.findFirst({
-    where: {
-      ticker: tickerUpper,
-      closed_at: null
-    }
-  });
-
-  if (existingOpenPosition) {
-    console.warn(`⚠️ ORDER signal blocked for ${tickerUpper} - open position already exists (id: ${existingOpenPosition.id})`);
-    releaseSymbolLock(tickerUpper, 'order');
-    return {
-      execution_id: null,
-      message: `Order blocked - ${tickerUpper} already has an open position`,
-      blocked: true,
-      reason: 'position_exists',
-      existing_position: {
-        id: existingOpenPosition.id,
-        side: existingOpenPosition.side,
-        quantity: existingOpenPosition.quantity
-      }
-    };
-  }
-
-  // Check for existing pending/executing order - block duplicate entry orders
-  const existingPendingExecution = await prisma.execution.findFirst({
-    where: {
-      ticker: tickerUpper,
-      status: { in: ['pending', 'executing'] }
-    },
-    orderBy: { created_at: 'desc' }
-  });
-
-  if (existingPendingExecution) {
-    console.warn(`⚠️ ORDER signal blocked for ${tickerUpper} - pending execution already exists (id: ${existingPendingExecution.id})`);
-    releaseSymbolLock(tickerUpper, 'order');
-    return {
-      execution_id: null,
-      message: `Order blocked - ${tickerUpper} already has a pending order`,
-      blocked: true,
-      reason: 'pending_execution_exists',
-      existing_execution: {
-        id: existingPendingExecution.id,
-        order_action: existingPendingExecution.order_action,
-        quantity: existingPendingExecution.quantity,
-        limit_price: existingPendingExecution.limit_price
+  try {
+    // Entry gates: ticker block (e.g. after SL_HIT, EXIT, or mark-flat), an open
+    // position, a pending/executing order, or a WALL intent the user denied or swiped off
+    const tickerConfigForOrder = await prisma.tickerConfig.findUnique({
+      where: { ticker: tickerUpper }
+    });
+    const existingOpenPosition = await prisma.position.findFirst({
+      where: {
+        ticker: tickerUpper,
+        closed_at: null
       }
-    };
-  }
-
-  // Check if the corresponding WALL intent was denied or swiped off - block the order
-  const rejectedIntent = await prisma.tradeIntent.findFirst({
-    where: {
-      ticker: tickerUpper,
-      status: { in: ['swiped_deny', 'swiped_off'] },
-      expires_at: { gt: new Date() }  // Only check non-expired intents
-    },
-    orderBy: { updated_at: 'desc' }
-  });
+    });
+    const existingPendingExecution = await prisma.execution.findFirst({
+      where: {
+        ticker: tickerUpper,
+        status: { in: ['pending', 'executing'] }
+      },
+      orderBy: { created_at: 'desc' }
+    });
+    const rejectedIntent = await prisma.tradeIntent.findFirst({
+      where: {
+        ticker: tickerUpper,
+        status: { in: ['swiped_deny', 'swiped_off'] },
+        expires_at: { gt: new Date() }  // Only check non-expired intents
+      },
+      orderBy: { updated_at: 'desc' }
+    });
 
-  if (rejectedIntent) {
-    const reasonText = rejectedIntent.status === 'swiped_deny' ? 'denied' : 'blocked';
-    console.warn(`⚠️ ORDER signal blocked for ${tickerUpper} - intent was ${reasonText} (id: ${rejectedIntent.id})`);
-    releaseSymbolLock(tickerUpper, 'order');
-    return {
-      execution_id: null,
-      message: `Order blocked - ${tickerUpper} signal was ${reasonText} by user`,
-      blocked: true,
-      reason: rejectedIntent.status === 'swiped_deny' ? 'intent_denied' : 'intent_blocked',
-      rejected_intent_id: rejectedIntent.id
-    };
-  }
+    const refusal = orderRefusal(tickerUpper, {
+      tickerConfig: tickerConfigForOrder,
+      hasPosition: !!existingOpenPosition,
+      hasPendingOrder: !!existingPendingExecution,
+      refusedIntentStatus: rejectedIntent?.status ?? null
+    });
+    if (refusal) {
+      console.warn(`⚠️ ORDER signal blocked for ${tickerUpper} - ${refusal.reason}`);
+      return {
+        execution_id: null,
+        message: refusal.message,
+        blocked: true,
+        reason: refusal.reason,
+        ...(refusal.reason === 'position_exists' && existingOpenPosition && {
+          existing_position: {
+            id: existingOpenPosition.id,
+            side: existingOpenPosition.side,
+            quantity: existingOpenPosition.quantity
+          }
+        }),
+        ...(refusal.reason === 'pending_execution_exists' && existingPendingExecution && {
+          existing_execution: {
+            id: existingPendingExecution.id,
+            order_action: existingPendingExecution.order_action,
+            quantity: existingPendingExecution.quantity,
+            limit_price: existingPendingExecution.limit_price
+          }
+        }),
+        ...(rejectedIntent && refusal.reason.startsWith('intent_') && { rejected_intent_id: rejectedIntent.id })
+      };
+    }
 
-  try {
     // Determine order action from dir if not provided
     const action = order_action || (dir === 'Long' ? 'buy' : dir === 'Short' ? 'sell' : null);
     if (!action) {
@@ -854,6 +1540,14 @@ async function handleOrderSignal(data: {
     const finalDir = dir || (action === 'buy' ? 'Long' : 'Short');
     const finalLimitPrice = limit_price || price || 0;
 
+    const { spec: orderSpec, error: orderSpecError } = parseOrderSpec(
+      { ...order, limit_price: finalLimitPrice },
+      { side: action, is_exit: false }
+    );
+    if (!orderSpec) {
+      throw new Error(`Invalid ORDER: ${orderSpecError}`);
+    }
+
   // Build raw_payload for broker forwarding (TradingView ORDER format)
   const orderPayload = JSON.stringify({
     event: 'ORDER',
@@ -862,7 +1556,9 @@ async function handleOrderSignal(data: {
     price: finalLimitPrice,
     limit_price: finalLimitPrice,
     quantity: quantity || 1,
-    order_action: action
+    order_action: action,
+    strategy_id: strategy_id || undefined,
+    ...orderSpecData(orderSpec)
   });
 
   // Get settings for execution mode and delay configuration
@@ -886,66 +1582,105 @@ async function handleOrderSignal(data: {
       limit_price: finalLimitPrice ? finalLimitPrice.toString() : null,
       status: isFullMode ? 'executing' : 'pending',
       delay_expires_at: isFullMode ? null : delayExpiresAt,
-      raw_payload: orderPayload
+      raw_payload: orderPayload,
+      strategy_id: strategy_id || null,
+      ...orderSpecData(orderSpec)
     }
   });
   captureGradeSnapshot(execution.ticker, execution.id, execution.intent_id ?? null).catch(console.error);
 
+  // Pre-trade risk check — a rejected order stays in the queue (status 'rejected')
+  // with the tripped limit in error_message, and never reaches the broker
+  const riskViolation = await enforcePreTradeRisk(execution, 'webhook_order');
+  if (riskViolation) {
+    return {
+      execution_id: execution.id,
+      message: `Order rejected by risk limit - ${riskViolation.reason}`,
+      blocked: true,
+      reason: 'risk_rejected',
+      risk: riskViolation
+    };
+  }
+
   // Wake up the scheduler whenever a pending order is created (safe mode only)
   if (!isFullMode) {
     activateScheduler();
   }
 
-  let brokerResult: { success: boolean; error?: string } = { success: false };
+  let brokerResult: { success: boolean; error?: string; queued?: boolean; halted?: boolean } = { success: false };
 
   // In full mode, forward to broker immediately
   if (isFullMode) {
+    // Fat-finger check against a live quote — a bad price is held or rejected, never sent
+    const priceGuard = await enforcePriceGuard(execution, 'webhook_order');
+    if (priceGuard) {
+      return {
+        execution_id: execution.id,
+        message: `Order ${priceGuard.action === 'reject' ? 'rejected' : 'held for approval'} by price guard - ${priceGuard.reason}`,
+        blocked: true,
+        reason: 'price_guard',
+        price_guard: priceGuard
+      };
+    }
+
     const { forwardToBroker } = await import('../services/brokerWebhook');
     brokerResult = await forwardToBroker(execution);
+    if (brokerResult.halted) {
+      return { execution_id: execution.id, message: `Order cancelled - ${brokerResult.error}`, blocked: true, reason: 'kill_switch' };
+    }
 
-    // Update execution status
+    // Update execution status (a queued broker retry stays executing until delivered)
     await prisma.execution.update({
       where: { id: execution.id },
       data: {
-        status: 'executed',
-        executed_at: new Date(),
+        status: brokerResult.queued ? 'executing' : 'executed',
+        executed_at: brokerResult.queued ? null : new Date(),
         error_message: brokerResult.success ? null : brokerResult.error
       }
     });
 
-    // Create or update position
-    const existingPosition = await prisma.position.findFirst({
-      where: {
-        ticker: ticker.toUpperCase(),
-        closed_at: null
-      }
-    });
-
-    if (existingPosition) {
-      const newQuantity = action === 'buy'
-        ? existingPosition.quantity + (quantity || 1)
-        : existingPosition.quantity - (quantity || 1);
-
-      if (newQuantity === 0) {
-        await prisma.position.update({
-          where: { id: existingPosition.id },
-          data: { closed_at: new Date() }
-        });
-      } else if (newQuantity > 0) {
-        await prisma.position.update({
-          where: { id: existingPosition.id },
-          data: { quantity: newQuantity }
-        });
-      }
-    } else {
-      await prisma.position.create({
-        data: {
+    // Intent accounting — in fill accounting the CONFIRMED fill moves the position
+    if (!(await isFillAccounting(settings))) {
+      // Create or update position
+      const existingPosition = await prisma.position.findFirst({
+        where: {
           ticker: ticker.toUpperCase(),
-          side: action === 'buy' ? 'Long' : 'Short',
-          quantity: quantity || 1,
-          entry_price: finalLimitPrice ? finalLimitPrice.toString() : '0'
+          closed_at: null
         }
       });
+
+      if (existingPosition) {
+        const newQuantity = action === 'buy'
+          ? existingPosition.quantity + (quantity || 1)
+          : existingPosition.quantity - (quantity || 1);
+
+        if (newQuantity < existingPosition.quantity) {
+          // Opposite-side ORDER from TradingView reduces (or flattens) the position
+          await applyPositionExit(existingPosition, {
+            quantity: existingPosition.quantity - Math.max(newQuantity, 0),
+            exit_price: exitPriceFor(execution),
+            reason: 'exit_signal',
+            source: 'webhook_order',
+            execution_id: execution.id
+          });
+        } else {
+          await prisma.position.update({
+            where: { id: existingPosition.id },
+            data: { quantity: newQuantity }
+          });
+          await linkEntryExecution(execution.id, existingPosition.id);
+        }
+      } else {
+        const newPosition = await prisma.position.create({
+          data: {
+            ticker: ticker.toUpperCase(),
+            side: action === 'buy' ? 'Long' : 'Short',
+            quantity: quantity || 1,
+            entry_price: finalLimitPrice ? finalLimitPrice.toString() : '0'
+          }
+        });
+        await linkEntryExecution(execution.id, newPosition.id);
+      }
     }
 
     console.log(`⚡ Full mode: Immediately executed ${tickerUpper} ${action} ${quantity || 1}`);
@@ -971,7 +1706,8 @@ async function handleOrderSignal(data: {
         status: { in: ['executed', 'partially_filled', 'confirmed'] }
       }
     });
-    if (priorExecution) {
+    const reentry = reentryRefusal(tickerUpper, !!priorExecution);
+    if (reentry && priorExecution) {
       await prisma.execution.update({
         where: { id: execution.id },
         data: { status: 'cancelled', error_message: 'Re-entry blocked: intent already executed — new WALL signal required' }
@@ -992,9 +1728,9 @@ async function handleOrderSignal(data: {
       return {
         execution_id: execution.id,
         intent_id: pendingIntent.id,
-        message: `Re-entry blocked for ${tickerUpper} — new WALL signal required`,
+        message: reentry.message,
         blocked: true,
-        reason: 'reentry_blocked'
+        reason: reentry.reason
       };
     }
 
@@ -1105,23 +1841,252 @@ async function handleOrderSignal(data: {
 
     return {
       execution_id: execution.id,
-      intent_id: linkedIntentId,
+      intent_id: linkedIntentId,
+      message: isFullMode
+        ? `Execution completed immediately (full mode)${brokerResult.success ? ' - forwarded to broker' : ''}`
+        : 'Execution created - pending',
+      mode: executionMode,
+      broker_forwarded: isFullMode ? brokerResult.success : undefined,
+      auto_linked: !!linkedIntentId
+    };
+  } finally {
+    // Always release the lock when done
+    await releaseSymbolLock(tickerUpper, 'order');
+  }
+}
+
+/**
+ * Handle SCALE_IN signal - add to the open position (same side)
+ * Unlike ORDER, it requires a position; it is delayed in safe mode and goes
+ * out immediately in full mode, behind the same risk and price guards.
+ * There is no WALL card for the add — after the delay the scheduler waits
+ * for Execute (Mode V auto-executes).
+ */
+async function handleScaleInSignal(data: {
+  ticker: string;
+  dir?: string;
+  price?: number;
+  limit_price?: number;
+  quantity?: number;
+  order_action?: string;
+  strategy_id?: string;
+  order?: OrderSpecInput;
+}) {
+  const { ticker, dir, price, limit_price, quantity, order_action, strategy_id, order } = data;
+
+  const tickerUpper = ticker.toUpperCase();
+
+  // Shares the 'order' lock with ORDER — an entry and an add can't race each other
+  if (!(await acquireSymbolLock(tickerUpper, 'order', 10000))) {
+    console.warn(`⚠️ Duplicate SCALE_IN signal blocked for ${tickerUpper} - symbol locked`);
+    return {
+      execution_id: null,
+      message: `Scale-in blocked - ${tickerUpper} is currently being processed`,
+      blocked: true,
+      reason: 'symbol_locked'
+    };
+  }
+
+  try {
+    const tickerConfig = await prisma.tickerConfig.findUnique({
+      where: { ticker: tickerUpper }
+    });
+    const openPosition = await prisma.position.findFirst({
+      where: {
+        ticker: tickerUpper,
+        closed_at: null
+      }
+    });
+    // One working order per ticker — an unfilled entry, exit or earlier add must settle first
+    const existingPendingExecution = await prisma.execution.findFirst({
+      where: {
+        ticker: tickerUpper,
+        status: { in: ['pending', 'executing'] }
+      },
+      orderBy: { created_at: 'desc' }
+    });
+
+    const refusal = scaleInRefusal(tickerUpper, {
+      tickerConfig,
+      position: openPosition,
+      hasPendingOrder: !!existingPendingExecution
+    }, { dir, order_action });
+    // Without a position there's always a refusal (no_position)
+    if (refusal || !openPosition) {
+      const { outcome, reason, message } = refusal as SignalRefusal;
+      console.warn(`⚠️ SCALE_IN signal ${outcome} for ${tickerUpper} - ${reason}`);
+      return {
+        execution_id: null,
+        message,
+        [outcome]: true,
+        reason,
+        ...(reason === 'pending_execution_exists' && existingPendingExecution && {
+          existing_execution: {
+            id: existingPendingExecution.id,
+            order_action: existingPendingExecution.order_action,
+            quantity: existingPendingExecution.quantity,
+            limit_price: existingPendingExecution.limit_price
+          }
+        })
+      };
+    }
+
+    const action = openPosition.side === 'Short' ? 'sell' : 'buy';
+    const addQty = Number(quantity);
+    const finalLimitPrice = limit_price || price || 0;
+    const { spec: orderSpec, error: orderSpecError } = parseOrderSpec(
+      { ...order, limit_price: finalLimitPrice },
+      { side: action, is_exit: false }
+    );
+    if (!orderSpec) {
+      throw new Error(`Invalid SCALE_IN: ${orderSpecError}`);
+    }
+
+    const orderPayload = JSON.stringify({
+      event: 'SCALE_IN',
+      ticker: tickerUpper,
+      dir: openPosition.side,
+      price: finalLimitPrice,
+      limit_price: finalLimitPrice,
+      quantity: addQty,
+      order_action: action,
+      position_id: openPosition.id,
+      strategy_id: strategy_id || undefined,
+      ...orderSpecData(orderSpec)
+    });
+
+    // Same delay as ORDER
+    const settings = await getSettingsSafe();
+    const executionMode = settings?.execution_mode || 'safe';
+    const delayMinutes = (settings?.default_delay_bars || 2) * (settings?.bar_duration_minutes || 1);
+    const isFullMode = executionMode === 'full';
+
+    const execution = await prisma.execution.create({
+      data: {
+        ticker: tickerUpper,
+        dir: openPosition.side,
+        order_action: action,
+        quantity: addQty,
+        limit_price: finalLimitPrice ? finalLimitPrice.toString() : null,
+        status: isFullMode ? 'executing' : 'pending',
+        delay_expires_at: isFullMode ? null : new Date(Date.now() + delayMinutes * 60 * 1000),
+        raw_payload: orderPayload,
+        strategy_id: strategy_id || null,
+        ...orderSpecData(orderSpec)
+      }
+    });
+    captureGradeSnapshot(execution.ticker, execution.id, null).catch(console.error);
+
+    // Adding size is new risk — the same pre-trade limits as an entry
+    const riskViolation = await enforcePreTradeRisk(execution, 'webhook_scale_in');
+    if (riskViolation) {
+      return {
+        execution_id: execution.id,
+        message: `Scale-in rejected by risk limit - ${riskViolation.reason}`,
+        blocked: true,
+        reason: 'risk_rejected',
+        risk: riskViolation
+      };
+    }
+
+    if (!isFullMode) {
+      activateScheduler();
+    }
+
+    let brokerResult: { success: boolean; error?: string; queued?: boolean; halted?: boolean } = { success: false };
+
+    if (isFullMode) {
+      const priceGuard = await enforcePriceGuard(execution, 'webhook_scale_in');
+      if (priceGuard) {
+        return {
+          execution_id: execution.id,
+          message: `Scale-in ${priceGuard.action === 'reject' ? 'rejected' : 'held for approval'} by price guard - ${priceGuard.reason}`,
+          blocked: true,
+          reason: 'price_guard',
+          price_guard: priceGuard
+        };
+      }
+
+      const { forwardToBroker } = await import('../services/brokerWebhook');
+      brokerResult = await forwardToBroker(execution);
+      if (brokerResult.halted) {
+        return { execution_id: execution.id, message: `Scale-in cancelled - ${brokerResult.error}`, blocked: true, reason: 'kill_switch' };
+      }
+
+      await prisma.execution.update({
+        where: { id: execution.id },
+        data: {
+          status: brokerResult.queued ? 'executing' : 'executed',
+          executed_at: brokerResult.queued ? null : new Date(),
+          error_message: brokerResult.success ? null : brokerResult.error
+        }
+      });
+
+      // Intent accounting — in fill accounting the CONFIRMED fill grows the position
+      if (!(await isFillAccounting(settings))) {
+        await prisma.position.update({
+          where: { id: openPosition.id },
+          data: { quantity: openPosition.quantity + addQty }
+        });
+        await linkEntryExecution(execution.id, openPosition.id);
+      }
+
+      console.log(`⚡ Full mode: Immediately executed SCALE_IN ${tickerUpper} ${action} ${addQty}`);
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        event_type: isFullMode ? 'scale_in_immediate' : 'scale_in_created',
+        ticker: tickerUpper,
+        details: JSON.stringify({
+          execution_id: execution.id,
+          position_id: openPosition.id,
+          strategy_id,
+          source: 'webhook',
+          type: 'SCALE_IN',
+          order_action: action,
+          quantity: addQty,
+          position_quantity: openPosition.quantity,
+          limit_price: finalLimitPrice,
+          mode: executionMode,
+          broker_forwarded: isFullMode ? brokerResult.success : null
+        })
+      }
+    });
+
+    PushoverNotifications.orderReceived(tickerUpper, {
+      action,
+      side: openPosition.side,
+      quantity: addQty,
+      limit_price: finalLimitPrice,
+      execution_mode: executionMode,
+      scale_in: `${openPosition.quantity} → ${openPosition.quantity + addQty}`,
+      broker_result: isFullMode ? (brokerResult.success ? 'forwarded' : 'failed') : 'pending',
+      strategy: strategy_id || 'N/A'
+    }).catch(err => console.error('Pushover notification error:', err));
+
+    return {
+      execution_id: execution.id,
+      position_id: openPosition.id,
       message: isFullMode
-        ? `Execution completed immediately (full mode)${brokerResult.success ? ' - forwarded to broker' : ''}`
-        : 'Execution created - pending',
+        ? `Scale-in executed immediately (full mode)${brokerResult.success ? ' - forwarded to broker' : ''}`
+        : 'Scale-in created - pending',
       mode: executionMode,
-      broker_forwarded: isFullMode ? brokerResult.success : undefined,
-      auto_linked: !!linkedIntentId
+      broker_forwarded: isFullMode ? brokerResult.success : undefined
     };
   } finally {
-    // Always release the lock when done
-    releaseSymbolLock(tickerUpper, 'order');
+    await releaseSymbolLock(tickerUpper, 'order');
   }
 }
 
 /**
  * Handle EXIT signal - close position
  * Exit orders are adverse orders for trades previously opened (manually or via automation)
+ *
+ * PARTIAL_EXIT (partial: true) closes `quantity` shares or `qty_percent` of the
+ * position. Partials queue alongside each other (scaling out in tranches) but
+ * never past the open quantity, and not while a full EXIT is pending; a full
+ * EXIT replaces every pending exit for the position.
  */
 async function handleExitSignal(data: {
   ticker: string;
@@ -1129,15 +2094,19 @@ async function handleExitSignal(data: {
   price?: number;
   limit_price?: number;
   quantity?: number;
+  qty_percent?: number;
+  partial?: boolean;
+  order?: OrderSpecInput;
 }) {
-  const { ticker, dir, price, limit_price, quantity } = data;
+  const { ticker, dir, price, limit_price, quantity, qty_percent, partial = false, order } = data;
 
   const tickerUpper = ticker.toUpperCase();
+  const signalEvent = partial ? 'PARTIAL_EXIT' : 'EXIT';
 
   // Try to acquire position_close lock — shared with SL_HIT and mark-flat
   // to prevent race conditions between different close paths
-  if (!acquireSymbolLock(tickerUpper, 'position_close', 5000)) {
-    console.warn(`⚠️ EXIT signal blocked for ${tickerUpper} - position close in progress`);
+  if (!(await acquireSymbolLock(tickerUpper, 'position_close', 5000))) {
+    console.warn(`⚠️ ${signalEvent} signal blocked for ${tickerUpper} - position close in progress`);
     return {
       execution_id: null,
       message: `Exit blocked - ${tickerUpper} position close already in progress`,
@@ -1155,86 +2124,100 @@ async function handleExitSignal(data: {
     }
   });
 
-  // Validate position exists - EXIT signals require an open position
-  if (!openPosition) {
-    console.warn(`⚠️ EXIT signal rejected: No open position found for ${tickerUpper}`);
-    await prisma.auditLog.create({
-      data: {
-        event_type: 'exit_rejected_no_position',
-        ticker: tickerUpper,
-        details: JSON.stringify({
-          source: 'webhook',
-          type: 'EXIT',
-          quantity_from_signal: quantity ?? null,
-          limit_price: limit_price ?? price ?? null,
-          reason: 'No open position found'
-        })
-      }
-    });
-    releaseSymbolLock(tickerUpper, 'position_close');
-    return {
-      execution_id: null,
-      message: `No open position found for ${tickerUpper} - EXIT signal rejected`,
-      rejected: true,
-      reason: 'no_position'
-    };
-  }
-
-  // TTP Exit SL gate — if a TTP threshold is set on the position and the EXIT
-  // limit_price is at or above it, block the exit. The broker SL already handles
-  // the close at that level; forwarding would double-execute the close.
+  // EXIT signals require an open position, and a TTP Exit SL at or below the
+  // exit price already covers the close at the broker
   const incomingPrice = limit_price || price || 0;
-  if (openPosition.ttp_exit_price !== null && openPosition.ttp_exit_price !== undefined) {
-    const ttpThreshold = Number(openPosition.ttp_exit_price);
-    if (incomingPrice >= ttpThreshold) {
-      console.log(`🛑 TTP EXIT BLOCKED: ${tickerUpper} — exit price $${incomingPrice} >= TTP $${ttpThreshold} (broker SL handles close)`);
+  const refusal = exitRefusal(tickerUpper, signalEvent, openPosition, incomingPrice);
+  if (refusal || !openPosition) {
+    const { reason, message, details } = refusal as SignalRefusal;
+    if (reason === 'no_position') {
+      console.warn(`⚠️ ${signalEvent} signal rejected: No open position found for ${tickerUpper}`);
       await prisma.auditLog.create({
         data: {
-          event_type: 'ttp_exit_blocked',
+          event_type: 'exit_rejected_no_position',
           ticker: tickerUpper,
           details: JSON.stringify({
-            ttp_exit_price: ttpThreshold,
-            exit_price: incomingPrice,
-            reason: 'Broker SL already placed at TTP level',
-          }),
-        },
+            source: 'webhook',
+            type: signalEvent,
+            quantity_from_signal: quantity ?? null,
+            limit_price: limit_price ?? price ?? null,
+            reason: 'No open position found'
+          })
+        }
       });
-      releaseSymbolLock(tickerUpper, 'position_close');
+      await releaseSymbolLock(tickerUpper, 'position_close');
       return {
         execution_id: null,
-        message: `TTP Exit SL active — EXIT blocked for ${tickerUpper} (price $${incomingPrice} >= TTP $${ttpThreshold})`,
-        ttp_blocked: true,
-        ttp_exit_price: ttpThreshold,
+        message,
+        rejected: true,
+        reason
       };
     }
-  }
 
-  // Check for existing pending exit and REPLACE it with the new one
-  // This ensures the latest exit signal takes precedence
-  let replacedExitInfo = null;
-  if (openPosition) {
-    // Find pending exits for this ticker by parsing raw_payload
-    const pendingExits = await prisma.execution.findMany({
-      where: {
+    console.log(`🛑 TTP EXIT BLOCKED: ${tickerUpper} — exit price $${incomingPrice} >= TTP $${details?.ttp_exit_price} (broker SL handles close)`);
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'ttp_exit_blocked',
         ticker: tickerUpper,
-        status: 'pending'
-      }
+        details: JSON.stringify({
+          ttp_exit_price: details?.ttp_exit_price,
+          exit_price: incomingPrice,
+          reason: 'Broker SL already placed at TTP level',
+        }),
+      },
     });
+    await releaseSymbolLock(tickerUpper, 'position_close');
+    return {
+      execution_id: null,
+      message,
+      ttp_blocked: true,
+      ttp_exit_price: details?.ttp_exit_price,
+    };
+  }
 
-    // Check if any pending execution is an EXIT for this position
-    const existingPendingExit = pendingExits.find((exec: any) => {
-      if (exec.raw_payload) {
-        try {
-          const payload = JSON.parse(exec.raw_payload);
-          return payload.event === 'EXIT' && payload.position_id === openPosition.id;
-        } catch (e) {
-          return false;
-        }
-      }
-      return false;
-    });
+  // Order type fields are checked before a pending exit gets replaced
+  const { spec: orderSpec, error: orderSpecError } = parseOrderSpec(
+    { ...order, limit_price: incomingPrice },
+    { side: openPosition.side === 'Short' ? 'buy' : 'sell', is_exit: true }
+  );
+  if (!orderSpec) {
+    throw new Error(`Invalid EXIT: ${orderSpecError}`);
+  }
+
+  // Use position quantity if not specified, or clamp to position quantity
+  const positionQty = openPosition.quantity;
+  const exitQty = exitQuantity(positionQty, { partial, quantity, qty_percent });
+  const pendingExits = await pendingExitsFor(tickerUpper, openPosition.id);
 
-    if (existingPendingExit) {
+  let replacedExitInfo = null;
+  if (partial) {
+    // Queued partials can't add up past the position
+    const pendingFullExit = pendingExits.find((exec: any) => JSON.parse(exec.raw_payload).event === 'EXIT');
+    const pendingPartialQty = pendingExits.reduce((sum: number, exec: any) => sum + exec.quantity, 0);
+    const partialRefusal = partialExitRefusal(tickerUpper, {
+      positionQty,
+      exitQty,
+      qty_percent,
+      pendingFullExit: !!pendingFullExit,
+      pendingPartialQty
+    });
+    if (partialRefusal) {
+      console.warn(`⚠️ PARTIAL_EXIT ${partialRefusal.outcome} for ${tickerUpper} - ${partialRefusal.message}`);
+      await releaseSymbolLock(tickerUpper, 'position_close');
+      return {
+        execution_id: null,
+        message: partialRefusal.message,
+        [partialRefusal.outcome]: true,
+        reason: partialRefusal.reason,
+        ...(partialRefusal.reason === 'exit_pending' && pendingFullExit && {
+          existing_execution: { id: pendingFullExit.id, quantity: pendingFullExit.quantity }
+        })
+      };
+    }
+  } else {
+    // Check for existing pending exits and REPLACE them with the new one
+    // This ensures the latest exit signal takes precedence
+    for (const existingPendingExit of pendingExits) {
       // Cancel the old exit and replace with new one
       await prisma.execution.update({
         where: { id: existingPendingExit.id },
@@ -1247,7 +2230,7 @@ async function handleExitSignal(data: {
         old_quantity: existingPendingExit.quantity
       };
 
-      console.log(`🔄 Replacing EXIT for ${tickerUpper}: cancelled ${existingPendingExit.id}, creating new exit`);
+      console.log(`🔄 Replacing exit for ${tickerUpper}: cancelled ${existingPendingExit.id}, creating new exit`);
 
       // Log the replacement
       await prisma.auditLog.create({
@@ -1274,20 +2257,17 @@ async function handleExitSignal(data: {
   const exitDir = positionDir === 'Long' ? 'Short' : 'Long';
   const finalLimitPrice = limit_price || price || 0;
 
-  // Use position quantity if not specified, or clamp to position quantity
-  const positionQty = openPosition?.quantity || quantity || 1;
-  const exitQty = quantity ? Math.min(quantity, positionQty) : positionQty;
-
   // Build raw_payload for broker forwarding (TradingView EXIT/ORDER format)
   const orderPayload = JSON.stringify({
-    event: 'EXIT',
+    event: signalEvent,
     ticker: tickerUpper,
     dir: exitDir,
     price: finalLimitPrice,
     limit_price: finalLimitPrice,
     quantity: exitQty,
     order_action: action,
-    position_id: openPosition?.id || null
+    position_id: openPosition?.id || null,
+    ...orderSpecData(orderSpec)
   });
 
   // Get settings for execution mode and EXIT-specific delay
@@ -1328,7 +2308,7 @@ async function handleExitSignal(data: {
 
     if (!hasTrackedEntry) {
       isUntrackedPosition = true;
-      console.warn(`⚠️ EXIT for ${tickerUpper}: no tracked or custom entry found — queuing for manual approval (safe mode)`);
+      console.warn(`⚠️ ${signalEvent} for ${tickerUpper}: no tracked or custom entry found — queuing for manual approval (safe mode)`);
       await prisma.auditLog.create({
         data: {
           event_type: 'exit_queued_untracked_position',
@@ -1360,7 +2340,8 @@ async function handleExitSignal(data: {
       limit_price: finalLimitPrice ? finalLimitPrice.toString() : null,
       status: isImmediateExecution ? 'executing' : 'pending',
       delay_expires_at: isImmediateExecution ? null : delayExpiresAt,
-      raw_payload: orderPayload  // Contains event: 'EXIT' and position_id for identification
+      raw_payload: orderPayload,  // Contains event: 'EXIT' / 'PARTIAL_EXIT' and position_id for identification
+      ...orderSpecData(orderSpec)
     }
   });
   captureGradeSnapshot(execution.ticker, execution.id, null).catch(console.error);
@@ -1380,33 +2361,48 @@ async function handleExitSignal(data: {
     exit_delay_seconds: exitDelaySeconds,
   }).catch(err => console.error('Pushover notification error:', err));
 
-  let brokerResult: { success: boolean; error?: string } = { success: false };
+  let brokerResult: { success: boolean; error?: string; queued?: boolean } = { success: false };
 
   // Execute immediately if full mode OR exit_delay is 0
   if (isImmediateExecution) {
+    // A bad exit price holds the EXIT in the queue for approval instead of sending it
+    const priceGuard = await enforcePriceGuard(execution, 'exit_immediate');
+    if (priceGuard) {
+      return {
+        execution_id: execution.id,
+        position_id: openPosition?.id,
+        position_quantity: positionQty,
+        exit_quantity: exitQty,
+        message: `Exit held for approval by price guard - ${priceGuard.reason}`,
+        blocked: true,
+        reason: 'price_guard',
+        price_guard: priceGuard
+      };
+    }
+
     const { forwardToBroker } = await import('../services/brokerWebhook');
     brokerResult = await forwardToBroker(execution);
 
-    // Update execution status
+    // Update execution status (a queued broker retry stays executing until delivered)
     await prisma.execution.update({
       where: { id: execution.id },
       data: {
-        status: 'executed',
-        executed_at: new Date(),
+        status: brokerResult.queued ? 'executing' : 'executed',
+        executed_at: brokerResult.queued ? null : new Date(),
         error_message: brokerResult.success ? null : brokerResult.error
       }
     });
 
-    // Close position if we have one
-    if (openPosition) {
-      const newQuantity = openPosition.quantity - exitQty;
-      if (newQuantity <= 0) {
-        // Full close - mark position as closed
-        await prisma.position.update({
-          where: { id: openPosition.id },
-          data: { closed_at: new Date() }
-        });
-
+    // Close position if we have one (in fill accounting the CONFIRMED fill closes it)
+    if (openPosition && !(await isFillAccounting(settings))) {
+      const exitResult = await applyPositionExit(openPosition, {
+        quantity: exitQty,
+        exit_price: exitPriceFor(execution),
+        reason: 'exit_signal',
+        source: 'exit_signal',
+        execution_id: execution.id
+      });
+      if (exitResult.closed) {
         // Block ticker for 5 minutes to prevent immediate re-entry
         const blockUntil = new Date(Date.now() + 5 * 60 * 1000);
         await prisma.tickerConfig.upsert({
@@ -1415,34 +2411,30 @@ async function handleExitSignal(data: {
           create: { ticker: tickerUpper, enabled: true, blocked_until: blockUntil }
         });
         console.log(`🔒 Ticker ${tickerUpper} blocked for 5 minutes after EXIT close`);
-      } else {
-        // Partial close - reduce quantity
-        await prisma.position.update({
-          where: { id: openPosition.id },
-          data: { quantity: newQuantity }
-        });
       }
     }
 
-    console.log(`⚡ Immediately executed EXIT ${tickerUpper} ${action} ${exitQty}`);
+    console.log(`⚡ Immediately executed ${signalEvent} ${tickerUpper} ${action} ${exitQty}`);
   }
 
     // Create audit log
+    const auditPrefix = partial ? 'partial_exit' : 'exit';
     await prisma.auditLog.create({
       data: {
-        event_type: isImmediateExecution ? 'exit_immediate' : 'exit_created',
+        event_type: isImmediateExecution ? `${auditPrefix}_immediate` : `${auditPrefix}_created`,
         ticker: tickerUpper,
         details: JSON.stringify({
           execution_id: execution.id,
           position_id: openPosition?.id,
           source: 'webhook',
-          type: 'EXIT',
+          type: signalEvent,
           order_action: action,
           quantity: exitQty,
           position_quantity: positionQty,
           limit_price: finalLimitPrice,
           mode: executionMode,
           exit_delay_seconds: exitDelaySeconds,
+          ...(partial && qty_percent && !quantity && { qty_percent }),
           broker_forwarded: isImmediateExecution ? brokerResult.success : null
         })
       }
@@ -1483,8 +2475,8 @@ async function handleExitSignal(data: {
       position_quantity: positionQty,
       exit_quantity: exitQty,
       message: isImmediateExecution
-        ? `Exit executed immediately${brokerResult.success ? ' - forwarded to broker' : ''}`
-        : `Exit order queued (${exitDelaySeconds}s delay)`,
+        ? `${partial ? 'Partial exit' : 'Exit'} executed immediately${brokerResult.success ? ' - forwarded to broker' : ''}`
+        : `${partial ? 'Partial exit' : 'Exit'} order queued (${exitDelaySeconds}s delay)`,
       mode: executionMode,
       exit_delay_seconds: exitDelaySeconds,
       broker_forwarded: isImmediateExecution ? brokerResult.success : undefined,
@@ -1492,7 +2484,208 @@ async function handleExitSignal(data: {
     };
   } finally {
     // Always release the lock when done
-    releaseSymbolLock(tickerUpper, 'position_close');
+    await releaseSymbolLock(tickerUpper, 'position_close');
+  }
+}
+
+/**
+ * The order a CANCEL / MODIFY acts on: the named execution (it must be for
+ * this ticker), else the ticker's latest entry that is still working —
+ * pending here, being sent, or accepted but not fully filled at the broker.
+ * Exits are left to EXIT / PARTIAL_EXIT unless named.
+ */
+async function findRestingOrder(tickerUpper: string, executionId?: string) {
+  if (executionId) {
+    const execution = await prisma.execution.findUnique({ where: { id: String(executionId) } });
+    return execution?.ticker === tickerUpper ? execution : null;
+  }
+  const working = await prisma.execution.findMany({
+    where: {
+      ticker: tickerUpper,
+      OR: [
+        { status: { in: ['pending', 'executing'] } },
+        { status: { in: ['executed', 'partially_filled'] }, broker_status: { in: ['accepted', 'partially_filled'] } }
+      ]
+    },
+    orderBy: { created_at: 'desc' },
+    take: 20
+  });
+  return working.find(e => !isExitPayload(e.raw_payload)) ?? null;
+}
+
+/**
+ * Handle CANCEL signal - cancel a resting order wherever it is (queue,
+ * delivery retry or broker). Cancelling only removes risk, so it runs the
+ * same in safe and full mode.
+ */
+async function handleCancelSignal(data: { ticker: string; execution_id?: string }) {
+  const { ticker, execution_id } = data;
+  const tickerUpper = ticker.toUpperCase();
+
+  if (!(await acquireSymbolLock(tickerUpper, 'order', 10000))) {
+    console.warn(`⚠️ CANCEL signal blocked for ${tickerUpper} - symbol locked`);
+    return {
+      execution_id: null,
+      message: `Cancel blocked - ${tickerUpper} is currently being processed`,
+      blocked: true,
+      reason: 'symbol_locked'
+    };
+  }
+
+  try {
+    const target = await findRestingOrder(tickerUpper, execution_id);
+    if (!target) {
+      console.warn(`⚠️ CANCEL signal rejected: no resting order for ${tickerUpper}${execution_id ? ` (execution ${execution_id})` : ''}`);
+      return {
+        execution_id: null,
+        message: execution_id
+          ? `Execution ${execution_id} not found for ${tickerUpper} - CANCEL signal rejected`
+          : `No resting order for ${tickerUpper} - CANCEL signal rejected`,
+        rejected: true,
+        reason: 'no_resting_order'
+      };
+    }
+
+    const result = await cancelExecutionOrder(target, 'webhook');
+    if (!result.ok) {
+      console.warn(`⚠️ CANCEL signal for ${tickerUpper} refused (${result.where}): ${result.error}`);
+      return {
+        execution_id: target.id,
+        message: `Cancel refused - ${result.error}`,
+        blocked: true,
+        reason: result.http_status === 502 ? 'broker_refused' : 'not_cancellable'
+      };
+    }
+    const accountCancels = await cancelAccountOrders(target.id, 'webhook');
+
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'execution_cancelled_by_signal',
+        ticker: tickerUpper,
+        details: JSON.stringify({
+          execution_id: target.id,
+          source: 'webhook',
+          type: 'CANCEL',
+          previous_status: target.status,
+          order_location: result.where,
+          broker_cancelled: !!result.acknowledgment,
+          account_orders: accountCancels.length
+        })
+      }
+    });
+
+    console.log(`🛑 CANCEL signal: ${tickerUpper} execution ${target.id} cancelled${result.acknowledgment ? ' at broker' : ''}`);
+    return {
+      execution_id: target.id,
+      message: `Order cancelled${result.acknowledgment ? ' at broker' : ''}`,
+      order_location: result.where,
+      broker_cancelled: !!result.acknowledgment
+    };
+  } finally {
+    await releaseSymbolLock(tickerUpper, 'order');
+  }
+}
+
+/**
+ * Handle MODIFY signal - move a resting order's limit / stop / trail, or
+ * change its size. A pending order is edited in place in either mode; an
+ * order already sent is replaced at the broker only in full mode. Either way
+ * the edited order has to pass the risk limits and (for a new price) the
+ * price guard first.
+ */
+async function handleModifySignal(data: {
+  ticker: string;
+  execution_id?: string;
+  limit_price?: number;
+  quantity?: number;
+  order?: OrderSpecInput;
+}) {
+  const { ticker, execution_id, limit_price, quantity, order } = data;
+  const tickerUpper = ticker.toUpperCase();
+
+  if (!(await acquireSymbolLock(tickerUpper, 'order', 10000))) {
+    console.warn(`⚠️ MODIFY signal blocked for ${tickerUpper} - symbol locked`);
+    return {
+      execution_id: null,
+      message: `Modify blocked - ${tickerUpper} is currently being processed`,
+      blocked: true,
+      reason: 'symbol_locked'
+    };
+  }
+
+  try {
+    const target = await findRestingOrder(tickerUpper, execution_id);
+    if (!target) {
+      console.warn(`⚠️ MODIFY signal rejected: no resting order for ${tickerUpper}${execution_id ? ` (execution ${execution_id})` : ''}`);
+      return {
+        execution_id: null,
+        message: execution_id
+          ? `Execution ${execution_id} not found for ${tickerUpper} - MODIFY signal rejected`
+          : `No resting order for ${tickerUpper} - MODIFY signal rejected`,
+        rejected: true,
+        reason: 'no_resting_order'
+      };
+    }
+
+    const { updateData, error } = modifyUpdateData(target, { limit_price, quantity, order });
+    const settings = await getSettingsSafe();
+    const executionMode = settings?.execution_mode || 'safe';
+
+    // Only a pending order is still ours alone; anything sent changes what the broker works
+    const refusal = modifyRefusal(tickerUpper, target, error, executionMode === 'full');
+    if (refusal) {
+      if (refusal.reason === 'requires_full_mode') {
+        console.warn(`⚠️ MODIFY signal blocked for ${tickerUpper} - execution ${target.id} is ${target.status}, safe mode only edits pending orders`);
+      }
+      return {
+        execution_id: target.id,
+        message: refusal.message,
+        [refusal.outcome]: true,
+        reason: refusal.reason
+      };
+    }
+
+    // Risk limits and the price guard are checked on the edited order there
+    const result = await replaceExecutionOrder(target, updateData, 'webhook');
+    if (!result.ok) {
+      console.warn(`⚠️ MODIFY signal for ${tickerUpper} refused (${result.where}): ${result.error}`);
+      return {
+        execution_id: target.id,
+        message: `Modify refused - ${result.error}`,
+        blocked: true,
+        reason: result.risk ? 'risk_rejected' : result.price_guard ? 'price_guard' : result.http_status === 502 ? 'broker_refused' : 'not_modifiable',
+        ...(result.risk && { risk: result.risk }),
+        ...(result.price_guard && { price_guard: result.price_guard })
+      };
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'execution_modified_by_signal',
+        ticker: tickerUpper,
+        details: JSON.stringify({
+          execution_id: target.id,
+          source: 'webhook',
+          type: 'MODIFY',
+          previous: { quantity: target.quantity, ...orderSpecOf(target) },
+          changes: updateData,
+          order_location: result.where,
+          mode: executionMode,
+          broker_replaced: !!result.acknowledgment
+        })
+      }
+    });
+
+    console.log(`🔁 MODIFY signal: ${tickerUpper} execution ${target.id} updated${result.acknowledgment ? ' (replaced at broker)' : ''}`);
+    return {
+      execution_id: target.id,
+      message: `Order modified${result.acknowledgment ? ' - replaced at broker' : ''}`,
+      order_location: result.where,
+      mode: executionMode,
+      broker_replaced: !!result.acknowledgment
+    };
+  } finally {
+    await releaseSymbolLock(tickerUpper, 'order');
   }
 }
 
@@ -1511,7 +2704,7 @@ async function handleStopLossHit(data: {
 
   // Acquire position_close lock — shared with EXIT and mark-flat
   // to prevent race conditions between different close paths
-  if (!acquireSymbolLock(tickerUpper, 'position_close', 5000)) {
+  if (!(await acquireSymbolLock(tickerUpper, 'position_close', 5000))) {
     console.warn(`⚠️ SL_HIT signal blocked for ${tickerUpper} - position close in progress`);
     return {
       message: `SL_HIT blocked - ${tickerUpper} position close already in progress`,
@@ -1540,11 +2733,16 @@ async function handleStopLossHit(data: {
 
     // All DB writes in a transaction for atomicity — if any fail, all roll back
     const blockUntil = new Date(Date.now() + 5 * 60 * 1000);
+    const exitResult = buildPositionExit(openPosition, {
+      quantity: openPosition.quantity,
+      exit_price: stop_price,
+      reason: 'sl_hit'
+    });
     const txResult = await prisma.$transaction(async (tx) => {
       // Close the position locally (broker already closed it)
       await tx.position.update({
         where: { id: openPosition.id },
-        data: { closed_at: new Date() }
+        data: exitResult.data
       });
 
       // Block ticker for 5 minutes to prevent immediate re-entry
@@ -1574,6 +2772,7 @@ async function handleStopLossHit(data: {
             quantity: openPosition.quantity,
             entry_price: openPosition.entry_price,
             stop_price: stop_price || null,
+            realized_pnl: exitResult.pnl,
             blocked_until: blockUntil.toISOString(),
             cancelled_pending_executions: cancelledExecs.count,
             broker_order_sent: false
@@ -1588,8 +2787,16 @@ async function handleStopLossHit(data: {
       console.log(`🗑️ Cancelled ${txResult.cancelledExecs} pending execution(s) for ${tickerUpper} after SL_HIT`);
     }
 
+    // The stop that fired may have left a take-profit leg working at the broker
+    await cancelProtectiveOrders(openPosition.id, 'sl_hit');
+    await syncTrade(openPosition.id);
+
     console.log(`🛑 SL_HIT: ${tickerUpper} position closed locally (stop @ ${stop_price || 'unknown'}). No broker order sent.`);
 
+    if (exitResult.pnl !== null) {
+      await recordClosedTrade({ ticker: tickerUpper, pnl: exitResult.pnl, source: 'sl_hit' });
+    }
+
     // Send notifications
     const slData = {
       side: openPosition.side,
@@ -1604,11 +2811,12 @@ async function handleStopLossHit(data: {
       position_id: openPosition.id,
       message: `Stop loss hit - ${tickerUpper} position closed locally. Broker already closed it.`,
       stop_price: stop_price || null,
+      realized_pnl: exitResult.pnl,
       cancelled_pending_executions: txResult.cancelledExecs,
       broker_order_sent: false
     };
   } finally {
-    releaseSymbolLock(tickerUpper, 'position_close');
+    await releaseSymbolLock(tickerUpper, 'position_close');
   }
 }
 
@@ -1618,24 +2826,37 @@ async function handleStopLossHit(data: {
  * Handles:
  * - Full fills  → status: "confirmed"
  * - Partial fills → status: "partially_filled" (subsequent CONFIRMEDs accumulate)
- * - Unmatched (outside window) → creates orphan execution, still updates position
+ * - Unmatched (outside window) → creates orphan execution (never moves a position)
+ * - position_accounting 'fills' → the fill scales the position in/out (fillAccountingService)
  * - Idempotency → fully confirmed executions are skipped on duplicate receipt
+ * - Broker fills (brokerOrderSync) → matched by execution_id with a plain fill_price;
+ *   TradingView CONFIRMEDs for an order the broker reports on are skipped
  */
-async function handleConfirmedSignal(data: {
+export async function handleConfirmedSignal(data: {
   ticker: string;
   dir?: string;
   quantity?: number;
   fill_price_ticks?: number;
   mintick?: number;
+  fill_price?: number;
+  fill_id?: string;
+  execution_id?: string;
+  source?: 'tradingview' | 'broker';
 }) {
-  const { ticker, dir, quantity, fill_price_ticks, mintick } = data;
+  const { ticker, dir, quantity, fill_price_ticks, mintick, fill_id } = data;
+  const source = data.source ?? 'tradingview';
   const tickerUpper = ticker.toUpperCase();
 
-  // Reconstruct fill price from ticks
-  if (fill_price_ticks === undefined || !mintick || mintick <= 0) {
-    throw new Error('CONFIRMED signal missing fill_price_ticks or mintick');
+  // Reconstruct fill price from ticks (broker fills carry the price itself)
+  let fillPrice: number;
+  if (data.fill_price !== undefined && data.fill_price > 0) {
+    fillPrice = data.fill_price;
+  } else {
+    if (fill_price_ticks === undefined || !mintick || mintick <= 0) {
+      throw new Error('CONFIRMED signal missing fill_price_ticks or mintick');
+    }
+    fillPrice = fill_price_ticks * mintick;
   }
-  const fillPrice = fill_price_ticks * mintick;
   const filledQty = quantity ?? 0;
 
   if (filledQty <= 0) {
@@ -1646,18 +2867,22 @@ async function handleConfirmedSignal(data: {
   const settings = await getSettingsSafe();
   const windowSeconds = (settings as any)?.confirm_window_seconds ?? 60;
   const windowStart = new Date(Date.now() - windowSeconds * 1000);
+  const fillAccounting = await isFillAccounting(settings);
+
+  // Find matching execution: a broker fill names its execution; otherwise check pending
+  // (no time limit — safe-mode approvals can take minutes) then fall back to
+  // window-based match for executing/executed/partially_filled
+  let execution = data.execution_id
+    ? await prisma.execution.findUnique({ where: { id: data.execution_id } })
+    : await prisma.execution.findFirst({
+      where: {
+        ticker: tickerUpper,
+        status: 'pending'
+      },
+      orderBy: { created_at: 'desc' }
+    });
 
-  // Find matching execution: check pending (no time limit — safe-mode approvals can take minutes)
-  // then fall back to window-based match for executing/executed/partially_filled
-  let execution = await prisma.execution.findFirst({
-    where: {
-      ticker: tickerUpper,
-      status: 'pending'
-    },
-    orderBy: { created_at: 'desc' }
-  });
-
-  if (!execution) {
+  if (!execution && !data.execution_id) {
     // Extend window to 30 minutes for broker-confirmed fills — brokers can take 2-4+ min to confirm
     const extendedWindowStart = new Date(Date.now() - 30 * 60 * 1000);
     execution = await prisma.execution.findFirst({
@@ -1672,6 +2897,8 @@ async function handleConfirmedSignal(data: {
 
   const now = new Date();
   let isOrphan = false;
+  let repricedPnl: number | null = null;
+  let fillResult: FillResult | null = null;
 
   if (!execution) {
     // No match — create an orphan execution rather than discarding the fill
@@ -1703,6 +2930,35 @@ async function handleConfirmedSignal(data: {
       };
     }
 
+    // The broker reports this order's fills itself — counting TradingView's too would double them
+    if (source === 'tradingview' && execution.broker_order_id) {
+      console.warn(`⚠️ CONFIRMED for ${tickerUpper}: fills for execution ${execution.id} come from ${execution.broker} — skipping`);
+      return {
+        execution_id: execution.id,
+        fill_price: fillPrice,
+        message: `CONFIRMED ignored — fills for this order are reported by the broker (${execution.broker})`,
+        skipped: true
+      };
+    }
+
+    // Fill accounting: the fill moves the position; a re-sent fill changes nothing
+    if (fillAccounting) {
+      fillResult = await applyFill(execution, {
+        fill_id: fill_id != null ? String(fill_id) : null,
+        quantity: filledQty,
+        price: fillPrice,
+        source
+      });
+      if (fillResult.status === 'duplicate') {
+        return {
+          execution_id: execution.id,
+          fill_price: fillPrice,
+          message: `Duplicate fill ${fillResult.fill_key} ignored`,
+          skipped: true
+        };
+      }
+    }
+
     // Accumulate filled quantity across partial fills
     const previouslyFilled = (execution as any).filled_quantity ?? 0;
     const totalFilled = previouslyFilled + filledQty;
@@ -1721,12 +2977,24 @@ async function handleConfirmedSignal(data: {
     });
 
     console.log(`✅ CONFIRMED: ${tickerUpper} filled ${filledQty} (total ${totalFilled}/${execution.quantity}) @ ${fillPrice} — ${newStatus}`);
+
+    // Intent accounting: an exit already booked at its limit price is repriced at the actual fill
+    if (!fillAccounting) repricedPnl = await reconcileExitFill(execution, fillPrice, Math.min(filledQty, Math.max(0, execution.quantity - previouslyFilled)))
+      .catch(err => {
+        console.error('❌ Exit repricing error:', err.message);
+        return null;
+      });
   }
 
-  // CONFIRMED is a pure fill receipt — it records the fill on the execution
-  // record but does NOT create or modify position records. Position lifecycle
-  // is owned exclusively by the ORDER and EXIT handlers to avoid PnL drift
-  // caused by TradingView re-sending fill quantities after positions are already set.
+  // In intent accounting (default) CONFIRMED is a pure fill receipt — it records
+  // the fill on the execution record but does NOT create or modify position
+  // records. Position lifecycle is owned by the ORDER and EXIT handlers to avoid
+  // PnL drift caused by TradingView re-sending fill quantities after positions
+  // are already set. The one exception is repricing an already-closed exit
+  // (reconcileExitFill above), which adjusts the exit price and realized P&L but
+  // never quantities.
+  // In fill accounting the fill itself moves the position (applyFill above),
+  // deduplicated by fill key and capped at the execution's quantity.
 
   // Determine final status for audit/notifications
   const execStatus = isOrphan ? 'unmatched_confirm'
@@ -1742,13 +3010,16 @@ async function handleConfirmedSignal(data: {
         fill_price: fillPrice,
         fill_price_ticks,
         mintick,
+        source,
         filled_quantity: filledQty,
         total_filled: (execution as any).filled_quantity ?? filledQty,
         remaining_quantity: (execution as any).remaining_quantity ?? 0,
         dir: dir || execution.dir,
         status: execStatus,
         is_orphan: isOrphan,
-        position_updated: false
+        position_updated: fillResult?.status === 'applied',
+        fill: fillResult,
+        exit_repriced_pnl: repricedPnl
       })
     }
   });
@@ -1771,6 +3042,7 @@ async function handleConfirmedSignal(data: {
     filled_quantity: filledQty,
     status: execStatus,
     is_orphan: isOrphan,
+    ...(fillResult && { fill: fillResult }),
     message: isOrphan
       ? `Unmatched fill recorded for ${tickerUpper} @ ${fillPrice} (no execution found in window)`
       : `Order ${execStatus === 'confirmed' ? 'fully confirmed' : 'partially filled'} for ${tickerUpper} @ ${fillPrice}`
@@ -1876,21 +3148,29 @@ export async function getWebhookLogs(req: Request, res: Response) {
 
     const total = await prisma.webhookLog.count({ where });
 
+    // Every source seen, for the source filter
+    const sources = await prisma.webhookLog.findMany({ distinct: ['source'], select: { source: true }, orderBy: { source: 'asc' } });
+
     // Parse payload for readability and extract ticker/event from each log
     const enriched = logs.map(log => {
       let parsed: any = null;
+      let received: any = null;
       try { parsed = JSON.parse(log.payload); } catch {}
+      try { received = log.source_payload ? JSON.parse(log.source_payload) : null; } catch {}
       return {
         ...log,
         ticker:  parsed?.ticker || parsed?.symbol || null,
         event:   parsed?.event  || parsed?.type   || null,
         payload: parsed ?? log.payload,
+        source_payload: received ?? log.source_payload,
+        validation_errors: log.validation_errors ? JSON.parse(log.validation_errors) : null,
       };
     });
 
     res.json({
       logs: enriched,
       total,
+      sources: sources.map(row => row.source),
       limit: Number(limit),
       offset: Number(offset)
     });
@@ -1900,6 +3180,118 @@ export async function getWebhookLogs(req: Request, res: Response) {
   }
 }
 
+/**
+ * Retry a failed webhook — it goes back in the queue and is processed again
+ * POST /api/webhook/logs/:id/retry
+ */
+export async function retryWebhookLog(req: Request, res: Response) {
+  try {
+    const log = await requeueWebhookLog(req.params.id as string, res.locals.user?.email || null);
+    if (!log) {
+      return res.status(404).json({ error: 'Webhook log not found' });
+    }
+    res.json({ success: true, log });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+}
+
+const isTrue = (value: any) => value === true || value === 'true' || value === '1';
+
+/**
+ * Replay one stored webhook — for real (queued again as a new log row) or as
+ * a dry run that reports what would have happened. Real replays need admin.
+ * POST /api/webhook/logs/:id/replay  { dry_run?: boolean }
+ */
+export async function replayWebhookLogHandler(req: Request, res: Response) {
+  try {
+    const dryRun = isTrue(req.body?.dry_run ?? req.query.dry_run);
+    if (!dryRun && !hasRole(res.locals.user, 'admin')) {
+      return res.status(403).json({ error: 'Replaying for real requires admin role — use dry_run' });
+    }
+
+    const replay = await replayWebhookLog(req.params.id as string, {
+      dry_run: dryRun,
+      requested_by: res.locals.user?.email || null
+    });
+    if (!replay) {
+      return res.status(404).json({ error: 'Webhook log not found' });
+    }
+    if (replay.error) {
+      return res.status(400).json({ error: replay.error });
+    }
+    res.json(replay.result);
+  } catch (error: any) {
+    console.error('Error replaying webhook:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
+
+/**
+ * Replay a batch: stored webhooks in a time range (JSON body
+ * { from, to, ticker?, status?, source? }), or a webhook history CSV sent as
+ * text/csv. dry_run and fresh come from the body or the query string.
+ * POST /api/webhook/logs/replay
+ */
+export async function replayWebhookBatch(req: Request, res: Response) {
+  try {
+    const csv = typeof req.body === 'string' ? req.body : null;
+    const options = csv !== null ? req.query : { ...req.query, ...req.body };
+    const dryRun = isTrue(options.dry_run);
+    if (!dryRun && !hasRole(res.locals.user, 'admin')) {
+      return res.status(403).json({ error: 'Replaying for real requires admin role — use dry_run' });
+    }
+
+    let items;
+    let label: string;
+    if (csv !== null) {
+      const parsed = parseWebhookHistoryCsv(csv);
+      if (parsed.error) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      items = parsed.items;
+      label = 'CSV upload';
+    } else {
+      const from = new Date(options.from as string);
+      const to = options.to ? new Date(options.to as string) : new Date();
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+        return res.status(400).json({ error: 'from (and optional to) must be dates with from before to' });
+      }
+      const found = await replayItemsFromLogs({
+        from,
+        to,
+        ticker: options.ticker ? String(options.ticker) : undefined,
+        status: options.status ? String(options.status) : undefined,
+        source: options.source ? String(options.source) : undefined
+      });
+      if (found.error) {
+        return res.status(400).json({ error: found.error });
+      }
+      items = found.items;
+      label = `${from.toISOString()} – ${to.toISOString()}`;
+    }
+
+    const result = await replayWebhooks(items, {
+      dry_run: dryRun,
+      fresh: isTrue(options.fresh),
+      requested_by: res.locals.user?.email || null,
+      label
+    });
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error replaying webhooks:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
+
+/**
+ * JSON Schema of the webhook payloads, for validating alert templates
+ * GET /api/webhook/schema
+ */
+export async function getWebhookSchema(req: Request, res: Response) {
+  res.type('application/schema+json').json(webhookJsonSchema());
+}
+
 /**
  * Test webhook endpoint
  * POST /api/webhook/test
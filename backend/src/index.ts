@@ -20,9 +20,19 @@ import schedulesRoutes from './routes/schedules';
 import simRoutes from './routes/sim';
 import liveTradesRoutes from './routes/liveTrades';
 import classifierRoutes from './routes/classifier';
+import webhookSecretsRoutes from './routes/webhookSecrets';
+import tradesRoutes from './routes/trades';
+import analyticsRoutes from './routes/analytics';
+import brokerAccountRoutes from './routes/brokerAccounts';
+import webhookSourceRoutes from './routes/webhookSources';
+import { authenticate, authorize } from './middleware/auth';
 
 // Import services
 import { startCleanupScheduler } from './services/databaseCleanup';
+import { startBrokerOrderSync, stopBrokerOrderSync } from './services/brokerOrderSync';
+import { startBrokerDeliveryQueue, stopBrokerDeliveryQueue } from './services/brokerDeliveryQueue';
+import { startAccountOrderWorker, stopAccountOrderWorker } from './services/accountOrderService';
+import { startWebhookQueue, stopWebhookQueue } from './services/webhookQueue';
 import { startExecutionScheduler, stopExecutionScheduler } from './services/executionScheduler';
 import { startDailyResetScheduler, stopDailyResetScheduler } from './services/dailyReset';
 import { startModeScheduler, stopModeScheduler } from './services/modeScheduler';
@@ -32,6 +42,12 @@ import { startSpikeMonitor, stopSpikeMonitor } from './services/spikeMonitorServ
 // Load environment variables
 dotenv.config();
 
+// The JWT secret guards every trading and admin route — there is no safe default
+if (!process.env.JWT_SECRET) {
+  console.error('❌ JWT_SECRET is not set — refusing to start. Set it to a long random string (see .env.example).');
+  process.exit(1);
+}
+
 // Initialize Prisma Client
 // connection_limit=1 prevents persistent connection pool that keeps Neon awake 24/7
 export const prisma = new PrismaClient({
@@ -52,7 +68,10 @@ app.use(cors({
   origin: true, // Allow all origins
   credentials: true
 }));
-app.use(express.json()); // Parse JSON bodies
+app.use(express.json({
+  // Keep the exact bytes for HMAC verification of inbound webhooks
+  verify: (req, _res, buf) => { (req as any).rawBody = buf; }
+})); // Parse JSON bodies
 app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
 
 // Health check endpoint
@@ -61,19 +80,30 @@ app.get('/health', (req, res) => {
 });
 
 // API Routes
+// Inbound signals authenticate with the webhook passphrase/HMAC, not a user JWT —
+// the webhook router protects its own non-inbound routes (logs, test).
 app.use('/api/webhook', webhookRoutes);
-app.use('/api/trade-intents', tradeIntentRoutes);
-app.use('/api/executions', executionRoutes);
-app.use('/api/positions', positionRoutes);
-app.use('/api/audit-logs', auditLogRoutes);
-app.use('/api/settings', settingsRoutes);
-app.use('/api/ticker-configs', tickerConfigRoutes);
 app.use('/api/auth', authRoutes);
-app.use('/api/database', databaseRoutes);
-app.use('/api/schedules', schedulesRoutes);
-app.use('/api/sim', simRoutes);
-app.use('/api/live-trades', liveTradesRoutes);
-app.use('/api/classifier', classifierRoutes);
+
+// Everything else requires a logged-in user. Reads are open to every role;
+// writes need trader, and admin-only areas need admin for both.
+app.use('/api/trade-intents', authenticate, authorize('viewer', 'trader'), tradeIntentRoutes);
+app.use('/api/executions', authenticate, authorize('viewer', 'trader'), executionRoutes);
+app.use('/api/positions', authenticate, authorize('viewer', 'trader'), positionRoutes);
+app.use('/api/trades', authenticate, authorize('viewer', 'trader'), tradesRoutes);
+app.use('/api/analytics', authenticate, authorize('viewer', 'trader'), analyticsRoutes);
+app.use('/api/audit-logs', authenticate, authorize('viewer', 'trader'), auditLogRoutes);
+app.use('/api/settings', authenticate, authorize('viewer', 'trader'), settingsRoutes);
+app.use('/api/ticker-configs', authenticate, authorize('viewer', 'trader'), tickerConfigRoutes);
+app.use('/api/database', authenticate, authorize('viewer', 'admin'), databaseRoutes);
+app.use('/api/schedules', authenticate, authorize('viewer', 'trader'), schedulesRoutes);
+app.use('/api/sim', authenticate, authorize('viewer', 'trader'), simRoutes);
+app.use('/api/live-trades', authenticate, authorize('viewer', 'trader'), liveTradesRoutes);
+app.use('/api/classifier', authenticate, authorize('viewer', 'trader'), classifierRoutes);
+app.use('/api/webhook-secrets', authenticate, authorize('admin', 'admin'), webhookSecretsRoutes);
+app.use('/api/broker-accounts', authenticate, authorize('viewer', 'admin'), brokerAccountRoutes);
+// Testing a profile is a trader action; creating, editing and deleting them needs admin
+app.use('/api/webhook-sources', authenticate, authorize('viewer', 'trader'), webhookSourceRoutes);
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -161,6 +191,9 @@ app.listen(PORT, () => {
   // Start automatic database cleanup scheduler
   startCleanupScheduler();
 
+  // Start webhook queue (processes received signals; resumes any a restart interrupted)
+  startWebhookQueue().catch(err => console.error('❌ Failed to start webhook queue:', err));
+
   // Start execution scheduler (smart idle/active mode — activates on demand)
   startExecutionScheduler().catch(err => console.error('❌ Failed to start execution scheduler:', err));
 
@@ -179,6 +212,15 @@ app.listen(PORT, () => {
   // Start spike monitor (auto-detects 40%+ movers, seeds SEC Watch panel)
   startSpikeMonitor();
 
+  // Start broker order sync (Alpaca/Tradier fills flow back without CONFIRMED alerts)
+  startBrokerOrderSync();
+
+  // Start broker delivery queue (retries failed order forwards, dead-letters the rest; polls only while retries wait)
+  startBrokerDeliveryQueue().catch(err => console.error('❌ Failed to start broker delivery queue:', err));
+
+  // Start account order worker (delivers and syncs orders for additional broker accounts)
+  startAccountOrderWorker().catch(err => console.error('❌ Failed to start account order worker:', err));
+
   // Seed backtest ticker list from committed CSV (no-op if already seeded)
   seedSimTickersFromCSV().catch(err => console.error('[sim] seed failed:', err));
 });
@@ -192,6 +234,10 @@ process.on('SIGINT', async () => {
   stopSecWatchScanner();
   stopLiveScorePoller();
   stopSpikeMonitor();
+  stopBrokerOrderSync();
+  stopBrokerDeliveryQueue();
+  stopAccountOrderWorker();
+  stopWebhookQueue();
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -204,6 +250,10 @@ process.on('SIGTERM', async () => {
   stopSecWatchScanner();
   stopLiveScorePoller();
   stopSpikeMonitor();
+  stopBrokerOrderSync();
+  stopBrokerDeliveryQueue();
+  stopAccountOrderWorker();
+  stopWebhookQueue();
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -0,0 +1,95 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../index';
+
+// Read lazily — this module is imported before dotenv.config() runs in index.ts.
+// index.ts refuses to start without it; never sign or verify with a guessable fallback.
+function jwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) throw new Error('JWT_SECRET is not set');
+  return secret;
+}
+
+export type UserRole = 'viewer' | 'trader' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'trader', 'admin'];
+
+/** Each role can do everything the roles before it can */
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, trader: 1, admin: 2 };
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: UserRole;
+}
+
+export function signToken(user: { id: string; email: string }): string {
+  return jwt.sign({ userId: user.id, email: user.email }, jwtSecret(), { expiresIn: '7d' });
+}
+
+export function hasRole(user: AuthUser | undefined, required: UserRole): boolean {
+  if (!user) return false;
+  return (ROLE_RANK[user.role] ?? -1) >= ROLE_RANK[required];
+}
+
+/**
+ * Bearer token from the Authorization header. EventSource can't set headers,
+ * so SSE endpoints may pass it as `?token=` instead.
+ */
+function extractToken(req: Request): string | null {
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('Bearer ')) return authHeader.substring(7);
+  if (typeof req.query.token === 'string' && req.query.token) return req.query.token;
+  return null;
+}
+
+/**
+ * Verify the JWT and load the user into res.locals.user.
+ * The role is read from the database on every request so demotions and
+ * deleted accounts take effect without waiting for the token to expire.
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  const token = extractToken(req);
+  if (!token) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  let decoded: any;
+  try {
+    decoded = jwt.verify(token, jwtSecret());
+  } catch {
+    return res.status(401).json({ error: 'Invalid or expired token' });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: decoded.userId } });
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+    res.locals.user = { id: user.id, email: user.email, role: user.role as UserRole } as AuthUser;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/** Reject the request with 403 unless the authenticated user has at least `role` */
+export function requireRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasRole(res.locals.user, role)) {
+      return res.status(403).json({ error: `Requires ${role} role` });
+    }
+    next();
+  };
+}
+
+/**
+ * Router-level policy: reads (GET/HEAD) need `read`, anything that changes
+ * state needs `write`. Mounted in index.ts in front of each API router.
+ */
+export function authorize(read: UserRole, write: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const required = req.method === 'GET' || req.method === 'HEAD' ? read : write;
+    return requireRole(required)(req, res, next);
+  };
+}
@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../index';
+import { verifyWebhookRequest } from '../services/webhookAuthService';
+import { webhookSourceFor } from '../services/webhookSourceProfile';
+
+/**
+ * Is inbound webhook auth switched on? A missing column (schema not yet pushed)
+ * reads as "off" so a deploy never starts dropping alerts before the migration runs.
+ */
+async function isWebhookAuthRequired(): Promise<boolean> {
+  try {
+    const settings = await prisma.executionSettings.findFirst();
+    return !!settings?.webhook_auth_required;
+  } catch (e: any) {
+    if (e.message?.includes('does not exist')) return false;
+    throw e;
+  }
+}
+
+/**
+ * Gate for the inbound signal routes (POST /api/webhook, /signal, /tradingview,
+ * /src/:profile).
+ *
+ * - Auth disabled in Settings → pass through untouched.
+ * - Valid passphrase/signature → strip `passphrase` from the body and record the
+ *   authenticated source on res.locals.webhookSource for the WebhookLog row.
+ * - Otherwise → write a WebhookLog with status `unauthorized` and reply 401.
+ *   The signal is never processed.
+ */
+export async function requireWebhookAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!(await isWebhookAuthRequired())) return next();
+
+    const result = await verifyWebhookRequest(req.headers, req.body, (req as any).rawBody);
+    const { passphrase, ...payload } = req.body || {};
+
+    if (!result.ok) {
+      const log = await prisma.webhookLog.create({
+        data: {
+          source: webhookSourceFor(req),
+          payload: JSON.stringify(passphrase !== undefined ? { ...payload, passphrase: '[redacted]' } : payload),
+          status: 'unauthorized',
+          error: result.reason
+        }
+      });
+      console.warn(`🚫 Unauthorized webhook rejected (${result.method}): ${result.reason} (log: ${log.id}, ip: ${req.ip})`);
+      return res.status(401).json({
+        success: false,
+        error: 'Unauthorized webhook',
+        log_id: log.id
+      });
+    }
+
+    req.body = payload;
+    res.locals.webhookSource = result.source;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,48 @@
+import express, { Request, Response } from 'express';
+import {
+  computePerformance,
+  PERFORMANCE_DIMENSIONS,
+  PerformanceDimension
+} from '../services/performanceAnalyticsService';
+
+const router = express.Router();
+
+// GET /api/analytics/performance?from=&to=&group_by=strategy,bias&strategy=&ticker=
+router.get('/performance', async (req: Request, res: Response) => {
+  try {
+    const { from, to, group_by, strategy, ticker } = req.query;
+
+    const fromDate = from ? new Date(from as string) : null;
+    const toDate = to ? new Date(to as string) : null;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({ error: 'from/to must be valid dates' });
+    }
+
+    const dimensions = group_by
+      ? (group_by as string).split(',').map(d => d.trim()).filter(Boolean)
+      : [];
+    const unknown = dimensions.filter(d => !Object.keys(PERFORMANCE_DIMENSIONS).includes(d));
+    if (unknown.length > 0) {
+      return res.status(400).json({
+        error: `Unknown group_by: ${unknown.join(', ')}. Use: ${Object.keys(PERFORMANCE_DIMENSIONS).join(', ')}`
+      });
+    }
+
+    const where: Record<string, any> = {};
+    if (strategy) where.strategy_id = strategy as string;
+    if (ticker) where.ticker = (ticker as string).toUpperCase();
+
+    const report = await computePerformance({
+      from: fromDate,
+      to: toDate,
+      dimensions: dimensions as PerformanceDimension[],
+      where
+    });
+    res.json(report);
+  } catch (error: any) {
+    console.error('Error computing performance analytics:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -1,14 +1,49 @@
-import express, { Request, Response } from 'express';
+import express, { Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import { prisma } from '../index';
+import { authenticate, requireRole, signToken, USER_ROLES, UserRole } from '../middleware/auth';
 
 const router = express.Router();
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+function toPublicUser(user: { id: string; email: string; role: string; createdAt?: Date }) {
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    ...(user.createdAt && { createdAt: user.createdAt })
+  };
+}
+
+/**
+ * Registration is open only until the first account exists — that account
+ * becomes admin. After that, only an admin can create users.
+ */
+async function allowRegistration(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userCount = await prisma.user.count();
+    if (userCount === 0) {
+      res.locals.bootstrap = true;
+      return next();
+    }
+    return authenticate(req, res, () => requireRole('admin')(req, res, next));
+  } catch (error) {
+    next(error);
+  }
+}
 
-// Register new user
-router.post('/register', async (req: Request, res: Response) => {
+// Whether the login page should offer first-time setup
+router.get('/status', async (req: Request, res: Response) => {
+  try {
+    const userCount = await prisma.user.count();
+    res.json({ setup_required: userCount === 0 });
+  } catch (error: any) {
+    console.error('Error getting auth status:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Register new user (first user → admin, otherwise admin-only)
+router.post('/register', allowRegistration, async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body;
 
@@ -16,6 +51,14 @@ router.post('/register', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Email and password are required' });
     }
 
+    let role: UserRole = res.locals.bootstrap ? 'admin' : 'viewer';
+    if (!res.locals.bootstrap && req.body.role !== undefined) {
+      if (!USER_ROLES.includes(req.body.role)) {
+        return res.status(400).json({ error: `role must be one of: ${USER_ROLES.join(', ')}` });
+      }
+      role = req.body.role;
+    }
+
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
       where: { email }
@@ -32,25 +75,25 @@ router.post('/register', async (req: Request, res: Response) => {
     const user = await prisma.user.create({
       data: {
         email,
-        password: hashedPassword
+        password: hashedPassword,
+        role
       }
     });
 
-    // Generate JWT
-    const token = jwt.sign(
-      { userId: user.id, email: user.email },
-      JWT_SECRET,
-      { expiresIn: '7d' }
-    );
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'user_created',
+        ticker: null,
+        details: JSON.stringify({ user_id: user.id, email: user.email, role, created_by: res.locals.user?.email || null })
+      }
+    });
 
-    console.log(`✅ User registered: ${email}`);
+    console.log(`✅ User registered: ${email} (${role})`);
 
+    // Only the bootstrap admin is logged straight in; admin-created users sign in themselves
     res.status(201).json({
-      token,
-      user: {
-        id: user.id,
-        email: user.email
-      }
+      ...(res.locals.bootstrap && { token: signToken(user) }),
+      user: toPublicUser(user)
     });
   } catch (error: any) {
     console.error('Error registering user:', error);
@@ -83,21 +126,11 @@ router.post('/login', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Invalid email or password' });
     }
 
-    // Generate JWT
-    const token = jwt.sign(
-      { userId: user.id, email: user.email },
-      JWT_SECRET,
-      { expiresIn: '7d' }
-    );
-
     console.log(`✅ User logged in: ${email}`);
 
     res.json({
-      token,
-      user: {
-        id: user.id,
-        email: user.email
-      }
+      token: signToken(user),
+      user: toPublicUser(user)
     });
   } catch (error: any) {
     console.error('Error logging in:', error);
@@ -106,41 +139,97 @@ router.post('/login', async (req: Request, res: Response) => {
 });
 
 // Get current user
-router.get('/me', async (req: Request, res: Response) => {
+router.get('/me', authenticate, (req: Request, res: Response) => {
+  res.json(res.locals.user);
+});
+
+// Logout (client-side should remove token)
+router.post('/logout', (req: Request, res: Response) => {
+  res.json({ message: 'Logged out successfully' });
+});
+
+// List users (admin)
+router.get('/users', authenticate, requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const users = await prisma.user.findMany({ orderBy: { createdAt: 'asc' } });
+    res.json(users.map(toPublicUser));
+  } catch (error: any) {
+    console.error('Error fetching users:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Change a user's role (admin)
+router.put('/users/:id/role', authenticate, requireRole('admin'), async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
+    const id = req.params.id as string;
+    const { role } = req.body;
+
+    if (!USER_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of: ${USER_ROLES.join(', ')}` });
+    }
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ error: 'No token provided' });
+    const existing = await prisma.user.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
     }
 
-    const token = authHeader.substring(7);
+    // Never leave the system without an admin
+    if (existing.role === 'admin' && role !== 'admin') {
+      const adminCount = await prisma.user.count({ where: { role: 'admin' } });
+      if (adminCount <= 1) {
+        return res.status(400).json({ error: 'Cannot demote the last admin' });
+      }
+    }
 
-    // Verify JWT
-    const decoded: any = jwt.verify(token, JWT_SECRET);
+    const user = await prisma.user.update({ where: { id }, data: { role } });
 
-    // Get user
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId }
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'user_role_changed',
+        ticker: null,
+        details: JSON.stringify({ user_id: id, email: user.email, from: existing.role, to: role, changed_by: res.locals.user.email })
+      }
     });
 
-    if (!user) {
+    console.log(`👤 Role changed: ${user.email} ${existing.role} → ${role}`);
+    res.json(toPublicUser(user));
+  } catch (error: any) {
+    console.error('Error changing user role:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete a user (admin)
+router.delete('/users/:id', authenticate, requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    if (id === res.locals.user.id) {
+      return res.status(400).json({ error: 'Cannot delete your own account' });
+    }
+
+    const existing = await prisma.user.findUnique({ where: { id } });
+    if (!existing) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    res.json({
-      id: user.id,
-      email: user.email
+    await prisma.user.delete({ where: { id } });
+
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'user_deleted',
+        ticker: null,
+        details: JSON.stringify({ user_id: id, email: existing.email, deleted_by: res.locals.user.email })
+      }
     });
+
+    console.log(`🗑️ User deleted: ${existing.email}`);
+    res.json({ success: true });
   } catch (error: any) {
-    console.error('Error getting current user:', error);
-    res.status(401).json({ error: 'Invalid or expired token' });
+    console.error('Error deleting user:', error);
+    res.status(500).json({ error: error.message });
   }
 });
 
-// Logout (client-side should remove token)
-router.post('/logout', (req: Request, res: Response) => {
-  res.json({ message: 'Logged out successfully' });
-});
-
 export default router;
@@ -0,0 +1,189 @@
+import express, { Request, Response } from 'express';
+import { prisma } from '../index';
+import { accountBooks, parseBrokerAccountInput } from '../services/accountOrderService';
+import { testBrokerAdapter, testBrokerWebhook } from '../services/brokerWebhook';
+import { parsePayloadTemplates } from '../services/brokerPayloadTemplate';
+
+const router = express.Router();
+
+function toPublic(account: any) {
+  return {
+    ...account,
+    size_multiplier: Number(account.size_multiplier),
+    max_notional: account.max_notional != null ? Number(account.max_notional) : null
+  };
+}
+
+// List accounts with their open positions, realized P&L and order counts
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const accounts = await prisma.brokerAccount.findMany({ orderBy: { name: 'asc' } });
+    const ids = accounts.map(a => a.id);
+    const books = await accountBooks(ids);
+    const counts = await prisma.accountOrder.groupBy({
+      by: ['account_id', 'status'],
+      where: { account_id: { in: ids } },
+      _count: { _all: true }
+    });
+
+    res.json(accounts.map(account => ({
+      ...toPublic(account),
+      ...books.get(account.id),
+      orders: Object.fromEntries(
+        counts.filter(c => c.account_id === account.id).map(c => [c.status, c._count._all])
+      )
+    })));
+  } catch (error: any) {
+    console.error('Error fetching broker accounts:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { data, error } = parseBrokerAccountInput(req.body ?? {});
+    if (!data) {
+      return res.status(400).json({ error });
+    }
+    if (await prisma.brokerAccount.findUnique({ where: { name: data.name } })) {
+      return res.status(409).json({ error: `An account named "${data.name}" already exists` });
+    }
+
+    const account = await prisma.brokerAccount.create({ data: data as any });
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'broker_account_created',
+        ticker: null,
+        details: JSON.stringify({ account_id: account.id, name: account.name, adapter: account.adapter, requested_by: res.locals.user?.email || null })
+      }
+    });
+
+    console.log(`🏦 Broker account created: ${account.name} (${account.adapter})`);
+    res.status(201).json(toPublic(account));
+  } catch (error: any) {
+    console.error('Error creating broker account:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const existing = await prisma.brokerAccount.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Broker account not found' });
+    }
+
+    const { data, error } = parseBrokerAccountInput(req.body ?? {}, existing);
+    if (!data) {
+      return res.status(400).json({ error });
+    }
+    if (data.name && data.name !== existing.name && await prisma.brokerAccount.findUnique({ where: { name: data.name } })) {
+      return res.status(409).json({ error: `An account named "${data.name}" already exists` });
+    }
+
+    const account = await prisma.brokerAccount.update({ where: { id }, data });
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'broker_account_updated',
+        ticker: null,
+        details: JSON.stringify({ account_id: id, name: account.name, changes: data, requested_by: res.locals.user?.email || null })
+      }
+    });
+
+    res.json(toPublic(account));
+  } catch (error: any) {
+    console.error('Error updating broker account:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete an account with nothing in flight — otherwise disable it so its books stay
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const account = await prisma.brokerAccount.findUnique({ where: { id } });
+    if (!account) {
+      return res.status(404).json({ error: 'Broker account not found' });
+    }
+
+    const openOrders = await prisma.accountOrder.count({
+      where: { account_id: id, status: { in: ['pending', 'delivering', 'working', 'partially_filled'] } }
+    });
+    const openPositions = await prisma.accountPosition.count({ where: { account_id: id, closed_at: null } });
+    if (openOrders > 0 || openPositions > 0) {
+      return res.status(409).json({
+        error: `${account.name} has ${openOrders} open order(s) and ${openPositions} open position(s) — disable it instead`
+      });
+    }
+
+    await prisma.brokerAccount.delete({ where: { id } });
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'broker_account_deleted',
+        ticker: null,
+        details: JSON.stringify({ account_id: id, name: account.name, requested_by: res.locals.user?.email || null })
+      }
+    });
+
+    console.log(`🗑️ Broker account deleted: ${account.name}`);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting broker account:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Positions (open and closed) booked for one account
+router.get('/:id/positions', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const positions = await prisma.accountPosition.findMany({
+      where: { account_id: id },
+      orderBy: { opened_at: 'desc' },
+      take: 200
+    });
+    res.json(positions.map(p => ({
+      ...p,
+      entry_price: Number(p.entry_price),
+      exit_price: p.exit_price != null ? Number(p.exit_price) : null,
+      realized_pnl: Number(p.realized_pnl)
+    })));
+  } catch (error: any) {
+    console.error('Error fetching account positions:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Test an account's connection — a TEST-symbol webhook send, or listing the broker's positions
+router.post('/:id/test', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const account = await prisma.brokerAccount.findUnique({ where: { id } });
+    if (!account) {
+      return res.status(404).json({ error: 'Broker account not found' });
+    }
+
+    if (account.adapter === 'webhook') {
+      if (!account.webhook_url) {
+        return res.status(400).json({ success: false, error: 'No webhook_url set' });
+      }
+      const settings = await prisma.executionSettings.findFirst();
+      const result = await testBrokerWebhook(account.webhook_url, parsePayloadTemplates(settings?.broker_payload_templates));
+      return res.status(result.success ? 200 : 400).json(result);
+    }
+    if (account.adapter === 'paper') {
+      return res.json({ success: true, message: 'The built-in paper broker needs no connection' });
+    }
+
+    const result = await testBrokerAdapter(account.adapter, account.paper, account.credentials_env);
+    res.status(result.success ? 200 : 400).json(result.success
+      ? { success: true, message: `${account.name} connection successful (${result.positions} open position${result.positions === 1 ? '' : 's'})` }
+      : { success: false, error: result.error });
+  } catch (error: any) {
+    console.error('Error testing broker account:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -1,6 +1,8 @@
 import express, { Request, Response } from 'express';
 import { getDatabaseStats, performDatabaseCleanup } from '../services/databaseCleanup';
 import { forceReset } from '../services/dailyReset';
+import { getLockMetrics, getLockProvider, getLockStatus, LOCK_INSTANCE_ID } from '../services/symbolLock';
+import { requireRole } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -15,6 +17,21 @@ router.get('/stats', async (req: Request, res: Response) => {
   }
 });
 
+// Symbol locks held right now (with their holder) and this instance's lock metrics
+router.get('/locks', requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    res.json({
+      provider: getLockProvider().name,
+      instance: LOCK_INSTANCE_ID,
+      locks: await getLockStatus(),
+      metrics: getLockMetrics()
+    });
+  } catch (error: any) {
+    console.error('Error getting lock status:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Manually trigger cleanup
 router.post('/cleanup', async (req: Request, res: Response) => {
   try {
@@ -1,10 +1,43 @@
 import express, { Request, Response } from 'express';
 import { prisma } from '../index';
 import { forwardToBroker } from '../services/brokerWebhook';
+import { enforcePreTradeRisk } from '../services/riskService';
+import { applyPositionExit, exitPriceFor } from '../services/positionExitService';
+import { isFillAccounting } from '../services/fillAccountingService';
+import { linkEntryExecution, isClosingOrder } from '../services/tradeJournalService';
+import { enforcePriceGuard, isPriceGuardHold } from '../services/priceGuardService';
 import { captureGradeSnapshot } from '../services/gradeSnapshotService';
+import { listDeadLetters, retryDeliveryNow, abandonDelivery } from '../services/brokerDeliveryQueue';
+import { parseOrderSpec, orderSpecData, orderSpecOf, OrderSpecInput, isExitPayload } from '../services/orderSpec';
+import { cancelExecutionOrder, replaceExecutionOrder } from '../services/brokerOrderControl';
+import { entryHaltReason } from '../services/killSwitchService';
+import {
+  accountOrdersByExecution,
+  cancelAccountOrders,
+  retryAccountOrder,
+  abandonAccountOrder,
+  listAccountOrderIssues
+} from '../services/accountOrderService';
 
 const router = express.Router();
 
+// Order type fields a custom order or an edit may set (see orderSpec)
+const ORDER_SPEC_FIELDS = ['order_type', 'stop_price', 'trail_amount', 'trail_percent', 'time_in_force', 'take_profit_price', 'stop_loss_price'] as const;
+
+function orderSpecFields(body: any): OrderSpecInput {
+  const fields: OrderSpecInput = {};
+  for (const field of ORDER_SPEC_FIELDS) {
+    if (body[field] !== undefined) fields[field] = body[field];
+  }
+  return fields;
+}
+
+// Whether an execution's order reduces the open position for its ticker
+async function closesOpenPosition(execution: any): Promise<boolean> {
+  const openPosition = await prisma.position.findFirst({ where: { ticker: execution.ticker, closed_at: null } });
+  return !!openPosition && isClosingOrder(openPosition.side, execution.order_action);
+}
+
 // ─── CSV Export (no external dependencies) ───────────────────────────────────
 // GET /api/executions/export
 // Downloads a CSV file with all order signals — opens directly in Excel.
@@ -43,8 +76,7 @@ router.get('/export', async (req: Request, res: Response) => {
       'Gates Hit','Gates Total','Confidence %','Strategy','Timeframe'));
 
     for (const e of executions) {
-      let isExit = false;
-      try { isExit = e.raw_payload ? JSON.parse(e.raw_payload).event === 'EXIT' : false; } catch {}
+      const isExit = isExitPayload(e.raw_payload);
       const intent = e.intent_id ? intentMap.get(e.intent_id) : null;
 
       lines.push(row(
@@ -135,8 +167,7 @@ router.get('/export', async (req: Request, res: Response) => {
         const intent = intentMap.get(e.intent_id!)!;
         let gates: Record<string, boolean> = {};
         try { gates = intent.gates_data ? JSON.parse(intent.gates_data) : {}; } catch {}
-        let isExit = false;
-        try { isExit = e.raw_payload ? JSON.parse(e.raw_payload).event === 'EXIT' : false; } catch {}
+        const isExit = isExitPayload(e.raw_payload);
 
         lines.push(row(
           e.created_at ? new Date(e.created_at).toLocaleString() : '',
@@ -208,8 +239,20 @@ router.get('/', async (req: Request, res: Response) => {
       : [];
     const intentMap = new Map(intents.map(i => [i.id, i]));
 
+    // Broker delivery state, so a card can show it is retrying
+    const deliveries = await prisma.brokerDelivery.findMany({
+      where: { execution_id: { in: executions.map(e => e.id) } },
+      select: { execution_id: true, status: true, attempts: true, max_attempts: true, next_attempt_at: true, last_error: true }
+    });
+    const deliveryMap = new Map(deliveries.map(d => [d.execution_id, d]));
+
+    // Per-account child orders, so one account failing shows without hiding the others
+    const accountOrders = await accountOrdersByExecution(executions.map(e => e.id));
+
     const enriched = executions.map(e => ({
       ...e,
+      delivery: deliveryMap.get(e.id) ?? null,
+      account_orders: accountOrders.get(e.id) ?? [],
       intent_manual_watch: e.intent_id ? intentMap.get(e.intent_id)?.manual_watch ?? false : false,
       intent_wait_watch_until: e.intent_id ? intentMap.get(e.intent_id)?.wait_watch_until ?? null : null,
       intent_pretrade_is_distribution: e.intent_id ? intentMap.get(e.intent_id)?.pretrade_is_distribution ?? false : false,
@@ -223,6 +266,82 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+// Orders the broker delivery queue gave up on
+router.get('/dead-letters', async (req: Request, res: Response) => {
+  try {
+    res.json(await listDeadLetters());
+  } catch (error: any) {
+    console.error('Error fetching dead letters:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Retry a dead-lettered broker delivery now
+router.post('/:id/delivery/retry', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const result = await retryDeliveryNow(id, res.locals.user?.email || null);
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error retrying broker delivery:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Give up on a dead-lettered broker delivery
+router.post('/:id/delivery/abandon', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    await abandonDelivery(id, res.locals.user?.email || null);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error abandoning broker delivery:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Account orders that failed or are retrying, whatever became of their executions
+router.get('/account-orders/issues', async (req: Request, res: Response) => {
+  try {
+    res.json(await listAccountOrderIssues());
+  } catch (error: any) {
+    console.error('Error fetching account order issues:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Send one account's failed order again — the other accounts are untouched
+router.post('/:id/accounts/:accountId/retry', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const accountId = req.params.accountId as string;
+    const order = await retryAccountOrder(id, accountId, res.locals.user?.email || null);
+    if (!order) {
+      return res.status(404).json({ error: 'No order for this account' });
+    }
+    res.json(order);
+  } catch (error: any) {
+    console.error('Error retrying account order:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Give up on one account's failed order
+router.post('/:id/accounts/:accountId/abandon', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const accountId = req.params.accountId as string;
+    const order = await abandonAccountOrder(id, accountId, res.locals.user?.email || null);
+    if (!order) {
+      return res.status(404).json({ error: 'No order for this account' });
+    }
+    res.json(order);
+  } catch (error: any) {
+    console.error('Error abandoning account order:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
 // Get execution with position context (for exit orders)
 router.get('/:id/with-position', async (req: Request, res: Response) => {
   try {
@@ -242,7 +361,7 @@ router.get('/:id/with-position', async (req: Request, res: Response) => {
     if (execution.raw_payload) {
       try {
         const payload = JSON.parse(execution.raw_payload);
-        isExit = payload.event === 'EXIT';
+        isExit = isExitPayload(execution.raw_payload);
         positionIdFromPayload = payload.position_id;
       } catch (e) {
         // Ignore parse errors
@@ -463,7 +582,7 @@ router.post('/', async (req: Request, res: Response) => {
 // Custom order — create and immediately forward to broker (no delay/scheduler)
 router.post('/custom', async (req: Request, res: Response) => {
   try {
-    const { ticker, action, quantity, limit_price, intent_id } = req.body;
+    const { ticker, action, quantity, limit_price, intent_id, strategy_id, fees } = req.body;
 
     if (!ticker || !action || !quantity || !limit_price) {
       return res.status(400).json({ error: 'Missing required fields: ticker, action, quantity, limit_price' });
@@ -474,10 +593,29 @@ router.post('/custom', async (req: Request, res: Response) => {
     if (Number(quantity) <= 0 || Number(limit_price) <= 0) {
       return res.status(400).json({ error: 'quantity and limit_price must be positive' });
     }
+    if (fees !== undefined && fees !== null && fees !== '' && !(Number(fees) >= 0)) {
+      return res.status(400).json({ error: 'fees must be a non-negative number' });
+    }
 
     const tickerUpper = ticker.toUpperCase();
     const dir = action === 'buy' ? 'Long' : 'Short';
 
+    const openPosition = await prisma.position.findFirst({ where: { ticker: tickerUpper, closed_at: null } });
+    const isExit = !!openPosition && isClosingOrder(openPosition.side, action);
+    const { spec: orderSpec, error: orderSpecError } = parseOrderSpec(
+      { ...orderSpecFields(req.body), limit_price },
+      { side: action, is_exit: isExit }
+    );
+    if (!orderSpec) {
+      return res.status(400).json({ error: orderSpecError });
+    }
+
+    // A tripped kill switch stops new entries from every path — closing orders still go out
+    const haltReason = isExit ? null : await entryHaltReason();
+    if (haltReason) {
+      return res.status(409).json({ success: false, error: haltReason, reason: 'kill_switch' });
+    }
+
     const execution = await prisma.execution.create({
       data: {
         ticker: tickerUpper,
@@ -495,18 +633,36 @@ router.post('/custom', async (req: Request, res: Response) => {
           limit_price: Number(limit_price),
           quantity: Number(quantity),
           order_action: action,
-          source: 'custom'
-        })
+          strategy_id: strategy_id || undefined,
+          source: 'custom',
+          ...orderSpecData(orderSpec)
+        }),
+        strategy_id: strategy_id || null,
+        ...orderSpecData(orderSpec)
       }
     });
     captureGradeSnapshot(execution.ticker, execution.id, execution.intent_id).catch(console.error);
 
+    const riskViolation = await enforcePreTradeRisk(execution, 'custom_order');
+    if (riskViolation) {
+      return res.status(422).json({ success: false, execution_id: execution.id, error: riskViolation.reason, risk: riskViolation });
+    }
+
+    const priceGuard = await enforcePriceGuard(execution, 'custom_order');
+    if (priceGuard) {
+      return res.status(422).json({ success: false, execution_id: execution.id, error: priceGuard.reason, price_guard: priceGuard });
+    }
+
     const brokerResult = await forwardToBroker(execution);
+    if (brokerResult.halted) {
+      return res.status(409).json({ success: false, execution_id: execution.id, error: brokerResult.error, reason: 'kill_switch' });
+    }
 
     await prisma.execution.update({
       where: { id: execution.id },
       data: {
-        status: brokerResult.success ? 'executed' : 'failed',
+        // A queued retry leaves it executing — brokerDeliveryQueue settles it
+        status: brokerResult.success ? 'executed' : brokerResult.queued ? 'executing' : 'failed',
         executed_at: brokerResult.success ? new Date() : null,
         error_message: brokerResult.success ? null : brokerResult.error
       }
@@ -516,43 +672,52 @@ router.post('/custom', async (req: Request, res: Response) => {
     // applied here too so a custom order shows up in the Positions tab just
     // like any other executed order. Tracked locally regardless of broker
     // forward result, matching the existing /:id/execute convention.
-    const existingPosition = await prisma.position.findFirst({
-      where: { ticker: tickerUpper, closed_at: null }
-    });
-
+    // In fill accounting the CONFIRMED fill moves the position instead.
     let positionId: string | null = null;
-    if (existingPosition) {
-      const isLong = existingPosition.side === 'Long';
-      const newQuantity = isLong
-        ? (action === 'buy'
-            ? existingPosition.quantity + Number(quantity)
-            : existingPosition.quantity - Number(quantity))
-        : (action === 'sell'
-            ? existingPosition.quantity + Number(quantity)
-            : existingPosition.quantity - Number(quantity));
-
-      if (newQuantity <= 0) {
-        await prisma.position.update({
-          where: { id: existingPosition.id },
-          data: { closed_at: new Date() }
-        });
+    if (!(await isFillAccounting())) {
+      const existingPosition = await prisma.position.findFirst({
+        where: { ticker: tickerUpper, closed_at: null }
+      });
+
+      if (existingPosition) {
+        const isLong = existingPosition.side === 'Long';
+        const newQuantity = isLong
+          ? (action === 'buy'
+              ? existingPosition.quantity + Number(quantity)
+              : existingPosition.quantity - Number(quantity))
+          : (action === 'sell'
+              ? existingPosition.quantity + Number(quantity)
+              : existingPosition.quantity - Number(quantity));
+
+        if (newQuantity < existingPosition.quantity) {
+          await applyPositionExit(existingPosition, {
+            quantity: existingPosition.quantity - Math.max(newQuantity, 0),
+            exit_price: exitPriceFor(execution),
+            reason: 'manual',
+            fees: fees ? Number(fees) : undefined,
+            source: 'custom_order',
+            execution_id: execution.id
+          });
+        } else {
+          await prisma.position.update({
+            where: { id: existingPosition.id },
+            data: { quantity: newQuantity }
+          });
+          await linkEntryExecution(execution.id, existingPosition.id);
+        }
+        positionId = existingPosition.id;
       } else {
-        await prisma.position.update({
-          where: { id: existingPosition.id },
-          data: { quantity: newQuantity }
+        const newPosition = await prisma.position.create({
+          data: {
+            ticker: tickerUpper,
+            side: dir,
+            quantity: Number(quantity),
+            entry_price: limit_price.toString()
+          }
         });
+        await linkEntryExecution(execution.id, newPosition.id);
+        positionId = newPosition.id;
       }
-      positionId = existingPosition.id;
-    } else {
-      const newPosition = await prisma.position.create({
-        data: {
-          ticker: tickerUpper,
-          side: dir,
-          quantity: Number(quantity),
-          entry_price: limit_price.toString()
-        }
-      });
-      positionId = newPosition.id;
     }
 
     await prisma.auditLog.create({
@@ -598,13 +763,23 @@ router.post('/:id/execute', async (req: Request, res: Response) => {
 
     // Block EXIT orders with no associated open position — prevents outbound
     // broker calls and notifications when the position no longer exists.
+    // A SCALE_IN adds to a position, so it needs one too.
     let isExitOrder = false;
+    let isScaleIn = false;
     if (execution.raw_payload) {
       try {
         const payload = JSON.parse(execution.raw_payload);
-        isExitOrder = payload.event === 'EXIT';
+        isExitOrder = isExitPayload(execution.raw_payload);
+        isScaleIn = payload.event === 'SCALE_IN';
       } catch (_) {}
     }
+    if (isScaleIn && !(await prisma.position.findFirst({ where: { ticker: execution.ticker, closed_at: null } }))) {
+      await prisma.execution.update({
+        where: { id },
+        data: { status: 'cancelled', error_message: 'No open position to scale into' }
+      });
+      return res.status(409).json({ error: `No open position for ${execution.ticker} — SCALE_IN cancelled` });
+    }
     if (isExitOrder) {
       const openPosition = await prisma.position.findFirst({
         where: { ticker: execution.ticker, closed_at: null }
@@ -625,66 +800,99 @@ router.post('/:id/execute', async (req: Request, res: Response) => {
       }
     }
 
+    // Execute Now doesn't override a tripped kill switch for an entry; closing orders still go out
+    const closesPosition = isExitOrder || await closesOpenPosition(execution);
+    const haltReason = closesPosition ? null : await entryHaltReason();
+    if (haltReason) {
+      return res.status(409).json({ error: haltReason, reason: 'kill_switch' });
+    }
+
+    // Re-check risk at send time — exposure may have changed since the order was queued
+    const riskViolation = await enforcePreTradeRisk(execution, 'force_execute');
+    if (riskViolation) {
+      return res.status(422).json({ error: riskViolation.reason, risk: riskViolation });
+    }
+
+    // Pressing Execute Now on an order the price guard held is the approval it was waiting for
+    if (!isPriceGuardHold(execution)) {
+      const priceGuard = await enforcePriceGuard(execution, 'force_execute');
+      if (priceGuard) {
+        return res.status(422).json({ error: priceGuard.reason, price_guard: priceGuard });
+      }
+    }
+
     // Forward to broker webhook first
     const brokerResult = await forwardToBroker(execution);
+    if (brokerResult.halted) {
+      return res.status(409).json({ error: brokerResult.error, reason: 'kill_switch' });
+    }
     // Capture grade snapshot if not already set (execution was created via a different path)
     if (!execution.grade_snapshot) {
       captureGradeSnapshot(execution.ticker, execution.id, execution.intent_id).catch(console.error);
     }
 
-    // Update execution as executed (even if broker fails - local state is tracked)
+    // Update execution as executed (even if broker fails - local state is tracked);
+    // a queued retry stays executing until brokerDeliveryQueue settles it
     const updatedExecution = await prisma.execution.update({
       where: { id },
       data: {
-        status: 'executed',
-        executed_at: new Date(),
+        status: brokerResult.queued ? 'executing' : 'executed',
+        executed_at: brokerResult.queued ? null : new Date(),
         error_message: brokerResult.success ? null : brokerResult.error
       }
     });
 
-    // Create or update position
-    const existingPosition = await prisma.position.findFirst({
-      where: {
-        ticker: execution.ticker,
-        closed_at: null
-      }
-    });
+    // Intent accounting — in fill accounting the CONFIRMED fill moves the position
+    if (!(await isFillAccounting())) {
+      // Create or update position
+      const existingPosition = await prisma.position.findFirst({
+        where: {
+          ticker: execution.ticker,
+          closed_at: null
+        }
+      });
 
-    if (existingPosition) {
-      // Position math must account for side:
-      //   Long position:  buy = add, sell = reduce
-      //   Short position: sell = add (adding to short), buy = reduce (covering)
-      const isLong = existingPosition.side === 'Long';
-      const newQuantity = isLong
-        ? (execution.order_action === 'buy'
-            ? existingPosition.quantity + execution.quantity
-            : existingPosition.quantity - execution.quantity)
-        : (execution.order_action === 'sell'
-            ? existingPosition.quantity + execution.quantity
-            : existingPosition.quantity - execution.quantity);
-
-      if (newQuantity <= 0) {
-        // Full close (or over-close — treat as closed)
-        await prisma.position.update({
-          where: { id: existingPosition.id },
-          data: { closed_at: new Date() }
-        });
+      if (existingPosition) {
+        // Position math must account for side:
+        //   Long position:  buy = add, sell = reduce
+        //   Short position: sell = add (adding to short), buy = reduce (covering)
+        const isLong = existingPosition.side === 'Long';
+        const newQuantity = isLong
+          ? (execution.order_action === 'buy'
+              ? existingPosition.quantity + execution.quantity
+              : existingPosition.quantity - execution.quantity)
+          : (execution.order_action === 'sell'
+              ? existingPosition.quantity + execution.quantity
+              : existingPosition.quantity - execution.quantity);
+
+        if (newQuantity < existingPosition.quantity) {
+          // Full close, partial close or over-close (treated as closed)
+          await applyPositionExit(existingPosition, {
+            quantity: existingPosition.quantity - Math.max(newQuantity, 0),
+            exit_price: exitPriceFor(updatedExecution),
+            reason: 'manual',
+            source: 'force_execute',
+            execution_id: execution.id
+          });
+        } else {
+          await prisma.position.update({
+            where: { id: existingPosition.id },
+            data: { quantity: newQuantity }
+          });
+          await linkEntryExecution(execution.id, existingPosition.id);
+        }
       } else {
-        await prisma.position.update({
-          where: { id: existingPosition.id },
-          data: { quantity: newQuantity }
+        // Create new position
+        const newPosition = await prisma.position.create({
+          data: {
+            ticker: execution.ticker,
+            side: execution.order_action === 'buy' ? 'Long' : 'Short',
+            quantity: execution.quantity,
+            entry_price: execution.limit_price || '0'
+          }
         });
+        await linkEntryExecution(execution.id, newPosition.id);
       }
-    } else {
-      // Create new position
-      await prisma.position.create({
-        data: {
-          ticker: execution.ticker,
-          side: execution.order_action === 'buy' ? 'Long' : 'Short',
-          quantity: execution.quantity,
-          entry_price: execution.limit_price || '0'
-        }
-      });
     }
 
     // Create audit log
@@ -727,22 +935,84 @@ router.put('/:id', async (req: Request, res: Response) => {
     const id = req.params.id as string;
     const { limit_price, quantity } = req.body;
 
+    const existing = await prisma.execution.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Execution not found' });
+    }
+
     const updateData: any = {};
     if (limit_price !== undefined) {
+      const newPrice = Number(limit_price);
+      if (!Number.isFinite(newPrice) || newPrice <= 0) {
+        return res.status(400).json({ error: 'limit_price must be a positive number' });
+      }
+
+      // Same ±max_adjustment_pct band the LimitPriceEditor enforces, measured from the
+      // signal's original price so repeated small edits can't walk the price away
+      const settings = await prisma.executionSettings.findFirst();
+      const maxAdjustmentPct = settings?.max_adjustment_pct ? parseFloat(settings.max_adjustment_pct.toString()) : 2;
+      let originalPrice = existing.limit_price ? parseFloat(existing.limit_price.toString()) : 0;
+      if (existing.raw_payload) {
+        try {
+          const payload = JSON.parse(existing.raw_payload);
+          const signalPrice = Number(payload.limit_price ?? payload.price);
+          if (signalPrice > 0) originalPrice = signalPrice;
+        } catch (_) {}
+      }
+      if (originalPrice > 0) {
+        const adjustmentPct = Math.abs(newPrice - originalPrice) / originalPrice * 100;
+        // Small tolerance for floating-point noise from the editor's slider math
+        if (adjustmentPct > maxAdjustmentPct + 0.01) {
+          return res.status(400).json({
+            error: `Limit price ${newPrice} is ${adjustmentPct.toFixed(2)}% from the original ${originalPrice} — max adjustment is ±${maxAdjustmentPct}%`
+          });
+        }
+      }
+
       updateData.limit_price = limit_price.toString();
     }
     if (quantity !== undefined) {
-      updateData.quantity = Number(quantity);
+      const newQuantity = Number(quantity);
+      if (!Number.isInteger(newQuantity) || newQuantity <= 0) {
+        return res.status(400).json({ error: 'quantity must be a positive whole number of shares' });
+      }
+      updateData.quantity = newQuantity;
     }
 
-    const execution = await prisma.execution.update({
-      where: { id },
-      data: updateData
-    });
+    // Order type / legs: the edited fields over what the execution has, checked as a whole
+    const specChanges = orderSpecFields(req.body);
+    if (Object.keys(specChanges).length > 0 || limit_price !== undefined) {
+      const isExit = isExitPayload(existing.raw_payload);
+      const { spec, error } = parseOrderSpec(
+        { ...orderSpecOf(existing), ...specChanges, limit_price: updateData.limit_price ?? existing.limit_price },
+        { side: existing.order_action, is_exit: isExit }
+      );
+      if (!spec) {
+        return res.status(400).json({ error });
+      }
+      Object.assign(updateData, orderSpecData(spec));
+    }
 
-    console.log(`✅ Execution updated: ${id} - limit_price: ${limit_price}`);
+    // Filled / cancelled orders are refused; one already at the broker is replaced there first
+    const result = await replaceExecutionOrder(existing, updateData, res.locals.user?.email || null);
+    if (!result.ok) {
+      return res.status(result.http_status).json({
+        error: result.error,
+        status: existing.status,
+        broker_status: existing.broker_status,
+        broker_response: result.acknowledgment?.response,
+        ...(result.risk && { risk: result.risk }),
+        ...(result.price_guard && { price_guard: result.price_guard })
+      });
+    }
 
-    res.json(execution);
+    console.log(`✅ Execution updated: ${id} - limit_price: ${limit_price}${updateData.order_type ? ` (${updateData.order_type} ${updateData.time_in_force})` : ''}${result.acknowledgment ? ' (replaced at broker)' : ''}`);
+
+    res.json({
+      ...result.execution,
+      broker_replaced: !!result.acknowledgment,
+      broker_response: result.acknowledgment?.response
+    });
   } catch (error: any) {
     console.error('Error updating execution:', error);
     res.status(500).json({ error: error.message });
@@ -754,22 +1024,46 @@ router.post('/:id/cancel', async (req: Request, res: Response) => {
   try {
     const id = req.params.id as string;
 
-    const execution = await prisma.execution.update({
-      where: { id },
-      data: { status: 'cancelled' }
-    });
+    const existing = await prisma.execution.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Execution not found' });
+    }
+
+    // A filled or already-cancelled order is refused; one at the broker is cancelled there first
+    const result = await cancelExecutionOrder(existing, res.locals.user?.email || null);
+    if (!result.ok) {
+      return res.status(result.http_status).json({
+        error: result.error,
+        status: existing.status,
+        broker_status: existing.broker_status,
+        broker_response: result.acknowledgment?.response
+      });
+    }
+    const execution = result.execution;
+    const accountCancels = await cancelAccountOrders(id, res.locals.user?.email || null);
 
     await prisma.auditLog.create({
       data: {
         event_type: 'execution_cancelled',
         ticker: execution.ticker,
-        details: JSON.stringify({ execution_id: id })
+        details: JSON.stringify({
+          execution_id: id,
+          previous_status: existing.status,
+          order_location: result.where,
+          broker_cancelled: !!result.acknowledgment,
+          account_orders: accountCancels.length
+        })
       }
     });
 
-    console.log(`✅ Execution cancelled: ${id}`);
+    console.log(`✅ Execution cancelled: ${id}${result.acknowledgment ? ' (cancelled at broker)' : ''}`);
 
-    res.json(execution);
+    res.json({
+      ...execution,
+      broker_cancelled: !!result.acknowledgment,
+      broker_response: result.acknowledgment?.response,
+      account_cancels: accountCancels
+    });
   } catch (error: any) {
     console.error('Error cancelling execution:', error);
     res.status(500).json({ error: error.message });
@@ -3,6 +3,10 @@ import { spawn, spawnSync } from 'child_process';
 import path from 'path';
 import { prisma } from '../index';
 import { fetchQuote } from '../services/tradierService';
+import { applyPositionExit } from '../services/positionExitService';
+import { subscribeToMarks } from '../services/markToMarketService';
+import { getBrokerAdapter } from '../services/brokerAdapter';
+import { protectiveOrdersByPosition } from '../services/protectiveOrderService';
 
 const router = express.Router();
 
@@ -25,9 +29,9 @@ const PYTHON_BIN = getPythonBin();
 /**
  * Helper to safely get positions without failing on missing columns
  */
-async function getPositionsSafe(where: any = {}, orderBy: any = { opened_at: 'desc' }) {
+async function getPositionsSafe(where: any = {}, orderBy: any = { opened_at: 'desc' }, take?: number) {
   try {
-    return await prisma.position.findMany({ where, orderBy });
+    return await prisma.position.findMany({ where, orderBy, take });
   } catch (e: any) {
     // If column doesn't exist (schema mismatch), use raw query
     if (e.message?.includes('does not exist') || e.message?.includes('Unknown argument')) {
@@ -37,11 +41,12 @@ async function getPositionsSafe(where: any = {}, orderBy: any = { opened_at: 'de
         const conditions: string[] = [];
         if (where.ticker) conditions.push(`ticker = '${where.ticker}'`);
         if (where.closed_at === null) conditions.push('closed_at IS NULL');
+        if (where.closed_at?.not === null) conditions.push('closed_at IS NOT NULL');
 
         const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
         const results = await prisma.$queryRawUnsafe(`
-          SELECT * FROM positions ${whereClause} ORDER BY opened_at DESC
+          SELECT * FROM positions ${whereClause} ORDER BY opened_at DESC${take ? ` LIMIT ${Number(take)}` : ''}
         `) as any[];
         return results || [];
       } catch (rawError: any) {
@@ -67,6 +72,10 @@ function normalizePosition(position: any) {
     side: position.side?.toLowerCase() || position.side,
     // TTP Exit SL threshold
     ttp_exit_price: position.ttp_exit_price != null ? Number(position.ttp_exit_price) : null,
+    // Exit outcome (Decimals → numbers)
+    exit_price: position.exit_price != null ? Number(position.exit_price) : null,
+    realized_pnl: position.realized_pnl != null ? Number(position.realized_pnl) : null,
+    fees: position.fees != null ? Number(position.fees) : 0,
   };
 }
 
@@ -74,16 +83,28 @@ function normalizePosition(position: any) {
 router.get('/', async (req: Request, res: Response) => {
   try {
     const open_only = req.query.open_only as string | undefined;
+    const closed_only = req.query.closed_only as string | undefined;
     const ticker = req.query.ticker as string | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
 
     const where: any = {};
     if (ticker) where.ticker = ticker;
     if (open_only === 'true') where.closed_at = null;
-
-    const positions = await getPositionsSafe(where);
-
-    // Normalize positions for frontend compatibility
-    const normalizedPositions = positions.map(normalizePosition);
+    else if (closed_only === 'true') where.closed_at = { not: null };
+
+    // Closed positions come back most recently closed first
+    const positions = await getPositionsSafe(
+      where,
+      closed_only === 'true' ? { closed_at: 'desc' } : { opened_at: 'desc' },
+      limit && limit > 0 ? limit : undefined
+    );
+
+    // Normalize positions for frontend compatibility, with their take-profit / stop-loss orders
+    const protective = await protectiveOrdersByPosition(positions.map((p: any) => p.id));
+    const normalizedPositions = positions.map((p: any) => ({
+      ...normalizePosition(p),
+      protective_orders: protective.get(p.id) ?? []
+    }));
 
     res.json(normalizedPositions);
   } catch (error: any) {
@@ -114,6 +135,26 @@ async function getPositionByIdSafe(id: string) {
   }
 }
 
+// Positions as the broker sees them (Alpaca/Tradier) — for reconciling against ours
+router.get('/broker', async (req: Request, res: Response) => {
+  try {
+    const settings = await prisma.executionSettings.findFirst();
+    const adapter = getBrokerAdapter(settings);
+    if (!adapter.tracksOrders) {
+      return res.status(400).json({ error: `The ${adapter.name} broker adapter cannot list positions` });
+    }
+    const configError = adapter.configurationError();
+    if (configError) {
+      return res.status(400).json({ error: configError });
+    }
+
+    res.json({ broker: adapter.name, positions: await adapter.listPositions() });
+  } catch (error: any) {
+    console.error('Error fetching broker positions:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Get single position
 router.get('/:id', async (req: Request, res: Response) => {
   try {
@@ -125,17 +166,45 @@ router.get('/:id', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Position not found' });
     }
 
-    res.json(normalizePosition(position));
+    const protective = await protectiveOrdersByPosition([position.id]);
+    res.json({ ...normalizePosition(position), protective_orders: protective.get(position.id) ?? [] });
   } catch (error: any) {
     console.error('Error fetching position:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
+// Confirmed fills applied to a position (fill accounting mode)
+router.get('/:id/fills', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const fills = await prisma.fill.findMany({
+      where: { position_id: id },
+      orderBy: { created_at: 'asc' }
+    });
+
+    res.json(fills.map(fill => ({ ...fill, price: Number(fill.price) })));
+  } catch (error: any) {
+    console.error('Error fetching position fills:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Mark position as flat (close it)
+// Optional body: { exit_price, fees } — without an exit price the live last
+// price is used, and if there is no quote the close is recorded unpriced.
 router.post('/:id/mark-flat', async (req: Request, res: Response) => {
   try {
     const id = req.params.id as string;
+    const { exit_price, fees } = req.body || {};
+
+    if (exit_price != null && exit_price !== '' && !(Number(exit_price) > 0)) {
+      return res.status(400).json({ error: 'exit_price must be a positive number' });
+    }
+    if (fees != null && fees !== '' && !(Number(fees) >= 0)) {
+      return res.status(400).json({ error: 'fees must be a non-negative number' });
+    }
 
     const position = await getPositionByIdSafe(id);
 
@@ -147,11 +216,25 @@ router.post('/:id/mark-flat', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Position already closed' });
     }
 
+    let exitPrice: number | null = exit_price ? Number(exit_price) : null;
+    let exitPriceSource = exitPrice !== null ? 'manual' : null;
+    if (exitPrice === null) {
+      const quote = await fetchQuote(position.ticker);
+      if (quote && quote.last > 0) {
+        exitPrice = quote.last;
+        exitPriceSource = 'quote';
+      }
+    }
+
     // Close the position
-    const updatedPosition = await prisma.position.update({
-      where: { id },
-      data: { closed_at: new Date() }
+    const exitResult = await applyPositionExit(position, {
+      quantity: position.quantity,
+      exit_price: exitPrice,
+      reason: 'mark_flat',
+      fees: fees ? Number(fees) : undefined,
+      source: 'mark_flat'
     });
+    const updatedPosition = await prisma.position.findUnique({ where: { id } });
 
     // Block signals for this ticker until next day 1am (5-minute cooldown for simplicity)
     const blockUntil = new Date(Date.now() + 5 * 60 * 1000);
@@ -174,6 +257,9 @@ router.post('/:id/mark-flat', async (req: Request, res: Response) => {
           position_id: id,
           quantity: position.quantity,
           side: position.side,
+          exit_price: exitResult.exit_price,
+          exit_price_source: exitPriceSource,
+          realized_pnl: exitResult.pnl,
           blocked_until: blockUntil.toISOString()
         })
       }
@@ -266,6 +352,29 @@ router.post('/demo', async (_req: Request, res: Response) => {
   }
 });
 
+// SSE: live unrealized P&L for all open positions. One server-side quote loop
+// is shared by every connected browser (see markToMarketService).
+router.get('/pnl/stream', (req: Request, res: Response) => {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const keepalive = setInterval(() => {
+    try { res.write(': keepalive\n\n'); } catch {}
+  }, 15000);
+
+  const unsubscribe = subscribeToMarks((snapshot) => {
+    try { res.write(`event: marks\ndata: ${JSON.stringify(snapshot)}\n\n`); } catch {}
+  });
+
+  req.on('close', () => {
+    clearInterval(keepalive);
+    unsubscribe();
+  });
+});
+
 // Live spike-state monitor (SSE) — polls status_inquisit.py on an interval
 // for an open short position and streams tier/state/HWM/momentum/action.
 router.get('/:id/monitor', async (req: Request, res: Response) => {
@@ -1,9 +1,52 @@
 import express, { Request, Response } from 'express';
 import { prisma } from '../index';
-import { testBrokerWebhook } from '../services/brokerWebhook';
+import { testBrokerWebhook, testBrokerAdapter, previewBrokerPayload } from '../services/brokerWebhook';
+import {
+  PAYLOAD_FIELDS,
+  PAYLOAD_FILTERS,
+  PAYLOAD_TEMPLATE_EVENTS,
+  PayloadTemplateEvent,
+  parsePayloadTemplates,
+  validatePayloadTemplates
+} from '../services/brokerPayloadTemplate';
+import { BROKER_ADAPTERS } from '../services/brokerAdapter';
+import { AuthUser, hasRole, requireRole } from '../middleware/auth';
+import { maskSecret } from '../services/webhookAuthService';
+import { parseStrategyCaps } from '../services/riskService';
+import { getKillSwitchStatus, rearmKillSwitch, tripKillSwitch } from '../services/killSwitchService';
 
 const router = express.Router();
 
+// Settings a trader may see but only an admin may change
+const ADMIN_ONLY_FIELDS = [
+  'webhook_auth_required', 'webhook_secret_overlap_minutes', 'webhook_idempotency_window_seconds', 'broker_webhook_url', 'broker_payload_templates',
+  'risk_max_shares', 'risk_max_notional', 'risk_max_open_positions',
+  'risk_max_gross_exposure', 'risk_max_orders_per_ticker', 'risk_strategy_caps',
+  'kill_daily_loss_limit', 'kill_max_consecutive_losses', 'kill_max_broker_failures',
+  'price_guard_enabled', 'price_guard_max_deviation_pct', 'price_guard_max_ticks_outside', 'price_guard_action',
+  'position_accounting', 'broker_adapter', 'broker_paper', 'broker_webhook_mtls', 'paper_slippage_pct', 'paper_max_volume_pct',
+  'pushover_user_key', 'pushover_api_token'
+];
+
+// Admin-only settings that are credentials — below admin they're only shown masked
+const SECRET_FIELDS = ['pushover_user_key', 'pushover_api_token', 'broker_webhook_url'];
+
+/** Settings as the user may see them: secrets masked to their last 4 characters unless admin */
+function visibleSettings(settings: any, user: AuthUser | undefined) {
+  if (!settings || hasRole(user, 'admin')) return settings;
+  const visible = { ...settings };
+  for (const field of SECRET_FIELDS) {
+    if (visible[field]) visible[field] = maskSecret(String(visible[field]));
+  }
+  return visible;
+}
+
+/** A form value for a secret field — the saved secret when the form only echoed its mask back */
+function unmasked(value: any, field: string, settings: any) {
+  const saved = settings?.[field];
+  return saved && value === maskSecret(String(saved)) ? saved : value;
+}
+
 /**
  * Helper to safely get settings without failing on missing columns
  */
@@ -69,7 +112,7 @@ router.get('/', async (req: Request, res: Response) => {
       settings = await createSettingsSafe();
     }
 
-    res.json(settings);
+    res.json(visibleSettings(settings, res.locals.user));
   } catch (error: any) {
     console.error('Error fetching settings:', error);
     res.status(500).json({ error: error.message });
@@ -92,6 +135,12 @@ router.put('/', async (req: Request, res: Response) => {
       max_adjustment_pct,
       broker_webhook_url,
       broker_webhook_enabled,
+      broker_payload_templates,
+      broker_adapter,
+      broker_paper,
+      broker_webhook_mtls,
+      paper_slippage_pct,
+      paper_max_volume_pct,
       notify_on_wall,
       notify_on_order_received,
       notify_on_approval,
@@ -114,7 +163,31 @@ router.put('/', async (req: Request, res: Response) => {
       pushover_on_mode_v_short,
       pushover_on_wait_upgrade,
       auto_sub_mode,
-      default_watch_minutes
+      default_watch_minutes,
+      // Inbound webhook auth
+      webhook_auth_required,
+      webhook_secret_overlap_minutes,
+      webhook_idempotency_window_seconds,
+      // Pre-trade risk limits
+      pushover_on_risk,
+      risk_max_shares,
+      risk_max_notional,
+      risk_max_open_positions,
+      risk_max_gross_exposure,
+      risk_max_orders_per_ticker,
+      risk_strategy_caps,
+      // Kill switch
+      pushover_on_kill_switch,
+      kill_daily_loss_limit,
+      kill_max_consecutive_losses,
+      kill_max_broker_failures,
+      // Fat-finger price guard
+      price_guard_enabled,
+      price_guard_max_deviation_pct,
+      price_guard_max_ticks_outside,
+      price_guard_action,
+      // Position accounting
+      position_accounting
     } = req.body;
 
     // Get existing settings or create new
@@ -126,6 +199,24 @@ router.put('/', async (req: Request, res: Response) => {
 
     const settingsId = (settings as any).id;
 
+    // The Settings page saves the whole form, so only reject fields that actually change
+    // (secrets come back as the masked value this user was shown)
+    const isAdmin = hasRole(res.locals.user, 'admin');
+    if (!isAdmin) {
+      const shown = visibleSettings(settings, res.locals.user);
+      const changed = ADMIN_ONLY_FIELDS.filter(field =>
+        req.body[field] !== undefined && String(req.body[field] ?? '') !== String(shown[field] ?? '')
+      );
+      if (changed.length > 0) {
+        return res.status(403).json({ error: `Requires admin role to change: ${changed.join(', ')}` });
+      }
+    }
+
+    // A tripped kill switch holds execution off until it is re-armed
+    if ((settings as any).kill_switch_tripped && execution_mode !== undefined && execution_mode !== 'off') {
+      return res.status(409).json({ error: 'Kill switch is tripped — re-arm it before turning execution back on' });
+    }
+
     // Build update data object with only provided fields
     const updateData: any = {};
 
@@ -141,6 +232,39 @@ router.put('/', async (req: Request, res: Response) => {
     if (max_adjustment_pct !== undefined) updateData.max_adjustment_pct = max_adjustment_pct.toString();
     if (broker_webhook_url !== undefined) updateData.broker_webhook_url = broker_webhook_url;
     if (broker_webhook_enabled !== undefined) updateData.broker_webhook_enabled = broker_webhook_enabled;
+    if (broker_payload_templates !== undefined) {
+      if (broker_payload_templates === null || broker_payload_templates === '') {
+        updateData.broker_payload_templates = null;
+      } else {
+        const { templates, error } = validatePayloadTemplates(broker_payload_templates);
+        if (!templates) {
+          return res.status(400).json({ error });
+        }
+        updateData.broker_payload_templates = Object.keys(templates).length > 0 ? JSON.stringify(templates) : null;
+      }
+    }
+    if (broker_adapter !== undefined) {
+      if (!(BROKER_ADAPTERS as readonly string[]).includes(broker_adapter)) {
+        return res.status(400).json({ error: `broker_adapter must be one of: ${BROKER_ADAPTERS.join(', ')}` });
+      }
+      updateData.broker_adapter = broker_adapter;
+    }
+    if (broker_paper !== undefined) updateData.broker_paper = !!broker_paper;
+    if (broker_webhook_mtls !== undefined) updateData.broker_webhook_mtls = !!broker_webhook_mtls;
+    if (paper_slippage_pct !== undefined) {
+      const pct = Number(paper_slippage_pct);
+      if (!(pct >= 0 && pct <= 10)) {
+        return res.status(400).json({ error: 'paper_slippage_pct must be between 0 and 10' });
+      }
+      updateData.paper_slippage_pct = pct.toString();
+    }
+    if (paper_max_volume_pct !== undefined) {
+      const pct = Number(paper_max_volume_pct);
+      if (!(pct > 0 && pct <= 100)) {
+        return res.status(400).json({ error: 'paper_max_volume_pct must be above 0 and at most 100' });
+      }
+      updateData.paper_max_volume_pct = pct.toString();
+    }
     if (notify_on_wall !== undefined) updateData.notify_on_wall = notify_on_wall;
     if (notify_on_order_received !== undefined) updateData.notify_on_order_received = notify_on_order_received;
     if (notify_on_approval !== undefined) updateData.notify_on_approval = notify_on_approval;
@@ -164,6 +288,74 @@ router.put('/', async (req: Request, res: Response) => {
     if (pushover_on_wait_upgrade !== undefined) updateData.pushover_on_wait_upgrade = pushover_on_wait_upgrade;
     if (auto_sub_mode !== undefined) updateData.auto_sub_mode = auto_sub_mode;
     if (default_watch_minutes !== undefined) updateData.default_watch_minutes = Math.min(Math.max(Number(default_watch_minutes) || 60, 5), 240);
+    if (webhook_auth_required !== undefined) {
+      // Turning auth on with no usable secret would reject every alert
+      if (webhook_auth_required && !(settings as any).webhook_auth_required) {
+        const usableSecrets = await prisma.webhookSecret.count({
+          where: { active: true, OR: [{ expires_at: null }, { expires_at: { gt: new Date() } }] }
+        });
+        if (usableSecrets === 0) {
+          return res.status(400).json({ error: 'Create a webhook secret before requiring webhook authentication' });
+        }
+      }
+      updateData.webhook_auth_required = webhook_auth_required;
+    }
+    if (pushover_on_risk !== undefined) updateData.pushover_on_risk = pushover_on_risk;
+    // Risk limits: empty / zero / null clears the limit
+    const riskLimit = (v: any) => (v === null || v === '' || !(Number(v) > 0) ? null : Number(v));
+    const riskIntLimit = (v: any) => { const n = riskLimit(v); return n === null ? null : Math.floor(n); };
+    if (risk_max_shares !== undefined) updateData.risk_max_shares = riskIntLimit(risk_max_shares);
+    if (risk_max_notional !== undefined) updateData.risk_max_notional = riskLimit(risk_max_notional)?.toString() ?? null;
+    if (risk_max_open_positions !== undefined) updateData.risk_max_open_positions = riskIntLimit(risk_max_open_positions);
+    if (risk_max_gross_exposure !== undefined) updateData.risk_max_gross_exposure = riskLimit(risk_max_gross_exposure)?.toString() ?? null;
+    if (risk_max_orders_per_ticker !== undefined) updateData.risk_max_orders_per_ticker = riskIntLimit(risk_max_orders_per_ticker);
+    if (risk_strategy_caps !== undefined) {
+      if (risk_strategy_caps === null || risk_strategy_caps === '') {
+        updateData.risk_strategy_caps = null;
+      } else {
+        const raw = typeof risk_strategy_caps === 'string' ? risk_strategy_caps : JSON.stringify(risk_strategy_caps);
+        try {
+          const parsed = JSON.parse(raw);
+          if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error();
+        } catch {
+          return res.status(400).json({ error: 'risk_strategy_caps must be a JSON object keyed by strategy_id' });
+        }
+        const caps = parseStrategyCaps(raw);
+        updateData.risk_strategy_caps = Object.keys(caps).length > 0 ? JSON.stringify(caps) : null;
+      }
+    }
+    if (pushover_on_kill_switch !== undefined) updateData.pushover_on_kill_switch = pushover_on_kill_switch;
+    if (kill_daily_loss_limit !== undefined) updateData.kill_daily_loss_limit = riskLimit(kill_daily_loss_limit)?.toString() ?? null;
+    if (kill_max_consecutive_losses !== undefined) updateData.kill_max_consecutive_losses = riskIntLimit(kill_max_consecutive_losses);
+    if (kill_max_broker_failures !== undefined) updateData.kill_max_broker_failures = riskIntLimit(kill_max_broker_failures);
+    if (price_guard_enabled !== undefined) updateData.price_guard_enabled = price_guard_enabled;
+    if (price_guard_max_deviation_pct !== undefined) updateData.price_guard_max_deviation_pct = riskLimit(price_guard_max_deviation_pct)?.toString() ?? null;
+    if (price_guard_max_ticks_outside !== undefined) {
+      // 0 is meaningful here (limit must sit inside the spread), so only blank clears it
+      const ticks = price_guard_max_ticks_outside === null || price_guard_max_ticks_outside === '' ? null : Number(price_guard_max_ticks_outside);
+      if (ticks !== null && !(Number.isInteger(ticks) && ticks >= 0)) {
+        return res.status(400).json({ error: 'price_guard_max_ticks_outside must be a whole number of ticks' });
+      }
+      updateData.price_guard_max_ticks_outside = ticks;
+    }
+    if (price_guard_action !== undefined) {
+      if (!['hold', 'reject'].includes(price_guard_action)) {
+        return res.status(400).json({ error: "price_guard_action must be 'hold' or 'reject'" });
+      }
+      updateData.price_guard_action = price_guard_action;
+    }
+    if (position_accounting !== undefined) {
+      if (!['intent', 'fills'].includes(position_accounting)) {
+        return res.status(400).json({ error: "position_accounting must be 'intent' or 'fills'" });
+      }
+      updateData.position_accounting = position_accounting;
+    }
+    if (webhook_secret_overlap_minutes !== undefined) updateData.webhook_secret_overlap_minutes = Math.min(Math.max(Number(webhook_secret_overlap_minutes) || 0, 0), 7 * 24 * 60);
+    if (webhook_idempotency_window_seconds !== undefined) updateData.webhook_idempotency_window_seconds = Math.min(Math.max(Math.round(Number(webhook_idempotency_window_seconds)) || 0, 0), 24 * 60 * 60);
+    // Below admin the secrets were only echoed back masked — never write the mask over them
+    if (!isAdmin) {
+      for (const field of SECRET_FIELDS) delete updateData[field];
+    }
 
     console.log('Updating settings with:', updateData);
 
@@ -186,13 +378,52 @@ router.put('/', async (req: Request, res: Response) => {
 
     console.log(`✅ Settings updated`);
 
-    res.json(settings);
+    res.json(visibleSettings(settings, res.locals.user));
   } catch (error: any) {
     console.error('Error updating settings:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
+// Kill switch status + session counters
+router.get('/kill-switch', async (req: Request, res: Response) => {
+  try {
+    res.json(await getKillSwitchStatus());
+  } catch (error: any) {
+    console.error('Error fetching kill switch status:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Trip the kill switch by hand (panic button)
+router.post('/kill-switch/trip', async (req: Request, res: Response) => {
+  try {
+    const reason = req.body?.reason?.toString().trim() || 'Manual kill switch';
+    const tripped = await tripKillSwitch('manual', reason, { tripped_by: res.locals.user?.email || null });
+    if (!tripped) {
+      return res.status(409).json({ error: 'Kill switch is already tripped' });
+    }
+    res.json(await getKillSwitchStatus());
+  } catch (error: any) {
+    console.error('Error tripping kill switch:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Re-arm after a trip (admin). Execution mode stays off — turn it back on separately.
+router.post('/kill-switch/rearm', requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const current = await getKillSwitchStatus();
+    if (!current.tripped) {
+      return res.status(409).json({ error: 'Kill switch is not tripped' });
+    }
+    res.json(await rearmKillSwitch(res.locals.user?.email || null));
+  } catch (error: any) {
+    console.error('Error re-arming kill switch:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Test Pushover notification
 router.post('/test-pushover', async (req: Request, res: Response) => {
   console.log('📱 Test Pushover endpoint called');
@@ -200,15 +431,10 @@ router.post('/test-pushover', async (req: Request, res: Response) => {
   try {
     const { sendTestPushover } = await import('../services/pushoverService');
 
-    // Get credentials from request body or settings
-    let userKey = req.body.user_key;
-    let apiToken = req.body.api_token;
-
-    if (!userKey || !apiToken) {
-      const settings = await getSettingsSafe();
-      userKey = userKey || settings?.pushover_user_key;
-      apiToken = apiToken || settings?.pushover_api_token;
-    }
+    // Get credentials from request body or settings (a masked value means the saved one)
+    const settings = await getSettingsSafe();
+    const userKey = unmasked(req.body.user_key, 'pushover_user_key', settings) || settings?.pushover_user_key;
+    const apiToken = unmasked(req.body.api_token, 'pushover_api_token', settings) || settings?.pushover_api_token;
 
     if (!userKey || !apiToken) {
       return res.status(400).json({
@@ -246,12 +472,18 @@ router.post('/test-pushover', async (req: Request, res: Response) => {
 // Test broker webhook connection
 router.post('/test-broker-webhook', async (req: Request, res: Response) => {
   try {
-    const { url } = req.body;
+    const settings: any = await getSettingsSafe();
+    const url = unmasked(req.body.url, 'broker_webhook_url', settings);
 
     if (!url) {
       return res.status(400).json({ error: 'Webhook URL is required' });
     }
 
+    // The test is signed (and may present the client cert) — below admin it only goes to the saved URL
+    if (!hasRole(res.locals.user, 'admin') && url !== settings?.broker_webhook_url) {
+      return res.status(403).json({ error: 'Requires admin role to test a broker URL other than the saved one' });
+    }
+
     // Validate URL format
     try {
       new URL(url);
@@ -259,19 +491,36 @@ router.post('/test-broker-webhook', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid URL format' });
     }
 
-    const result = await testBrokerWebhook(url);
+    // Templates and mTLS from the form when given (unsaved edits), else the saved ones
+    let templates = parsePayloadTemplates(settings?.broker_payload_templates);
+    if (req.body.templates !== undefined && req.body.templates !== null && req.body.templates !== '') {
+      const validated = validatePayloadTemplates(req.body.templates);
+      if (!validated.templates) {
+        return res.status(400).json({ error: validated.error });
+      }
+      templates = validated.templates;
+    }
+
+    const mtls = req.body.mtls !== undefined ? !!req.body.mtls : settings?.broker_webhook_mtls === true;
+    const result = await testBrokerWebhook(url, templates, mtls);
 
     if (result.success) {
       res.json({
         success: true,
-        message: 'Broker webhook test successful',
-        statusCode: result.statusCode
+        message: `Broker webhook test successful (${result.signature ? 'signed' : 'unsigned'}${mtls ? ', mTLS' : ''})`,
+        statusCode: result.statusCode,
+        payload: result.payload,
+        signature: result.signature,
+        mtls
       });
     } else {
       res.status(400).json({
         success: false,
         error: result.error,
-        statusCode: result.statusCode
+        statusCode: result.statusCode,
+        payload: result.payload,
+        signature: result.signature,
+        mtls
       });
     }
   } catch (error: any) {
@@ -280,4 +529,73 @@ router.post('/test-broker-webhook', async (req: Request, res: Response) => {
   }
 });
 
+// Placeholders and filters available to broker payload templates
+router.get('/broker-templates/fields', (req: Request, res: Response) => {
+  res.json({ events: PAYLOAD_TEMPLATE_EVENTS, fields: PAYLOAD_FIELDS, filters: PAYLOAD_FILTERS });
+});
+
+// Render the broker payload for an execution (saved templates, or unsaved ones from the form)
+router.post('/broker-templates/preview', async (req: Request, res: Response) => {
+  try {
+    const { execution_id, event, templates } = req.body;
+
+    if (!execution_id) {
+      return res.status(400).json({ error: 'execution_id is required' });
+    }
+    if (event !== undefined && event !== null && !(PAYLOAD_TEMPLATE_EVENTS as readonly string[]).includes(event)) {
+      return res.status(400).json({ error: `event must be one of: ${PAYLOAD_TEMPLATE_EVENTS.join(', ')}` });
+    }
+
+    let draft;
+    if (templates !== undefined && templates !== null && templates !== '') {
+      const validated = validatePayloadTemplates(templates);
+      if (!validated.templates) {
+        return res.status(400).json({ error: validated.error });
+      }
+      draft = validated.templates;
+    }
+
+    const preview = await previewBrokerPayload(String(execution_id), (event || undefined) as PayloadTemplateEvent | undefined, draft);
+    if (!preview) {
+      return res.status(404).json({ error: 'Execution not found' });
+    }
+    if (preview.error) {
+      return res.status(400).json({ error: preview.error, event: preview.event });
+    }
+    res.json(preview);
+  } catch (error: any) {
+    console.error('Error previewing broker payload:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Test an Alpaca/Tradier connection (lists the account's positions)
+router.post('/test-broker', async (req: Request, res: Response) => {
+  try {
+    const { adapter, paper } = req.body;
+
+    if (!['alpaca', 'tradier'].includes(adapter)) {
+      return res.status(400).json({ error: "adapter must be 'alpaca' or 'tradier'" });
+    }
+
+    const result = await testBrokerAdapter(adapter, paper !== false);
+
+    if (result.success) {
+      res.json({
+        success: true,
+        message: `${adapter} connection successful (${result.positions} open position${result.positions === 1 ? '' : 's'})`,
+        positions: result.positions
+      });
+    } else {
+      res.status(400).json({
+        success: false,
+        error: result.error
+      });
+    }
+  } catch (error: any) {
+    console.error('Error testing broker connection:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
@@ -4,6 +4,8 @@ import { PushoverNotifications } from '../services/pushoverService';
 import { checkSecFilings } from '../services/secCallbackService';
 import { runSecWatchScan } from '../services/secWatchScanner';
 import { forwardToBroker } from '../services/brokerWebhook';
+import { enforcePreTradeRisk } from '../services/riskService';
+import { enforcePriceGuard } from '../services/priceGuardService';
 import { runChecklist, applyManualOverride, SecChecklist } from '../services/secChecklistService';
 import { runSpikeScanOnDemand } from '../services/spikeMonitorService';
 import { captureGradeSnapshot } from '../services/gradeSnapshotService';
@@ -226,15 +228,24 @@ router.post('/:id/swipe', async (req: Request, res: Response) => {
         }
       }
 
-      if (pendingExecution) {
+      const riskViolation = pendingExecution
+        ? await enforcePreTradeRisk(pendingExecution, 'swipe_approve')
+        : null;
+      const priceGuard = pendingExecution && !riskViolation
+        ? await enforcePriceGuard(pendingExecution, 'swipe_approve')
+        : null;
+
+      if (pendingExecution && !riskViolation && !priceGuard) {
         const brokerResult = await forwardToBroker(pendingExecution);
+        // The kill switch cancelled it — leave it cancelled
+        if (brokerResult.halted) return res.json(updatedIntent);
         if (!pendingExecution.grade_snapshot) {
           captureGradeSnapshot(pendingExecution.ticker, pendingExecution.id, pendingExecution.intent_id).catch(console.error);
         }
         await prisma.execution.update({
           where: { id: pendingExecution.id },
           data: {
-            status: brokerResult.success ? 'executed' : 'pending',
+            status: brokerResult.success ? 'executed' : brokerResult.queued ? 'executing' : 'pending',
             executed_at: brokerResult.success ? new Date() : null,
             error_message: brokerResult.success ? null : brokerResult.error
           }
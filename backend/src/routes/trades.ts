@@ -0,0 +1,167 @@
+import express, { Request, Response } from 'express';
+import { prisma } from '../index';
+import { requireRole } from '../middleware/auth';
+import { MISTAKE_CATEGORIES, syncTrade } from '../services/tradeJournalService';
+
+const router = express.Router();
+
+function parseJson(value: string | null | undefined, fallback: any = null): any {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Normalize a trade for the frontend (Decimals → numbers, JSON → arrays)
+ */
+function normalizeTrade(trade: any) {
+  return {
+    ...trade,
+    entry_price: Number(trade.entry_price),
+    exit_price: trade.exit_price != null ? Number(trade.exit_price) : null,
+    realized_pnl: trade.realized_pnl != null ? Number(trade.realized_pnl) : null,
+    fees: trade.fees != null ? Number(trade.fees) : 0,
+    entry_execution_ids: parseJson(trade.entry_execution_ids, []),
+    exit_execution_ids: parseJson(trade.exit_execution_ids, []),
+    tags: parseJson(trade.tags, [])
+  };
+}
+
+// GET /api/trades?strategy=&bias=&tier=&pre_fall_tier=&outcome=&ticker=&tag=&from=&to=&limit=
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { strategy, bias, tier, pre_fall_tier, outcome, ticker, tag, mistake, from, to, limit } = req.query;
+    const where: any = {};
+
+    if (strategy) where.strategy_id = strategy as string;
+    if (tier) where.quality_tier = tier as string;
+    if (pre_fall_tier) where.pre_fall_tier = pre_fall_tier as string;
+    if (outcome) where.outcome = outcome as string;
+    if (mistake) where.mistake = mistake as string;
+    if (ticker) where.ticker = (ticker as string).toUpperCase();
+    // Bias matches either the intent's SEC bias or the grade snapshot's bias
+    if (bias) where.OR = [{ sec_bias: bias as string }, { snapshot_bias: bias as string }];
+    if (tag) where.tags = { contains: JSON.stringify(tag as string) };
+    if (from || to) {
+      where.opened_at = {};
+      if (from) where.opened_at.gte = new Date(from as string);
+      if (to) where.opened_at.lte = new Date(to as string);
+    }
+
+    const trades = await prisma.trade.findMany({
+      where,
+      orderBy: { opened_at: 'desc' },
+      take: limit ? Math.min(parseInt(limit as string, 10) || 200, 1000) : 200
+    });
+
+    res.json(trades.map(normalizeTrade));
+  } catch (error: any) {
+    console.error('Error fetching trades:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/trades/mistakes — categories for the journal editor
+router.get('/mistakes', (req: Request, res: Response) => {
+  res.json(MISTAKE_CATEGORIES);
+});
+
+// GET /api/trades/:id — trade with its executions, fills and intent
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const trade = await prisma.trade.findUnique({ where: { id: req.params.id as string } });
+    if (!trade) {
+      return res.status(404).json({ error: 'Trade not found' });
+    }
+
+    const [executions, fills, intent] = await Promise.all([
+      prisma.execution.findMany({ where: { position_id: trade.position_id }, orderBy: { created_at: 'asc' } }),
+      prisma.fill.findMany({ where: { position_id: trade.position_id }, orderBy: { created_at: 'asc' } }),
+      trade.intent_id ? prisma.tradeIntent.findUnique({ where: { id: trade.intent_id } }) : null
+    ]);
+
+    res.json({
+      ...normalizeTrade(trade),
+      grade_snapshot: parseJson(trade.grade_snapshot),
+      sec_checklist_snapshot: parseJson(trade.sec_checklist_snapshot),
+      intent,
+      executions: executions.map(e => ({
+        ...e,
+        limit_price: e.limit_price != null ? Number(e.limit_price) : null,
+        fill_price: e.fill_price != null ? Number(e.fill_price) : null
+      })),
+      fills: fills.map(f => ({ ...f, price: Number(f.price) }))
+    });
+  } catch (error: any) {
+    console.error('Error fetching trade:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/trades/:id — journal fields only
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const { notes, tags, setup_rating, mistake } = req.body;
+    const data: any = {};
+
+    if (notes !== undefined) {
+      data.notes = notes ? String(notes) : null;
+    }
+    if (tags !== undefined) {
+      if (tags !== null && (!Array.isArray(tags) || tags.some((t: any) => typeof t !== 'string'))) {
+        return res.status(400).json({ error: 'tags must be an array of strings' });
+      }
+      const cleaned = [...new Set((tags ?? []).map((t: string) => t.trim()).filter(Boolean))];
+      data.tags = cleaned.length > 0 ? JSON.stringify(cleaned) : null;
+    }
+    if (setup_rating !== undefined) {
+      if (setup_rating !== null && (!Number.isInteger(setup_rating) || setup_rating < 1 || setup_rating > 5)) {
+        return res.status(400).json({ error: 'setup_rating must be an integer from 1 to 5' });
+      }
+      data.setup_rating = setup_rating;
+    }
+    if (mistake !== undefined) {
+      if (mistake !== null && mistake !== '' && !(MISTAKE_CATEGORIES as readonly string[]).includes(mistake)) {
+        return res.status(400).json({ error: `mistake must be one of: ${MISTAKE_CATEGORIES.join(', ')}` });
+      }
+      data.mistake = mistake || null;
+    }
+
+    const existing = await prisma.trade.findUnique({ where: { id: req.params.id as string } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Trade not found' });
+    }
+
+    const trade = await prisma.trade.update({ where: { id: req.params.id as string }, data });
+    res.json(normalizeTrade(trade));
+  } catch (error: any) {
+    console.error('Error updating trade:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/trades/backfill — build trades for positions that predate the journal
+router.post('/backfill', requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const journaled = await prisma.trade.findMany({ select: { position_id: true } });
+    const positions = await prisma.position.findMany({
+      where: { id: { notIn: journaled.map(t => t.position_id) } },
+      select: { id: true }
+    });
+
+    for (const position of positions) {
+      await syncTrade(position.id);
+    }
+
+    console.log(`📓 Trade journal backfill: ${positions.length} position(s)`);
+    res.json({ created: positions.length });
+  } catch (error: any) {
+    console.error('Error backfilling trades:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -2,8 +2,14 @@ import express from 'express';
 import {
   handleWebhook,
   getWebhookLogs,
+  retryWebhookLog,
+  replayWebhookLogHandler,
+  replayWebhookBatch,
+  getWebhookSchema,
   testWebhook
 } from '../controllers/webhookController';
+import { requireWebhookAuth } from '../middleware/webhookAuth';
+import { authenticate, requireRole } from '../middleware/auth';
 import { prisma } from '../index';
 
 const router = express.Router();
@@ -38,6 +44,21 @@ router.get('/ping', (req, res) => {
   });
 });
 
+// JSON Schema of every event's payload — public, so alert templates can be checked before they go live
+router.get('/schema', getWebhookSchema);
+
+// Body fields that carry a credential — redacted before the echo is persisted
+const ECHO_SECRET_FIELDS = ['passphrase', 'secret'];
+
+function redactedEcho(body: any) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return body;
+  const redacted = { ...body };
+  for (const field of ECHO_SECRET_FIELDS) {
+    if (redacted[field] !== undefined) redacted[field] = '[redacted]';
+  }
+  return redacted;
+}
+
 // Diagnostic: Echo endpoint - returns exactly what was received (for testing)
 router.post('/echo', async (req, res) => {
   const timestamp = new Date().toISOString();
@@ -54,7 +75,7 @@ router.post('/echo', async (req, res) => {
             'user-agent': req.headers['user-agent'],
             'x-forwarded-for': req.headers['x-forwarded-for']
           },
-          body: req.body,
+          body: redactedEcho(req.body),
           received_at: timestamp
         })
       }
@@ -76,16 +97,28 @@ router.post('/echo', async (req, res) => {
 
 // Unified webhook endpoint (handles WALL, ORDER, EXIT signals)
 // Use POST /api/webhook or POST /api/webhook/signal
-router.post('/', handleWebhook);
-router.post('/signal', handleWebhook);
+// requireWebhookAuth enforces the passphrase/HMAC check when enabled in Settings
+router.post('/', requireWebhookAuth, handleWebhook);
+router.post('/signal', requireWebhookAuth, handleWebhook);
 
 // Legacy route for backwards compatibility
-router.post('/tradingview', handleWebhook);
+router.post('/tradingview', requireWebhookAuth, handleWebhook);
+
+// Senders with their own field names — the named source profile maps them (see webhookSourceProfile)
+router.post('/src/:profile', requireWebhookAuth, handleWebhook);
+
+// Get webhook logs
+router.get('/logs', authenticate, requireRole('viewer'), getWebhookLogs);
+
+// Queue a failed webhook again
+router.post('/logs/:id/retry', authenticate, requireRole('trader'), retryWebhookLog);
 
-// Get webhook logs (requires auth in production)
-router.get('/logs', getWebhookLogs);
+// Re-run stored payloads — dry runs report what would happen; real replays need admin.
+// The batch route also takes a webhook history CSV as text/csv.
+router.post('/logs/replay', authenticate, requireRole('trader'), express.text({ type: 'text/csv', limit: '10mb' }), replayWebhookBatch);
+router.post('/logs/:id/replay', authenticate, requireRole('trader'), replayWebhookLogHandler);
 
 // Test webhook endpoint
-router.post('/test', testWebhook);
+router.post('/test', authenticate, requireRole('trader'), testWebhook);
 
 export default router;
@@ -0,0 +1,157 @@
+import express, { Request, Response } from 'express';
+import { prisma } from '../index';
+import {
+  generateWebhookSecret,
+  maskSecret,
+  rotateWebhookSecret,
+  WebhookSecretKind
+} from '../services/webhookAuthService';
+
+const router = express.Router();
+
+const KINDS: WebhookSecretKind[] = ['passphrase', 'hmac', 'signing'];
+
+/**
+ * Secrets are only ever returned in full from create/rotate — every other
+ * response masks them so the Settings page never re-exposes a live key.
+ */
+function toPublic(secret: any, reveal = false) {
+  const now = new Date();
+  const expired = !!secret.expires_at && new Date(secret.expires_at) <= now;
+  return {
+    id: secret.id,
+    source: secret.source,
+    kind: secret.kind,
+    secret: reveal ? secret.secret : maskSecret(secret.secret),
+    active: secret.active && !expired,
+    revoked: !secret.active,
+    expires_at: secret.expires_at,
+    last_used_at: secret.last_used_at,
+    created_at: secret.created_at
+  };
+}
+
+// List all webhook secrets (masked)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const secrets = await prisma.webhookSecret.findMany({
+      orderBy: [{ source: 'asc' }, { created_at: 'desc' }]
+    });
+    res.json(secrets.map(s => toPublic(s)));
+  } catch (error: any) {
+    console.error('Error fetching webhook secrets:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create a new secret for a source — response contains the plaintext secret once
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { source, kind = 'passphrase' } = req.body;
+
+    if (!source || typeof source !== 'string' || !source.trim()) {
+      return res.status(400).json({ error: 'source is required' });
+    }
+    if (!KINDS.includes(kind)) {
+      return res.status(400).json({ error: `kind must be one of: ${KINDS.join(', ')}` });
+    }
+
+    const secret = await prisma.webhookSecret.create({
+      data: {
+        source: source.trim().toLowerCase(),
+        kind,
+        secret: generateWebhookSecret()
+      }
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'webhook_secret_created',
+        ticker: null,
+        details: JSON.stringify({ secret_id: secret.id, source: secret.source, kind: secret.kind })
+      }
+    });
+
+    console.log(`🔑 Webhook secret created: ${secret.source} (${secret.kind})`);
+    res.status(201).json(toPublic(secret, true));
+  } catch (error: any) {
+    console.error('Error creating webhook secret:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Rotate a secret — the old one stays valid for the overlap window
+router.post('/:id/rotate', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    let overlapMinutes = req.body?.overlap_minutes;
+    if (overlapMinutes === undefined) {
+      const settings = await prisma.executionSettings.findFirst();
+      overlapMinutes = settings?.webhook_secret_overlap_minutes ?? 60;
+    }
+    overlapMinutes = Math.min(Math.max(Number(overlapMinutes) || 0, 0), 7 * 24 * 60);
+
+    const result = await rotateWebhookSecret(id, overlapMinutes);
+    if (!result) {
+      return res.status(404).json({ error: 'Webhook secret not found' });
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'webhook_secret_rotated',
+        ticker: null,
+        details: JSON.stringify({
+          previous_secret_id: result.previous.id,
+          new_secret_id: result.created.id,
+          source: result.created.source,
+          kind: result.created.kind,
+          overlap_minutes: overlapMinutes,
+          previous_expires_at: result.previous.expires_at
+        })
+      }
+    });
+
+    console.log(`🔄 Webhook secret rotated: ${result.created.source} (old key valid ${overlapMinutes} min)`);
+    res.json({
+      previous: toPublic(result.previous),
+      created: toPublic(result.created, true)
+    });
+  } catch (error: any) {
+    console.error('Error rotating webhook secret:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Revoke a secret immediately
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const existing = await prisma.webhookSecret.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook secret not found' });
+    }
+
+    const secret = await prisma.webhookSecret.update({
+      where: { id },
+      data: { active: false, expires_at: existing.expires_at ?? new Date() }
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'webhook_secret_revoked',
+        ticker: null,
+        details: JSON.stringify({ secret_id: id, source: secret.source, kind: secret.kind })
+      }
+    });
+
+    console.log(`🗑️ Webhook secret revoked: ${secret.source} (${secret.kind})`);
+    res.json(toPublic(secret));
+  } catch (error: any) {
+    console.error('Error revoking webhook secret:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
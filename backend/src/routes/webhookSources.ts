@@ -0,0 +1,163 @@
+import express, { Request, Response } from 'express';
+import { prisma } from '../index';
+import { requireRole } from '../middleware/auth';
+import { dryRunWebhook } from '../controllers/webhookController';
+import { summarizeFieldErrors, validateWebhookPayload } from '../services/webhookSchema';
+import {
+  applySourceProfile,
+  findSourceProfile,
+  parseSourceProfileInput,
+  SOURCE_TRANSFORMS,
+  sourceProfileFromRow
+} from '../services/webhookSourceProfile';
+
+const router = express.Router();
+
+function toPublic(row: any) {
+  const profile = sourceProfileFromRow(row);
+  return { ...profile, url: `/api/webhook/src/${profile.name}` };
+}
+
+// List source profiles, with the transforms a rule can use
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const profiles = await prisma.webhookSourceProfile.findMany({ orderBy: { name: 'asc' } });
+    res.json({ profiles: profiles.map(toPublic), transforms: SOURCE_TRANSFORMS });
+  } catch (error: any) {
+    console.error('Error fetching webhook source profiles:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Map a sample body through a profile and dry-run the result — nothing is
+ * logged or processed. Takes a saved profile by name, or an unsaved
+ * definition ({fields, defaults, passthrough}) from the console.
+ * POST /api/webhook-sources/test  { profile?, definition?, payload }
+ */
+router.post('/test', async (req: Request, res: Response) => {
+  try {
+    const { profile: name, definition, payload } = req.body ?? {};
+
+    let profile;
+    if (definition !== undefined) {
+      const { data, error } = parseSourceProfileInput({ fields: [], ...definition }, {});
+      if (!data) {
+        return res.status(400).json({ error });
+      }
+      profile = sourceProfileFromRow({ name: name ?? null, fields: data.fields, defaults: data.defaults ?? '{}', passthrough: data.passthrough ?? true, active: true });
+    } else if (typeof name === 'string' && name) {
+      profile = await findSourceProfile(name);
+      if (!profile) {
+        return res.status(404).json({ error: `No active source profile "${name}"` });
+      }
+    } else {
+      return res.status(400).json({ error: 'profile or definition is required' });
+    }
+
+    const mapped = applySourceProfile(profile, payload);
+    // Mapping errors reject the webhook before it is queued, exactly like schema errors
+    const errors = [...mapped.errors, ...(await validateWebhookPayload(mapped.payload)).errors];
+    const outcome = mapped.errors.length > 0
+      ? { outcome: 'error', reason: 'invalid_payload', message: summarizeFieldErrors(errors), errors, would: [], not_evaluated: [] }
+      : await dryRunWebhook(mapped.payload);
+
+    res.json({
+      profile: profile.name,
+      payload: mapped.payload,
+      mapping_errors: mapped.errors,
+      errors,
+      dry_run: outcome
+    });
+  } catch (error: any) {
+    console.error('Error testing webhook source profile:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.post('/', requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const { data, error } = parseSourceProfileInput(req.body ?? {});
+    if (!data) {
+      return res.status(400).json({ error });
+    }
+    if (await prisma.webhookSourceProfile.findUnique({ where: { name: data.name } })) {
+      return res.status(409).json({ error: `A source profile named "${data.name}" already exists` });
+    }
+
+    const profile = await prisma.webhookSourceProfile.create({ data: data as any });
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'webhook_source_profile_created',
+        ticker: null,
+        details: JSON.stringify({ profile_id: profile.id, name: profile.name, requested_by: res.locals.user?.email || null })
+      }
+    });
+
+    console.log(`🔀 Webhook source profile created: ${profile.name}`);
+    res.status(201).json(toPublic(profile));
+  } catch (error: any) {
+    console.error('Error creating webhook source profile:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.put('/:id', requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const existing = await prisma.webhookSourceProfile.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Source profile not found' });
+    }
+
+    const { data, error } = parseSourceProfileInput(req.body ?? {}, existing);
+    if (!data) {
+      return res.status(400).json({ error });
+    }
+    if (data.name && data.name !== existing.name && await prisma.webhookSourceProfile.findUnique({ where: { name: data.name } })) {
+      return res.status(409).json({ error: `A source profile named "${data.name}" already exists` });
+    }
+
+    const profile = await prisma.webhookSourceProfile.update({ where: { id }, data });
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'webhook_source_profile_updated',
+        ticker: null,
+        details: JSON.stringify({ profile_id: id, name: profile.name, previous_name: existing.name, changes: data, requested_by: res.locals.user?.email || null })
+      }
+    });
+
+    res.json(toPublic(profile));
+  } catch (error: any) {
+    console.error('Error updating webhook source profile:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Logs keep the profile name as their source after it's deleted
+router.delete('/:id', requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const profile = await prisma.webhookSourceProfile.findUnique({ where: { id } });
+    if (!profile) {
+      return res.status(404).json({ error: 'Source profile not found' });
+    }
+
+    await prisma.webhookSourceProfile.delete({ where: { id } });
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'webhook_source_profile_deleted',
+        ticker: null,
+        details: JSON.stringify({ profile_id: id, name: profile.name, requested_by: res.locals.user?.email || null })
+      }
+    });
+
+    console.log(`🗑️ Webhook source profile deleted: ${profile.name}`);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting webhook source profile:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,876 @@
+import { prisma } from '../index';
+import { getBrokerAdapter, BROKER_ADAPTERS, BrokerAdapter, BrokerOrderRequest, BrokerOrderStatus, BrokerResult } from './brokerAdapter';
+import { backoffMs, isRetryable } from './brokerWebhook';
+import { deltaFillPrice } from './brokerOrderSync';
+import { computeRealizedPnl } from './positionExitService';
+import { isClosingOrder } from './tradeJournalService';
+import { isTradingWindowET } from './executionScheduler';
+import { describeOrderSpec, orderSpecOf } from './orderSpec';
+import { entryHaltReason } from './killSwitchService';
+import { PushoverNotifications } from './pushoverService';
+
+/**
+ * Broker accounts — one execution, several accounts.
+ *
+ * The broker selected in ExecutionSettings is the primary account: the
+ * execution, its BrokerDelivery and the Position table are its books, as
+ * before. Every enabled BrokerAccount trades the same executions through its
+ * own adapter:
+ *   - allocateAccountOrders()  forwardToBroker fans the execution out into one
+ *                              AccountOrder per account. Entries are sized by
+ *                              the account (size_multiplier × quantity, or
+ *                              fixed_quantity) and cut down to max_notional;
+ *                              an exit closes the same fraction of the
+ *                              account's position as the execution closes of
+ *                              the primary's. Nothing to trade → 'skipped'.
+ *   - deliverAccountOrder()    one attempt, retried with the primary queue's
+ *                              backoff; giving up marks that account's order
+ *                              'failed' and touches nothing else. An entry
+ *                              is cancelled unsent while the kill switch is
+ *                              tripped.
+ *   - syncAccountOrders()      fills from adapters that report them (alpaca,
+ *                              tradier, paper) are booked on the account's
+ *                              AccountPosition. A webhook account can't report
+ *                              fills, so its order counts as filled at the
+ *                              reference price once accepted.
+ *
+ * The worker polls only while there is something to do — an order waiting
+ * on a delivery attempt, or (in the trading window) one working at a broker
+ * that reports fills. A retry or an accepted order wakes it; otherwise it
+ * drops to an idle heartbeat so the database can sleep.
+ *
+ * Take-profit / stop-loss legs go out with each account's entry but are only
+ * tracked for the primary account. Edits to the execution aren't mirrored;
+ * cancelling it cancels the account orders still open.
+ */
+
+const MAX_ATTEMPTS = 5;
+const POLL_INTERVAL_MS = 5000;
+const STALE_DELIVERING_MS = 2 * 60 * 1000;
+const IDLE_HEARTBEAT_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 20;
+
+export const ACCOUNT_SIZE_MODES = ['multiplier', 'fixed'] as const;
+const OPEN_STATUSES = ['pending', 'working', 'partially_filled'];
+
+let running = false;
+let pollInterval: NodeJS.Timeout | null = null;   // active — orders to deliver or sync
+let idleInterval: NodeJS.Timeout | null = null;   // idle heartbeat
+let processing = false;
+
+const toNumber = (value: any): number | null => {
+  if (value === null || value === undefined) return null;
+  const n = parseFloat(value.toString());
+  return Number.isFinite(n) ? n : null;
+};
+
+/**
+ * Check a BrokerAccount create / update body. Fields not in the body keep
+ * their current value (existing), so cross-field rules see the whole account.
+ */
+export function parseBrokerAccountInput(input: any, existing?: any): { data: Record<string, any> | null; error: string | null } {
+  const fail = (error: string) => ({ data: null, error });
+  const data: Record<string, any> = {};
+  const has = (field: string) => input[field] !== undefined;
+
+  if (has('name') || !existing) {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name) return fail('name is required');
+    if (name.length > 60) return fail('name must be 60 characters or fewer');
+    data.name = name;
+  }
+  if (has('adapter')) {
+    if (!(BROKER_ADAPTERS as readonly string[]).includes(input.adapter)) {
+      return fail(`adapter must be one of: ${BROKER_ADAPTERS.join(', ')}`);
+    }
+    data.adapter = input.adapter;
+  }
+  if (has('paper')) data.paper = input.paper !== false;
+  if (has('enabled')) data.enabled = input.enabled !== false;
+  if (has('webhook_url')) {
+    const url = input.webhook_url ? String(input.webhook_url).trim() : '';
+    if (url) {
+      try {
+        new URL(url);
+      } catch {
+        return fail('webhook_url is not a valid URL');
+      }
+    }
+    data.webhook_url = url || null;
+  }
+  if (has('credentials_env')) {
+    const prefix = input.credentials_env ? String(input.credentials_env).trim().toUpperCase() : '';
+    if (prefix && !/^[A-Z][A-Z0-9_]*$/.test(prefix)) {
+      return fail('credentials_env must be letters, digits and underscores, e.g. IRA');
+    }
+    data.credentials_env = prefix || null;
+  }
+  if (has('size_mode')) {
+    if (!(ACCOUNT_SIZE_MODES as readonly string[]).includes(input.size_mode)) {
+      return fail(`size_mode must be one of: ${ACCOUNT_SIZE_MODES.join(', ')}`);
+    }
+    data.size_mode = input.size_mode;
+  }
+  if (has('size_multiplier')) {
+    const multiplier = Number(input.size_multiplier);
+    if (!Number.isFinite(multiplier) || multiplier <= 0) return fail('size_multiplier must be greater than 0');
+    data.size_multiplier = multiplier;
+  }
+  if (has('fixed_quantity')) {
+    const quantity = input.fixed_quantity === null || input.fixed_quantity === '' ? null : Number(input.fixed_quantity);
+    if (quantity !== null && (!Number.isInteger(quantity) || quantity <= 0)) return fail('fixed_quantity must be a whole number of shares');
+    data.fixed_quantity = quantity;
+  }
+  if (has('max_notional')) {
+    const notional = input.max_notional === null || input.max_notional === '' ? null : Number(input.max_notional);
+    if (notional !== null && (!Number.isFinite(notional) || notional <= 0)) return fail('max_notional must be greater than 0');
+    data.max_notional = notional;
+  }
+
+  const merged = { adapter: 'webhook', size_mode: 'multiplier', ...existing, ...data };
+  if (merged.adapter === 'webhook' && !merged.webhook_url) return fail('webhook accounts need a webhook_url');
+  if (merged.size_mode === 'fixed' && !merged.fixed_quantity) return fail('size_mode fixed needs a fixed_quantity');
+  return { data, error: null };
+}
+
+/** Adapter for an account — payload templates and paper fill model are shared with the primary */
+export function accountAdapter(account: any, settings: any): BrokerAdapter {
+  return getBrokerAdapter({
+    broker_adapter: account.adapter,
+    broker_paper: account.paper,
+    broker_webhook_url: account.webhook_url,
+    credentials_env: account.credentials_env,
+    broker_payload_templates: settings?.broker_payload_templates,
+    paper_slippage_pct: settings?.paper_slippage_pct,
+    paper_max_volume_pct: settings?.paper_max_volume_pct
+  });
+}
+
+/** Shares an account takes of an order, or why it takes none */
+async function allocate(
+  account: any,
+  order: BrokerOrderRequest,
+  primaryOpenQty: number | null
+): Promise<{ quantity: number; position_effect: 'open' | 'close'; note: string | null }> {
+  const position = await prisma.accountPosition.findFirst({
+    where: { account_id: account.id, ticker: order.symbol, closed_at: null }
+  });
+
+  if (position && isClosingOrder(position.side, order.side)) {
+    const fraction = primaryOpenQty ? Math.min(order.quantity / primaryOpenQty, 1) : 1;
+    const quantity = Math.min(Math.round(position.quantity * fraction), position.quantity);
+    return {
+      quantity,
+      position_effect: 'close',
+      note: quantity > 0 ? null : `${Math.round(fraction * 100)}% of ${position.quantity} shares rounds to 0`
+    };
+  }
+  if (order.position_effect === 'close') {
+    return { quantity: 0, position_effect: 'close', note: `No open ${order.symbol} position in this account` };
+  }
+
+  let quantity = account.size_mode === 'fixed'
+    ? account.fixed_quantity ?? 0
+    : Math.floor(order.quantity * (toNumber(account.size_multiplier) ?? 1));
+  let note: string | null = quantity > 0 ? null : 'Allocation rounds to 0 shares';
+
+  const maxNotional = toNumber(account.max_notional);
+  const price = order.context?.reference_price ?? order.limit_price;
+  if (quantity > 0 && maxNotional !== null && price) {
+    const cap = Math.floor(maxNotional / price);
+    if (quantity > cap) {
+      note = cap > 0
+        ? `Cut from ${quantity} to ${cap} shares by max notional $${maxNotional}`
+        : `One share at ${price} exceeds max notional $${maxNotional}`;
+      quantity = cap;
+    }
+  }
+  return { quantity, position_effect: 'open', note };
+}
+
+/**
+ * Fan an order out to every enabled account. Called by forwardToBroker before
+ * the ORDER/EXIT handlers touch the primary position, so an exit's fraction is
+ * taken of the position as it was. Accounts that already have an order for
+ * the execution (a re-forward) are left alone. Returns the orders to deliver.
+ */
+export async function allocateAccountOrders(order: BrokerOrderRequest): Promise<string[]> {
+  const accounts = await prisma.brokerAccount.findMany({ where: { enabled: true }, orderBy: { name: 'asc' } });
+  if (accounts.length === 0) return [];
+
+  const existing = await prisma.accountOrder.findMany({
+    where: { execution_id: order.execution_id },
+    select: { account_id: true }
+  });
+  const allocated = new Set(existing.map(o => o.account_id));
+  const primary = await prisma.position.findFirst({ where: { ticker: order.symbol, closed_at: null } });
+  const primaryOpenQty = primary && isClosingOrder(primary.side, order.side) ? primary.quantity : null;
+
+  const toDeliver: string[] = [];
+  for (const account of accounts) {
+    if (allocated.has(account.id)) continue;
+    try {
+      const { quantity, position_effect, note } = await allocate(account, order, primaryOpenQty);
+      const idempotencyKey = `${order.client_order_id}-${account.id}`;
+      const accountOrder: BrokerOrderRequest = {
+        ...order,
+        client_order_id: idempotencyKey,
+        quantity,
+        position_effect,
+        ...(position_effect === 'close' && { take_profit_price: null, stop_loss_price: null })
+      };
+
+      const created = await prisma.accountOrder.create({
+        data: {
+          execution_id: order.execution_id,
+          account_id: account.id,
+          ticker: order.symbol,
+          order_action: order.side,
+          quantity,
+          idempotency_key: idempotencyKey,
+          payload: JSON.stringify(accountOrder),
+          status: quantity > 0 ? 'pending' : 'skipped',
+          error_message: note,
+          closed_at: quantity > 0 ? null : new Date()
+        }
+      });
+      if (quantity > 0) {
+        if (note) console.log(`✂️ ${account.name}: ${order.symbol} ${note}`);
+        toDeliver.push(created.id);
+      } else {
+        console.log(`⏭️ ${account.name}: ${order.symbol} skipped — ${note}`);
+      }
+    } catch (error: any) {
+      console.error(`❌ Account order allocation error (${account.name} ${order.symbol}):`, error.message);
+    }
+  }
+  return toDeliver;
+}
+
+/** Deliver freshly allocated orders one after another — a slow or failing account only delays the ones after it */
+export async function deliverAccountOrders(orderIds: string[]): Promise<void> {
+  for (const id of orderIds) {
+    await deliverAccountOrder(id).catch(err => console.error(`❌ Account order delivery error (${id}):`, err.message));
+  }
+}
+
+/** Give up on an account's order: it stays visible as failed, the other accounts carry on */
+async function failAccountOrder(row: any, accountName: string, error: string): Promise<void> {
+  await prisma.accountOrder.update({
+    where: { id: row.id },
+    data: { status: 'failed', error_message: error, closed_at: new Date() }
+  });
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'account_order_failed',
+      ticker: row.ticker,
+      details: JSON.stringify({
+        account_order_id: row.id,
+        execution_id: row.execution_id,
+        account: accountName,
+        attempts: row.attempts,
+        error
+      })
+    }
+  });
+
+  PushoverNotifications.brokerDeadLetter(row.ticker, {
+    account: accountName,
+    action: row.order_action,
+    quantity: row.quantity,
+    attempts: row.attempts,
+    reason: error
+  }).catch(err => console.error('Pushover notification error:', err));
+
+  console.error(`📮 ${accountName}: ${row.ticker} order failed after ${row.attempts} attempt(s): ${error}`);
+}
+
+/**
+ * One delivery attempt for an account order. Claims the row first, like
+ * attemptDelivery, so the inline attempt and the worker never both send it.
+ */
+export async function deliverAccountOrder(orderId: string): Promise<void> {
+  const claimed = await prisma.accountOrder.updateMany({
+    where: { id: orderId, status: 'pending' },
+    data: { status: 'delivering', attempts: { increment: 1 } }
+  });
+  if (claimed.count === 0) return;
+
+  const row = await prisma.accountOrder.findUnique({ where: { id: orderId } });
+  if (!row) return;
+  const account = await prisma.brokerAccount.findUnique({ where: { id: row.account_id } });
+  if (!account) {
+    await failAccountOrder(row, row.account_id, 'Broker account deleted');
+    return;
+  }
+
+  const settings: any = await prisma.executionSettings.findFirst();
+  const adapter = accountAdapter(account, settings);
+  const unavailable = !account.enabled
+    ? 'Broker account disabled'
+    : !settings?.broker_webhook_enabled
+      ? 'Broker forwarding disabled'
+      : adapter.configurationError();
+  if (unavailable) {
+    await failAccountOrder(row, account.name, unavailable);
+    return;
+  }
+
+  const order: BrokerOrderRequest = JSON.parse(row.payload);
+  // A tripped kill switch stops an account's entry at its next attempt; closing orders still go out
+  const haltReason = order.position_effect === 'close' ? null : await entryHaltReason();
+  if (haltReason) {
+    await prisma.accountOrder.update({
+      where: { id: row.id },
+      data: { status: 'cancelled', error_message: `Not sent to the broker: ${haltReason}`, closed_at: new Date() }
+    });
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'account_order_halted',
+        ticker: row.ticker,
+        details: JSON.stringify({ account_order_id: row.id, execution_id: row.execution_id, account: account.name, reason: haltReason })
+      }
+    });
+    console.warn(`🛑 ${account.name}: ${row.ticker} entry not sent — ${haltReason}`);
+    return;
+  }
+
+  let result: BrokerResult;
+  try {
+    const previous = row.attempts > 1 && adapter.tracksOrders ? await adapter.findOrder(row.idempotency_key) : null;
+    if (previous) {
+      console.log(`♻️ ${account.name}: ${adapter.name} already has ${row.idempotency_key} — not resubmitting`);
+      result = {
+        success: true,
+        broker_order_id: previous.broker_order_id,
+        state: previous.state,
+        response: previous.raw ?? null,
+        statusCode: 200
+      };
+    } else {
+      console.log(`📤 ${account.name}: forwarding to ${adapter.name} (attempt ${row.attempts}/${MAX_ATTEMPTS}): ${order.side} ${order.quantity} ${order.symbol} ${describeOrderSpec(orderSpecOf(order))}`);
+      result = await adapter.submitOrder(order);
+    }
+  } catch (error: any) {
+    result = { success: false, error: error.message };
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'account_order_sent',
+      ticker: row.ticker,
+      details: JSON.stringify({
+        account_order_id: row.id,
+        execution_id: row.execution_id,
+        account: account.name,
+        broker: adapter.name,
+        attempt: row.attempts,
+        idempotency_key: row.idempotency_key,
+        payload: result.request?.payload,
+        signature: result.request?.signature ?? null,
+        response_status: result.statusCode,
+        response_data: result.response,
+        broker_order_id: result.broker_order_id ?? null,
+        success: result.success,
+        ...(result.error && { error: result.error })
+      })
+    }
+  });
+
+  if (result.success) {
+    if (adapter.tracksOrders && result.broker_order_id) {
+      await prisma.accountOrder.update({
+        where: { id: row.id },
+        data: {
+          status: 'working',
+          broker: adapter.name,
+          broker_order_id: result.broker_order_id,
+          broker_status: result.state ?? 'accepted',
+          error_message: null
+        }
+      });
+      console.log(`✅ ${account.name}: ${adapter.name} accepted order ${result.broker_order_id}`);
+      activateAccountOrderWorker();  // its fills come from syncAccountOrders
+      return;
+    }
+
+    // Nothing will ever report a fill — book it at the reference price
+    const price = order.context?.reference_price ?? order.limit_price;
+    await prisma.accountOrder.update({
+      where: { id: row.id },
+      data: {
+        status: 'filled',
+        broker: adapter.name,
+        broker_order_id: result.broker_order_id ?? null,
+        broker_status: 'accepted',
+        filled_quantity: row.quantity,
+        avg_fill_price: price?.toString() ?? null,
+        error_message: price ? null : 'No reference price — fill not booked to the account position',
+        closed_at: new Date()
+      }
+    });
+    if (price) await applyAccountFill(account.id, row.ticker, row.order_action, row.quantity, price);
+    console.log(`✅ ${account.name}: ${adapter.name} accepted ${row.ticker} order`);
+    return;
+  }
+
+  if (!isRetryable(result.statusCode) || row.attempts >= MAX_ATTEMPTS) {
+    await failAccountOrder(row, account.name, result.error ?? 'unknown');
+    return;
+  }
+
+  const nextAttemptAt = new Date(Date.now() + backoffMs(row.attempts));
+  await prisma.accountOrder.update({
+    where: { id: row.id },
+    data: {
+      status: 'pending',
+      next_attempt_at: nextAttemptAt,
+      error_message: `${result.error} — retrying (attempt ${row.attempts}/${MAX_ATTEMPTS})`
+    }
+  });
+  console.log(`⏳ ${account.name}: ${row.ticker} order retrying at ${nextAttemptAt.toISOString()}`);
+  activateAccountOrderWorker();
+}
+
+/**
+ * Book a fill on an account's position: opens one, adds to it, or reduces /
+ * closes it (realized P&L is quantity-weighted like the primary's). A fill
+ * larger than the open position only closes it — accounts never flip.
+ */
+export async function applyAccountFill(
+  accountId: string,
+  ticker: string,
+  side: string,
+  quantity: number,
+  price: number
+): Promise<void> {
+  const position = await prisma.accountPosition.findFirst({
+    where: { account_id: accountId, ticker, closed_at: null },
+    orderBy: { opened_at: 'desc' }
+  });
+
+  if (!position) {
+    await prisma.accountPosition.create({
+      data: { account_id: accountId, ticker, side: side === 'buy' ? 'Long' : 'Short', quantity, entry_price: price }
+    });
+    return;
+  }
+
+  if (!isClosingOrder(position.side, side)) {
+    const entry = toNumber(position.entry_price) ?? price;
+    await prisma.accountPosition.update({
+      where: { id: position.id },
+      data: {
+        quantity: position.quantity + quantity,
+        entry_price: (entry * position.quantity + price * quantity) / (position.quantity + quantity)
+      }
+    });
+    return;
+  }
+
+  const closing = Math.min(quantity, position.quantity);
+  if (quantity > closing) {
+    console.warn(`⚠️ ${ticker} fill of ${quantity} exceeds the account's open ${position.quantity} — excess ignored`);
+  }
+  const pnl = computeRealizedPnl(position.side, closing, position.entry_price, price) ?? 0;
+  const previousExit = toNumber(position.exit_price);
+  const exitPrice = previousExit === null
+    ? price
+    : (previousExit * position.exited_quantity + price * closing) / (position.exited_quantity + closing);
+  const closed = closing >= position.quantity;
+
+  await prisma.accountPosition.update({
+    where: { id: position.id },
+    data: {
+      // A full close keeps the size that was closed, as Position does
+      ...(!closed && { quantity: position.quantity - closing }),
+      exited_quantity: position.exited_quantity + closing,
+      exit_price: exitPrice,
+      realized_pnl: (toNumber(position.realized_pnl) ?? 0) + pnl,
+      ...(closed && { closed_at: new Date() })
+    }
+  });
+}
+
+async function applyAccountOrderStatus(row: any, status: BrokerOrderStatus): Promise<void> {
+  if (status.state === 'replaced' && status.raw?.replaced_by) {
+    await prisma.accountOrder.update({
+      where: { id: row.id },
+      data: { broker_order_id: String(status.raw.replaced_by), broker_status: 'accepted' }
+    });
+    return;
+  }
+
+  const previousQty = row.filled_quantity;
+  const newQty = Math.min(status.filled_quantity, row.quantity);
+  if (newQty > previousQty) {
+    const price = deltaFillPrice(previousQty, toNumber(row.avg_fill_price), status);
+    if (price !== null) {
+      const filled = newQty >= row.quantity;
+      await prisma.accountOrder.update({
+        where: { id: row.id },
+        data: {
+          status: filled ? 'filled' : 'partially_filled',
+          broker_status: status.state,
+          filled_quantity: newQty,
+          avg_fill_price: status.avg_fill_price?.toString() ?? null,
+          ...(filled && { closed_at: new Date() })
+        }
+      });
+      await applyAccountFill(row.account_id, row.ticker, row.order_action, newQty - previousQty, price);
+      return;
+    }
+  }
+
+  if (status.state === row.broker_status) return;
+
+  const closed = status.state === 'cancelled' || status.state === 'rejected' || status.state === 'expired';
+  await prisma.accountOrder.update({
+    where: { id: row.id },
+    data: {
+      broker_status: status.state,
+      ...(closed && {
+        status: status.state === 'rejected' ? 'rejected' : 'cancelled',
+        error_message: `Broker order ${status.state}${status.raw?.reason_description ? `: ${status.raw.reason_description}` : ''}`,
+        closed_at: new Date()
+      })
+    }
+  });
+}
+
+/** Poll every working account order whose adapter reports status */
+export async function syncAccountOrders(): Promise<number> {
+  const working = await prisma.accountOrder.findMany({
+    where: { status: { in: ['working', 'partially_filled'] }, broker_order_id: { not: null } },
+    orderBy: { created_at: 'asc' }
+  });
+  if (working.length === 0) return 0;
+
+  const settings: any = await prisma.executionSettings.findFirst();
+  const accounts = await prisma.brokerAccount.findMany({
+    where: { id: { in: [...new Set(working.map(o => o.account_id))] } }
+  });
+  const adapters = new Map(accounts.map(a => [a.id, accountAdapter(a, settings)]));
+
+  for (const row of working) {
+    const adapter = adapters.get(row.account_id);
+    if (!adapter?.tracksOrders || adapter.configurationError()) continue;
+    try {
+      const status = await adapter.getOrder(row.broker_order_id!);
+      if (status) await applyAccountOrderStatus(row, status);
+    } catch (error: any) {
+      console.error(`❌ Account order sync error (${row.ticker} ${row.broker_order_id}):`, error.message);
+    }
+  }
+  return working.length;
+}
+
+/**
+ * The execution was cancelled — cancel its account orders that are still
+ * open. Queued ones just stop; working ones are cancelled at the broker. One
+ * account refusing doesn't stop the others.
+ */
+export async function cancelAccountOrders(executionId: string, requestedBy: string | null) {
+  const open = await prisma.accountOrder.findMany({
+    where: { execution_id: executionId, status: { in: OPEN_STATUSES } }
+  });
+  if (open.length === 0) return [];
+
+  const settings: any = await prisma.executionSettings.findFirst();
+  const accounts = await prisma.brokerAccount.findMany({ where: { id: { in: open.map(o => o.account_id) } } });
+  const accountMap = new Map(accounts.map(a => [a.id, a]));
+
+  const outcomes: Array<{ account: string; cancelled: boolean; error?: string }> = [];
+  for (const row of open) {
+    const account = accountMap.get(row.account_id);
+    const name = account?.name ?? row.account_id;
+    let error: string | undefined;
+
+    if (row.broker_order_id && account) {
+      const adapter = accountAdapter(account, settings);
+      const result = await adapter.cancelOrder(row.broker_order_id, JSON.parse(row.payload))
+        .catch((err: any) => ({ success: false, error: err.message } as BrokerResult));
+      if (!result.success) error = result.error ?? 'Broker refused the cancel';
+    }
+
+    await prisma.accountOrder.updateMany({
+      where: { id: row.id, status: { in: OPEN_STATUSES } },
+      data: error
+        ? { error_message: `Cancel refused: ${error}` }
+        : { status: 'cancelled', closed_at: new Date(), broker_status: row.broker_order_id ? 'cancelled' : row.broker_status }
+    });
+    outcomes.push({ account: name, cancelled: !error, ...(error && { error }) });
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'account_orders_cancelled',
+      ticker: open[0].ticker,
+      details: JSON.stringify({ execution_id: executionId, outcomes, requested_by: requestedBy })
+    }
+  });
+  return outcomes;
+}
+
+/** Send a failed account order again, with a fresh set of attempts and the same idempotency key */
+export async function retryAccountOrder(executionId: string, accountId: string, requestedBy: string | null) {
+  const row = await prisma.accountOrder.findUnique({
+    where: { execution_id_account_id: { execution_id: executionId, account_id: accountId } }
+  });
+  if (!row) return null;
+  if (row.status !== 'failed' && row.status !== 'pending') {
+    throw new Error(`Account order is ${row.status}`);
+  }
+
+  await prisma.accountOrder.update({
+    where: { id: row.id },
+    data: { status: 'pending', attempts: 0, next_attempt_at: new Date(), error_message: null, closed_at: null }
+  });
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'account_order_retried',
+      ticker: row.ticker,
+      details: JSON.stringify({
+        account_order_id: row.id,
+        execution_id: executionId,
+        account_id: accountId,
+        previous_status: row.status,
+        last_error: row.error_message,
+        requested_by: requestedBy
+      })
+    }
+  });
+
+  await deliverAccountOrder(row.id);
+  return prisma.accountOrder.findUnique({ where: { id: row.id } });
+}
+
+/** Stop retrying a failed account order — it stays on the execution as abandoned */
+export async function abandonAccountOrder(executionId: string, accountId: string, requestedBy: string | null) {
+  const row = await prisma.accountOrder.findUnique({
+    where: { execution_id_account_id: { execution_id: executionId, account_id: accountId } }
+  });
+  if (!row) return null;
+
+  const abandoned = await prisma.accountOrder.updateMany({
+    where: { id: row.id, status: { in: ['failed', 'pending'] } },
+    data: { status: 'abandoned', closed_at: new Date() }
+  });
+  if (abandoned.count === 0) throw new Error(`Account order is ${row.status}`);
+
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'account_order_abandoned',
+      ticker: row.ticker,
+      details: JSON.stringify({
+        account_order_id: row.id,
+        execution_id: executionId,
+        account_id: accountId,
+        previous_status: row.status,
+        last_error: row.error_message,
+        requested_by: requestedBy
+      })
+    }
+  });
+  return prisma.accountOrder.findUnique({ where: { id: row.id } });
+}
+
+/**
+ * Account orders that need a human: failed, or retrying after a failed
+ * attempt — listed apart from the queue, since the execution itself may
+ * have gone through fine.
+ */
+export async function listAccountOrderIssues() {
+  const orders = await prisma.accountOrder.findMany({
+    where: {
+      OR: [
+        { status: 'failed' },
+        { status: 'pending', attempts: { gt: 0 } }
+      ]
+    },
+    orderBy: { updated_at: 'desc' },
+    take: 100
+  });
+  const accounts = await prisma.brokerAccount.findMany({
+    where: { id: { in: [...new Set(orders.map(o => o.account_id))] } },
+    select: { id: true, name: true }
+  });
+  const names = new Map(accounts.map(a => [a.id, a.name]));
+
+  return orders.map(order => ({
+    ...order,
+    payload: JSON.parse(order.payload),
+    avg_fill_price: toNumber(order.avg_fill_price),
+    account_name: names.get(order.account_id) ?? null
+  }));
+}
+
+/** Account orders for a set of executions, grouped by execution id, with account names */
+export async function accountOrdersByExecution(executionIds: string[]): Promise<Map<string, any[]>> {
+  const grouped = new Map<string, any[]>();
+  if (executionIds.length === 0) return grouped;
+
+  const orders = await prisma.accountOrder.findMany({
+    where: { execution_id: { in: executionIds } },
+    orderBy: { created_at: 'asc' }
+  });
+  if (orders.length === 0) return grouped;
+
+  const accounts = await prisma.brokerAccount.findMany({
+    where: { id: { in: [...new Set(orders.map(o => o.account_id))] } },
+    select: { id: true, name: true }
+  });
+  const names = new Map(accounts.map(a => [a.id, a.name]));
+
+  for (const order of orders) {
+    const list = grouped.get(order.execution_id) ?? [];
+    list.push({
+      id: order.id,
+      account_id: order.account_id,
+      account_name: names.get(order.account_id) ?? null,
+      quantity: order.quantity,
+      status: order.status,
+      attempts: order.attempts,
+      broker: order.broker,
+      broker_order_id: order.broker_order_id,
+      broker_status: order.broker_status,
+      filled_quantity: order.filled_quantity,
+      avg_fill_price: toNumber(order.avg_fill_price),
+      error_message: order.error_message,
+      updated_at: order.updated_at
+    });
+    grouped.set(order.execution_id, list);
+  }
+  return grouped;
+}
+
+/** Open positions and realized P&L per account */
+export async function accountBooks(accountIds: string[]) {
+  const positions = await prisma.accountPosition.findMany({
+    where: { account_id: { in: accountIds } },
+    orderBy: { opened_at: 'desc' }
+  });
+
+  const books = new Map<string, { open_positions: any[]; realized_pnl: number; closed_positions: number }>();
+  for (const id of accountIds) books.set(id, { open_positions: [], realized_pnl: 0, closed_positions: 0 });
+  for (const position of positions) {
+    const book = books.get(position.account_id)!;
+    book.realized_pnl += toNumber(position.realized_pnl) ?? 0;
+    if (position.closed_at) {
+      book.closed_positions += 1;
+    } else {
+      book.open_positions.push({
+        id: position.id,
+        ticker: position.ticker,
+        side: position.side,
+        quantity: position.quantity,
+        entry_price: toNumber(position.entry_price),
+        realized_pnl: toNumber(position.realized_pnl),
+        opened_at: position.opened_at
+      });
+    }
+  }
+  return books;
+}
+
+/** Due deliveries, then — in the trading window — fills */
+export async function processAccountOrders(): Promise<void> {
+  if (processing) return;
+  processing = true;
+  try {
+    const recovered = await prisma.accountOrder.updateMany({
+      where: { status: 'delivering', updated_at: { lt: new Date(Date.now() - STALE_DELIVERING_MS) } },
+      data: { status: 'pending', next_attempt_at: new Date() }
+    });
+    if (recovered.count > 0) {
+      console.warn(`⚠️ Recovered ${recovered.count} account order(s) interrupted mid-attempt`);
+    }
+
+    const due = await prisma.accountOrder.findMany({
+      where: { status: 'pending', next_attempt_at: { lte: new Date() } },
+      orderBy: { next_attempt_at: 'asc' },
+      take: BATCH_SIZE
+    });
+    await deliverAccountOrders(due.map(o => o.id));
+
+    if (isTradingWindowET()) await syncAccountOrders();
+  } catch (error: any) {
+    console.error('❌ Account order worker error:', error.message);
+  } finally {
+    processing = false;
+  }
+}
+
+/** Orders waiting on an attempt, or — in the trading window — working at a broker */
+async function hasAccountOrderWork(): Promise<boolean> {
+  const statuses = isTradingWindowET() ? ['pending', 'delivering', 'working', 'partially_filled'] : ['pending', 'delivering'];
+  return (await prisma.accountOrder.count({ where: { status: { in: statuses } } })) > 0;
+}
+
+/** Active tick: deliver and sync, go idle once nothing is left */
+async function runAccountOrderTick(): Promise<void> {
+  await processAccountOrders();
+  try {
+    if (running && !(await hasAccountOrderWork())) idleAccountOrderWorker();
+  } catch (err: any) {
+    console.error('❌ Account order worker error:', err.message);  // stay active
+  }
+}
+
+/** Poll every POLL_INTERVAL_MS until there's nothing left to do; safe to call repeatedly */
+export function activateAccountOrderWorker(): void {
+  if (!running || pollInterval) return;
+  if (idleInterval) {
+    clearInterval(idleInterval);
+    idleInterval = null;
+  }
+  pollInterval = setInterval(() => {
+    runAccountOrderTick().catch(err => console.error('❌ Account order worker error:', err.message));
+  }, POLL_INTERVAL_MS);
+}
+
+function idleAccountOrderWorker(): void {
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+  if (idleInterval) return;
+  // Picks up working orders again when the trading window opens, and work another replica left
+  idleInterval = setInterval(async () => {
+    if (!isTradingWindowET()) return;
+    try {
+      if (await hasAccountOrderWork()) activateAccountOrderWorker();
+    } catch (err: any) {
+      console.error('❌ Account order heartbeat error:', err.message);
+    }
+  }, IDLE_HEARTBEAT_MS);
+}
+
+export async function startAccountOrderWorker(): Promise<void> {
+  if (running) return;
+  running = true;
+  console.log(`🏦 Account order worker started (every ${POLL_INTERVAL_MS / 1000}s while orders are open)`);
+  try {
+    if (await hasAccountOrderWork()) {
+      activateAccountOrderWorker();
+      return;
+    }
+  } catch (err: any) {
+    console.error('❌ Account order startup check failed — polling anyway:', err.message);
+    activateAccountOrderWorker();
+    return;
+  }
+  idleAccountOrderWorker();
+}
+
+export function stopAccountOrderWorker(): void {
+  running = false;
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+  if (idleInterval) {
+    clearInterval(idleInterval);
+    idleInterval = null;
+  }
+}
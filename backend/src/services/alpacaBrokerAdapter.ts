@@ -0,0 +1,193 @@
+import {
+  BrokerAdapter,
+  BrokerOrderChanges,
+  BrokerOrderRequest,
+  BrokerOrderState,
+  BrokerOrderStatus,
+  BrokerPosition,
+  BrokerResult,
+  readBrokerResponse,
+  brokerErrorMessage
+} from './brokerAdapter';
+
+/**
+ * Alpaca trading API adapter.
+ * Requires ALPACA_API_KEY_ID / ALPACA_API_SECRET_KEY (trading keys — the
+ * ALPACA_KEY data keys used by alpacaFlowService are separate).
+ * ALPACA_BASE_URL overrides the paper/live endpoint.
+ *
+ * Take-profit / stop-loss legs go out as a bracket (both) or OTO (one) order;
+ * orders are fetched nested so the legs' own ids come back with the parent.
+ */
+
+const PAPER_BASE = 'https://paper-api.alpaca.markets';
+const LIVE_BASE = 'https://api.alpaca.markets';
+const TIMEOUT_MS = 10000;
+
+const STATE_MAP: Record<string, BrokerOrderState> = {
+  new: 'accepted',
+  accepted: 'accepted',
+  pending_new: 'accepted',
+  accepted_for_bidding: 'accepted',
+  pending_cancel: 'accepted',
+  pending_replace: 'accepted',
+  done_for_day: 'accepted',
+  calculated: 'accepted',
+  held: 'accepted',
+  partially_filled: 'partially_filled',
+  filled: 'filled',
+  canceled: 'cancelled',
+  stopped: 'cancelled',
+  suspended: 'cancelled',
+  rejected: 'rejected',
+  expired: 'expired',
+  replaced: 'replaced'
+};
+
+function toStatus(order: any): BrokerOrderStatus {
+  const legs = Array.isArray(order.legs) ? order.legs : [];
+  return {
+    broker_order_id: order.id,
+    state: STATE_MAP[order.status] ?? 'unknown',
+    filled_quantity: parseFloat(order.filled_qty ?? '0') || 0,
+    avg_fill_price: order.filled_avg_price != null ? parseFloat(order.filled_avg_price) : null,
+    // Take-profit legs are limit orders, stop-loss legs stop / stop_limit
+    legs: legs.map((leg: any) => ({
+      kind: leg.type === 'limit' ? 'take_profit' as const : 'stop_loss' as const,
+      broker_order_id: leg.id
+    })),
+    raw: order
+  };
+}
+
+/** env_prefix: read credentials from <prefix>_ALPACA_API_KEY_ID / _SECRET_KEY (a second account) */
+export function createAlpacaBrokerAdapter(options: { paper: boolean; env_prefix?: string | null }): BrokerAdapter {
+  const base = (process.env.ALPACA_BASE_URL || (options.paper ? PAPER_BASE : LIVE_BASE)).replace(/\/$/, '');
+  const keyVar = options.env_prefix ? `${options.env_prefix}_ALPACA_API_KEY_ID` : 'ALPACA_API_KEY_ID';
+  const secretVar = options.env_prefix ? `${options.env_prefix}_ALPACA_API_SECRET_KEY` : 'ALPACA_API_SECRET_KEY';
+
+  function headers(): Record<string, string> {
+    return {
+      'APCA-API-KEY-ID': process.env[keyVar] ?? '',
+      'APCA-API-SECRET-KEY': process.env[secretVar] ?? '',
+      'Content-Type': 'application/json',
+      Accept: 'application/json'
+    };
+  }
+
+  async function request(method: string, path: string, payload?: any): Promise<{ response: Response; data: any; url: string }> {
+    const url = `${base}${path}`;
+    const response = await fetch(url, {
+      method,
+      headers: headers(),
+      body: payload !== undefined ? JSON.stringify(payload) : undefined,
+      signal: AbortSignal.timeout(TIMEOUT_MS)
+    });
+    return { response, data: await readBrokerResponse(response), url };
+  }
+
+  return {
+    name: 'alpaca',
+    tracksOrders: true,
+
+    configurationError() {
+      return process.env[keyVar] && process.env[secretVar]
+        ? null
+        : `${keyVar} / ${secretVar} not set`;
+    },
+
+    async submitOrder(order: BrokerOrderRequest): Promise<BrokerResult> {
+      const payload: Record<string, any> = {
+        symbol: order.symbol,
+        qty: String(order.quantity),
+        side: order.side,
+        type: order.order_type,
+        time_in_force: order.time_in_force,
+        client_order_id: order.client_order_id
+      };
+      if (order.limit_price !== null) payload.limit_price = String(order.limit_price);
+      if (order.stop_price !== null) payload.stop_price = String(order.stop_price);
+      if (order.trail_amount !== null) payload.trail_price = String(order.trail_amount);
+      if (order.trail_percent !== null) payload.trail_percent = String(order.trail_percent);
+
+      const hasLegs = order.take_profit_price !== null || order.stop_loss_price !== null;
+      if (hasLegs) {
+        payload.order_class = order.take_profit_price !== null && order.stop_loss_price !== null ? 'bracket' : 'oto';
+        if (order.take_profit_price !== null) payload.take_profit = { limit_price: String(order.take_profit_price) };
+        if (order.stop_loss_price !== null) payload.stop_loss = { stop_price: String(order.stop_loss_price) };
+      } else if (order.order_type === 'limit' && order.time_in_force === 'day') {
+        // Limit day orders may work pre/post market — the desk trades 4:00–18:00 ET
+        payload.extended_hours = true;
+      }
+
+      const { response, data, url } = await request('POST', '/v2/orders', payload);
+      return {
+        success: response.ok,
+        broker_order_id: response.ok ? data?.id ?? null : null,
+        state: response.ok ? STATE_MAP[data?.status] ?? 'accepted' : undefined,
+        request: { url, payload },
+        response: data,
+        statusCode: response.status,
+        ...(!response.ok && { error: brokerErrorMessage(response, data) })
+      };
+    },
+
+    async cancelOrder(brokerOrderId: string): Promise<BrokerResult> {
+      const { response, data, url } = await request('DELETE', `/v2/orders/${encodeURIComponent(brokerOrderId)}`);
+      return {
+        success: response.ok,
+        broker_order_id: brokerOrderId,
+        state: response.ok ? 'cancelled' : undefined,
+        request: { url, payload: null },
+        response: data,
+        statusCode: response.status,
+        ...(!response.ok && { error: brokerErrorMessage(response, data) })
+      };
+    },
+
+    async replaceOrder(brokerOrderId: string, changes: BrokerOrderChanges): Promise<BrokerResult> {
+      const payload: Record<string, any> = {};
+      if (changes.quantity !== undefined) payload.qty = String(changes.quantity);
+      if (changes.limit_price !== undefined) payload.limit_price = String(changes.limit_price);
+      if (changes.stop_price !== undefined) payload.stop_price = String(changes.stop_price);
+      // One "trail" field — Alpaca applies it as price or percent, whichever the order was placed with
+      const trail = changes.trail_amount ?? changes.trail_percent;
+      if (trail !== undefined) payload.trail = String(trail);
+
+      const { response, data, url } = await request('PATCH', `/v2/orders/${encodeURIComponent(brokerOrderId)}`, payload);
+      return {
+        success: response.ok,
+        // Alpaca replaces by creating a new order
+        broker_order_id: response.ok ? data?.id ?? brokerOrderId : brokerOrderId,
+        state: response.ok ? STATE_MAP[data?.status] ?? 'accepted' : undefined,
+        request: { url, payload },
+        response: data,
+        statusCode: response.status,
+        ...(!response.ok && { error: brokerErrorMessage(response, data) })
+      };
+    },
+
+    async getOrder(brokerOrderId: string): Promise<BrokerOrderStatus | null> {
+      const { response, data } = await request('GET', `/v2/orders/${encodeURIComponent(brokerOrderId)}?nested=true`);
+      if (!response.ok || !data?.id) return null;
+      return toStatus(data);
+    },
+
+    async findOrder(clientOrderId: string): Promise<BrokerOrderStatus | null> {
+      const { response, data } = await request('GET', `/v2/orders:by_client_order_id?client_order_id=${encodeURIComponent(clientOrderId)}&nested=true`);
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(brokerErrorMessage(response, data));
+      return data?.id ? toStatus(data) : null;
+    },
+
+    async listPositions(): Promise<BrokerPosition[]> {
+      const { response, data } = await request('GET', '/v2/positions');
+      if (!response.ok) throw new Error(brokerErrorMessage(response, data));
+      return (Array.isArray(data) ? data : []).map((p: any) => ({
+        symbol: p.symbol,
+        quantity: parseFloat(p.qty) || 0,
+        avg_entry_price: p.avg_entry_price != null ? parseFloat(p.avg_entry_price) : null
+      }));
+    }
+  };
+}
@@ -0,0 +1,192 @@
+import { createWebhookBrokerAdapter } from './webhookBrokerAdapter';
+import { createAlpacaBrokerAdapter } from './alpacaBrokerAdapter';
+import { createTradierBrokerAdapter } from './tradierBrokerAdapter';
+import { createPaperBrokerAdapter } from './paperBrokerAdapter';
+import { OrderType, TimeInForce } from './orderSpec';
+import { parsePayloadTemplates } from './brokerPayloadTemplate';
+
+/**
+ * Broker adapter layer.
+ *
+ * forwardToBroker() no longer knows how to talk to a broker — it hands the
+ * order to the adapter selected by ExecutionSettings.broker_adapter:
+ *   - webhook  POST {symbol, action, quantity, limit_price, order_type, …} to broker_webhook_url (the original behaviour),
+ *              or the body rendered from the user's payload templates; signed, optionally over mTLS
+ *   - alpaca   Alpaca trading REST API (paper or live per broker_paper)
+ *   - tradier  Tradier brokerage API (sandbox or live per broker_paper)
+ *   - paper    built-in simulator filling against minute bars (paperBrokerAdapter)
+ *
+ * Adapters that can report order status (tracksOrders) return a broker order
+ * id on submit; brokerOrderSync polls those orders and feeds fills back into
+ * the execution through the CONFIRMED path, so fills no longer depend on
+ * TradingView CONFIRMED alerts.
+ *
+ * Order types, time-in-force and take-profit / stop-loss legs travel on the
+ * request (see orderSpec). Edits and cancels of an order already at the
+ * broker go through cancelOrder / replaceOrder (see brokerOrderControl). An adapter that can't place what was asked for
+ * refuses it with statusCode 422 rather than sending something else.
+ *
+ * Credentials come from the environment (a BrokerAccount's credentials_env
+ * prefixes the variable names); every base URL can be overridden
+ * (ALPACA_BASE_URL, TRADIER_BROKER_BASE_URL) to point an adapter at a local
+ * HTTP stand-in.
+ */
+
+export const BROKER_ADAPTERS = ['webhook', 'alpaca', 'tradier', 'paper'] as const;
+
+export type BrokerAdapterName = typeof BROKER_ADAPTERS[number];
+
+export type BrokerOrderState =
+  | 'accepted'          // working at the broker
+  | 'partially_filled'
+  | 'filled'
+  | 'cancelled'
+  | 'rejected'
+  | 'expired'
+  | 'replaced'          // superseded by a replace; follow the new order id
+  | 'unknown';
+
+export interface BrokerOrderRequest {
+  execution_id: string;
+  client_order_id: string;        // stable per execution — brokers use it to refuse duplicates
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  order_type: OrderType;
+  limit_price: number | null;     // limit / stop_limit only
+  stop_price: number | null;      // stop / stop_limit trigger
+  trail_amount: number | null;    // trailing_stop, in dollars…
+  trail_percent: number | null;   // …or percent
+  time_in_force: TimeInForce;
+  take_profit_price: number | null; // attached legs — bracket when both are set
+  stop_loss_price: number | null;
+  position_effect: 'open' | 'close';
+  /** Execution details for payload templates (see brokerPayloadTemplate) — absent on orders queued before them */
+  context?: BrokerOrderContext;
+}
+
+export interface BrokerOrderContext {
+  dir: string | null;
+  position_id: string | null;
+  strategy: string | null;
+  grade: string | null;
+  score: number | null;
+  intent_id: string | null;
+  reference_price: number | null;   // the execution's limit_price, whatever the order type
+}
+
+/**
+ * What a cancel/replace may change on a working order. order_type is the
+ * order's current (unchanged) type — Tradier's modify has to repeat it.
+ */
+export interface BrokerOrderChanges {
+  order_type: OrderType;
+  quantity?: number;
+  limit_price?: number;
+  stop_price?: number;
+  trail_amount?: number;
+  trail_percent?: number;
+}
+
+/** What went into a signed webhook request — never the secret itself */
+export interface RequestSignature {
+  secret_id: string;
+  timestamp: string;
+  signature: string;
+}
+
+export interface BrokerResult {
+  success: boolean;
+  broker_order_id?: string | null;
+  state?: BrokerOrderState;
+  request?: { url: string; payload: any; signature?: RequestSignature };
+  response?: any;
+  error?: string;
+  statusCode?: number;
+}
+
+export interface BrokerOrderStatus {
+  broker_order_id: string;
+  state: BrokerOrderState;
+  filled_quantity: number;
+  avg_fill_price: number | null;
+  /** Take-profit / stop-loss child orders, once the broker has created them */
+  legs?: Array<{ kind: 'take_profit' | 'stop_loss'; broker_order_id: string }>;
+  raw?: any;
+}
+
+export interface BrokerPosition {
+  symbol: string;
+  quantity: number;               // negative for short
+  avg_entry_price: number | null;
+}
+
+export interface BrokerAdapter {
+  readonly name: BrokerAdapterName;
+  /** True when the broker reports order status, so fills can be polled */
+  readonly tracksOrders: boolean;
+  /** Reason the adapter can't be used (missing URL/credentials), or null */
+  configurationError(): string | null;
+  submitOrder(order: BrokerOrderRequest): Promise<BrokerResult>;
+  /** order: the request as submitted, when known — the generic webhook renders its cancel / replace templates from it */
+  cancelOrder(brokerOrderId: string, order?: BrokerOrderRequest): Promise<BrokerResult>;
+  replaceOrder(brokerOrderId: string, changes: BrokerOrderChanges, order?: BrokerOrderRequest): Promise<BrokerResult>;
+  getOrder(brokerOrderId: string): Promise<BrokerOrderStatus | null>;
+  /** Order submitted under a client order id — lets a retry find an attempt whose response was lost */
+  findOrder(clientOrderId: string): Promise<BrokerOrderStatus | null>;
+  listPositions(): Promise<BrokerPosition[]>;
+}
+
+export interface BrokerAdapterSettings {
+  broker_adapter?: string | null;
+  broker_paper?: boolean | null;
+  broker_webhook_url?: string | null;
+  broker_payload_templates?: string | null;
+  broker_webhook_mtls?: boolean | null;
+  credentials_env?: string | null;  // BrokerAccount: env var prefix for alpaca / tradier credentials
+  paper_slippage_pct?: any;
+  paper_max_volume_pct?: any;
+}
+
+/** Adapter for the broker selected in settings (webhook when unset or unknown) */
+export function getBrokerAdapter(settings: BrokerAdapterSettings | null | undefined): BrokerAdapter {
+  const paper = settings?.broker_paper !== false;
+  switch (settings?.broker_adapter) {
+    case 'alpaca':
+      return createAlpacaBrokerAdapter({ paper, env_prefix: settings?.credentials_env });
+    case 'tradier':
+      return createTradierBrokerAdapter({ paper, env_prefix: settings?.credentials_env });
+    case 'paper':
+      return createPaperBrokerAdapter({
+        slippage_pct: Math.max(0, parseFloat(settings?.paper_slippage_pct ?? '0') || 0),
+        max_volume_pct: Math.max(0, parseFloat(settings?.paper_max_volume_pct ?? '25') || 0)
+      });
+    default:
+      return createWebhookBrokerAdapter({
+        url: settings?.broker_webhook_url ?? null,
+        templates: parsePayloadTemplates(settings?.broker_payload_templates),
+        mtls: settings?.broker_webhook_mtls === true
+      });
+  }
+}
+
+/** Refusal for an order the adapter can't place — never retried */
+export function unsupportedOrder(error: string): BrokerResult {
+  return { success: false, error, statusCode: 422 };
+}
+
+/** Read a broker response body as JSON, falling back to text */
+export async function readBrokerResponse(response: Response): Promise<any> {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export function brokerErrorMessage(response: Response, data: any): string {
+  const detail = typeof data === 'string' ? data : data?.message ?? data?.errors?.error ?? JSON.stringify(data);
+  return `Broker responded with ${response.status}: ${detail}`;
+}
@@ -0,0 +1,271 @@
+import { prisma } from '../index';
+import { attemptDelivery, BrokerWebhookResult } from './brokerWebhook';
+import { rebookEntryPosition, unwindEntryPosition } from './positionExitService';
+import { isTradingWindowET } from './executionScheduler';
+
+/**
+ * Outbound broker delivery queue.
+ *
+ * forwardToBroker() writes every order to broker_deliveries and makes the
+ * first attempt itself; this worker owns everything after that:
+ *   - every POLL_INTERVAL_MS, due 'pending' deliveries get their next attempt
+ *     (backoff and dead-lettering live in brokerWebhook.attemptDelivery)
+ *   - a delivery stuck in 'delivering' for STALE_DELIVERING_MS (the process
+ *     died mid-attempt) goes back to 'pending' — the retry looks the order up
+ *     by its idempotency key before resubmitting, so it can't double-fill
+ *   - a late success moves the execution to 'executed'; a dead letter marks
+ *     it 'failed' and takes an entry's shares back off the position it was
+ *     booked on (re-booked if a retry later gets it out)
+ *   - it only polls while deliveries are pending or delivering: scheduling
+ *     a retry wakes it (activateBrokerDeliveryQueue), and once the queue is
+ *     empty it drops to an idle heartbeat (trading window only) so the
+ *     database can sleep
+ *
+ * Dead letters wait for a human: retryDeliveryNow() or abandonDelivery().
+ */
+
+const POLL_INTERVAL_MS = 5000;
+const STALE_DELIVERING_MS = 2 * 60 * 1000;
+const IDLE_HEARTBEAT_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 20;
+
+let running = false;
+let pollInterval: NodeJS.Timeout | null = null;   // active — deliveries waiting
+let idleInterval: NodeJS.Timeout | null = null;   // idle heartbeat
+let processing = false;
+
+/** Move the execution to match the outcome of an attempt made outside its original request */
+async function settleExecution(executionId: string, result: BrokerWebhookResult): Promise<void> {
+  const execution = await prisma.execution.findUnique({ where: { id: executionId } });
+  if (!execution) return;
+
+  if (result.success) {
+    await prisma.execution.update({
+      where: { id: executionId },
+      data: {
+        ...(['pending', 'executing', 'failed'].includes(execution.status) && { status: 'executed' }),
+        executed_at: execution.executed_at ?? new Date(),
+        error_message: null
+      }
+    });
+    await rebookEntryPosition(execution);
+  } else if (result.dead_lettered) {
+    await prisma.execution.update({
+      where: { id: executionId },
+      data: {
+        ...(['pending', 'executing', 'executed'].includes(execution.status) && { status: 'failed' }),
+        error_message: `Broker delivery failed after ${result.attempts} attempt(s): ${result.error}`
+      }
+    });
+    await unwindEntryPosition(execution, 'broker delivery dead-lettered');
+  } else if (result.queued && result.error) {
+    await prisma.execution.update({
+      where: { id: executionId },
+      data: { error_message: result.error }
+    });
+  }
+}
+
+/** Run every due delivery attempt once */
+export async function processBrokerDeliveries(): Promise<number> {
+  if (processing) return 0;
+  processing = true;
+  try {
+    const recovered = await prisma.brokerDelivery.updateMany({
+      where: { status: 'delivering', updated_at: { lt: new Date(Date.now() - STALE_DELIVERING_MS) } },
+      data: { status: 'pending', next_attempt_at: new Date() }
+    });
+    if (recovered.count > 0) {
+      console.warn(`⚠️ Recovered ${recovered.count} broker deliver${recovered.count === 1 ? 'y' : 'ies'} interrupted mid-attempt`);
+    }
+
+    const due = await prisma.brokerDelivery.findMany({
+      where: { status: 'pending', next_attempt_at: { lte: new Date() } },
+      orderBy: { next_attempt_at: 'asc' },
+      take: BATCH_SIZE
+    });
+
+    for (const delivery of due) {
+      try {
+        const result = await attemptDelivery(delivery.id);
+        await settleExecution(delivery.execution_id, result);
+      } catch (error: any) {
+        console.error(`❌ Broker delivery error (${delivery.ticker} ${delivery.execution_id}):`, error.message);
+      }
+    }
+    return due.length;
+  } catch (error: any) {
+    console.error('❌ Broker delivery queue error:', error.message);
+    return 0;
+  } finally {
+    processing = false;
+  }
+}
+
+/** Dead-lettered deliveries with their executions, newest first */
+export async function listDeadLetters() {
+  const deliveries = await prisma.brokerDelivery.findMany({
+    where: { status: 'dead' },
+    orderBy: { dead_at: 'desc' },
+    take: 100
+  });
+  const executions = await prisma.execution.findMany({
+    where: { id: { in: deliveries.map(d => d.execution_id) } }
+  });
+  const executionMap = new Map(executions.map(e => [e.id, e]));
+
+  return deliveries.map(delivery => ({
+    ...delivery,
+    payload: JSON.parse(delivery.payload),
+    execution: executionMap.get(delivery.execution_id) ?? null
+  }));
+}
+
+/**
+ * Send a dead-lettered (or backing-off) order now, with a fresh set of
+ * attempts and the same idempotency key.
+ */
+export async function retryDeliveryNow(executionId: string, requestedBy: string | null) {
+  const delivery = await prisma.brokerDelivery.findUnique({ where: { execution_id: executionId } });
+  if (!delivery) throw new Error('No broker delivery for this execution');
+  if (delivery.status !== 'dead' && delivery.status !== 'pending') {
+    throw new Error(`Broker delivery is ${delivery.status}`);
+  }
+
+  await prisma.brokerDelivery.update({
+    where: { id: delivery.id },
+    data: { status: 'pending', attempts: 0, next_attempt_at: new Date(), dead_at: null }
+  });
+  await prisma.execution.update({
+    where: { id: executionId },
+    data: { status: 'executing', error_message: null }
+  });
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'broker_delivery_retried',
+      ticker: delivery.ticker,
+      details: JSON.stringify({
+        execution_id: executionId,
+        previous_status: delivery.status,
+        previous_attempts: delivery.attempts,
+        last_error: delivery.last_error,
+        requested_by: requestedBy
+      })
+    }
+  });
+
+  const result = await attemptDelivery(delivery.id);
+  await settleExecution(executionId, result);
+  return result;
+}
+
+/** Stop trying: the order will not be sent. The execution stays failed and its booked entry is unwound. */
+export async function abandonDelivery(executionId: string, requestedBy: string | null) {
+  const delivery = await prisma.brokerDelivery.findUnique({ where: { execution_id: executionId } });
+  if (!delivery) throw new Error('No broker delivery for this execution');
+
+  const abandoned = await prisma.brokerDelivery.updateMany({
+    where: { id: delivery.id, status: { in: ['dead', 'pending'] } },
+    data: { status: 'abandoned' }
+  });
+  if (abandoned.count === 0) throw new Error(`Broker delivery is ${delivery.status}`);
+
+  const execution = await prisma.execution.findUnique({ where: { id: executionId } });
+  await prisma.execution.update({
+    where: { id: executionId },
+    data: {
+      status: 'failed',
+      error_message: `Broker delivery abandoned${requestedBy ? ` by ${requestedBy}` : ''}${delivery.last_error ? ` — last error: ${delivery.last_error}` : ''}`
+    }
+  });
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'broker_delivery_abandoned',
+      ticker: delivery.ticker,
+      details: JSON.stringify({
+        execution_id: executionId,
+        previous_status: delivery.status,
+        attempts: delivery.attempts,
+        last_error: delivery.last_error,
+        requested_by: requestedBy
+      })
+    }
+  });
+  await unwindEntryPosition(execution, `broker delivery abandoned${requestedBy ? ` by ${requestedBy}` : ''}`);
+  console.log(`🗑️ Broker delivery for ${delivery.ticker} abandoned${requestedBy ? ` by ${requestedBy}` : ''}`);
+}
+
+async function hasPendingDeliveries(): Promise<boolean> {
+  return (await prisma.brokerDelivery.count({ where: { status: { in: ['pending', 'delivering'] } } })) > 0;
+}
+
+/** Active tick: attempt what's due, go idle once nothing is waiting */
+async function runDeliveryTick(): Promise<void> {
+  await processBrokerDeliveries();
+  try {
+    if (running && !(await hasPendingDeliveries())) idleBrokerDeliveryQueue();
+  } catch (err: any) {
+    console.error('❌ Broker delivery queue error:', err.message);  // stay active
+  }
+}
+
+/**
+ * Poll every POLL_INTERVAL_MS until the queue is empty. attemptDelivery calls
+ * it when it schedules a retry; safe to call repeatedly.
+ */
+export function activateBrokerDeliveryQueue(): void {
+  if (!running || pollInterval) return;
+  if (idleInterval) {
+    clearInterval(idleInterval);
+    idleInterval = null;
+  }
+  pollInterval = setInterval(() => {
+    runDeliveryTick().catch(err => console.error('❌ Broker delivery queue error:', err.message));
+  }, POLL_INTERVAL_MS);
+}
+
+function idleBrokerDeliveryQueue(): void {
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+  if (idleInterval) return;
+  // Catches retries another replica scheduled and never got to
+  idleInterval = setInterval(async () => {
+    if (!isTradingWindowET()) return;
+    try {
+      if (await hasPendingDeliveries()) activateBrokerDeliveryQueue();
+    } catch (err: any) {
+      console.error('❌ Broker delivery heartbeat error:', err.message);
+    }
+  }, IDLE_HEARTBEAT_MS);
+}
+
+export async function startBrokerDeliveryQueue(): Promise<void> {
+  if (running) return;
+  running = true;
+  console.log(`📮 Broker delivery queue started (every ${POLL_INTERVAL_MS / 1000}s while deliveries wait)`);
+  try {
+    if (await hasPendingDeliveries()) {
+      activateBrokerDeliveryQueue();
+      return;
+    }
+  } catch (err: any) {
+    console.error('❌ Broker delivery startup check failed — polling anyway:', err.message);
+    activateBrokerDeliveryQueue();
+    return;
+  }
+  idleBrokerDeliveryQueue();
+}
+
+export function stopBrokerDeliveryQueue(): void {
+  running = false;
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+  if (idleInterval) {
+    clearInterval(idleInterval);
+    idleInterval = null;
+  }
+}
@@ -0,0 +1,339 @@
+import { prisma } from '../index';
+import { getBrokerAdapter, BrokerAdapter, BrokerOrderChanges, BrokerOrderRequest, BrokerResult } from './brokerAdapter';
+import { isFillAccounting } from './fillAccountingService';
+import { orderSpecOf, brokerLimitPrice, OrderSpec } from './orderSpec';
+import { unwindEntryPosition } from './positionExitService';
+import { checkPreTradeRisk, RiskViolation } from './riskService';
+import { checkPriceGuard, PriceGuardViolation } from './priceGuardService';
+
+/**
+ * Cancel / replace of an execution wherever its order currently is.
+ *
+ * PUT /api/executions/:id and POST /api/executions/:id/cancel used to change
+ * only our row, leaving the broker working the old price or a cancelled
+ * order. Where the order stands decides what an edit or cancel does:
+ *   - local      never handed to the broker — the row is all there is
+ *   - queued     waiting in broker_deliveries (pending retry or dead letter) —
+ *                an edit rewrites the queued payload, a cancel abandons it
+ *   - in_flight  a delivery attempt is running right now — refused, try again
+ *   - broker     accepted by the broker — cancelOrder / replaceOrder on the
+ *                adapter that took it; the row only changes once the broker
+ *                acknowledges, and every request is audited with its response
+ *   - closed     filled or cancelled — nothing left to change, refused
+ *
+ * An edit is checked as the order it becomes — pre-trade risk limits and, for
+ * a new limit price, the price guard — before anything changes anywhere.
+ *
+ * Refusals come back with an HTTP status for the route: 409 when the order's
+ * state doesn't allow the change, 422 when the edited order breaks a risk
+ * limit or the price guard, 502 when the broker refused it.
+ *
+ * A cancelled entry that intent accounting already booked on the position
+ * takes its unfilled shares back off it (unwindEntryPosition).
+ */
+
+export type OrderLocation = 'local' | 'queued' | 'in_flight' | 'broker' | 'closed';
+
+export type OrderControlResult =
+  | { ok: true; execution: any; where: OrderLocation; acknowledgment: BrokerResult | null }
+  | {
+      ok: false;
+      http_status: 409 | 422 | 502;
+      error: string;
+      where: OrderLocation;
+      acknowledgment?: BrokerResult;
+      risk?: RiskViolation;
+      price_guard?: PriceGuardViolation;
+    };
+
+const FILLED_STATUSES = ['confirmed', 'unmatched_confirm'];
+const BROKER_CLOSED_STATES = ['filled', 'cancelled', 'rejected', 'expired'];
+
+const refuse = (where: OrderLocation, error: string): OrderControlResult =>
+  ({ ok: false, http_status: 409, error, where });
+
+/** Shares already filled on an execution, by whichever source reported them */
+function filledQuantity(execution: any): number {
+  return Math.max(execution.filled_quantity ?? 0, execution.broker_filled_quantity ?? 0);
+}
+
+async function locateOrder(execution: any): Promise<{ where: OrderLocation; delivery: any; reason?: string }> {
+  const delivery = await prisma.brokerDelivery.findUnique({ where: { execution_id: execution.id } });
+
+  if (FILLED_STATUSES.includes(execution.status) || execution.broker_status === 'filled') {
+    return { where: 'closed', delivery, reason: 'Order already filled' };
+  }
+  if (execution.status === 'cancelled') {
+    return { where: 'closed', delivery, reason: 'Order already cancelled' };
+  }
+  if (execution.broker_order_id && BROKER_CLOSED_STATES.includes(execution.broker_status)) {
+    // Nothing is working anywhere — a rejected row can still be fixed up or dismissed locally
+    if (execution.status === 'rejected') return { where: 'local', delivery };
+    return { where: 'closed', delivery, reason: `Order is ${execution.broker_status} at the broker` };
+  }
+  if (delivery?.status === 'delivering') {
+    return { where: 'in_flight', delivery, reason: 'Order is being sent to the broker right now — try again in a moment' };
+  }
+  if (execution.broker_order_id || delivery?.status === 'delivered') {
+    return { where: 'broker', delivery };
+  }
+  if (delivery?.status === 'pending' || delivery?.status === 'dead') {
+    return { where: 'queued', delivery };
+  }
+  if (execution.status === 'executing') {
+    return { where: 'in_flight', delivery, reason: 'Order is being sent to the broker right now — try again in a moment' };
+  }
+  return { where: 'local', delivery };
+}
+
+/**
+ * The adapter that can reach an order at the broker, plus the id it knows the
+ * order by (the generic webhook only has our client order id).
+ */
+async function brokerFor(execution: any): Promise<{ adapter: BrokerAdapter; orderRef: string } | { error: string }> {
+  const settings: any = await prisma.executionSettings.findFirst();
+  const adapter = getBrokerAdapter(settings);
+  const placedWith = execution.broker ?? 'webhook';
+
+  if (placedWith !== adapter.name) {
+    return { error: `Order was placed with ${placedWith} but the active broker is ${adapter.name} — change it at ${placedWith} directly` };
+  }
+  const unavailable = !settings?.broker_webhook_enabled ? 'Broker forwarding disabled' : adapter.configurationError();
+  if (unavailable) {
+    return { error: `${unavailable} — cannot reach the order at ${adapter.name}` };
+  }
+  const orderRef = execution.broker_order_id ?? (adapter.name === 'webhook' ? execution.idempotency_key : null);
+  if (!orderRef) {
+    return { error: `${adapter.name} never returned an order id for this execution — change it at the broker directly` };
+  }
+  return { adapter, orderRef };
+}
+
+/** The order as it went to the broker, frozen on its delivery */
+function submittedOrder(delivery: any): BrokerOrderRequest | undefined {
+  return delivery ? JSON.parse(delivery.payload) : undefined;
+}
+
+async function auditBrokerRequest(
+  eventType: 'broker_cancel_sent' | 'broker_replace_sent',
+  execution: any,
+  broker: string,
+  orderRef: string,
+  result: BrokerResult,
+  requestedBy: string | null
+): Promise<void> {
+  await prisma.auditLog.create({
+    data: {
+      event_type: eventType,
+      ticker: execution.ticker,
+      details: JSON.stringify({
+        execution_id: execution.id,
+        broker,
+        broker_order_id: orderRef,
+        new_broker_order_id: result.broker_order_id !== orderRef ? result.broker_order_id ?? null : null,
+        webhook_url: result.request?.url,
+        payload: result.request?.payload,
+        response_status: result.statusCode,
+        response_data: result.response,
+        broker_state: result.state ?? null,
+        success: result.success,
+        requested_by: requestedBy,
+        ...(result.error && { error: result.error })
+      })
+    }
+  });
+}
+
+/** Cancel an execution — at the broker first when it's already there — and unwind its booked entry */
+export async function cancelExecutionOrder(execution: any, requestedBy: string | null): Promise<OrderControlResult> {
+  const { where, delivery, reason } = await locateOrder(execution);
+  if (reason) return refuse(where, reason);
+
+  if (where === 'queued') {
+    const abandoned = await prisma.brokerDelivery.updateMany({
+      where: { id: delivery.id, status: { in: ['pending', 'dead'] } },
+      data: { status: 'abandoned' }
+    });
+    if (abandoned.count === 0) {
+      return refuse('in_flight', 'Order is being sent to the broker right now — try again in a moment');
+    }
+  }
+
+  if (where !== 'broker') {
+    const updated = await prisma.execution.update({
+      where: { id: execution.id },
+      data: { status: 'cancelled' }
+    });
+    await unwindEntryPosition(execution, `cancelled${requestedBy ? ` by ${requestedBy}` : ''}`);
+    return { ok: true, execution: updated, where, acknowledgment: null };
+  }
+
+  const target = await brokerFor(execution);
+  if ('error' in target) return refuse(where, target.error);
+
+  let result: BrokerResult;
+  try {
+    result = await target.adapter.cancelOrder(target.orderRef, submittedOrder(delivery));
+  } catch (error: any) {
+    result = { success: false, error: error.message };
+  }
+  await auditBrokerRequest('broker_cancel_sent', execution, target.adapter.name, target.orderRef, result, requestedBy);
+
+  if (!result.success) {
+    console.error(`❌ Broker ${target.adapter.name} refused cancel of ${execution.ticker} ${target.orderRef}: ${result.error}`);
+    return { ok: false, http_status: 502, error: result.error ?? 'Broker refused the cancel', where, acknowledgment: result };
+  }
+
+  // Shares that already filled stay booked — only the remainder is gone
+  const filled = filledQuantity(execution);
+  const updated = await prisma.execution.update({
+    where: { id: execution.id },
+    data: {
+      ...(filled === 0 && { status: 'cancelled' }),
+      ...(execution.broker_order_id && { broker_status: result.state ?? 'cancelled' }),
+      ...(filled > 0 && { error_message: `Remaining ${execution.quantity - filled} cancelled at ${target.adapter.name}` })
+    }
+  });
+  console.log(`🛑 Broker ${target.adapter.name} acknowledged cancel of ${execution.ticker} ${target.orderRef}`);
+  await unwindEntryPosition(execution, `cancelled at ${target.adapter.name}${requestedBy ? ` by ${requestedBy}` : ''}`);
+  return { ok: true, execution: updated, where, acknowledgment: result };
+}
+
+/** Fields of an edit the broker has to hear about, or an explanation of why it can't */
+function brokerChangesFor(before: OrderSpec, after: OrderSpec, quantityBefore: number, quantityAfter: number):
+  { changes: BrokerOrderChanges | null; error?: string } {
+  if (after.order_type !== before.order_type || after.time_in_force !== before.time_in_force) {
+    return { changes: null, error: 'Order type and time-in-force cannot change once the order is at the broker — cancel it and send a new order' };
+  }
+  if (after.take_profit_price !== before.take_profit_price || after.stop_loss_price !== before.stop_loss_price) {
+    return { changes: null, error: 'Take-profit / stop-loss legs cannot change once the order is at the broker — cancel it and send a new order' };
+  }
+
+  const changes: BrokerOrderChanges = { order_type: after.order_type };
+  if (quantityAfter !== quantityBefore) changes.quantity = quantityAfter;
+  const limitAfter = brokerLimitPrice(after);
+  if (limitAfter !== null && limitAfter !== brokerLimitPrice(before)) changes.limit_price = limitAfter;
+  if (after.stop_price !== null && after.stop_price !== before.stop_price) changes.stop_price = after.stop_price;
+  if (after.trail_amount !== null && after.trail_amount !== before.trail_amount) changes.trail_amount = after.trail_amount;
+  if (after.trail_percent !== null && after.trail_percent !== before.trail_percent) changes.trail_percent = after.trail_percent;
+
+  return { changes: Object.keys(changes).length > 1 ? changes : null };
+}
+
+/**
+ * Apply a validated edit (execution columns, as PUT /:id builds them). An
+ * order at the broker is replaced there first; only the acknowledged edit is
+ * written back.
+ */
+/**
+ * Risk limits and, for a new limit price, the price guard, run on the order
+ * an edit would make. Read-only — the webhook dry run checks a MODIFY with it.
+ */
+export async function checkOrderEdit(execution: any, updateData: any): Promise<
+  { error: string; risk?: RiskViolation; price_guard?: PriceGuardViolation } | null
+> {
+  // Shares the open position already counts for this order — not new exposure
+  const bookedShares = await isFillAccounting()
+    ? filledQuantity(execution)
+    : execution.position_id && execution.status !== 'pending' ? execution.quantity : 0;
+  const edited = { ...execution, ...updateData };
+  const risk = await checkPreTradeRisk(edited, undefined, { bookedShares });
+  if (risk) return { error: risk.reason, risk };
+
+  const before = orderSpecOf(execution);
+  const after = orderSpecOf(edited);
+  if (updateData.limit_price !== undefined && brokerLimitPrice(after) !== brokerLimitPrice(before)) {
+    const priceGuard = await checkPriceGuard(edited);
+    if (priceGuard) return { error: priceGuard.reason, price_guard: priceGuard };
+  }
+  return null;
+}
+
+export async function replaceExecutionOrder(execution: any, updateData: any, requestedBy: string | null): Promise<OrderControlResult> {
+  const { where, delivery, reason } = await locateOrder(execution);
+  if (reason) return refuse(where, `${reason} — it can no longer be edited`);
+
+  const quantity = updateData.quantity ?? execution.quantity;
+  const filled = filledQuantity(execution);
+  if (quantity < filled) {
+    return refuse(where, `Quantity ${quantity} is below the ${filled} share(s) already filled`);
+  }
+
+  const before = orderSpecOf(execution);
+  const after = orderSpecOf({ ...execution, ...updateData });
+
+  const violation = await checkOrderEdit(execution, updateData);
+  if (violation) {
+    return { ok: false, http_status: 422, where, ...violation };
+  }
+
+  if (where === 'queued') {
+    // The queued order goes out as edited — same idempotency key, nothing sent yet
+    const order = JSON.parse(delivery.payload);
+    const rewritten = await prisma.brokerDelivery.updateMany({
+      where: { id: delivery.id, status: { in: ['pending', 'dead'] } },
+      data: {
+        payload: JSON.stringify({
+          ...order,
+          quantity,
+          order_type: after.order_type,
+          limit_price: brokerLimitPrice(after),
+          stop_price: after.stop_price,
+          trail_amount: after.trail_amount,
+          trail_percent: after.trail_percent,
+          time_in_force: after.time_in_force,
+          take_profit_price: after.take_profit_price,
+          stop_loss_price: after.stop_loss_price
+        })
+      }
+    });
+    if (rewritten.count === 0) {
+      return refuse('in_flight', 'Order is being sent to the broker right now — try again in a moment');
+    }
+  }
+
+  let acknowledgment: BrokerResult | null = null;
+  const brokerData: any = {};
+
+  if (where === 'broker') {
+    const { changes, error } = brokerChangesFor(before, after, execution.quantity, quantity);
+    if (error) return refuse(where, error);
+
+    if (changes) {
+      // Intent accounting booked the position at the original size when the order went out
+      if (changes.quantity !== undefined && !(await isFillAccounting())) {
+        return refuse(where, 'The position was already booked at the original quantity — cancel the order and send a new one');
+      }
+
+      const target = await brokerFor(execution);
+      if ('error' in target) return refuse(where, target.error);
+
+      let result: BrokerResult;
+      try {
+        result = await target.adapter.replaceOrder(target.orderRef, changes, submittedOrder(delivery));
+      } catch (err: any) {
+        result = { success: false, error: err.message };
+      }
+      await auditBrokerRequest('broker_replace_sent', execution, target.adapter.name, target.orderRef, result, requestedBy);
+
+      if (!result.success) {
+        console.error(`❌ Broker ${target.adapter.name} refused edit of ${execution.ticker} ${target.orderRef}: ${result.error}`);
+        return { ok: false, http_status: 502, error: result.error ?? 'Broker refused the edit', where, acknowledgment: result };
+      }
+
+      acknowledgment = result;
+      // Brokers that replace by issuing a new order (Alpaca) hand back its id
+      if (execution.broker_order_id) {
+        brokerData.broker_order_id = result.broker_order_id ?? execution.broker_order_id;
+        brokerData.broker_status = result.state ?? 'accepted';
+      }
+      console.log(`🔁 Broker ${target.adapter.name} acknowledged edit of ${execution.ticker} ${target.orderRef}`);
+    }
+  }
+
+  const updated = await prisma.execution.update({
+    where: { id: execution.id },
+    data: { ...updateData, ...brokerData }
+  });
+  return { ok: true, execution: updated, where, acknowledgment };
+}
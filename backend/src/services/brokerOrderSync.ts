@@ -0,0 +1,195 @@
+import { prisma } from '../index';
+import { getBrokerAdapter, BrokerAdapter, BrokerOrderStatus } from './brokerAdapter';
+import { isTradingWindowET } from './executionScheduler';
+import { recordProtectiveLegs, syncProtectiveOrders } from './protectiveOrderService';
+
+/**
+ * Broker order status sync.
+ *
+ * For adapters that report order status (Alpaca, Tradier) the broker, not a
+ * TradingView CONFIRMED alert, tells us what filled. Every SYNC_INTERVAL_MS
+ * inside the trading window each working execution with a broker_order_id is
+ * polled:
+ *   - new filled quantity  → fed through handleConfirmedSignal (source 'broker')
+ *     as the fill delta, priced from the change in the broker's average price,
+ *     so partial fills, fill accounting and exit repricing behave exactly as
+ *     for CONFIRMED
+ *   - cancelled / rejected / expired with nothing filled → execution cancelled / rejected
+ *   - replaced            → follow the replacement order id
+ *   - take-profit / stop-loss legs the broker reports are recorded on the
+ *     position's ProtectiveOrders, which are then polled too (see
+ *     protectiveOrderService)
+ *
+ * Only one sync runs at a time.
+ */
+
+const SYNC_INTERVAL_MS = 10000;
+const WORKING_STATUSES = ['executing', 'executed', 'partially_filled'];
+
+let syncInterval: NodeJS.Timeout | null = null;
+let syncing = false;
+
+const toNumber = (value: any): number | null => {
+  if (value === null || value === undefined) return null;
+  const n = parseFloat(value.toString());
+  return Number.isFinite(n) ? n : null;
+};
+
+/** Price of the newly filled shares, from the broker's cumulative average */
+export function deltaFillPrice(
+  previousQty: number,
+  previousAvg: number | null,
+  status: BrokerOrderStatus
+): number | null {
+  const avg = status.avg_fill_price;
+  if (avg === null) return null;
+  const delta = status.filled_quantity - previousQty;
+  if (previousQty <= 0 || previousAvg === null) return avg;
+  const price = (avg * status.filled_quantity - previousAvg * previousQty) / delta;
+  return price > 0 ? price : avg;
+}
+
+async function syncExecution(adapter: BrokerAdapter, execution: any): Promise<void> {
+  const status = await adapter.getOrder(execution.broker_order_id);
+  if (!status) return;
+
+  await applyOrderStatus(adapter, execution, status);
+  // After the fill — the position's protective orders exist once the entry is linked
+  if (status.legs?.length) {
+    await recordProtectiveLegs(execution.id, adapter.name, status);
+  }
+}
+
+async function applyOrderStatus(adapter: BrokerAdapter, execution: any, status: BrokerOrderStatus): Promise<void> {
+  if (status.state === 'replaced' && status.raw?.replaced_by) {
+    await prisma.execution.update({
+      where: { id: execution.id },
+      data: { broker_order_id: String(status.raw.replaced_by), broker_status: 'accepted' }
+    });
+    console.log(`🔁 Broker order ${execution.broker_order_id} replaced by ${status.raw.replaced_by} (${execution.ticker})`);
+    return;
+  }
+
+  const previousQty = execution.broker_filled_quantity ?? 0;
+  const newQty = Math.min(status.filled_quantity, execution.quantity);
+
+  if (newQty > previousQty) {
+    const price = deltaFillPrice(previousQty, toNumber(execution.broker_avg_fill_price), status);
+    if (price !== null) {
+      // Record progress first so an overlapping CONFIRMED for the same order can't count it twice
+      await prisma.execution.update({
+        where: { id: execution.id },
+        data: {
+          broker_status: status.state,
+          broker_filled_quantity: newQty,
+          broker_avg_fill_price: status.avg_fill_price?.toString() ?? null
+        }
+      });
+
+      const { handleConfirmedSignal } = await import('../controllers/webhookController');
+      try {
+        await handleConfirmedSignal({
+          ticker: execution.ticker,
+          dir: execution.dir ?? undefined,
+          quantity: newQty - previousQty,
+          fill_price: price,
+          fill_id: `${status.broker_order_id}:${newQty}`,
+          execution_id: execution.id,
+          source: 'broker'
+        });
+      } catch (error) {
+        // Roll back so the next sync picks the fill up again
+        await prisma.execution.update({
+          where: { id: execution.id },
+          data: {
+            broker_status: execution.broker_status,
+            broker_filled_quantity: execution.broker_filled_quantity,
+            broker_avg_fill_price: execution.broker_avg_fill_price
+          }
+        });
+        throw error;
+      }
+      return;
+    }
+  }
+
+  if (status.state === execution.broker_status) return;
+
+  const update: any = { broker_status: status.state };
+  if ((status.state === 'cancelled' || status.state === 'rejected' || status.state === 'expired') && previousQty === 0) {
+    update.status = status.state === 'rejected' ? 'rejected' : 'cancelled';
+    update.error_message = `Broker ${adapter.name} order ${status.state}${status.raw?.reason_description ? `: ${status.raw.reason_description}` : ''}`;
+  }
+
+  await prisma.execution.update({ where: { id: execution.id }, data: update });
+
+  if (update.status) {
+    await prisma.auditLog.create({
+      data: {
+        event_type: 'broker_order_closed',
+        ticker: execution.ticker,
+        details: JSON.stringify({
+          execution_id: execution.id,
+          broker: adapter.name,
+          broker_order_id: status.broker_order_id,
+          broker_status: status.state,
+          filled_quantity: previousQty
+        })
+      }
+    });
+    console.warn(`⚠️ Broker order ${status.broker_order_id} ${status.state} — ${execution.ticker} execution ${update.status}`);
+  }
+}
+
+/** Poll every working broker order once */
+export async function syncBrokerOrders(): Promise<number> {
+  if (syncing) return 0;
+  syncing = true;
+  try {
+    const settings: any = await prisma.executionSettings.findFirst();
+    const adapter = getBrokerAdapter(settings);
+    if (!adapter.tracksOrders || adapter.configurationError()) return 0;
+
+    const executions = await prisma.execution.findMany({
+      where: {
+        broker: adapter.name,
+        broker_order_id: { not: null },
+        // Confirmed / cancelled executions drop out — nothing left to sync
+        status: { in: WORKING_STATUSES },
+        created_at: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) }
+      },
+      orderBy: { created_at: 'asc' }
+    });
+
+    for (const execution of executions) {
+      try {
+        await syncExecution(adapter, execution);
+      } catch (error: any) {
+        console.error(`❌ Broker order sync error (${execution.ticker} ${execution.broker_order_id}):`, error.message);
+      }
+    }
+    await syncProtectiveOrders(adapter);
+    return executions.length;
+  } catch (error: any) {
+    console.error('❌ Broker order sync error:', error.message);
+    return 0;
+  } finally {
+    syncing = false;
+  }
+}
+
+export function startBrokerOrderSync(): void {
+  if (syncInterval) return;
+  syncInterval = setInterval(() => {
+    if (!isTradingWindowET()) return;
+    syncBrokerOrders().catch(err => console.error('❌ Broker order sync error:', err.message));
+  }, SYNC_INTERVAL_MS);
+  console.log(`🔄 Broker order sync started (every ${SYNC_INTERVAL_MS / 1000}s in the trading window)`);
+}
+
+export function stopBrokerOrderSync(): void {
+  if (syncInterval) {
+    clearInterval(syncInterval);
+    syncInterval = null;
+  }
+}
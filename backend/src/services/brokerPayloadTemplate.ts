@@ -0,0 +1,272 @@
+import { BrokerOrderRequest } from './brokerAdapter';
+
+/**
+ * User-defined broker payload templates.
+ *
+ * Third-party execution bridges (TradersPost, PickMyTrade, custom IBKR relays)
+ * each expect their own JSON. ExecutionSettings.broker_payload_templates holds
+ * one JSON template per event — entry, exit, cancel, replace — and the generic
+ * webhook adapter renders the matching one instead of its built-in body
+ * (exit falls back to the entry template).
+ *
+ * Templates are plain JSON. Placeholders live in string values only, so a
+ * template can never change the shape of the body:
+ *   "{{qty}}"                     whole-string placeholder keeps the value's type (10, not "10")
+ *   "Bought {{ticker}} @ {{limit}}" mixed text interpolates as a string
+ *   "{{limit | default:0}}"       filters: upper, lower, round[:n], abs, number,
+ *   "{{action | map:buy=bullish,sell=bearish}}"  string, default:x, map:a=b,…
+ *
+ * Only the fields in PAYLOAD_FIELDS and the filters below exist — nothing is
+ * evaluated, so a template can't reach anything else.
+ */
+
+export const PAYLOAD_TEMPLATE_EVENTS = ['entry', 'exit', 'cancel', 'replace'] as const;
+export type PayloadTemplateEvent = typeof PAYLOAD_TEMPLATE_EVENTS[number];
+
+export type PayloadTemplates = Partial<Record<PayloadTemplateEvent, any>>;
+
+/** Placeholder names, with what they hold */
+export const PAYLOAD_FIELDS = {
+  event: 'entry, exit, cancel or replace',
+  ticker: 'Symbol, upper case',
+  action: 'buy or sell',
+  qty: 'Shares',
+  limit: 'Limit price sent to the broker (limit / stop_limit only)',
+  reference_price: "The signal's price, for every order type",
+  order_type: 'market, limit, stop, stop_limit or trailing_stop',
+  time_in_force: 'day, gtc, ioc or fok',
+  stop: 'Stop trigger price',
+  trail_amount: 'Trailing stop distance in dollars',
+  trail_percent: 'Trailing stop distance in percent',
+  take_profit: 'Attached take-profit price',
+  stop_loss: 'Attached stop-loss price',
+  dir: 'Long or Short',
+  position_effect: 'open or close',
+  position_id: 'Open position the order trades against',
+  strategy: 'strategy_id from the ORDER alert',
+  grade: "Source intent's quality tier",
+  score: "Source intent's quality score",
+  intent_id: 'Source trade intent id',
+  execution_id: 'Execution id',
+  client_order_id: 'Idempotency key sent on every attempt',
+  timestamp: 'Send time, ISO 8601'
+} as const;
+
+export type PayloadFieldName = keyof typeof PAYLOAD_FIELDS;
+export type PayloadFields = Record<PayloadFieldName, string | number | null>;
+
+export const PAYLOAD_FILTERS = ['upper', 'lower', 'round', 'abs', 'number', 'string', 'default', 'map'] as const;
+
+/** Stand-in order for validation and the settings test send — never a real symbol */
+export const SAMPLE_FIELDS: PayloadFields = {
+  event: 'entry',
+  ticker: 'TEST',
+  action: 'buy',
+  qty: 1,
+  limit: 100,
+  reference_price: 100,
+  order_type: 'limit',
+  time_in_force: 'day',
+  stop: null,
+  trail_amount: null,
+  trail_percent: null,
+  take_profit: null,
+  stop_loss: null,
+  dir: 'Long',
+  position_effect: 'open',
+  position_id: null,
+  strategy: null,
+  grade: 'A',
+  score: 85,
+  intent_id: null,
+  execution_id: 'test',
+  client_order_id: 'ew-test',
+  timestamp: new Date(0).toISOString()
+};
+
+const PLACEHOLDER_RE = /\{\{([^{}]*)\}\}/g;
+const WHOLE_PLACEHOLDER_RE = /^\{\{([^{}]*)\}\}$/;
+
+const isField = (name: string): name is PayloadFieldName => Object.prototype.hasOwnProperty.call(PAYLOAD_FIELDS, name);
+
+/** A filter argument: numbers stay numbers, quotes are optional around text */
+function literal(raw: string): string | number {
+  const text = raw.trim().replace(/^(['"])(.*)\1$/, '$2');
+  return text !== '' && Number.isFinite(Number(text)) && /^-?[\d.]+$/.test(text) ? Number(text) : text;
+}
+
+function applyFilter(value: any, name: string, arg: string | undefined): any {
+  switch (name) {
+    case 'upper':
+      return value === null ? null : String(value).toUpperCase();
+    case 'lower':
+      return value === null ? null : String(value).toLowerCase();
+    case 'round': {
+      if (value === null) return null;
+      const digits = arg !== undefined ? Number(arg) : 2;
+      if (!Number.isInteger(digits) || digits < 0 || digits > 8) throw new Error(`round needs 0–8 decimal places, got "${arg}"`);
+      return Number(Number(value).toFixed(digits));
+    }
+    case 'abs':
+      return value === null ? null : Math.abs(Number(value));
+    case 'number': {
+      if (value === null) return null;
+      const n = Number(value);
+      return Number.isFinite(n) ? n : null;
+    }
+    case 'string':
+      return value === null ? '' : String(value);
+    case 'default':
+      if (arg === undefined) throw new Error('default needs a value, e.g. default:0');
+      return value === null || value === '' ? literal(arg) : value;
+    case 'map': {
+      if (!arg) throw new Error('map needs pairs, e.g. map:buy=long,sell=short');
+      for (const pair of arg.split(',')) {
+        const [from, to] = pair.split('=');
+        if (to === undefined) throw new Error(`map pair "${pair.trim()}" needs from=to`);
+        if (String(value) === from.trim()) return literal(to);
+      }
+      return value;
+    }
+    default:
+      throw new Error(`Unknown filter "${name}" — expected one of ${PAYLOAD_FILTERS.join(', ')}`);
+  }
+}
+
+/** "field | filter:arg | filter" */
+function evaluate(expression: string, fields: PayloadFields): any {
+  const [head, ...filters] = expression.split('|');
+  const name = head.trim();
+  if (!isField(name)) throw new Error(`Unknown field "${name}"`);
+
+  let value: any = fields[name] ?? null;
+  for (const filter of filters) {
+    const colon = filter.indexOf(':');
+    const filterName = (colon === -1 ? filter : filter.slice(0, colon)).trim();
+    value = applyFilter(value, filterName, colon === -1 ? undefined : filter.slice(colon + 1));
+  }
+  return value;
+}
+
+function renderNode(node: any, fields: PayloadFields): any {
+  if (typeof node === 'string') {
+    const whole = node.trim().match(WHOLE_PLACEHOLDER_RE);
+    if (whole) return evaluate(whole[1], fields);
+    return node.replace(PLACEHOLDER_RE, (_, expression: string) => {
+      const value = evaluate(expression, fields);
+      return value === null ? '' : String(value);
+    });
+  }
+  if (Array.isArray(node)) return node.map(item => renderNode(item, fields));
+  if (node && typeof node === 'object') {
+    return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, renderNode(value, fields)]));
+  }
+  return node;
+}
+
+/** Render one template against an order's fields */
+export function renderPayloadTemplate(template: any, fields: PayloadFields): { payload: any; error: string | null } {
+  try {
+    return { payload: renderNode(template, fields), error: null };
+  } catch (error: any) {
+    return { payload: null, error: error.message };
+  }
+}
+
+/** Placeholder values for an order (after the edit, for a replace) */
+export function orderPayloadFields(event: PayloadTemplateEvent, order: BrokerOrderRequest): PayloadFields {
+  const context = order.context;
+  return {
+    event,
+    ticker: order.symbol,
+    action: order.side,
+    qty: order.quantity,
+    limit: order.limit_price,
+    reference_price: context?.reference_price ?? order.limit_price,
+    order_type: order.order_type,
+    time_in_force: order.time_in_force,
+    stop: order.stop_price,
+    trail_amount: order.trail_amount,
+    trail_percent: order.trail_percent,
+    take_profit: order.take_profit_price,
+    stop_loss: order.stop_loss_price,
+    // Queued before templates existed — the side is all there is to go on
+    dir: context?.dir ?? (order.side === 'buy' ? 'Long' : 'Short'),
+    position_effect: order.position_effect,
+    position_id: context?.position_id ?? null,
+    strategy: context?.strategy ?? null,
+    grade: context?.grade ?? null,
+    score: context?.score ?? null,
+    intent_id: context?.intent_id ?? null,
+    execution_id: order.execution_id,
+    client_order_id: order.client_order_id,
+    timestamp: new Date().toISOString()
+  };
+}
+
+/** Template for an event — exits use the entry template unless they have their own */
+export function templateFor(templates: PayloadTemplates, event: PayloadTemplateEvent): any | null {
+  return templates[event] ?? (event === 'exit' ? templates.entry ?? null : null);
+}
+
+/** Stored templates, dropping anything malformed */
+export function parsePayloadTemplates(raw: string | null | undefined): PayloadTemplates {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    const templates: PayloadTemplates = {};
+    for (const event of PAYLOAD_TEMPLATE_EVENTS) {
+      if (parsed[event] && typeof parsed[event] === 'object') templates[event] = parsed[event];
+    }
+    return templates;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Check templates from the Settings form. Each event may be a JSON object or
+ * its JSON text; blank removes it. Every placeholder is evaluated against
+ * sample fields, so a typo is caught on save rather than at order time.
+ */
+export function validatePayloadTemplates(input: any): { templates: PayloadTemplates | null; error: string | null } {
+  const fail = (error: string) => ({ templates: null, error });
+
+  let source = input;
+  if (typeof source === 'string') {
+    try {
+      source = JSON.parse(source);
+    } catch {
+      return fail('broker_payload_templates must be a JSON object keyed by event');
+    }
+  }
+  if (!source || typeof source !== 'object' || Array.isArray(source)) {
+    return fail('broker_payload_templates must be a JSON object keyed by event');
+  }
+
+  const templates: PayloadTemplates = {};
+  for (const [event, value] of Object.entries(source)) {
+    if (!(PAYLOAD_TEMPLATE_EVENTS as readonly string[]).includes(event)) {
+      return fail(`Unknown template event "${event}" — expected one of ${PAYLOAD_TEMPLATE_EVENTS.join(', ')}`);
+    }
+    if (value === null || value === undefined || (typeof value === 'string' && value.trim() === '')) continue;
+
+    let template: any = value;
+    if (typeof template === 'string') {
+      try {
+        template = JSON.parse(template);
+      } catch (error: any) {
+        return fail(`${event} template is not valid JSON: ${error.message}`);
+      }
+    }
+    if (!template || typeof template !== 'object') {
+      return fail(`${event} template must be a JSON object or array`);
+    }
+
+    const { error } = renderPayloadTemplate(template, SAMPLE_FIELDS);
+    if (error) return fail(`${event} template: ${error}`);
+    templates[event as PayloadTemplateEvent] = template;
+  }
+  return { templates, error: null };
+}
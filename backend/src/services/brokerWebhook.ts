@@ -1,23 +1,44 @@
 import { prisma } from '../index';
+import { entryHaltReason, recordBrokerFailure } from './killSwitchService';
+import { getBrokerAdapter, BrokerOrderContext, BrokerOrderRequest, BrokerResult, RequestSignature } from './brokerAdapter';
+import { isClosingOrder } from './tradeJournalService';
+import { PushoverNotifications } from './pushoverService';
+import { orderSpecOf, brokerLimitPrice, describeOrderSpec, OrderSpecInput, isExitPayload } from './orderSpec';
+import { unwindEntryPosition } from './positionExitService';
+import { buildWebhookPayload, loadClientCertificate, orderEvent, sendWebhookRequest } from './webhookBrokerAdapter';
+import {
+  PayloadTemplateEvent,
+  PayloadTemplates,
+  SAMPLE_FIELDS,
+  parsePayloadTemplates
+} from './brokerPayloadTemplate';
 
-/**
- * Broker order payload format
- * Simple format for broker execution
- */
-interface BrokerOrderPayload {
-  symbol: string;
-  action: 'buy' | 'sell';
-  quantity: number;
-  limit_price: number;
-}
-
-interface BrokerWebhookResult {
+export interface BrokerWebhookResult {
   success: boolean;
   response?: any;
   error?: string;
   statusCode?: number;
+  broker?: string;
+  broker_order_id?: string | null;
+  queued?: boolean;         // failed but a retry is scheduled — the order may still go out
+  dead_lettered?: boolean;  // gave up — waiting in the dead-letter queue for a human
+  halted?: boolean;         // an entry the kill switch stopped — cancelled, nothing sent
+  attempts?: number;
 }
 
+type ForwardableExecution = OrderSpecInput & {
+  id: string;
+  intent_id?: string | null;
+  ticker: string;
+  dir?: string | null;
+  order_action: string;
+  quantity: number;
+  limit_price: any;
+  strategy_id?: string | null;
+  position_id?: string | null;
+  raw_payload?: string | null;
+};
+
 /**
  * Helper to safely get settings without failing on missing columns
  */
@@ -41,97 +62,219 @@ async function getSettingsSafe() {
   }
 }
 
+/** Client order id sent with every submission of an execution */
+export function clientOrderIdFor(executionId: string): string {
+  return `ew-${executionId}`;
+}
+
 /**
- * Forward an approved order to the broker webhook
- * Uses TradingView-compatible ORDER format
+ * Orders are forwarded before the ORDER/EXIT handlers touch the position, so
+ * an order that trades against the open position closes it; anything else opens.
  */
-export async function forwardToBroker(
-  execution: {
-    id: string;
-    intent_id?: string | null;
-    ticker: string;
-    dir?: string | null;
-    order_action: string;
-    quantity: number;
-    limit_price: any;
-    raw_payload?: string | null;
+async function positionEffectFor(ticker: string, orderAction: string): Promise<'open' | 'close'> {
+  const position = await prisma.position.findFirst({
+    where: { ticker: ticker.toUpperCase(), closed_at: null }
+  });
+  return position && isClosingOrder(position.side, orderAction) ? 'close' : 'open';
+}
+
+/** Execution details a payload template can use, frozen with the queued order */
+async function orderContextFor(execution: ForwardableExecution): Promise<BrokerOrderContext> {
+  const intent = execution.intent_id
+    ? await prisma.tradeIntent.findUnique({ where: { id: execution.intent_id } })
+    : null;
+  const position = execution.position_id
+    ? { id: execution.position_id }
+    : await prisma.position.findFirst({ where: { ticker: execution.ticker.toUpperCase(), closed_at: null } });
+  const referencePrice = execution.limit_price !== null && execution.limit_price !== undefined
+    ? parseFloat(execution.limit_price.toString())
+    : NaN;
+
+  return {
+    dir: execution.dir ?? null,
+    position_id: position?.id ?? null,
+    strategy: execution.strategy_id ?? null,
+    grade: intent?.quality_tier ?? null,
+    score: intent?.quality_score ?? null,
+    intent_id: execution.intent_id ?? null,
+    reference_price: Number.isFinite(referencePrice) ? referencePrice : null
+  };
+}
+
+/** The order the broker is sent for an execution */
+async function orderRequestFor(execution: ForwardableExecution): Promise<BrokerOrderRequest> {
+  const spec = orderSpecOf(execution);
+  return {
+    execution_id: execution.id,
+    client_order_id: clientOrderIdFor(execution.id),
+    symbol: execution.ticker.toUpperCase(),
+    side: execution.order_action as 'buy' | 'sell',
+    quantity: execution.quantity,
+    order_type: spec.order_type,
+    limit_price: brokerLimitPrice(spec),
+    stop_price: spec.stop_price,
+    trail_amount: spec.trail_amount,
+    trail_percent: spec.trail_percent,
+    time_in_force: spec.time_in_force,
+    take_profit_price: spec.take_profit_price,
+    stop_loss_price: spec.stop_loss_price,
+    position_effect: await positionEffectFor(execution.ticker, execution.order_action),
+    context: await orderContextFor(execution)
+  };
+}
+
+/** Exits, and orders that trade against the open position, close risk — anything else is an entry */
+function isEntryOrder(execution: { raw_payload?: string | null } | null, order: BrokerOrderRequest): boolean {
+  return order.position_effect !== 'close' && !isExitPayload(execution?.raw_payload);
+}
+
+/**
+ * Stop an entry before it reaches the broker: the execution is cancelled,
+ * its queued delivery (if any) abandoned, and a position already booked for
+ * it unwound.
+ */
+async function haltEntry(executionId: string, ticker: string, reason: string, deliveryId: string | null): Promise<BrokerWebhookResult> {
+  if (deliveryId) {
+    await prisma.brokerDelivery.update({ where: { id: deliveryId }, data: { status: 'abandoned', last_error: reason } });
   }
-): Promise<BrokerWebhookResult> {
+  const execution = await prisma.execution.findUnique({ where: { id: executionId } });
+  await prisma.execution.update({
+    where: { id: executionId },
+    data: { status: 'cancelled', error_message: `Not sent to the broker: ${reason}` }
+  });
+  await unwindEntryPosition(execution, reason);
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'broker_order_halted',
+      ticker,
+      details: JSON.stringify({ execution_id: executionId, reason, queued_retry: !!deliveryId })
+    }
+  });
+  console.warn(`🛑 ${ticker} entry ${executionId} not sent to the broker: ${reason}`);
+  return { success: false, halted: true, error: `Not sent to the broker: ${reason}` };
+}
+
+/**
+ * Delivery retry policy. A timeout, network error, 408, 429 or 5xx is retried
+ * after BASE_BACKOFF_MS · 2^(attempt-1) (5s, 10s, 20s, 40s); any other
+ * rejection, or running out of attempts, dead-letters the order for a human
+ * (Execution Queue → retry now / abandon).
+ */
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+export function isRetryable(statusCode: number | undefined): boolean {
+  return statusCode === undefined || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+export function backoffMs(attempt: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempt - 1, 0), MAX_BACKOFF_MS);
+}
+
+/**
+ * Give every enabled BrokerAccount its share of the order (see
+ * accountOrderService). Allocation happens now, while the primary position is
+ * as the order found it; delivery runs in the background so the primary
+ * order never waits on — or fails with — another account.
+ */
+async function mirrorToAccounts(order: BrokerOrderRequest): Promise<void> {
+  try {
+    const { allocateAccountOrders, deliverAccountOrders } = await import('./accountOrderService');
+    const orderIds = await allocateAccountOrders(order);
+    if (orderIds.length > 0) {
+      deliverAccountOrders(orderIds).catch(err => console.error('❌ Account order delivery error:', err.message));
+    }
+  } catch (error: any) {
+    console.error(`❌ Account order allocation error (${order.symbol}):`, error.message);
+  }
+}
+
+/**
+ * Forward an approved order to the broker selected in settings
+ * (generic webhook, Alpaca, Tradier or paper — see brokerAdapter).
+ *
+ * The order is written to the BrokerDelivery queue and the first attempt is
+ * made inline. A retryable failure comes back with `queued` set — leave the
+ * execution 'executing' and brokerDeliveryQueue finishes the job. An
+ * execution that was already delivered is never sent again. Additional broker
+ * accounts get their own orders alongside (mirrorToAccounts).
+ *
+ * While the kill switch is tripped an entry is cancelled instead (`halted`);
+ * exits still go out.
+ */
+export async function forwardToBroker(execution: ForwardableExecution): Promise<BrokerWebhookResult> {
   try {
     // Get settings safely
-    const settings = await getSettingsSafe();
+    const settings: any = await getSettingsSafe();
 
-    if (!settings?.broker_webhook_enabled || !settings?.broker_webhook_url) {
-      console.log('📭 Broker webhook not configured or disabled');
+    if (!settings?.broker_webhook_enabled) {
+      console.log('📭 Broker forwarding disabled');
       return {
         success: false,
         error: 'Broker webhook not configured or disabled'
       };
     }
 
-    const webhookUrl = settings.broker_webhook_url;
-
-    // Build broker order payload
-    const payload: BrokerOrderPayload = {
-      symbol: execution.ticker,
-      action: execution.order_action as 'buy' | 'sell',
-      quantity: execution.quantity,
-      limit_price: execution.limit_price ? parseFloat(execution.limit_price.toString()) : 0
-    };
-
-    console.log(`📤 Forwarding order to broker: ${webhookUrl}`);
-    console.log(`   Payload: ${JSON.stringify(payload)}`);
-
-    // Forward to broker webhook
-    const response = await fetch(webhookUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-    });
-
-    const responseText = await response.text();
-    let responseData: any;
-
-    try {
-      responseData = JSON.parse(responseText);
-    } catch {
-      responseData = responseText;
+    const order = await orderRequestFor(execution);
+    if (isEntryOrder(execution, order)) {
+      const halted = await entryHaltReason();
+      if (halted) return haltEntry(execution.id, execution.ticker, halted, null);
     }
+    await mirrorToAccounts(order);
 
-    // Log the webhook call
-    await prisma.auditLog.create({
-      data: {
-        event_type: 'broker_webhook_sent',
-        ticker: execution.ticker,
-        details: JSON.stringify({
-          execution_id: execution.id,
-          webhook_url: webhookUrl,
-          payload,
-          response_status: response.status,
-          response_data: responseData,
-          success: response.ok
-        })
-      }
-    });
-
-    if (!response.ok) {
-      console.error(`❌ Broker webhook failed: ${response.status} ${responseText}`);
+    const adapter = getBrokerAdapter(settings);
+    const configError = adapter.configurationError();
+    if (configError) {
+      console.log(`📭 Broker ${adapter.name} not configured: ${configError}`);
       return {
         success: false,
-        error: `Broker responded with ${response.status}: ${responseText}`,
-        statusCode: response.status,
-        response: responseData
+        error: adapter.name === 'webhook' ? 'Broker webhook not configured or disabled' : configError,
+        broker: adapter.name
       };
     }
 
-    console.log(`✅ Broker webhook success: ${response.status}`);
-    return {
-      success: true,
-      statusCode: response.status,
-      response: responseData
+    const existing = await prisma.brokerDelivery.findUnique({ where: { execution_id: execution.id } });
+    if (existing?.status === 'delivered') {
+      console.log(`♻️ Execution ${execution.id} already delivered to the broker — not sending again`);
+      const delivered = await prisma.execution.findUnique({ where: { id: execution.id } });
+      return {
+        success: true,
+        broker: delivered?.broker ?? adapter.name,
+        broker_order_id: delivered?.broker_order_id ?? null,
+        attempts: existing.attempts
+      };
+    }
+    if (existing?.status === 'delivering') {
+      return { success: false, queued: true, error: 'Broker delivery already in progress', broker: adapter.name, attempts: existing.attempts };
+    }
+
+    const idempotencyKey = order.client_order_id;
+
+    // A queued, dead or abandoned delivery restarts with the order as it is now
+    const queued = {
+      ticker: execution.ticker,
+      idempotency_key: idempotencyKey,
+      payload: JSON.stringify(order),
+      status: 'pending',
+      attempts: 0,
+      max_attempts: MAX_ATTEMPTS,
+      next_attempt_at: new Date(),
+      last_error: null,
+      last_status_code: null,
+      dead_at: null
     };
+    const delivery = await prisma.brokerDelivery.upsert({
+      where: { execution_id: execution.id },
+      update: queued,
+      create: { execution_id: execution.id, ...queued }
+    });
+    await prisma.execution.update({
+      where: { id: execution.id },
+      data: { idempotency_key: idempotencyKey }
+    });
+
+    return await attemptDelivery(delivery.id);
 
   } catch (error: any) {
     console.error('❌ Broker webhook error:', error.message);
@@ -148,6 +291,8 @@ export async function forwardToBroker(
       }
     }).catch(err => console.error('Failed to log broker webhook error:', err));
 
+    await recordBrokerFailure(execution.ticker, execution.id, error.message);
+
     return {
       success: false,
       error: error.message
@@ -156,47 +301,313 @@ export async function forwardToBroker(
 }
 
 /**
- * Test the broker webhook connection
+ * Make one delivery attempt for a queued order. Claims the row first, so the
+ * inline attempt and the queue worker can never send the same order at once;
+ * a delivery that isn't pending just reports where it stands. An entry is
+ * halted instead of sent while the kill switch is tripped (or, on a retry,
+ * while execution is off).
  */
-export async function testBrokerWebhook(webhookUrl: string): Promise<BrokerWebhookResult> {
-  try {
-    const testPayload: BrokerOrderPayload = {
-      symbol: 'TEST',
-      action: 'buy',
-      quantity: 1,
-      limit_price: 100.00
-    };
+export async function attemptDelivery(deliveryId: string): Promise<BrokerWebhookResult> {
+  const claimed = await prisma.brokerDelivery.updateMany({
+    where: { id: deliveryId, status: 'pending' },
+    data: { status: 'delivering', attempts: { increment: 1 } }
+  });
+  const delivery = await prisma.brokerDelivery.findUnique({ where: { id: deliveryId } });
+  if (!delivery) return { success: false, error: 'Broker delivery not found' };
+  if (claimed.count === 0) {
+    return { success: delivery.status === 'delivered', queued: delivery.status === 'delivering', attempts: delivery.attempts };
+  }
 
-    console.log(`🧪 Testing broker webhook: ${webhookUrl}`);
+  const order: BrokerOrderRequest = JSON.parse(delivery.payload);
+  if (!order.order_type) {
+    // Queued before order types existed — it only carries a limit price
+    Object.assign(order, orderSpecOf({ limit_price: order.limit_price }));
+  }
+  // An entry waiting on a retry doesn't go out once the kill switch trips or execution is switched off
+  const execution = await prisma.execution.findUnique({ where: { id: delivery.execution_id } });
+  if (isEntryOrder(execution, order)) {
+    const halted = await entryHaltReason({ executionOff: delivery.attempts > 1 });
+    if (halted) return haltEntry(delivery.execution_id, delivery.ticker, halted, delivery.id);
+  }
 
-    const response = await fetch(webhookUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(testPayload),
-    });
+  const settings: any = await getSettingsSafe();
+  const adapter = getBrokerAdapter(settings);
 
-    const responseText = await response.text();
+  // The broker was switched off or lost its credentials while the order waited
+  const unavailable = !settings?.broker_webhook_enabled
+    ? 'Broker forwarding disabled'
+    : adapter.configurationError();
+  if (unavailable) {
+    return deadLetter(delivery, adapter.name, unavailable, undefined);
+  }
 
-    if (!response.ok) {
-      return {
-        success: false,
-        error: `Broker responded with ${response.status}: ${responseText}`,
-        statusCode: response.status
+  let result: BrokerResult;
+  try {
+    // A retry after a lost response may find the first attempt already at the broker
+    const previous = delivery.attempts > 1 && adapter.tracksOrders
+      ? await adapter.findOrder(delivery.idempotency_key)
+      : null;
+    if (previous) {
+      console.log(`♻️ Broker ${adapter.name} already has ${delivery.idempotency_key} (order ${previous.broker_order_id}) — not resubmitting`);
+      result = {
+        success: true,
+        broker_order_id: previous.broker_order_id,
+        state: previous.state,
+        request: { url: `${adapter.name}://orders?client_order_id=${delivery.idempotency_key}`, payload: null },
+        response: previous.raw ?? null,
+        statusCode: 200
       };
+    } else {
+      console.log(`📤 Forwarding order to broker (${adapter.name}, attempt ${delivery.attempts}/${delivery.max_attempts}): ${order.side} ${order.quantity} ${order.symbol} ${describeOrderSpec(orderSpecOf(order))}`);
+      result = await adapter.submitOrder(order);
+    }
+  } catch (error: any) {
+    result = { success: false, error: error.message };
+  }
+
+  // One audit entry per attempt
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'broker_webhook_sent',
+      ticker: delivery.ticker,
+      details: JSON.stringify({
+        execution_id: delivery.execution_id,
+        broker: adapter.name,
+        attempt: delivery.attempts,
+        max_attempts: delivery.max_attempts,
+        idempotency_key: delivery.idempotency_key,
+        webhook_url: result.request?.url,
+        payload: result.request?.payload,
+        signature: result.request?.signature ?? null,
+        response_status: result.statusCode,
+        response_data: result.response,
+        broker_order_id: result.broker_order_id ?? null,
+        success: result.success,
+        ...(result.error && { error: result.error })
+      })
     }
+  });
 
+  if (result.broker_order_id) {
+    await prisma.execution.update({
+      where: { id: delivery.execution_id },
+      data: {
+        broker: adapter.name,
+        broker_order_id: result.broker_order_id,
+        broker_status: result.state ?? 'accepted'
+      }
+    });
+  }
+
+  if (result.success) {
+    await prisma.brokerDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'delivered', delivered_at: new Date(), last_error: null, last_status_code: result.statusCode ?? null }
+    });
+    console.log(`✅ Broker ${adapter.name} accepted order${result.broker_order_id ? ` ${result.broker_order_id}` : ''}: ${result.statusCode}`);
     return {
       success: true,
-      statusCode: response.status,
-      response: responseText
+      statusCode: result.statusCode,
+      response: result.response,
+      broker: adapter.name,
+      broker_order_id: result.broker_order_id ?? null,
+      attempts: delivery.attempts
     };
+  }
+
+  console.error(`❌ Broker ${adapter.name} failed (attempt ${delivery.attempts}/${delivery.max_attempts}): ${result.error}`);
 
+  if (!isRetryable(result.statusCode) || delivery.attempts >= delivery.max_attempts) {
+    return deadLetter(delivery, adapter.name, result.error ?? 'unknown', result);
+  }
+
+  const nextAttemptAt = new Date(Date.now() + backoffMs(delivery.attempts));
+  await prisma.brokerDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: 'pending',
+      next_attempt_at: nextAttemptAt,
+      last_error: result.error ?? null,
+      last_status_code: result.statusCode ?? null
+    }
+  });
+  console.log(`⏳ Broker delivery for ${delivery.ticker} retrying at ${nextAttemptAt.toISOString()}`);
+  // Dynamic import — brokerDeliveryQueue imports this module
+  const { activateBrokerDeliveryQueue } = await import('./brokerDeliveryQueue');
+  activateBrokerDeliveryQueue();
+
+  return {
+    success: false,
+    queued: true,
+    error: `${result.error} — retrying (attempt ${delivery.attempts}/${delivery.max_attempts})`,
+    statusCode: result.statusCode,
+    response: result.response,
+    broker: adapter.name,
+    attempts: delivery.attempts
+  };
+}
+
+/** Give up on a delivery: dead-letter it, count it against the kill switch and page someone */
+async function deadLetter(
+  delivery: { id: string; execution_id: string; ticker: string; attempts: number; payload: string },
+  broker: string,
+  error: string,
+  result: BrokerResult | undefined
+): Promise<BrokerWebhookResult> {
+  await prisma.brokerDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: 'dead',
+      dead_at: new Date(),
+      last_error: error,
+      last_status_code: result?.statusCode ?? null
+    }
+  });
+
+  const order: BrokerOrderRequest = JSON.parse(delivery.payload);
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'broker_delivery_dead',
+      ticker: delivery.ticker,
+      details: JSON.stringify({
+        execution_id: delivery.execution_id,
+        broker,
+        attempts: delivery.attempts,
+        error
+      })
+    }
+  });
+
+  await recordBrokerFailure(delivery.ticker, delivery.execution_id, result?.statusCode ? `HTTP ${result.statusCode}` : error);
+
+  PushoverNotifications.brokerDeadLetter(delivery.ticker, {
+    action: order.side,
+    quantity: order.quantity,
+    limit_price: order.limit_price,
+    attempts: delivery.attempts,
+    reason: error
+  }).catch(err => console.error('Pushover notification error:', err));
+
+  console.error(`📮 Broker delivery for ${delivery.ticker} dead-lettered after ${delivery.attempts} attempt(s): ${error}`);
+
+  return {
+    success: false,
+    dead_lettered: true,
+    error,
+    statusCode: result?.statusCode,
+    response: result?.response,
+    broker,
+    attempts: delivery.attempts
+  };
+}
+
+/**
+ * Render the payload the webhook would send for an execution — the saved
+ * templates, or the ones passed in (unsaved form). Event defaults to entry /
+ * exit from the position the order trades against.
+ */
+export async function previewBrokerPayload(
+  executionId: string,
+  event?: PayloadTemplateEvent,
+  templates?: PayloadTemplates
+): Promise<{ event: PayloadTemplateEvent; templated: boolean; order: BrokerOrderRequest; payload: any; error: string | null } | null> {
+  const execution = await prisma.execution.findUnique({ where: { id: executionId } });
+  if (!execution) return null;
+
+  const settings: any = await getSettingsSafe();
+  const order = await orderRequestFor(execution);
+  const renderEvent = event ?? orderEvent(order);
+  const { payload, templated, error } = buildWebhookPayload(
+    renderEvent,
+    order,
+    templates ?? parsePayloadTemplates(settings?.broker_payload_templates)
+  );
+  return { event: renderEvent, templated, order, payload, error };
+}
+
+/**
+ * Test the broker webhook connection with the entry body it would send —
+ * rendered from the entry template for a stand-in TEST order, so nothing real
+ * can be traded. Goes out the same way real orders do: signed when a signing
+ * secret exists, over mTLS when asked.
+ */
+export async function testBrokerWebhook(
+  webhookUrl: string,
+  templates: PayloadTemplates,
+  mtls = false
+): Promise<BrokerWebhookResult & { payload?: any; signature?: RequestSignature | null }> {
+  const sample: BrokerOrderRequest = {
+    execution_id: String(SAMPLE_FIELDS.execution_id),
+    client_order_id: String(SAMPLE_FIELDS.client_order_id),
+    symbol: String(SAMPLE_FIELDS.ticker),
+    side: 'buy',
+    quantity: Number(SAMPLE_FIELDS.qty),
+    order_type: 'limit',
+    limit_price: Number(SAMPLE_FIELDS.limit),
+    stop_price: null,
+    trail_amount: null,
+    trail_percent: null,
+    time_in_force: 'day',
+    take_profit_price: null,
+    stop_loss_price: null,
+    position_effect: 'open',
+    context: {
+      dir: 'Long',
+      position_id: null,
+      strategy: null,
+      grade: String(SAMPLE_FIELDS.grade),
+      score: Number(SAMPLE_FIELDS.score),
+      intent_id: null,
+      reference_price: Number(SAMPLE_FIELDS.reference_price)
+    }
+  };
+  const { payload, error } = buildWebhookPayload('entry', sample, templates);
+  if (error) return { success: false, error };
+
+  const tls = mtls ? loadClientCertificate() : null;
+  if (tls?.error) return { success: false, error: tls.error, payload };
+
+  try {
+    console.log(`🧪 Testing broker webhook: ${webhookUrl}${mtls ? ' (mTLS)' : ''}`);
+
+    const result = await sendWebhookRequest(webhookUrl, payload, { client_certificate: tls?.certificate });
+    return {
+      success: result.success,
+      statusCode: result.statusCode,
+      response: result.response,
+      ...(result.error && { error: result.error }),
+      payload,
+      signature: result.request?.signature ?? null
+    };
   } catch (error: any) {
     return {
       success: false,
-      error: error.message
+      error: error.message,
+      payload
     };
   }
 }
+
+/**
+ * Test an Alpaca/Tradier connection by listing the account's positions
+ * (credentialsEnv: a BrokerAccount's env var prefix)
+ */
+export async function testBrokerAdapter(
+  adapterName: string,
+  paper: boolean,
+  credentialsEnv?: string | null
+): Promise<BrokerWebhookResult & { positions?: number }> {
+  const adapter = getBrokerAdapter({ broker_adapter: adapterName, broker_paper: paper, credentials_env: credentialsEnv });
+  const configError = adapter.configurationError();
+  if (configError) {
+    return { success: false, error: configError, broker: adapter.name };
+  }
+
+  try {
+    console.log(`🧪 Testing broker ${adapter.name} (${paper ? 'paper' : 'live'})`);
+    const positions = await adapter.listPositions();
+    return { success: true, broker: adapter.name, positions: positions.length };
+  } catch (error: any) {
+    return { success: false, error: error.message, broker: adapter.name };
+  }
+}
@@ -1,4 +1,6 @@
 import { prisma } from '../index';
+import { resetKillSwitchSession } from './killSwitchService';
+import { EXIT_PAYLOAD_FILTERS } from './orderSpec';
 
 // Store the last reset date
 let lastResetDate: string | null = null;
@@ -79,14 +81,12 @@ export async function performDailyReset(): Promise<void> {
     // IMPORTANT: Exclude EXIT orders - they must survive overnight to close positions
     const pendingExecutionsCleared = await prisma.execution.deleteMany({
       where: {
-        status: { in: ['pending', 'cancelled', 'failed'] },
-        // Exclude EXIT signals - they should never be deleted by daily reset
-        NOT: {
-          raw_payload: { contains: '"event":"EXIT"' }
-        }
+        status: { in: ['pending', 'cancelled', 'failed', 'rejected'] },
+        // Exclude EXIT / PARTIAL_EXIT signals - they should never be deleted by daily reset
+        NOT: EXIT_PAYLOAD_FILTERS
       }
     });
-    console.log(`   ✅ Cleared ${pendingExecutionsCleared.count} pending/cancelled/failed executions (EXIT orders preserved)`);
+    console.log(`   ✅ Cleared ${pendingExecutionsCleared.count} pending/cancelled/failed/rejected executions (EXIT orders preserved)`);
 
     // 3. Clear expired and non-active trade intents
     const expiredIntentsCleared = await prisma.tradeIntent.deleteMany({
@@ -117,6 +117,11 @@ export async function performDailyReset(): Promise<void> {
     });
     console.log(`   ✅ Extended expiry for ${pendingIntentsReset.count} pending intents`);
 
+    // 5. Start a fresh kill-switch session (P&L, losing streak, broker failures).
+    // A tripped kill switch stays tripped — only a manual re-arm clears it.
+    await resetKillSwitchSession();
+    console.log('   ✅ Reset kill switch session counters');
+
     // Record the reset in audit log
     await prisma.auditLog.create({
       data: {
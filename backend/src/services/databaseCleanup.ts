@@ -1,5 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import { prisma } from '../index';
+import { purgeExpiredIdempotencyKeys } from './webhookIdempotency';
+import { cleanupExpiredLocks } from './symbolLock';
 
 // Database size limit in bytes (80 MB)
 const DB_SIZE_LIMIT = 80 * 1024 * 1024; // 80 MB in bytes
@@ -234,6 +236,11 @@ export async function performDatabaseCleanup(): Promise<void> {
   try {
     console.log('🧹 Starting database cleanup...');
 
+    // Expired idempotency keys and symbol lock leases hold nothing — always cleared, whatever the size
+    const expiredKeys = await purgeExpiredIdempotencyKeys();
+    if (expiredKeys > 0) console.log(`   Deleted: ${expiredKeys} expired webhook idempotency keys`);
+    await cleanupExpiredLocks();
+
     // Check current database size
     const currentSize = await estimateDatabaseSize();
     const sizeMB = (currentSize / (1024 * 1024)).toFixed(2);
@@ -1,5 +1,11 @@
 import { prisma } from '../index';
 import { forwardToBroker } from './brokerWebhook';
+import { enforcePreTradeRisk } from './riskService';
+import { applyPositionExit, exitPriceFor } from './positionExitService';
+import { isFillAccounting } from './fillAccountingService';
+import { linkEntryExecution } from './tradeJournalService';
+import { enforcePriceGuard } from './priceGuardService';
+import { isExitPayload } from './orderSpec';
 import { PushoverNotifications } from './pushoverService';
 
 // Re-evaluated on every call — no caching so day transitions are always correct
@@ -17,7 +23,7 @@ function isWeekendET(): boolean {
 // time-of-day awareness - this kept Neon compute from ever scaling to zero
 // outside trading hours. TradingView doesn't send webhooks outside this
 // window, so there's nothing for the scheduler to react to anyway.
-function isTradingWindowET(): boolean {
+export function isTradingWindowET(): boolean {
   if (isWeekendET()) return false;
   const etHHMM = new Date().toLocaleString('en-US', {
     timeZone: 'America/New_York',
@@ -177,22 +183,60 @@ async function processExpiredDelays() {
 
     for (const execution of expiredExecutions) {
       try {
-        // Check if this is an EXIT signal (bypasses approval requirement)
-        let isExitSignal = false;
+        // Check if this is an EXIT / PARTIAL_EXIT signal (bypasses approval requirement)
+        let signalEvent: string | null = null;
         if (execution.raw_payload) {
           try {
-            const payload = JSON.parse(execution.raw_payload);
-            isExitSignal = payload.event === 'EXIT';
+            signalEvent = JSON.parse(execution.raw_payload).event ?? null;
           } catch (e) {
             // Invalid JSON, not an exit signal
           }
         }
+        const isExitSignal = isExitPayload(execution.raw_payload);
+        const isPartialExit = signalEvent === 'PARTIAL_EXIT';
+        const isScaleIn = signalEvent === 'SCALE_IN';
 
         // EXIT signals bypass approval - they always execute after delay
         // This is because exits reduce risk (closing positions) and the original entry was already approved
         if (isExitSignal) {
-          console.log(`   🚪 EXIT signal for ${execution.ticker} - bypassing approval (auto-execute)`);
+          console.log(`   🚪 ${signalEvent} signal for ${execution.ticker} - bypassing approval (auto-execute)`);
           // Skip directly to execution (fall through to execution logic below)
+        } else if (isScaleIn) {
+          // SCALE_IN adds risk to a position whose entry was approved, but the add itself
+          // wasn't — the position must still be open, and outside Mode V the user hits Execute.
+          const openPosition = await prisma.position.findFirst({
+            where: { ticker: execution.ticker, closed_at: null }
+          });
+          if (!openPosition) {
+            console.log(`   ❌ Cancelling ${execution.ticker} SCALE_IN - position closed before delay expired`);
+            await prisma.execution.update({
+              where: { id: execution.id },
+              data: {
+                status: 'cancelled',
+                error_message: 'Position closed before the scale-in delay expired'
+              }
+            });
+            await prisma.auditLog.create({
+              data: {
+                event_type: 'scale_in_expired',
+                ticker: execution.ticker,
+                details: JSON.stringify({
+                  execution_id: execution.id,
+                  reason: 'No open position when delay expired'
+                })
+              }
+            });
+            continue;
+          }
+          if (settings?.auto_sub_mode !== 'mode_v_short') {
+            await prisma.execution.update({
+              where: { id: execution.id },
+              data: { delay_expires_at: null }
+            });
+            console.log(`   ⏳ ${execution.ticker} SCALE_IN delay expired — waiting for manual execution`);
+            continue;
+          }
+          console.log(`   ⚡ ${execution.ticker} Mode V — auto-executing SCALE_IN after delay`);
         } else if (execution.intent_id) {
           // Has linked intent - check its status
           const linkedIntent = await prisma.tradeIntent.findUnique({
@@ -370,9 +414,18 @@ async function processExpiredDelays() {
             });
             continue;
           }
+          // A partial exit never closes more than is open (an earlier exit may have filled meanwhile)
+          if (isPartialExit && execution.quantity > openPosition.quantity) {
+            exitQtyOverride = openPosition.quantity;
+            console.log(`   📐 PARTIAL_EXIT qty clamped: ${execution.quantity} → open position ${exitQtyOverride}`);
+            await prisma.execution.update({
+              where: { id: execution.id },
+              data: { quantity: exitQtyOverride }
+            });
+          }
           // If "use tracked position size" is enabled, override the TV-sent quantity
           // with the actual tracked position size so the full position is closed.
-          if (settings?.exit_use_position_size && openPosition.quantity !== execution.quantity) {
+          if (!isPartialExit && settings?.exit_use_position_size && openPosition.quantity !== execution.quantity) {
             exitQtyOverride = openPosition.quantity;
             console.log(`   📐 EXIT qty override: TV sent ${execution.quantity}, using tracked position size ${exitQtyOverride}`);
             await prisma.execution.update({
@@ -382,73 +435,95 @@ async function processExpiredDelays() {
           }
         }
 
+        // Mode V auto-execute is an entry path too — same pre-trade risk gate
+        if (!isExitSignal && await enforcePreTradeRisk(execution, 'scheduler_auto_execute')) {
+          continue;
+        }
+
+        // Fat-finger check — a held order drops its delay timer and waits for Execute Now
+        if (await enforcePriceGuard(execution, 'scheduler_auto_execute')) {
+          continue;
+        }
+
         // Forward to broker (with qty override applied if applicable)
         const brokerResult = await forwardToBroker(
           exitQtyOverride !== null ? { ...execution, quantity: exitQtyOverride } : execution
         );
+        // Kill switch tripped since this tick started — the entry was cancelled, nothing to book
+        if (brokerResult.halted) continue;
 
-        // Update execution status
+        // Update execution status (a queued broker retry stays executing until delivered)
         await prisma.execution.update({
           where: { id: execution.id },
           data: {
-            status: 'executed',
-            executed_at: new Date(),
+            status: brokerResult.queued ? 'executing' : 'executed',
+            executed_at: brokerResult.queued ? null : new Date(),
             error_message: brokerResult.success ? null : brokerResult.error
           }
         });
 
-        // Create or update position
-        const existingPosition = await prisma.position.findFirst({
-          where: {
-            ticker: execution.ticker,
-            closed_at: null
-          }
-        });
-
-        if (existingPosition) {
-          // Position math must account for side:
-          //   Long position:  buy = add, sell = reduce
-          //   Short position: sell = add (adding to short), buy = reduce (covering)
-          const isLong = existingPosition.side === 'Long';
-          const newQuantity = isLong
-            ? (execution.order_action === 'buy'
-                ? existingPosition.quantity + execution.quantity
-                : existingPosition.quantity - execution.quantity)
-            : (execution.order_action === 'sell'
-                ? existingPosition.quantity + execution.quantity
-                : existingPosition.quantity - execution.quantity);
-
-          if (newQuantity <= 0) {
-            // Full close (or over-close — treat as closed)
-            await prisma.position.update({
-              where: { id: existingPosition.id },
-              data: { closed_at: new Date() }
-            });
+        // Intent accounting — in fill accounting the CONFIRMED fill moves the position
+        if (!(await isFillAccounting(settings))) {
+          // Create or update position
+          const existingPosition = await prisma.position.findFirst({
+            where: {
+              ticker: execution.ticker,
+              closed_at: null
+            }
+          });
 
-            // Block ticker for 5 minutes after close
-            const blockUntil = new Date(Date.now() + 5 * 60 * 1000);
-            await prisma.tickerConfig.upsert({
-              where: { ticker: execution.ticker },
-              update: { blocked_until: blockUntil },
-              create: { ticker: execution.ticker, enabled: true, blocked_until: blockUntil }
-            });
+          if (existingPosition) {
+            // Position math must account for side:
+            //   Long position:  buy = add, sell = reduce
+            //   Short position: sell = add (adding to short), buy = reduce (covering)
+            const isLong = existingPosition.side === 'Long';
+            const newQuantity = isLong
+              ? (execution.order_action === 'buy'
+                  ? existingPosition.quantity + execution.quantity
+                  : existingPosition.quantity - execution.quantity)
+              : (execution.order_action === 'sell'
+                  ? existingPosition.quantity + execution.quantity
+                  : existingPosition.quantity - execution.quantity);
+
+            const exitResult = newQuantity < existingPosition.quantity
+              ? await applyPositionExit(existingPosition, {
+                  quantity: existingPosition.quantity - Math.max(newQuantity, 0),
+                  exit_price: exitPriceFor(execution),
+                  reason: 'exit_signal',
+                  source: 'scheduler_execute',
+                  execution_id: execution.id
+                })
+              : null;
+
+            if (exitResult?.closed) {
+              // Full close (or over-close — treat as closed)
+              // Block ticker for 5 minutes after close
+              const blockUntil = new Date(Date.now() + 5 * 60 * 1000);
+              await prisma.tickerConfig.upsert({
+                where: { ticker: execution.ticker },
+                update: { blocked_until: blockUntil },
+                create: { ticker: execution.ticker, enabled: true, blocked_until: blockUntil }
+              });
+            } else if (!exitResult) {
+              // Add to position (partial closes are applied above)
+              await prisma.position.update({
+                where: { id: existingPosition.id },
+                data: { quantity: newQuantity }
+              });
+              await linkEntryExecution(execution.id, existingPosition.id);
+            }
           } else {
-            // Partial close or add to position
-            await prisma.position.update({
-              where: { id: existingPosition.id },
-              data: { quantity: newQuantity }
+            // Entry order — create new position
+            const newPosition = await prisma.position.create({
+              data: {
+                ticker: execution.ticker,
+                side: execution.order_action === 'buy' ? 'Long' : 'Short',
+                quantity: execution.quantity,
+                entry_price: execution.limit_price || '0'
+              }
             });
+            await linkEntryExecution(execution.id, newPosition.id);
           }
-        } else {
-          // Entry order — create new position
-          await prisma.position.create({
-            data: {
-              ticker: execution.ticker,
-              side: execution.order_action === 'buy' ? 'Long' : 'Short',
-              quantity: execution.quantity,
-              entry_price: execution.limit_price || '0'
-            }
-          });
         }
 
         // Create audit log
@@ -0,0 +1,231 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { applyPositionExit, CloseReason } from './positionExitService';
+import { linkEntryExecution } from './tradeJournalService';
+
+/**
+ * Fill-driven position accounting (opt-in: ExecutionSettings.position_accounting = 'fills').
+ *
+ * In the default 'intent' mode the ORDER/EXIT handlers size positions at the
+ * order's limit price the moment it is forwarded, and CONFIRMED only records
+ * the fill on the execution. In 'fills' mode those handlers leave positions
+ * alone and every confirmed fill moves the position instead:
+ *   - no open position        → open one at the fill price
+ *   - same direction          → scale in, entry_price becomes the volume-weighted average
+ *   - opposite direction      → scale out / close via positionExitService at the fill price
+ *
+ * Idempotency — TradingView re-sends CONFIRMED alerts (the reason CONFIRMED
+ * never touched positions), so each fill is claimed in the `fills` table by a
+ * unique key before it is applied:
+ *   - broker fill id when the payload carries one (`fill_id`)
+ *   - otherwise the fill's content — execution, quantity and price — so a
+ *     re-sent CONFIRMED is a no-op whichever alert it arrives on. Two real
+ *     partial fills of the same size at the same price need a `fill_id` to
+ *     be counted twice.
+ * and the quantity applied per execution is capped at the execution's quantity,
+ * so a re-send that slips past the key (e.g. a cumulative quantity) can never
+ * grow a position beyond what was ordered.
+ *
+ * Fills for the same ticker are applied one at a time.
+ */
+
+export type PositionAccounting = 'intent' | 'fills';
+
+export interface FillInput {
+  fill_id?: string | null;
+  quantity: number;
+  price: number;
+  source: 'tradingview' | 'broker';
+}
+
+export interface FillResult {
+  status: 'applied' | 'duplicate' | 'overfill';
+  fill_key: string;
+  applied_qty: number;
+  position_id: string | null;
+  position_action: 'opened' | 'added' | 'reduced' | 'closed' | null;
+}
+
+interface FillExecution {
+  id: string;
+  ticker: string;
+  order_action: string;
+  quantity: number;
+  raw_payload?: string | null;
+}
+
+async function getSettingsSafe() {
+  try {
+    return await prisma.executionSettings.findFirst();
+  } catch (e: any) {
+    if (e.message?.includes('does not exist')) {
+      try {
+        const results = await prisma.$queryRawUnsafe(`SELECT * FROM execution_settings LIMIT 1`) as any[];
+        return results[0] || null;
+      } catch {
+        return null;
+      }
+    }
+    throw e;
+  }
+}
+
+/** True when confirmed fills, not ORDER/EXIT handlers, own position size */
+export async function isFillAccounting(settings?: any): Promise<boolean> {
+  const s: any = settings ?? await getSettingsSafe();
+  return s?.position_accounting === 'fills';
+}
+
+const tickerChains = new Map<string, Promise<unknown>>();
+
+function serializeByTicker<T>(ticker: string, fn: () => Promise<T>): Promise<T> {
+  const previous = tickerChains.get(ticker) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(fn);
+  tickerChains.set(ticker, next);
+  next
+    .finally(() => {
+      if (tickerChains.get(ticker) === next) tickerChains.delete(ticker);
+    })
+    .catch(() => undefined);
+  return next;
+}
+
+function fillKeyFor(execution: FillExecution, fill: FillInput): string {
+  if (fill.fill_id) return `${fill.source}:${fill.fill_id}`;
+  return `${fill.source}:${execution.id}:${fill.quantity}@${fill.price}`;
+}
+
+function closeReasonFor(execution: FillExecution): CloseReason {
+  try {
+    return execution.raw_payload && JSON.parse(execution.raw_payload).source === 'custom' ? 'manual' : 'exit_signal';
+  } catch {
+    return 'exit_signal';
+  }
+}
+
+/**
+ * Apply one confirmed fill to the ticker's position. Duplicate fills and
+ * quantity beyond what the execution ordered are recorded but don't move the
+ * position.
+ */
+export function applyFill(execution: FillExecution, fill: FillInput): Promise<FillResult> {
+  const ticker = execution.ticker.toUpperCase();
+  return serializeByTicker(ticker, () => applyFillLocked(execution, fill, ticker));
+}
+
+async function applyFillLocked(execution: FillExecution, fill: FillInput, ticker: string): Promise<FillResult> {
+  const fillKey = fillKeyFor(execution, fill);
+
+  const existing = await prisma.fill.findUnique({ where: { fill_key: fillKey } });
+  if (existing) {
+    console.warn(`⚠️ Fill ${fillKey} already applied — ignoring re-send`);
+    return { status: 'duplicate', fill_key: fillKey, applied_qty: 0, position_id: existing.position_id, position_action: null };
+  }
+
+  const alreadyApplied = await prisma.fill.aggregate({
+    where: { execution_id: execution.id },
+    _sum: { applied_qty: true }
+  });
+  const capacity = Math.max(0, execution.quantity - (alreadyApplied._sum.applied_qty ?? 0));
+  const appliedQty = Math.min(fill.quantity, capacity);
+
+  // Claim the key first — a concurrent duplicate loses on the unique constraint
+  let fillRecord;
+  try {
+    fillRecord = await prisma.fill.create({
+      data: {
+        fill_key: fillKey,
+        execution_id: execution.id,
+        ticker,
+        order_action: execution.order_action,
+        quantity: fill.quantity,
+        applied_qty: appliedQty,
+        price: fill.price.toString(),
+        status: appliedQty > 0 ? 'applied' : 'overfill',
+        source: fill.source
+      }
+    });
+  } catch (e) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002') {
+      return { status: 'duplicate', fill_key: fillKey, applied_qty: 0, position_id: null, position_action: null };
+    }
+    throw e;
+  }
+
+  if (appliedQty === 0) {
+    console.warn(`⚠️ Fill ${fillKey}: ${execution.id} already filled ${execution.quantity} — ignoring ${fill.quantity} over-fill`);
+    return { status: 'overfill', fill_key: fillKey, applied_qty: 0, position_id: null, position_action: null };
+  }
+
+  try {
+    const { positionId, action } = await moveFillIntoPosition(execution, fill.price, appliedQty, ticker);
+    await prisma.fill.update({ where: { id: fillRecord.id }, data: { position_id: positionId } });
+    return { status: 'applied', fill_key: fillKey, applied_qty: appliedQty, position_id: positionId, position_action: action };
+  } catch (e) {
+    // Release the key so the fill can be applied when it is re-sent
+    await prisma.fill.delete({ where: { id: fillRecord.id } }).catch(() => undefined);
+    throw e;
+  }
+}
+
+async function moveFillIntoPosition(
+  execution: FillExecution,
+  price: number,
+  quantity: number,
+  ticker: string
+): Promise<{ positionId: string; action: FillResult['position_action'] }> {
+  const isBuy = execution.order_action === 'buy';
+  const position = await prisma.position.findFirst({ where: { ticker, closed_at: null } });
+
+  if (!position) {
+    const created = await prisma.position.create({
+      data: {
+        ticker,
+        side: isBuy ? 'Long' : 'Short',
+        quantity,
+        entry_price: price.toString()
+      }
+    });
+    await linkEntryExecution(execution.id, created.id);
+    console.log(`📥 Fill opened ${created.side} ${ticker} ${quantity} @ ${price}`);
+    return { positionId: created.id, action: 'opened' };
+  }
+
+  const adds = (position.side === 'Long') === isBuy;
+  if (adds) {
+    const entry = parseFloat(position.entry_price.toString());
+    const newQuantity = position.quantity + quantity;
+    const avgEntry = (entry * position.quantity + price * quantity) / newQuantity;
+    await prisma.position.update({
+      where: { id: position.id },
+      data: { quantity: newQuantity, entry_price: avgEntry.toString() }
+    });
+    await linkEntryExecution(execution.id, position.id);
+    console.log(`📥 Fill added ${quantity} to ${position.side} ${ticker} @ ${price} — now ${newQuantity} avg ${avgEntry.toFixed(4)}`);
+    return { positionId: position.id, action: 'added' };
+  }
+
+  if (quantity > position.quantity) {
+    console.warn(`⚠️ Fill for ${ticker} closes ${quantity} but only ${position.quantity} open — extra ${quantity - position.quantity} ignored`);
+  }
+  const result = await applyPositionExit(position, {
+    quantity,
+    exit_price: price,
+    reason: closeReasonFor(execution),
+    source: 'fill',
+    execution_id: execution.id
+  });
+
+  if (result.closed) {
+    // Same re-entry cooldown as every other close path
+    const blockUntil = new Date(Date.now() + 5 * 60 * 1000);
+    await prisma.tickerConfig.upsert({
+      where: { ticker },
+      update: { blocked_until: blockUntil },
+      create: { ticker, enabled: true, blocked_until: blockUntil }
+    });
+  }
+
+  console.log(`📤 Fill ${result.closed ? 'closed' : 'reduced'} ${position.side} ${ticker} by ${result.quantity} @ ${price}`);
+  return { positionId: position.id, action: result.closed ? 'closed' : 'reduced' };
+}
@@ -0,0 +1,321 @@
+import { prisma } from '../index';
+import { PushoverNotifications } from './pushoverService';
+import { EXIT_PAYLOAD_FILTERS } from './orderSpec';
+
+/**
+ * Daily loss limit / kill switch.
+ *
+ * Tracks the session's realized P&L, consecutive losing closes and failed broker
+ * forwards on ExecutionSettings. When any configured limit is hit the switch trips:
+ *   - execution_mode is forced to 'off'
+ *   - pending entry executions are cancelled (EXIT orders are left alone so open
+ *     positions can still be closed)
+ *   - modeScheduler stops switching modes until someone re-arms the switch
+ *   - a `kill_switch_tripped` audit event and an emergency Pushover are sent
+ *
+ * Session counters are cleared by the daily reset; the tripped state is not —
+ * only a manual re-arm clears it.
+ */
+
+export type KillSwitchTrigger = 'daily_loss' | 'consecutive_losses' | 'broker_failures' | 'manual';
+
+export interface KillSwitchStatus {
+  tripped: boolean;
+  tripped_at: Date | null;
+  reason: string | null;
+  session_realized_pnl: number;
+  session_consecutive_losses: number;
+  session_broker_failures: number;
+  daily_loss_limit: number | null;
+  max_consecutive_losses: number | null;
+  max_broker_failures: number | null;
+}
+
+interface ClosedTrade {
+  ticker: string;
+  pnl: number;           // realized P&L of the (partial) close, net of fees
+  source: string;
+}
+
+async function getSettingsSafe() {
+  try {
+    return await prisma.executionSettings.findFirst();
+  } catch (e: any) {
+    if (e.message?.includes('does not exist')) {
+      try {
+        const results = await prisma.$queryRawUnsafe(`SELECT * FROM execution_settings LIMIT 1`) as any[];
+        return results[0] || null;
+      } catch {
+        return null;
+      }
+    }
+    throw e;
+  }
+}
+
+function toLimit(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+const usd = (n: number) => `${n < 0 ? '-' : ''}$${Math.abs(n).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function toStatus(settings: any): KillSwitchStatus {
+  return {
+    tripped: !!settings?.kill_switch_tripped,
+    tripped_at: settings?.kill_switch_tripped_at ?? null,
+    reason: settings?.kill_switch_reason ?? null,
+    session_realized_pnl: settings?.session_realized_pnl ? parseFloat(settings.session_realized_pnl.toString()) : 0,
+    session_consecutive_losses: settings?.session_consecutive_losses ?? 0,
+    session_broker_failures: settings?.session_broker_failures ?? 0,
+    daily_loss_limit: toLimit(settings?.kill_daily_loss_limit),
+    max_consecutive_losses: toLimit(settings?.kill_max_consecutive_losses),
+    max_broker_failures: toLimit(settings?.kill_max_broker_failures)
+  };
+}
+
+export async function getKillSwitchStatus(): Promise<KillSwitchStatus> {
+  return toStatus(await getSettingsSafe());
+}
+
+export async function isKillSwitchTripped(): Promise<boolean> {
+  const settings: any = await getSettingsSafe();
+  return !!settings?.kill_switch_tripped;
+}
+
+/**
+ * Why an order that opens or adds to a position can't go to a broker now,
+ * or null. A tripped kill switch stops every entry; with `executionOff`, so
+ * does execution mode off (retries of orders let through before it was
+ * switched off). Exits are never stopped — they close risk.
+ */
+export async function entryHaltReason(options: { executionOff?: boolean } = {}): Promise<string | null> {
+  const settings: any = await getSettingsSafe();
+  if (settings?.kill_switch_tripped) {
+    return `Kill switch tripped${settings.kill_switch_reason ? `: ${settings.kill_switch_reason}` : ''}`;
+  }
+  if (options.executionOff && settings?.execution_mode === 'off') return 'Execution mode is off';
+  return null;
+}
+
+/**
+ * Trip the kill switch. Idempotent — returns false if it was already tripped.
+ */
+export async function tripKillSwitch(
+  trigger: KillSwitchTrigger,
+  reason: string,
+  context: Record<string, any> = {}
+): Promise<boolean> {
+  const settings: any = await getSettingsSafe();
+  if (!settings) return false;
+
+  // Conditional update so two concurrent trips only act once
+  const tripped = await prisma.executionSettings.updateMany({
+    where: { id: settings.id, kill_switch_tripped: false },
+    data: {
+      kill_switch_tripped: true,
+      kill_switch_tripped_at: new Date(),
+      kill_switch_reason: reason,
+      execution_mode: 'off'
+    }
+  });
+  if (tripped.count === 0) return false;
+
+  // Cancel queued entries — EXIT orders must still be able to close positions.
+  // Entries already waiting on a broker retry are halted at their next attempt (brokerWebhook).
+  const cancelled = await prisma.execution.updateMany({
+    where: {
+      status: 'pending',
+      OR: [
+        { raw_payload: null },
+        { NOT: EXIT_PAYLOAD_FILTERS }
+      ]
+    },
+    data: {
+      status: 'cancelled',
+      error_message: `Cancelled by kill switch: ${reason}`
+    }
+  });
+
+  const status = toStatus(settings);
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'kill_switch_tripped',
+      ticker: context.ticker || null,
+      details: JSON.stringify({
+        from: settings.execution_mode,
+        to: 'off',
+        trigger,
+        reason,
+        cancelled_entries: cancelled.count,
+        session_realized_pnl: status.session_realized_pnl,
+        session_consecutive_losses: status.session_consecutive_losses,
+        session_broker_failures: status.session_broker_failures,
+        ...context
+      })
+    }
+  });
+
+  PushoverNotifications.killSwitchTripped({
+    trigger,
+    reason,
+    cancelled_entries: cancelled.count
+  }).catch(err => console.error('Pushover notification error:', err));
+
+  console.error(`🚨 KILL SWITCH TRIPPED (${trigger}): ${reason} — mode ${settings.execution_mode} → off, ${cancelled.count} pending entr${cancelled.count === 1 ? 'y' : 'ies'} cancelled`);
+  return true;
+}
+
+/**
+ * Clear the tripped state so modeScheduler / manual mode changes work again.
+ * Consecutive-loss and broker-failure counters restart; session P&L does not,
+ * so a further loss while still beyond the daily limit trips again.
+ */
+export async function rearmKillSwitch(rearmedBy: string | null): Promise<KillSwitchStatus> {
+  const settings: any = await getSettingsSafe();
+  if (!settings) throw new Error('Execution settings not found');
+
+  const updated = await prisma.executionSettings.update({
+    where: { id: settings.id },
+    data: {
+      kill_switch_tripped: false,
+      kill_switch_tripped_at: null,
+      kill_switch_reason: null,
+      session_consecutive_losses: 0,
+      session_broker_failures: 0
+    }
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'kill_switch_rearmed',
+      ticker: null,
+      details: JSON.stringify({
+        previous_reason: settings.kill_switch_reason,
+        tripped_at: settings.kill_switch_tripped_at,
+        execution_mode: updated.execution_mode,
+        rearmed_by: rearmedBy
+      })
+    }
+  });
+
+  console.log(`🔓 Kill switch re-armed${rearmedBy ? ` by ${rearmedBy}` : ''}`);
+  return toStatus(updated);
+}
+
+/**
+ * Record a (partial) position close. Adds to session P&L, updates the losing
+ * streak and trips the switch if a loss limit is now exceeded.
+ */
+export async function recordClosedTrade(trade: ClosedTrade): Promise<void> {
+  try {
+    const { pnl } = trade;
+    const settings: any = await getSettingsSafe();
+    if (!settings) return;
+
+    const updated = await prisma.executionSettings.update({
+      where: { id: settings.id },
+      data: {
+        session_realized_pnl: { increment: pnl },
+        // Break-even doesn't extend or reset a losing streak
+        ...(pnl < 0 && { session_consecutive_losses: { increment: 1 } }),
+        ...(pnl > 0 && { session_consecutive_losses: 0 })
+      }
+    });
+
+    const status = toStatus(updated);
+    console.log(`💰 Realized ${usd(pnl)} on ${trade.ticker} (${trade.source}) — session ${usd(status.session_realized_pnl)}`);
+
+    if (pnl >= 0 || status.tripped) return;
+
+    const context = { ticker: trade.ticker, source: trade.source, trade_pnl: pnl };
+    if (status.daily_loss_limit !== null && status.session_realized_pnl <= -status.daily_loss_limit) {
+      await tripKillSwitch(
+        'daily_loss',
+        `Session loss ${usd(status.session_realized_pnl)} hit daily limit of ${usd(-status.daily_loss_limit)}`,
+        context
+      );
+    } else if (status.max_consecutive_losses !== null && status.session_consecutive_losses >= status.max_consecutive_losses) {
+      await tripKillSwitch(
+        'consecutive_losses',
+        `${status.session_consecutive_losses} consecutive losing trades (max ${status.max_consecutive_losses})`,
+        context
+      );
+    }
+  } catch (error: any) {
+    // Never let P&L bookkeeping break the close path that called us
+    console.error('❌ Kill switch P&L tracking error:', error.message);
+  }
+}
+
+/**
+ * Correct session P&L after an already-recorded close is repriced (e.g. the
+ * CONFIRMED fill differs from the limit price the close was booked at). The
+ * losing streak is left alone; the daily loss limit is re-checked.
+ */
+export async function adjustSessionPnl(ticker: string, delta: number, source: string): Promise<void> {
+  try {
+    if (!delta) return;
+    const settings: any = await getSettingsSafe();
+    if (!settings) return;
+
+    const updated = await prisma.executionSettings.update({
+      where: { id: settings.id },
+      data: { session_realized_pnl: { increment: delta } }
+    });
+
+    const status = toStatus(updated);
+    console.log(`💰 Repriced ${ticker} by ${usd(delta)} (${source}) — session ${usd(status.session_realized_pnl)}`);
+
+    if (delta < 0 && !status.tripped && status.daily_loss_limit !== null && status.session_realized_pnl <= -status.daily_loss_limit) {
+      await tripKillSwitch(
+        'daily_loss',
+        `Session loss ${usd(status.session_realized_pnl)} hit daily limit of ${usd(-status.daily_loss_limit)}`,
+        { ticker, source, trade_pnl: delta }
+      );
+    }
+  } catch (error: any) {
+    console.error('❌ Kill switch P&L adjustment error:', error.message);
+  }
+}
+
+/**
+ * Record a failed broker forward and trip the switch once the session's
+ * failure count reaches the configured maximum.
+ */
+export async function recordBrokerFailure(ticker: string, executionId: string, error: string | undefined): Promise<void> {
+  try {
+    const settings: any = await getSettingsSafe();
+    if (!settings) return;
+
+    const updated = await prisma.executionSettings.update({
+      where: { id: settings.id },
+      data: { session_broker_failures: { increment: 1 } }
+    });
+
+    const status = toStatus(updated);
+    if (status.tripped || status.max_broker_failures === null) return;
+
+    if (status.session_broker_failures >= status.max_broker_failures) {
+      await tripKillSwitch(
+        'broker_failures',
+        `${status.session_broker_failures} broker failures this session (max ${status.max_broker_failures})`,
+        { ticker, execution_id: executionId, last_error: error || null }
+      );
+    }
+  } catch (err: any) {
+    console.error('❌ Kill switch broker-failure tracking error:', err.message);
+  }
+}
+
+/** Called by the daily reset — starts a fresh session (tripped state is kept) */
+export async function resetKillSwitchSession(): Promise<void> {
+  await prisma.executionSettings.updateMany({
+    data: {
+      session_realized_pnl: 0,
+      session_consecutive_losses: 0,
+      session_broker_failures: 0
+    }
+  });
+}
@@ -0,0 +1,198 @@
+import { prisma } from '../index';
+import { fetchQuotes, TradierQuote } from './tradierService';
+import { fetchPolygonQuote } from './polygonService';
+import { isTradingWindowET } from './executionScheduler';
+
+/**
+ * Mark-to-market for open positions.
+ *
+ * One shared loop prices every open position and fans the snapshot out to all
+ * SSE subscribers, so browsers no longer poll /api/positions for prices:
+ *   - open-position tickers are batched into a single Tradier fetchQuotes call;
+ *     tickers Tradier doesn't return fall back to Polygon (when POLYGON_API_KEY is set)
+ *   - the loop only runs while someone is subscribed, and only fetches quotes
+ *     inside isTradingWindowET — outside it a subscriber gets one snapshot on
+ *     connect and nothing more
+ *
+ * Mark price is the last trade, or the bid/ask midpoint when there is no last.
+ */
+
+export interface PositionMark {
+  id: string;
+  ticker: string;
+  side: string;
+  quantity: number;
+  entry_price: number;
+  mark: number | null;
+  bid: number | null;
+  ask: number | null;
+  quote_source: 'tradier' | 'polygon' | null;
+  unrealized_pnl: number | null;
+  move_pct: number | null;          // price move from entry, unsigned by side
+  ttp_exit_price: number | null;
+  ttp_distance: number | null;      // ttp_exit_price − mark
+  ttp_distance_pct: number | null;  // as % of mark
+}
+
+export interface MarkSnapshot {
+  as_of: string;
+  trading_window: boolean;
+  positions: PositionMark[];
+  totals: {
+    unrealized_pnl: number;
+    market_value: number;
+    cost_basis: number;
+    priced: number;
+    unpriced: number;
+  };
+}
+
+type Subscriber = (snapshot: MarkSnapshot) => void;
+
+const MARK_INTERVAL_MS = 5000;
+
+const subscribers = new Set<Subscriber>();
+let loop: NodeJS.Timeout | null = null;
+let lastSnapshot: MarkSnapshot | null = null;
+let ticking = false;
+
+const round = (n: number, dp = 2) => parseFloat(n.toFixed(dp));
+
+function markPrice(quote: TradierQuote | undefined): number | null {
+  if (!quote) return null;
+  if (quote.last > 0) return quote.last;
+  if (quote.bid > 0 && quote.ask > 0) return (quote.bid + quote.ask) / 2;
+  return null;
+}
+
+async function fetchMarkQuotes(tickers: string[]): Promise<Map<string, { quote: TradierQuote; source: 'tradier' | 'polygon' }>> {
+  const quotes = new Map<string, { quote: TradierQuote; source: 'tradier' | 'polygon' }>();
+  if (tickers.length === 0) return quotes;
+
+  for (const quote of await fetchQuotes(tickers)) {
+    if (markPrice(quote) !== null) quotes.set(quote.symbol.toUpperCase(), { quote, source: 'tradier' });
+  }
+
+  if (process.env.POLYGON_API_KEY) {
+    const missing = tickers.filter(t => !quotes.has(t));
+    const fallbacks = await Promise.all(missing.map(t => fetchPolygonQuote(t).catch(() => null)));
+    fallbacks.forEach((quote, i) => {
+      if (quote && markPrice(quote) !== null) quotes.set(missing[i], { quote, source: 'polygon' });
+    });
+  }
+
+  return quotes;
+}
+
+/** Price every open position once */
+export async function computeMarkSnapshot(): Promise<MarkSnapshot> {
+  const positions = await prisma.position.findMany({
+    where: { closed_at: null },
+    orderBy: { opened_at: 'desc' }
+  });
+
+  const tickers = [...new Set(positions.map(p => p.ticker.toUpperCase()))];
+  const quotes = await fetchMarkQuotes(tickers);
+
+  const totals = { unrealized_pnl: 0, market_value: 0, cost_basis: 0, priced: 0, unpriced: 0 };
+
+  const marks: PositionMark[] = positions.map(position => {
+    const entry = parseFloat(position.entry_price.toString());
+    const ttp = position.ttp_exit_price != null ? parseFloat(position.ttp_exit_price.toString()) : null;
+    const fetched = quotes.get(position.ticker.toUpperCase());
+    const mark = markPrice(fetched?.quote);
+    const isShort = position.side === 'Short';
+
+    totals.cost_basis += entry * position.quantity;
+
+    let unrealized: number | null = null;
+    let movePct: number | null = null;
+    if (mark !== null && entry > 0) {
+      unrealized = (isShort ? entry - mark : mark - entry) * position.quantity;
+      movePct = (mark - entry) / entry * 100;
+      totals.unrealized_pnl += unrealized;
+      totals.market_value += mark * position.quantity;
+      totals.priced++;
+    } else {
+      totals.unpriced++;
+    }
+
+    return {
+      id: position.id,
+      ticker: position.ticker,
+      side: position.side,
+      quantity: position.quantity,
+      entry_price: entry,
+      mark: mark !== null ? round(mark, 4) : null,
+      bid: fetched && fetched.quote.bid > 0 ? fetched.quote.bid : null,
+      ask: fetched && fetched.quote.ask > 0 ? fetched.quote.ask : null,
+      quote_source: fetched?.source ?? null,
+      unrealized_pnl: unrealized !== null ? round(unrealized) : null,
+      move_pct: movePct !== null ? round(movePct) : null,
+      ttp_exit_price: ttp,
+      ttp_distance: ttp !== null && mark !== null ? round(ttp - mark, 4) : null,
+      ttp_distance_pct: ttp !== null && mark !== null ? round((ttp - mark) / mark * 100) : null
+    };
+  });
+
+  return {
+    as_of: new Date().toISOString(),
+    trading_window: isTradingWindowET(),
+    positions: marks,
+    totals: {
+      unrealized_pnl: round(totals.unrealized_pnl),
+      market_value: round(totals.market_value),
+      cost_basis: round(totals.cost_basis),
+      priced: totals.priced,
+      unpriced: totals.unpriced
+    }
+  };
+}
+
+async function tick() {
+  if (ticking || subscribers.size === 0 || !isTradingWindowET()) return;
+  ticking = true;
+  try {
+    lastSnapshot = await computeMarkSnapshot();
+    for (const subscriber of subscribers) subscriber(lastSnapshot);
+  } catch (error: any) {
+    console.error('❌ Mark-to-market error:', error.message);
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Receive a snapshot on every mark tick. The subscriber gets a snapshot right
+ * away (fresh if none is cached). Returns the unsubscribe function; the loop
+ * stops when the last subscriber leaves.
+ */
+export function subscribeToMarks(subscriber: Subscriber): () => void {
+  subscribers.add(subscriber);
+
+  if (lastSnapshot && Date.now() - new Date(lastSnapshot.as_of).getTime() < MARK_INTERVAL_MS) {
+    subscriber(lastSnapshot);
+  } else {
+    computeMarkSnapshot()
+      .then(snapshot => {
+        lastSnapshot = snapshot;
+        if (subscribers.has(subscriber)) subscriber(snapshot);
+      })
+      .catch(error => console.error('❌ Mark-to-market error:', error.message));
+  }
+
+  if (!loop) {
+    loop = setInterval(tick, MARK_INTERVAL_MS);
+    console.log('📈 Mark-to-market loop started');
+  }
+
+  return () => {
+    subscribers.delete(subscriber);
+    if (subscribers.size === 0 && loop) {
+      clearInterval(loop);
+      loop = null;
+      lastSnapshot = null;
+      console.log('📉 Mark-to-market loop stopped (no subscribers)');
+    }
+  };
+}
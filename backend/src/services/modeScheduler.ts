@@ -86,6 +86,9 @@ async function checkAndUpdateMode() {
       return;
     }
 
+    // Kill switch holds execution off — no schedule may turn it back on until re-armed
+    if (settings.kill_switch_tripped) return;
+
     const timezone = settings.timezone || 'America/New_York';
     const currentTime = getCurrentTimeInTimezone(timezone);
     const dayOfWeek = getCurrentDayInTimezone(timezone);
@@ -0,0 +1,213 @@
+/**
+ * Order type, time-in-force and attached legs.
+ *
+ * One parser for everything that creates or edits an order (ORDER/EXIT
+ * webhooks, custom orders, the Execution Queue editor), so an order the
+ * broker would refuse is rejected before it becomes an execution:
+ *   - market          no price fields
+ *   - limit           limit_price
+ *   - stop            stop_price (trigger, then market)
+ *   - stop_limit      stop_price + limit_price
+ *   - trailing_stop   exactly one of trail_amount ($) / trail_percent (0–100)
+ *
+ * take_profit_price / stop_loss_price attach a bracket (both) or a one-sided
+ * OTO leg to an entry; they must sit on the profitable / losing side of the
+ * entry's reference price. Legs aren't allowed on exits, on trailing stops or
+ * with ioc/fok (nothing would be left working to protect).
+ *
+ * An execution's limit_price keeps the signal's reference price for every
+ * type, so price guards, risk notional and exit P&L booking still have a
+ * price; brokerLimitPrice() is what actually goes to the broker.
+ */
+
+export const ORDER_TYPES = ['market', 'limit', 'stop', 'stop_limit', 'trailing_stop'] as const;
+export type OrderType = typeof ORDER_TYPES[number];
+
+export const TIME_IN_FORCE = ['day', 'gtc', 'ioc', 'fok'] as const;
+export type TimeInForce = typeof TIME_IN_FORCE[number];
+
+export interface OrderSpec {
+  order_type: OrderType;
+  limit_price: number | null;
+  stop_price: number | null;
+  trail_amount: number | null;
+  trail_percent: number | null;
+  time_in_force: TimeInForce;
+  take_profit_price: number | null;
+  stop_loss_price: number | null;
+}
+
+export interface OrderSpecInput {
+  order_type?: any;
+  limit_price?: any;
+  stop_price?: any;
+  trail_amount?: any;
+  trail_percent?: any;
+  time_in_force?: any;
+  take_profit_price?: any;
+  stop_loss_price?: any;
+}
+
+const toNumber = (value: any): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const n = parseFloat(value.toString());
+  return Number.isFinite(n) ? n : null;
+};
+
+const isOrderType = (value: string): value is OrderType => (ORDER_TYPES as readonly string[]).includes(value);
+const isTimeInForce = (value: string): value is TimeInForce => (TIME_IN_FORCE as readonly string[]).includes(value);
+
+/**
+ * Validate order fields for a buy or sell. Returns the normalized spec (fields
+ * that don't apply to the type are nulled) or the first problem found.
+ */
+export function parseOrderSpec(
+  input: OrderSpecInput,
+  context: { side: string; is_exit: boolean }
+): { spec: OrderSpec | null; error: string | null } {
+  const fail = (error: string) => ({ spec: null, error });
+
+  // A zero limit has always meant "no limit" (market)
+  const rawLimit = toNumber(input.limit_price);
+  const limit = rawLimit !== null && rawLimit > 0 ? rawLimit : null;
+  const requestedType = input.order_type ? String(input.order_type).toLowerCase().replace(/[\s-]/g, '_') : null;
+  const orderType = requestedType ?? (limit !== null ? 'limit' : 'market');
+  if (!isOrderType(orderType)) {
+    return fail(`Invalid order_type "${input.order_type}" — expected one of ${ORDER_TYPES.join(', ')}`);
+  }
+
+  const tif = input.time_in_force ? String(input.time_in_force).toLowerCase() : 'day';
+  if (!isTimeInForce(tif)) {
+    return fail(`Invalid time_in_force "${input.time_in_force}" — expected one of ${TIME_IN_FORCE.join(', ')}`);
+  }
+
+  const spec: OrderSpec = {
+    order_type: orderType,
+    limit_price: limit,
+    stop_price: null,
+    trail_amount: null,
+    trail_percent: null,
+    time_in_force: tif,
+    take_profit_price: toNumber(input.take_profit_price),
+    stop_loss_price: toNumber(input.stop_loss_price)
+  };
+
+  for (const [field, value] of Object.entries({ take_profit_price: spec.take_profit_price, stop_loss_price: spec.stop_loss_price })) {
+    if (value !== null && !(value > 0)) return fail(`${field} must be greater than 0`);
+  }
+
+  if ((orderType === 'limit' || orderType === 'stop_limit') && limit === null) {
+    return fail(`${orderType} orders need a limit_price`);
+  }
+
+  if (orderType === 'stop' || orderType === 'stop_limit') {
+    const stop = toNumber(input.stop_price);
+    if (stop === null || !(stop > 0)) return fail(`${orderType} orders need a stop_price greater than 0`);
+    spec.stop_price = stop;
+  }
+
+  if (orderType === 'trailing_stop') {
+    const amount = toNumber(input.trail_amount);
+    const percent = toNumber(input.trail_percent);
+    if ((amount === null) === (percent === null)) {
+      return fail('trailing_stop orders need exactly one of trail_amount or trail_percent');
+    }
+    if (amount !== null && !(amount > 0)) return fail('trail_amount must be greater than 0');
+    if (percent !== null && !(percent > 0 && percent < 100)) return fail('trail_percent must be between 0 and 100');
+    spec.trail_amount = amount;
+    spec.trail_percent = percent;
+  }
+
+  const hasLegs = spec.take_profit_price !== null || spec.stop_loss_price !== null;
+  if (hasLegs) {
+    if (context.is_exit) return fail('take_profit / stop_loss legs can only be attached to entries');
+    if (orderType === 'trailing_stop') return fail('take_profit / stop_loss legs cannot be attached to a trailing_stop');
+    if (tif === 'ioc' || tif === 'fok') return fail(`take_profit / stop_loss legs need a day or gtc order, not ${tif}`);
+
+    // Reference: where the entry fills at worst (limit), else its trigger / signal price
+    const reference = orderType === 'stop' ? spec.stop_price : limit;
+    if (reference !== null) {
+      const buy = context.side === 'buy';
+      if (spec.take_profit_price !== null && (buy ? spec.take_profit_price <= reference : spec.take_profit_price >= reference)) {
+        return fail(`take_profit_price must be ${buy ? 'above' : 'below'} the entry price ${reference}`);
+      }
+      if (spec.stop_loss_price !== null && (buy ? spec.stop_loss_price >= reference : spec.stop_loss_price <= reference)) {
+        return fail(`stop_loss_price must be ${buy ? 'below' : 'above'} the entry price ${reference}`);
+      }
+    }
+  }
+
+  return { spec, error: null };
+}
+
+/** Execution columns for a parsed spec (limit_price is left to the caller) */
+export function orderSpecData(spec: OrderSpec) {
+  return {
+    order_type: spec.order_type,
+    stop_price: spec.stop_price,
+    trail_amount: spec.trail_amount,
+    trail_percent: spec.trail_percent,
+    time_in_force: spec.time_in_force,
+    take_profit_price: spec.take_profit_price,
+    stop_loss_price: spec.stop_loss_price
+  };
+}
+
+/**
+ * The spec stored on an execution. Rows written without one (older rows,
+ * paths that never set a type) carry the column default 'limit' — without a
+ * limit price that is a market order, as it always was.
+ */
+export function orderSpecOf(execution: OrderSpecInput): OrderSpec {
+  const rawLimit = toNumber(execution.limit_price);
+  const limit = rawLimit !== null && rawLimit > 0 ? rawLimit : null;
+  const stored = execution.order_type && isOrderType(execution.order_type) ? execution.order_type : null;
+  return {
+    order_type: stored && !(stored === 'limit' && limit === null) ? stored : limit !== null ? 'limit' : 'market',
+    limit_price: limit,
+    stop_price: toNumber(execution.stop_price),
+    trail_amount: toNumber(execution.trail_amount),
+    trail_percent: toNumber(execution.trail_percent),
+    time_in_force: execution.time_in_force && isTimeInForce(execution.time_in_force) ? execution.time_in_force : 'day',
+    take_profit_price: toNumber(execution.take_profit_price),
+    stop_loss_price: toNumber(execution.stop_loss_price)
+  };
+}
+
+/** Limit price the broker should see — only limit and stop_limit orders carry one */
+export function brokerLimitPrice(spec: OrderSpec): number | null {
+  return spec.order_type === 'limit' || spec.order_type === 'stop_limit' ? spec.limit_price : null;
+}
+
+/** Short label for logs and notifications, e.g. "STOP_LIMIT 101.5 / stop 101 GTC" */
+export function describeOrderSpec(spec: OrderSpec): string {
+  const parts: string[] = [spec.order_type.toUpperCase()];
+  if (spec.order_type === 'limit' || spec.order_type === 'stop_limit') parts.push(`${spec.limit_price}`);
+  if (spec.stop_price !== null) parts.push(`stop ${spec.stop_price}`);
+  if (spec.trail_amount !== null) parts.push(`trail $${spec.trail_amount}`);
+  if (spec.trail_percent !== null) parts.push(`trail ${spec.trail_percent}%`);
+  parts.push(spec.time_in_force.toUpperCase());
+  if (spec.take_profit_price !== null) parts.push(`TP ${spec.take_profit_price}`);
+  if (spec.stop_loss_price !== null) parts.push(`SL ${spec.stop_loss_price}`);
+  return parts.join(' ');
+}
+
+/**
+ * Webhook events whose executions reduce or close a position (sell a long /
+ * buy back a short) rather than open or add to one. They skip entry risk
+ * limits, survive the daily reset and the kill switch, and book as exits.
+ */
+export const EXIT_EVENTS = ['EXIT', 'PARTIAL_EXIT'] as const;
+
+/** Whether an execution's raw_payload is an exit order */
+export function isExitPayload(rawPayload: string | null | undefined): boolean {
+  if (!rawPayload) return false;
+  try {
+    return (EXIT_EVENTS as readonly string[]).includes(JSON.parse(rawPayload).event);
+  } catch {
+    return false;
+  }
+}
+
+/** raw_payload matchers for exit executions, for Prisma `NOT` / `OR` filters */
+export const EXIT_PAYLOAD_FILTERS = EXIT_EVENTS.map(event => ({ raw_payload: { contains: `"event":"${event}"` } }));
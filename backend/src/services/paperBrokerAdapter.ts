@@ -0,0 +1,415 @@
+import fs from 'fs';
+import { prisma } from '../index';
+import { fetchTimesales, TradierBar } from './tradierService';
+import { fetchPolygonTimesales } from './polygonService';
+import {
+  BrokerAdapter,
+  BrokerOrderChanges,
+  BrokerOrderRequest,
+  BrokerOrderState,
+  BrokerOrderStatus,
+  BrokerPosition,
+  BrokerResult
+} from './brokerAdapter';
+
+/**
+ * Built-in paper broker — zero broker risk.
+ *
+ * Takes the same order forwardToBroker would send to a real broker and fills
+ * it against 1-minute bars (Tradier timesales, Polygon fallback). Fills are
+ * simulated lazily: each getOrder() from brokerOrderSync walks the completed
+ * bars since the last check, and the sync feeds any new fills through
+ * handleConfirmedSignal exactly like a real broker's.
+ *
+ * Fill model, per completed bar after submission:
+ *   - limit buy fills when the bar's low touches the limit, at min(open, limit);
+ *     limit sell when the high touches it, at max(open, limit)
+ *   - market orders fill at the bar's open
+ *   - stop buy triggers when the high reaches the stop (sell: the low), at
+ *     max(open, stop) / min(open, stop); a stop then fills like a market
+ *     order at that price, a stop_limit works its limit from there
+ *   - trailing_stop tracks the best price since submission (the first bar's
+ *     open, then highs for a sell / lows for a buy) and triggers like a stop
+ *     at that extreme ∓ the trail
+ *   - ioc / fok only get the first bar; fok fills all of it there or nothing
+ *   - paper_slippage_pct moves the price against the order (never through a limit)
+ *   - paper_max_volume_pct caps each bar's fill at that share of the bar's
+ *     volume, so large orders fill partially over several bars
+ *
+ * An order with take_profit_price / stop_loss_price places them as child
+ * orders (limit / stop, gtc) once it has fully filled. They work from the
+ * next bar; the first to fill completely cancels the other (OCO).
+ *
+ * PAPER_BARS_FIXTURE (JSON file: { "TICKER": [{ open, high, low, close, volume }, ...] })
+ * replaces market data: bar i is replayed as the (i+1)th minute after the
+ * minute the order was submitted in. Useful for offline runs.
+ */
+
+export interface PaperBrokerOptions {
+  slippage_pct: number;
+  max_volume_pct: number;
+}
+
+interface SimBar {
+  start: number;     // ms
+  open: number;
+  high: number;
+  low: number;
+  volume: number;
+}
+
+const BAR_MS = 60 * 1000;
+
+const toNumber = (value: any): number | null => {
+  if (value === null || value === undefined) return null;
+  const n = parseFloat(value.toString());
+  return Number.isFinite(n) ? n : null;
+};
+
+/** 'YYYY-MM-DD HH:mm' in ET */
+function etDateTime(date: Date): string {
+  return date.toLocaleString('sv-SE', { timeZone: 'America/New_York' }).slice(0, 16);
+}
+
+let fixtureCache: { path: string; bars: Record<string, any[]> } | null = null;
+
+function loadFixture(): Record<string, any[]> | null {
+  const path = process.env.PAPER_BARS_FIXTURE;
+  if (!path) return null;
+  if (fixtureCache?.path !== path) {
+    fixtureCache = { path, bars: JSON.parse(fs.readFileSync(path, 'utf-8')) };
+  }
+  return fixtureCache.bars;
+}
+
+function toSimBar(bar: TradierBar): SimBar {
+  return { start: bar.timestamp * 1000, open: bar.open, high: bar.high, low: bar.low, volume: bar.volume };
+}
+
+/** Completed 1-minute bars that started after `after`, oldest first */
+async function completedBarsSince(symbol: string, submittedBar: Date, after: Date): Promise<SimBar[]> {
+  const now = Date.now();
+  const fixture = loadFixture();
+  let bars: SimBar[];
+
+  if (fixture) {
+    bars = (fixture[symbol] ?? []).map((bar: any, i: number) => ({
+      start: submittedBar.getTime() + (i + 1) * BAR_MS,
+      open: Number(bar.open),
+      high: Number(bar.high),
+      low: Number(bar.low),
+      volume: Number(bar.volume ?? 0)
+    }));
+  } else {
+    const from = new Date(after.getTime());
+    const to = new Date(now);
+    bars = (await fetchTimesales(symbol, etDateTime(from), etDateTime(to), 'all')).map(toSimBar);
+    if (bars.length === 0 && process.env.POLYGON_API_KEY) {
+      bars = (await fetchPolygonTimesales(symbol, etDateTime(from).slice(0, 10), etDateTime(to).slice(0, 10))).map(toSimBar);
+    }
+  }
+
+  return bars
+    .filter(bar => bar.start > after.getTime() && bar.start + BAR_MS <= now)
+    .sort((a, b) => a.start - b.start);
+}
+
+function applySlippage(price: number, side: string, limit: number | null, slippagePct: number): number {
+  const slipped = side === 'buy' ? price * (1 + slippagePct / 100) : price * (1 - slippagePct / 100);
+  if (limit === null) return slipped;
+  return side === 'buy' ? Math.min(slipped, limit) : Math.max(slipped, limit);
+}
+
+/** Fill price for a limit order in this bar, or null if the limit wasn't reached */
+function limitFillPrice(side: string, limit: number, bar: SimBar): number | null {
+  if (side === 'buy' && bar.low <= limit) return Math.min(bar.open, limit);
+  if (side === 'sell' && bar.high >= limit) return Math.max(bar.open, limit);
+  return null;
+}
+
+/** Price a stop at `level` triggers at in this bar, or null */
+function stopTriggerPrice(side: string, level: number, bar: SimBar): number | null {
+  if (side === 'buy') return bar.high >= level ? Math.max(bar.open, level) : null;
+  return bar.low <= level ? Math.min(bar.open, level) : null;
+}
+
+function trailingStopLevel(side: string, extreme: number, amount: number | null, percent: number | null): number {
+  const trail = amount ?? extreme * (percent ?? 0) / 100;
+  return side === 'sell' ? extreme - trail : extreme + trail;
+}
+
+async function toStatus(order: any): Promise<BrokerOrderStatus> {
+  const status: BrokerOrderStatus = {
+    broker_order_id: order.id,
+    state: order.status as BrokerOrderState,
+    filled_quantity: order.filled_quantity,
+    avg_fill_price: toNumber(order.avg_fill_price),
+    raw: order
+  };
+  if (order.take_profit_price !== null || order.stop_loss_price !== null) {
+    const legs = await prisma.paperOrder.findMany({ where: { parent_id: order.id } });
+    status.legs = legs.map(leg => ({
+      kind: leg.order_type === 'limit' ? 'take_profit' as const : 'stop_loss' as const,
+      broker_order_id: leg.id
+    }));
+  }
+  return status;
+}
+
+/** Place a filled order's take-profit / stop-loss as child orders */
+async function placePaperLegs(order: any, quantity: number, filledBarAt: Date): Promise<void> {
+  const side = order.side === 'buy' ? 'sell' : 'buy';
+  const legs = [
+    { suffix: 'tp', order_type: 'limit', limit_price: order.take_profit_price, stop_price: null },
+    { suffix: 'sl', order_type: 'stop', limit_price: null, stop_price: order.stop_loss_price }
+  ].filter(leg => leg.limit_price !== null || leg.stop_price !== null);
+
+  for (const leg of legs) {
+    await prisma.paperOrder.upsert({
+      where: { client_order_id: `${order.client_order_id}-${leg.suffix}` },
+      update: {},
+      create: {
+        client_order_id: `${order.client_order_id}-${leg.suffix}`,
+        execution_id: order.execution_id,
+        parent_id: order.id,
+        symbol: order.symbol,
+        side,
+        quantity,
+        order_type: leg.order_type,
+        limit_price: leg.limit_price,
+        stop_price: leg.stop_price,
+        time_in_force: 'gtc',
+        // Same bar clock as the parent (fixtures replay from its submission), starting after the fill
+        submitted_at: order.submitted_at,
+        last_bar_at: filledBarAt
+      }
+    });
+  }
+  console.log(`📝 Paper ${order.symbol} legs placed: ${legs.map(l => l.suffix.toUpperCase()).join(' + ')} x${quantity}`);
+}
+
+/** Simulate fills on a working order up to the last completed bar */
+export async function advancePaperOrder(order: any, options: PaperBrokerOptions): Promise<any> {
+  if (order.status !== 'accepted' && order.status !== 'partially_filled') return order;
+
+  // The bar the order arrived in can't be replayed fairly — start with the next one
+  const submittedBar = new Date(Math.floor(order.submitted_at.getTime() / BAR_MS) * BAR_MS);
+  const after = order.last_bar_at ?? submittedBar;
+  const bars = await completedBarsSince(order.symbol, submittedBar, after);
+  if (bars.length === 0) return order;
+
+  const limit = toNumber(order.limit_price);
+  const stop = toNumber(order.stop_price);
+  const trailAmount = toNumber(order.trail_amount);
+  const trailPercent = toNumber(order.trail_percent);
+  const needsTrigger = order.order_type === 'stop' || order.order_type === 'stop_limit' || order.order_type === 'trailing_stop';
+  const immediate = order.time_in_force === 'ioc' || order.time_in_force === 'fok';
+  let triggeredAt: Date | null = order.triggered_at;
+  let extreme = toNumber(order.trail_extreme);
+  let filled = order.filled_quantity;
+  let notional = (toNumber(order.avg_fill_price) ?? 0) * filled;
+  let lastBarAt = order.last_bar_at;
+
+  for (const bar of immediate ? bars.slice(0, 1) : bars) {
+    if (filled >= order.quantity) break;
+    lastBarAt = new Date(bar.start);
+
+    let price: number | null = null;
+    if (needsTrigger && !triggeredAt) {
+      let level = stop;
+      if (order.order_type === 'trailing_stop') {
+        extreme = extreme ?? bar.open;
+        level = trailingStopLevel(order.side, extreme, trailAmount, trailPercent);
+        extreme = order.side === 'sell' ? Math.max(extreme, bar.high) : Math.min(extreme, bar.low);
+      }
+      const triggered = level !== null ? stopTriggerPrice(order.side, level, bar) : null;
+      if (triggered === null) continue;
+      triggeredAt = new Date(bar.start);
+      // From the trigger on the bar trades like it opened at the trigger price
+      price = limit === null ? triggered : limitFillPrice(order.side, limit, { ...bar, open: triggered });
+    } else {
+      price = limit === null ? bar.open : limitFillPrice(order.side, limit, bar);
+    }
+    if (price === null || !(price > 0)) continue;
+
+    const remaining = order.quantity - filled;
+    const capacity = options.max_volume_pct >= 100
+      ? remaining
+      : Math.floor(bar.volume * options.max_volume_pct / 100);
+    const quantity = Math.min(remaining, capacity);
+    if (quantity < 1) continue;
+
+    const fillPrice = applySlippage(price, order.side, limit, options.slippage_pct);
+    notional += fillPrice * quantity;
+    filled += quantity;
+    console.log(`📝 Paper fill ${order.symbol} ${order.side} ${quantity} @ ${fillPrice.toFixed(4)} (${filled}/${order.quantity})`);
+  }
+
+  let status = filled >= order.quantity ? 'filled' : filled > 0 ? 'partially_filled' : 'accepted';
+  if (immediate && status !== 'filled') {
+    if (order.time_in_force === 'fok') {
+      filled = 0;
+      notional = 0;
+    }
+    status = 'cancelled';
+  }
+
+  const updated = await prisma.paperOrder.update({
+    where: { id: order.id },
+    data: {
+      filled_quantity: filled,
+      avg_fill_price: filled > 0 ? (notional / filled).toString() : null,
+      status,
+      last_bar_at: lastBarAt,
+      triggered_at: triggeredAt,
+      trail_extreme: extreme !== null ? extreme.toString() : null
+    }
+  });
+
+  if (status === 'filled' && order.parent_id === null && (order.take_profit_price !== null || order.stop_loss_price !== null)) {
+    await placePaperLegs(order, filled, lastBarAt);
+  }
+  if (status === 'filled' && order.parent_id !== null) {
+    // One-cancels-other
+    await prisma.paperOrder.updateMany({
+      where: { parent_id: order.parent_id, id: { not: order.id }, status: { in: ['accepted', 'partially_filled'] } },
+      data: { status: 'cancelled' }
+    });
+  }
+  return updated;
+}
+
+export function createPaperBrokerAdapter(options: PaperBrokerOptions): BrokerAdapter {
+  return {
+    name: 'paper',
+    tracksOrders: true,
+
+    configurationError() {
+      return null;
+    },
+
+    async submitOrder(order: BrokerOrderRequest): Promise<BrokerResult> {
+      const payload = {
+        symbol: order.symbol,
+        side: order.side,
+        quantity: order.quantity,
+        order_type: order.order_type,
+        limit_price: order.limit_price,
+        stop_price: order.stop_price,
+        trail_amount: order.trail_amount,
+        trail_percent: order.trail_percent,
+        time_in_force: order.time_in_force,
+        take_profit_price: order.take_profit_price,
+        stop_loss_price: order.stop_loss_price,
+        client_order_id: order.client_order_id
+      };
+
+      // Like a real broker, a repeated client order id returns the original order
+      const paperOrder = await prisma.paperOrder.upsert({
+        where: { client_order_id: order.client_order_id },
+        update: {},
+        create: {
+          client_order_id: order.client_order_id,
+          execution_id: order.execution_id,
+          symbol: order.symbol,
+          side: order.side,
+          quantity: order.quantity,
+          order_type: order.order_type,
+          limit_price: order.limit_price,
+          stop_price: order.stop_price,
+          trail_amount: order.trail_amount,
+          trail_percent: order.trail_percent,
+          time_in_force: order.time_in_force,
+          take_profit_price: order.take_profit_price,
+          stop_loss_price: order.stop_loss_price
+        }
+      });
+
+      return {
+        success: true,
+        broker_order_id: paperOrder.id,
+        state: paperOrder.status as BrokerOrderState,
+        request: { url: 'paper://orders', payload },
+        response: { id: paperOrder.id, status: paperOrder.status },
+        statusCode: 200
+      };
+    },
+
+    async cancelOrder(brokerOrderId: string): Promise<BrokerResult> {
+      const order = await prisma.paperOrder.findUnique({ where: { id: brokerOrderId } });
+      if (!order) return { success: false, broker_order_id: brokerOrderId, error: 'Paper order not found', statusCode: 404 };
+      if (order.status === 'filled' || order.status === 'cancelled') {
+        return { success: false, broker_order_id: brokerOrderId, error: `Paper order already ${order.status}`, statusCode: 422 };
+      }
+
+      await prisma.paperOrder.update({ where: { id: brokerOrderId }, data: { status: 'cancelled' } });
+      return { success: true, broker_order_id: brokerOrderId, state: 'cancelled', statusCode: 200 };
+    },
+
+    async replaceOrder(brokerOrderId: string, changes: BrokerOrderChanges): Promise<BrokerResult> {
+      const order = await prisma.paperOrder.findUnique({ where: { id: brokerOrderId } });
+      if (!order) return { success: false, broker_order_id: brokerOrderId, error: 'Paper order not found', statusCode: 404 };
+      if (order.status !== 'accepted' && order.status !== 'partially_filled') {
+        return { success: false, broker_order_id: brokerOrderId, error: `Paper order already ${order.status}`, statusCode: 422 };
+      }
+      if (changes.quantity !== undefined && changes.quantity < order.filled_quantity) {
+        return { success: false, broker_order_id: brokerOrderId, error: `Quantity below the ${order.filled_quantity} already filled`, statusCode: 422 };
+      }
+
+      const updated = await prisma.paperOrder.update({
+        where: { id: brokerOrderId },
+        data: {
+          ...(changes.quantity !== undefined && { quantity: changes.quantity }),
+          ...(changes.limit_price !== undefined && { limit_price: changes.limit_price.toString() }),
+          ...(changes.stop_price !== undefined && { stop_price: changes.stop_price.toString() }),
+          ...(changes.trail_amount !== undefined && { trail_amount: changes.trail_amount.toString() }),
+          ...(changes.trail_percent !== undefined && { trail_percent: changes.trail_percent.toString() }),
+          ...(changes.quantity !== undefined && changes.quantity === order.filled_quantity && { status: 'filled' })
+        }
+      });
+      return { success: true, broker_order_id: brokerOrderId, state: updated.status as BrokerOrderState, statusCode: 200 };
+    },
+
+    async getOrder(brokerOrderId: string): Promise<BrokerOrderStatus | null> {
+      const order = await prisma.paperOrder.findUnique({ where: { id: brokerOrderId } });
+      if (!order) return null;
+      return toStatus(await advancePaperOrder(order, options));
+    },
+
+    async findOrder(clientOrderId: string): Promise<BrokerOrderStatus | null> {
+      const order = await prisma.paperOrder.findUnique({ where: { client_order_id: clientOrderId } });
+      return order ? toStatus(order) : null;
+    },
+
+    async listPositions(): Promise<BrokerPosition[]> {
+      const orders = await prisma.paperOrder.findMany({
+        where: { filled_quantity: { gt: 0 } },
+        orderBy: { submitted_at: 'asc' }
+      });
+
+      // Net quantity per symbol with average cost of the open side
+      const positions = new Map<string, { quantity: number; avg: number | null }>();
+      for (const order of orders) {
+        const price = toNumber(order.avg_fill_price) ?? 0;
+        const signed = order.side === 'buy' ? order.filled_quantity : -order.filled_quantity;
+        const current = positions.get(order.symbol) ?? { quantity: 0, avg: null };
+        const next = current.quantity + signed;
+
+        if (current.quantity === 0 || Math.sign(signed) === Math.sign(current.quantity)) {
+          const total = Math.abs(current.quantity) + Math.abs(signed);
+          current.avg = ((current.avg ?? 0) * Math.abs(current.quantity) + price * Math.abs(signed)) / total;
+        } else if (Math.sign(next) !== Math.sign(current.quantity) && next !== 0) {
+          // Flipped through flat — the remainder opened at this order's price
+          current.avg = price;
+        }
+        current.quantity = next;
+        if (next === 0) current.avg = null;
+        positions.set(order.symbol, current);
+      }
+
+      return [...positions.entries()]
+        .filter(([, p]) => p.quantity !== 0)
+        .map(([symbol, p]) => ({ symbol, quantity: p.quantity, avg_entry_price: p.avg }));
+    }
+  };
+}
@@ -0,0 +1,174 @@
+import { prisma } from '../index';
+
+/**
+ * Performance analytics over closed round trips (the `trades` journal).
+ *
+ * Answers "do the scoring and mode gates actually make money": the same
+ * metrics are computed overall and per value of each dimension below.
+ * Only closed, priced trades count — open and unpriced trades have no P&L.
+ *
+ * Hour of day is the ET hour the position opened.
+ */
+
+export const PERFORMANCE_DIMENSIONS = {
+  strategy: 'strategy_id',
+  timeframe: 'timeframe',
+  tier: 'quality_tier',
+  sec_bias: 'sec_bias',
+  bias: 'snapshot_bias',
+  pre_fall_tier: 'pre_fall_tier',
+  section: 'snapshot_section',
+  hour: 'hour',
+  mode: 'entry_mode'
+} as const;
+
+export type PerformanceDimension = keyof typeof PERFORMANCE_DIMENSIONS;
+
+export interface PerformanceMetrics {
+  trades: number;
+  wins: number;
+  losses: number;
+  breakeven: number;
+  win_rate: number | null;         // % of trades
+  total_pnl: number;
+  avg_win: number | null;
+  avg_loss: number | null;         // negative
+  expectancy: number | null;       // average P&L per trade
+  profit_factor: number | null;    // gross win / gross loss; null when there are no losses
+  max_drawdown: number;            // largest peak-to-trough drop of cumulative P&L, in closing order
+  avg_hold_seconds: number | null;
+}
+
+export interface PerformanceGroup extends PerformanceMetrics {
+  key: string;
+}
+
+export interface PerformanceReport {
+  from: string | null;
+  to: string | null;
+  overall: PerformanceMetrics;
+  groups: Partial<Record<PerformanceDimension, PerformanceGroup[]>>;
+}
+
+interface ClosedTrade {
+  realized_pnl: number;
+  holding_seconds: number | null;
+  closed_at: Date;
+  [dimension: string]: any;
+}
+
+const round = (n: number, dp = 2) => parseFloat(n.toFixed(dp));
+
+function openedHourET(openedAt: Date): string {
+  const hour = openedAt.toLocaleString('en-US', { timeZone: 'America/New_York', hour: '2-digit', hour12: false });
+  // 'en-US' renders midnight as 24
+  return String(parseInt(hour, 10) % 24).padStart(2, '0');
+}
+
+/** Metrics for a set of trades already ordered by closed_at */
+export function computeMetrics(trades: ClosedTrade[]): PerformanceMetrics {
+  let grossWin = 0;
+  let grossLoss = 0;
+  let wins = 0;
+  let losses = 0;
+  let cumulative = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  let holdTotal = 0;
+  let holdCount = 0;
+
+  for (const trade of trades) {
+    const pnl = trade.realized_pnl;
+    if (pnl >= 0.005) {
+      wins++;
+      grossWin += pnl;
+    } else if (pnl <= -0.005) {
+      losses++;
+      grossLoss += -pnl;
+    }
+
+    cumulative += pnl;
+    peak = Math.max(peak, cumulative);
+    maxDrawdown = Math.max(maxDrawdown, peak - cumulative);
+
+    if (trade.holding_seconds != null) {
+      holdTotal += trade.holding_seconds;
+      holdCount++;
+    }
+  }
+
+  const count = trades.length;
+  return {
+    trades: count,
+    wins,
+    losses,
+    breakeven: count - wins - losses,
+    win_rate: count ? round((wins / count) * 100, 1) : null,
+    total_pnl: round(cumulative),
+    avg_win: wins ? round(grossWin / wins) : null,
+    avg_loss: losses ? round(-grossLoss / losses) : null,
+    expectancy: count ? round(cumulative / count) : null,
+    profit_factor: grossLoss > 0 ? round(grossWin / grossLoss) : null,
+    max_drawdown: round(maxDrawdown),
+    avg_hold_seconds: holdCount ? Math.round(holdTotal / holdCount) : null
+  };
+}
+
+function groupBy(trades: ClosedTrade[], field: string): PerformanceGroup[] {
+  const buckets = new Map<string, ClosedTrade[]>();
+  for (const trade of trades) {
+    const key = trade[field] ?? 'unknown';
+    if (!buckets.has(key)) buckets.set(key, []);
+    buckets.get(key)!.push(trade);
+  }
+  return [...buckets.entries()]
+    .map(([key, bucket]) => ({ key, ...computeMetrics(bucket) }))
+    .sort((a, b) => b.trades - a.trades || a.key.localeCompare(b.key));
+}
+
+/**
+ * Performance report for trades closed in [from, to]. `dimensions` limits
+ * which groupings are returned (default: all).
+ */
+export async function computePerformance(options: {
+  from?: Date | null;
+  to?: Date | null;
+  dimensions?: PerformanceDimension[];
+  where?: Record<string, any>;
+} = {}): Promise<PerformanceReport> {
+  const closedAt: any = { not: null };
+  if (options.from) closedAt.gte = options.from;
+  if (options.to) closedAt.lte = options.to;
+
+  const rows = await prisma.trade.findMany({
+    where: {
+      ...options.where,
+      closed_at: closedAt,
+      realized_pnl: { not: null }
+    },
+    orderBy: { closed_at: 'asc' }
+  });
+
+  const trades: ClosedTrade[] = rows.map(row => ({
+    ...row,
+    realized_pnl: Number(row.realized_pnl),
+    closed_at: row.closed_at!,
+    hour: openedHourET(row.opened_at)
+  }));
+
+  const dimensions = options.dimensions?.length
+    ? options.dimensions
+    : (Object.keys(PERFORMANCE_DIMENSIONS) as PerformanceDimension[]);
+
+  const groups: PerformanceReport['groups'] = {};
+  for (const dimension of dimensions) {
+    groups[dimension] = groupBy(trades, PERFORMANCE_DIMENSIONS[dimension]);
+  }
+
+  return {
+    from: options.from ? options.from.toISOString() : null,
+    to: options.to ? options.to.toISOString() : null,
+    overall: computeMetrics(trades),
+    groups
+  };
+}
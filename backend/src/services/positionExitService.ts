@@ -0,0 +1,311 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { recordClosedTrade, adjustSessionPnl } from './killSwitchService';
+import { isClosingOrder, syncTrade } from './tradeJournalService';
+
+/**
+ * Position exit bookkeeping.
+ *
+ * Every path that reduces or closes a position goes through here so the
+ * position record carries its own outcome:
+ *   - exit_price       quantity-weighted average over priced (partial) exits
+ *   - exited_quantity  shares closed so far
+ *   - realized_pnl     cumulative, net of fees (Long: exit − entry, Short: entry − exit)
+ *   - close_reason     exit_signal | sl_hit | take_profit | mark_flat | manual |
+ *                      entry_cancelled (set on full close)
+ *   - holding_seconds  opened_at → closed_at
+ *
+ * The exit price is the execution's CONFIRMED fill price when it is already
+ * known, otherwise its limit price (or the stop price for SL_HIT). When a
+ * CONFIRMED arrives after the close was booked at the limit price,
+ * reconcileExitFill() reprices the exit and the session P&L.
+ *
+ * An exit with no known price still closes/reduces the position; it just
+ * isn't priced.
+ */
+
+export type CloseReason = 'exit_signal' | 'sl_hit' | 'take_profit' | 'mark_flat' | 'manual' | 'entry_cancelled';
+
+// Execution statuses whose entry intent accounting has already booked on the position
+const BOOKED_STATUSES = ['executing', 'executed', 'partially_filled', 'failed'];
+
+export interface PositionExit {
+  quantity: number;        // shares closed — capped at the open quantity
+  exit_price: any;         // null/undefined/0 → unpriced
+  reason: CloseReason;
+  fees?: number;
+  at?: Date;
+}
+
+export interface PositionExitResult {
+  data: Prisma.PositionUpdateInput;
+  quantity: number;
+  exit_price: number | null;
+  pnl: number | null;
+  closed: boolean;
+}
+
+const toNumber = (value: any): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const n = parseFloat(value.toString());
+  return Number.isFinite(n) ? n : null;
+};
+
+/** Realized P&L for closing `quantity` of a position, or null if a price is unknown */
+export function computeRealizedPnl(side: string, quantity: number, entryPrice: any, exitPrice: any): number | null {
+  const entry = toNumber(entryPrice);
+  const exit = toNumber(exitPrice);
+  if (!entry || !exit || !quantity) return null;
+  const perShare = side === 'Short' ? entry - exit : exit - entry;
+  return perShare * quantity;
+}
+
+/** Price an execution closed at: the CONFIRMED fill if we have it, else its limit */
+export function exitPriceFor(execution: { fill_price?: any; limit_price?: any }): number | null {
+  return toNumber(execution.fill_price) || toNumber(execution.limit_price) || null;
+}
+
+/**
+ * Compute the position update for an exit without writing it — usable inside
+ * a transaction. A full close leaves `quantity` as it was (the size that was
+ * closed), matching how positions have always been closed.
+ */
+export function buildPositionExit(position: any, exit: PositionExit): PositionExitResult {
+  const openQty = position.quantity;
+  const quantity = Math.max(0, Math.min(exit.quantity, openQty));
+  const closed = quantity >= openQty;
+  const at = exit.at ?? new Date();
+  const fees = exit.fees && exit.fees > 0 ? exit.fees : 0;
+
+  const exitPrice = toNumber(exit.exit_price) || null;
+  const gross = exitPrice !== null ? computeRealizedPnl(position.side, quantity, position.entry_price, exitPrice) : null;
+  const pnl = gross !== null ? gross - fees : null;
+
+  const prevExited = position.exited_quantity ?? 0;
+  const prevExitPrice = toNumber(position.exit_price);
+  const prevPnl = toNumber(position.realized_pnl);
+  const prevFees = toNumber(position.fees) ?? 0;
+
+  const data: Prisma.PositionUpdateInput = {
+    exited_quantity: prevExited + quantity,
+    fees: prevFees + fees
+  };
+
+  if (exitPrice !== null && quantity > 0) {
+    // Unpriced earlier exits carry no weight in the average
+    const prevWeight = prevExitPrice !== null ? prevExited : 0;
+    data.exit_price = (((prevExitPrice ?? 0) * prevWeight) + exitPrice * quantity) / (prevWeight + quantity);
+  }
+  if (pnl !== null) {
+    data.realized_pnl = (prevPnl ?? 0) + pnl;
+  } else if (fees) {
+    data.realized_pnl = (prevPnl ?? 0) - fees;
+  }
+
+  if (closed) {
+    const openedAt = position.opened_at ? new Date(position.opened_at) : null;
+    data.closed_at = at;
+    data.close_reason = exit.reason;
+    data.holding_seconds = openedAt ? Math.max(0, Math.round((at.getTime() - openedAt.getTime()) / 1000)) : null;
+  } else {
+    data.quantity = openQty - quantity;
+  }
+
+  return { data, quantity, exit_price: exitPrice, pnl, closed };
+}
+
+/**
+ * Apply an exit to a position, feed the realized P&L to the kill switch and,
+ * when an execution caused it, link the execution to the position so a later
+ * CONFIRMED can reprice it. A full close cancels the position's remaining
+ * take-profit / stop-loss orders.
+ */
+export async function applyPositionExit(
+  position: any,
+  exit: PositionExit & { source: string; execution_id?: string }
+): Promise<PositionExitResult> {
+  const result = buildPositionExit(position, exit);
+
+  await prisma.position.update({
+    where: { id: position.id },
+    data: result.data
+  });
+
+  if (exit.execution_id) {
+    await prisma.execution.update({
+      where: { id: exit.execution_id },
+      data: { position_id: position.id }
+    });
+  }
+
+  if (result.pnl !== null) {
+    await recordClosedTrade({ ticker: position.ticker, pnl: result.pnl, source: exit.source });
+  }
+
+  if (result.closed) {
+    const { cancelProtectiveOrders } = await import('./protectiveOrderService');
+    await cancelProtectiveOrders(position.id, exit.reason);
+  }
+
+  await syncTrade(position.id);
+  return result;
+}
+
+/**
+ * A CONFIRMED fill arrived for an exit that was booked at its limit price:
+ * shift the position's average exit and realized P&L by the difference and
+ * correct the session P&L. Only fills confirmed after the execution ran are
+ * repriced — an earlier fill was already used as the exit price.
+ */
+export async function reconcileExitFill(
+  execution: {
+    id: string;
+    ticker: string;
+    order_action: string;
+    position_id?: string | null;
+    limit_price?: any;
+    executed_at?: Date | null;
+    confirmed_at?: Date | null;
+    quantity: number;
+  },
+  fillPrice: number,
+  filledQty: number
+): Promise<number | null> {
+  if (!execution.position_id || !execution.executed_at) return null;
+  if (execution.confirmed_at && execution.confirmed_at < execution.executed_at) return null;
+
+  const bookedPrice = toNumber(execution.limit_price);
+  if (!bookedPrice || !(fillPrice > 0)) return null;
+
+  const position: any = await prisma.position.findUnique({ where: { id: execution.position_id } });
+  if (!position || !position.exited_quantity || toNumber(position.exit_price) === null) return null;
+  // Entries are linked to their position too — only exits are repriced here
+  if (!isClosingOrder(position.side, execution.order_action)) return null;
+
+  const quantity = Math.min(filledQty, execution.quantity);
+  // Booked price in the entry slot gives (fill − booked) for Long, (booked − fill) for Short
+  const pnlDelta = computeRealizedPnl(position.side, quantity, bookedPrice, fillPrice);
+  if (!pnlDelta) return null;
+
+  const exitPrice = toNumber(position.exit_price)!;
+  await prisma.position.update({
+    where: { id: position.id },
+    data: {
+      exit_price: exitPrice + ((fillPrice - bookedPrice) * quantity) / position.exited_quantity,
+      realized_pnl: (toNumber(position.realized_pnl) ?? 0) + pnlDelta
+    }
+  });
+
+  await adjustSessionPnl(position.ticker, pnlDelta, 'confirmed_fill');
+  await syncTrade(position.id);
+  console.log(`🔁 Repriced ${position.ticker} exit ${bookedPrice} → ${fillPrice} x${quantity} (P&L ${pnlDelta >= 0 ? '+' : ''}${pnlDelta.toFixed(2)})`);
+  return pnlDelta;
+}
+
+/**
+ * Intent accounting books an entry on the position when the order goes out.
+ * When the order then never fills — cancelled, or its delivery given up —
+ * take back the shares that didn't fill: the position shrinks by them, or
+ * is closed as 'entry_cancelled' when nothing is left. The execution is
+ * unlinked from the position. Pass the execution as it was before it was
+ * cancelled / failed. Fill accounting books only real fills, so there's
+ * nothing to take back. Returns the shares taken back.
+ */
+export async function unwindEntryPosition(execution: any, reason: string): Promise<number> {
+  if (!execution?.position_id || !BOOKED_STATUSES.includes(execution.status)) return 0;
+
+  const { isFillAccounting } = await import('./fillAccountingService');
+  if (await isFillAccounting()) return 0;
+
+  const position: any = await prisma.position.findUnique({ where: { id: execution.position_id } });
+  // Exits are linked to their position too — only entries are unwound
+  if (!position || position.closed_at || isClosingOrder(position.side, execution.order_action)) return 0;
+
+  const filled = Math.max(execution.filled_quantity ?? 0, execution.broker_filled_quantity ?? 0);
+  const unfilled = Math.min(Math.max(execution.quantity - filled, 0), position.quantity);
+  if (unfilled === 0) return 0;
+
+  const remaining = position.quantity - unfilled;
+  const closed = remaining <= 0 && filled === 0;
+  const at = new Date();
+  await prisma.$transaction([
+    prisma.position.update({
+      where: { id: position.id },
+      data: closed
+        ? {
+            closed_at: at,
+            close_reason: 'entry_cancelled',
+            holding_seconds: Math.max(0, Math.round((at.getTime() - new Date(position.opened_at).getTime()) / 1000))
+          }
+        : { quantity: Math.max(remaining, filled) }
+    }),
+    // Shares that filled keep the link — the entry did open them
+    ...(filled === 0 ? [prisma.execution.update({ where: { id: execution.id }, data: { position_id: null } })] : []),
+    prisma.auditLog.create({
+      data: {
+        event_type: 'entry_position_unwound',
+        ticker: position.ticker,
+        details: JSON.stringify({
+          execution_id: execution.id,
+          position_id: position.id,
+          quantity: unfilled,
+          position_quantity: closed ? 0 : Math.max(remaining, filled),
+          closed,
+          reason
+        })
+      }
+    })
+  ]);
+
+  if (closed) {
+    const { cancelProtectiveOrders } = await import('./protectiveOrderService');
+    await cancelProtectiveOrders(position.id, 'entry_cancelled');
+  }
+  await syncTrade(position.id);
+  console.log(`↩️ ${position.ticker}: took back ${unfilled} unfilled share(s) of entry ${execution.id}${closed ? ' — position closed' : ''} (${reason})`);
+  return unfilled;
+}
+
+/**
+ * A dead-lettered entry that was unwound went out after all (retried by
+ * hand) — book it on the position again: added to an open position on its
+ * side, or opening one at its limit price.
+ */
+export async function rebookEntryPosition(execution: any): Promise<void> {
+  if (execution.position_id) return;
+  const unwound = await prisma.auditLog.findFirst({
+    where: { event_type: 'entry_position_unwound', details: { contains: `"execution_id":"${execution.id}"` } }
+  });
+  if (!unwound) return;
+
+  const { isFillAccounting } = await import('./fillAccountingService');
+  if (await isFillAccounting()) return;
+
+  const side = execution.order_action === 'buy' ? 'Long' : 'Short';
+  const open = await prisma.position.findFirst({ where: { ticker: execution.ticker.toUpperCase(), closed_at: null } });
+  if (open && open.side !== side) {
+    console.warn(`⚠️ ${execution.ticker}: late entry ${execution.id} not re-booked — a ${open.side} position is open`);
+    return;
+  }
+
+  const position = open
+    ? await prisma.position.update({ where: { id: open.id }, data: { quantity: open.quantity + execution.quantity } })
+    : await prisma.position.create({
+        data: {
+          ticker: execution.ticker.toUpperCase(),
+          side,
+          quantity: execution.quantity,
+          entry_price: execution.limit_price || '0'
+        }
+      });
+  const { linkEntryExecution } = await import('./tradeJournalService');
+  await linkEntryExecution(execution.id, position.id);
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'entry_position_rebooked',
+      ticker: position.ticker,
+      details: JSON.stringify({ execution_id: execution.id, position_id: position.id, quantity: execution.quantity })
+    }
+  });
+  console.log(`↪️ ${position.ticker}: re-booked late entry ${execution.id} (${execution.quantity} share(s))`);
+}
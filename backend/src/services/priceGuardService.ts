@@ -0,0 +1,213 @@
+import { prisma } from '../index';
+import { fetchQuote, TradierQuote } from './tradierService';
+import { fetchPolygonQuote } from './polygonService';
+import { PushoverNotifications } from './pushoverService';
+import { isExitPayload } from './orderSpec';
+
+/**
+ * Fat-finger price guard.
+ *
+ * Right before an order is forwarded to the broker its limit_price is compared
+ * with a fresh quote (Tradier, Polygon fallback). TradingView price
+ * reconstruction (`limit_price_ticks * mintick`) produces wildly wrong prices
+ * when mintick is off, and nothing downstream would notice.
+ *
+ * Two checks, each optional:
+ *   - deviation:      |limit - reference| / reference > max_deviation_pct
+ *                     (reference = bid/ask midpoint, or last when there is no spread)
+ *   - outside_spread: limit is more than N ticks above the ask or below the bid
+ *
+ * On a violation the order is either rejected (status 'rejected') or held
+ * (status 'pending' with no delay timer) until someone presses Execute Now.
+ * EXIT orders are always held, never rejected — a position must stay closable.
+ *
+ * If no quote is available the order is allowed through; the guard only
+ * blocks on evidence.
+ */
+
+export type PriceGuardRule = 'deviation' | 'outside_spread';
+export type PriceGuardAction = 'hold' | 'reject';
+
+export interface PriceGuardViolation {
+  rule: PriceGuardRule;
+  reason: string;
+  limit_price: number;
+  bid: number | null;
+  ask: number | null;
+  last: number | null;
+  quote_source: 'tradier' | 'polygon';
+  deviation_pct: number;
+}
+
+interface GuardedOrder {
+  id: string;
+  ticker: string;
+  order_action: string;
+  quantity: number;
+  limit_price: any;
+  status?: string;
+  error_message?: string | null;
+  raw_payload?: string | null;
+}
+
+export const PRICE_GUARD_PREFIX = 'PRICE_GUARD';
+
+async function getSettingsSafe() {
+  try {
+    return await prisma.executionSettings.findFirst();
+  } catch (e: any) {
+    if (e.message?.includes('does not exist')) {
+      try {
+        const results = await prisma.$queryRawUnsafe(`SELECT * FROM execution_settings LIMIT 1`) as any[];
+        return results[0] || null;
+      } catch {
+        return null;
+      }
+    }
+    throw e;
+  }
+}
+
+function isExitOrder(order: GuardedOrder): boolean {
+  return isExitPayload(order.raw_payload);
+}
+
+/** US equity minimum price increment: $0.01 at or above $1, $0.0001 below */
+function tickSizeFor(price: number): number {
+  return price >= 1 ? 0.01 : 0.0001;
+}
+
+/** A live quote with a usable price — Tradier, then Polygon; null when neither has one */
+export async function fetchGuardQuote(ticker: string): Promise<{ quote: TradierQuote; source: 'tradier' | 'polygon' } | null> {
+  const tradier = await fetchQuote(ticker);
+  if (tradier && (tradier.last > 0 || (tradier.bid > 0 && tradier.ask > 0))) {
+    return { quote: tradier, source: 'tradier' };
+  }
+  if (process.env.POLYGON_API_KEY) {
+    const polygon = await fetchPolygonQuote(ticker);
+    if (polygon && (polygon.last > 0 || (polygon.bid > 0 && polygon.ask > 0))) {
+      return { quote: polygon, source: 'polygon' };
+    }
+  }
+  return null;
+}
+
+/** Held orders carry the guard reason in error_message and have no delay timer */
+export function isPriceGuardHold(order: GuardedOrder): boolean {
+  return order.status === 'pending' && !!order.error_message?.startsWith(PRICE_GUARD_PREFIX);
+}
+
+export function formatPriceGuardMessage(violation: PriceGuardViolation): string {
+  return `${PRICE_GUARD_PREFIX}[${violation.rule}]: ${violation.reason}`;
+}
+
+/**
+ * Compare the order's limit price with a live quote. Returns the first
+ * violation, or null if the price is sane, the guard is off, or no quote
+ * could be fetched. Read-only.
+ */
+export async function checkPriceGuard(order: GuardedOrder, settings?: any): Promise<PriceGuardViolation | null> {
+  const s: any = settings ?? await getSettingsSafe();
+  if (!s?.price_guard_enabled) return null;
+
+  const maxDeviationPct = s.price_guard_max_deviation_pct ? parseFloat(s.price_guard_max_deviation_pct.toString()) : null;
+  const maxTicksOutside = s.price_guard_max_ticks_outside ?? null;
+  if (!maxDeviationPct && maxTicksOutside === null) return null;
+
+  const limitPrice = order.limit_price ? parseFloat(order.limit_price.toString()) : 0;
+  if (!(limitPrice > 0)) return null;
+
+  const ticker = order.ticker.toUpperCase();
+  const fetched = await fetchGuardQuote(ticker);
+  if (!fetched) {
+    console.warn(`⚠️ Price guard: no quote for ${ticker} — allowing ${order.order_action} @ ${limitPrice}`);
+    return null;
+  }
+
+  const { quote, source } = fetched;
+  const bid = quote.bid > 0 ? quote.bid : null;
+  const ask = quote.ask > 0 ? quote.ask : null;
+  const last = quote.last > 0 ? quote.last : null;
+  const hasSpread = bid !== null && ask !== null && ask >= bid;
+  const reference = hasSpread ? (bid! + ask!) / 2 : last;
+  if (!reference) return null;
+
+  const deviationPct = Math.abs(limitPrice - reference) / reference * 100;
+  const base = { limit_price: limitPrice, bid, ask, last, quote_source: source, deviation_pct: parseFloat(deviationPct.toFixed(2)) };
+  const fmt = (n: number) => n.toFixed(n < 1 ? 4 : 2);
+
+  if (maxDeviationPct && deviationPct > maxDeviationPct) {
+    return {
+      ...base,
+      rule: 'deviation',
+      reason: `Limit $${fmt(limitPrice)} is ${deviationPct.toFixed(1)}% from ${hasSpread ? 'mid' : 'last'} $${fmt(reference)} (max ${maxDeviationPct}%)`
+    };
+  }
+
+  if (maxTicksOutside !== null && hasSpread) {
+    const tick = tickSizeFor(reference);
+    const distance = limitPrice > ask! ? limitPrice - ask! : limitPrice < bid! ? bid! - limitPrice : 0;
+    const ticksOutside = Math.round(distance / tick);
+    if (ticksOutside > maxTicksOutside) {
+      return {
+        ...base,
+        rule: 'outside_spread',
+        reason: `Limit $${fmt(limitPrice)} is ${ticksOutside} ticks outside bid/ask $${fmt(bid!)}/$${fmt(ask!)} (max ${maxTicksOutside})`
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Run the price guard for an execution about to be forwarded. On a violation
+ * the execution is rejected or held, a `price_guard_triggered` audit event is
+ * written and a Pushover alert sent. Returns the violation and what was done,
+ * so the caller can stop before forwarding.
+ */
+export async function enforcePriceGuard(
+  execution: GuardedOrder,
+  source: string
+): Promise<(PriceGuardViolation & { action: PriceGuardAction }) | null> {
+  const settings: any = await getSettingsSafe();
+  const violation = await checkPriceGuard(execution, settings);
+  if (!violation) return null;
+
+  const ticker = execution.ticker.toUpperCase();
+  const isExit = isExitOrder(execution);
+  const action: PriceGuardAction = !isExit && settings?.price_guard_action === 'reject' ? 'reject' : 'hold';
+
+  await prisma.execution.update({
+    where: { id: execution.id },
+    data: action === 'reject'
+      ? { status: 'rejected', error_message: formatPriceGuardMessage(violation) }
+      : { status: 'pending', delay_expires_at: null, error_message: formatPriceGuardMessage(violation) }
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'price_guard_triggered',
+      ticker,
+      details: JSON.stringify({
+        execution_id: execution.id,
+        source,
+        action,
+        order_action: execution.order_action,
+        quantity: execution.quantity,
+        is_exit: isExit,
+        ...violation
+      })
+    }
+  });
+
+  PushoverNotifications.priceGuard(ticker, {
+    action: execution.order_action,
+    quantity: execution.quantity,
+    status: action === 'reject' ? 'rejected' : 'held for approval',
+    reason: violation.reason
+  }).catch(err => console.error('Pushover notification error:', err));
+
+  console.warn(`🧮 Price guard ${action === 'reject' ? 'rejected' : 'held'} ${ticker} ${execution.order_action} (${source}): ${violation.reason}`);
+  return { ...violation, action };
+}
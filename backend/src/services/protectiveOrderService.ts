@@ -0,0 +1,212 @@
+import { prisma } from '../index';
+import { getBrokerAdapter, BrokerAdapter, BrokerOrderStatus } from './brokerAdapter';
+import { applyPositionExit } from './positionExitService';
+
+/**
+ * Protective orders — the take-profit / stop-loss legs an entry carried to
+ * the broker, recorded against the position they protect.
+ *
+ *   - attachProtectiveOrders()  when an entry is linked to its position, one
+ *                               'working' row per leg (quantity = filled or
+ *                               ordered shares)
+ *   - recordProtectiveLegs()    brokerOrderSync hands over the legs' own order
+ *                               ids once the broker reports them
+ *   - syncProtectiveOrders()    polls legs with an id; a filled leg closes the
+ *                               position (reason take_profit / sl_hit) and the
+ *                               other leg is cancelled
+ *   - cancelProtectiveOrders()  any other full close cancels what's left,
+ *                               at the broker when it can be reached
+ *
+ * Legs sent through the generic webhook can't be tracked — they stay
+ * 'working' as a record of what the broker was asked to hold until the
+ * position closes.
+ */
+
+const toNumber = (value: any): number | null => {
+  if (value === null || value === undefined) return null;
+  const n = parseFloat(value.toString());
+  return Number.isFinite(n) ? n : null;
+};
+
+export async function attachProtectiveOrders(executionId: string, positionId: string): Promise<void> {
+  const execution: any = await prisma.execution.findUnique({ where: { id: executionId } });
+  if (!execution || (execution.take_profit_price === null && execution.stop_loss_price === null)) return;
+
+  const side = execution.order_action === 'buy' ? 'sell' : 'buy';
+  const quantity = execution.filled_quantity ?? execution.quantity;
+  const legs = [
+    { kind: 'take_profit', order_type: 'limit', limit_price: execution.take_profit_price, stop_price: null },
+    { kind: 'stop_loss', order_type: 'stop', limit_price: null, stop_price: execution.stop_loss_price }
+  ].filter(leg => leg.limit_price !== null || leg.stop_price !== null);
+
+  for (const leg of legs) {
+    await prisma.protectiveOrder.upsert({
+      where: { execution_id_kind: { execution_id: executionId, kind: leg.kind } },
+      // A later partial fill of the same entry grows the leg
+      update: { quantity, position_id: positionId },
+      create: {
+        position_id: positionId,
+        execution_id: executionId,
+        kind: leg.kind,
+        order_type: leg.order_type,
+        side,
+        quantity,
+        limit_price: leg.limit_price,
+        stop_price: leg.stop_price,
+        time_in_force: execution.time_in_force === 'day' ? 'day' : 'gtc',
+        broker: execution.broker
+      }
+    });
+  }
+}
+
+/** Store the broker's ids for an entry's legs */
+export async function recordProtectiveLegs(executionId: string, broker: string, status: BrokerOrderStatus): Promise<void> {
+  for (const leg of status.legs ?? []) {
+    await prisma.protectiveOrder.updateMany({
+      where: { execution_id: executionId, kind: leg.kind, broker_order_id: null },
+      data: { broker, broker_order_id: leg.broker_order_id }
+    });
+  }
+}
+
+/** Working protective orders for a set of positions, grouped by position id */
+export async function protectiveOrdersByPosition(positionIds: string[]): Promise<Map<string, any[]>> {
+  const grouped = new Map<string, any[]>();
+  if (positionIds.length === 0) return grouped;
+
+  const orders = await prisma.protectiveOrder.findMany({
+    where: { position_id: { in: positionIds } },
+    orderBy: { created_at: 'asc' }
+  });
+  for (const order of orders) {
+    const list = grouped.get(order.position_id) ?? [];
+    list.push({
+      ...order,
+      limit_price: toNumber(order.limit_price),
+      stop_price: toNumber(order.stop_price),
+      avg_fill_price: toNumber(order.avg_fill_price)
+    });
+    grouped.set(order.position_id, list);
+  }
+  return grouped;
+}
+
+/**
+ * Position closed some other way — cancel the legs still working. A broker
+ * that refuses the cancel (leg already gone) doesn't block the close.
+ */
+export async function cancelProtectiveOrders(positionId: string, reason: string): Promise<number> {
+  const working = await prisma.protectiveOrder.findMany({ where: { position_id: positionId, status: 'working' } });
+  if (working.length === 0) return 0;
+
+  const settings: any = await prisma.executionSettings.findFirst();
+  const adapter = getBrokerAdapter(settings);
+
+  for (const order of working) {
+    if (order.broker_order_id && order.broker === adapter.name && adapter.tracksOrders) {
+      const result = await adapter.cancelOrder(order.broker_order_id).catch((error: any) => ({ success: false, error: error.message }));
+      if (!result.success) {
+        console.warn(`⚠️ Could not cancel ${order.kind} order ${order.broker_order_id}: ${result.error}`);
+      }
+    }
+    await prisma.protectiveOrder.update({
+      where: { id: order.id },
+      data: { status: 'cancelled', closed_at: new Date() }
+    });
+  }
+
+  const position = await prisma.position.findUnique({ where: { id: positionId } });
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'protective_orders_cancelled',
+      ticker: position?.ticker ?? null,
+      details: JSON.stringify({
+        position_id: positionId,
+        orders: working.map(o => ({ id: o.id, kind: o.kind, broker_order_id: o.broker_order_id })),
+        reason
+      })
+    }
+  });
+  return working.length;
+}
+
+/** A leg filled at the broker: book the exit and retire the other leg */
+async function handleProtectiveFill(order: any, status: BrokerOrderStatus): Promise<void> {
+  await prisma.protectiveOrder.update({
+    where: { id: order.id },
+    data: {
+      status: 'filled',
+      filled_quantity: status.filled_quantity,
+      avg_fill_price: status.avg_fill_price?.toString() ?? null,
+      closed_at: new Date()
+    }
+  });
+  // The broker cancels the other leg itself (OCO) — mirror it before the close cancels the rest
+  await prisma.protectiveOrder.updateMany({
+    where: { execution_id: order.execution_id, id: { not: order.id }, status: 'working' },
+    data: { status: 'cancelled', closed_at: new Date() }
+  });
+
+  const position = await prisma.position.findUnique({ where: { id: order.position_id } });
+  if (position && !position.closed_at) {
+    const exitPrice = status.avg_fill_price ?? toNumber(order.kind === 'take_profit' ? order.limit_price : order.stop_price);
+    await applyPositionExit(position, {
+      quantity: status.filled_quantity,
+      exit_price: exitPrice,
+      reason: order.kind === 'take_profit' ? 'take_profit' : 'sl_hit',
+      source: `protective_${order.kind}`
+    });
+    console.log(`🛡️ ${position.ticker} ${order.kind} filled ${status.filled_quantity} @ ${exitPrice ?? '?'}`);
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'protective_order_filled',
+      ticker: position?.ticker ?? null,
+      details: JSON.stringify({
+        protective_order_id: order.id,
+        position_id: order.position_id,
+        execution_id: order.execution_id,
+        kind: order.kind,
+        broker: order.broker,
+        broker_order_id: order.broker_order_id,
+        filled_quantity: status.filled_quantity,
+        avg_fill_price: status.avg_fill_price
+      })
+    }
+  });
+}
+
+/** Poll every working leg the broker gave us an id for */
+export async function syncProtectiveOrders(adapter: BrokerAdapter): Promise<number> {
+  const working = await prisma.protectiveOrder.findMany({
+    where: { status: 'working', broker: adapter.name, broker_order_id: { not: null } },
+    orderBy: { created_at: 'asc' }
+  });
+
+  for (const order of working) {
+    try {
+      const status = await adapter.getOrder(order.broker_order_id!);
+      if (!status) continue;
+
+      if (status.state === 'replaced' && status.raw?.replaced_by) {
+        await prisma.protectiveOrder.update({
+          where: { id: order.id },
+          data: { broker_order_id: String(status.raw.replaced_by) }
+        });
+      } else if (status.state === 'filled') {
+        await handleProtectiveFill(order, status);
+      } else if (status.state === 'cancelled' || status.state === 'rejected' || status.state === 'expired') {
+        await prisma.protectiveOrder.update({
+          where: { id: order.id },
+          data: { status: 'cancelled', closed_at: new Date() }
+        });
+        console.warn(`⚠️ ${order.kind} order ${order.broker_order_id} ${status.state} at ${adapter.name}`);
+      }
+    } catch (error: any) {
+      console.error(`❌ Protective order sync error (${order.kind} ${order.broker_order_id}):`, error.message);
+    }
+  }
+  return working.length;
+}
@@ -11,7 +11,11 @@ export type PushoverEventType =
   | 'sec_filing_found'
   | 'spike_detected'
   | 'mode_v_short_signal'
-  | 'wait_upgrade_signal';
+  | 'wait_upgrade_signal'
+  | 'risk_rejected'
+  | 'kill_switch_tripped'
+  | 'price_guard'
+  | 'broker_dead_letter';
 
 // Pushover priority levels
 // -2 = no notification, -1 = quiet, 0 = normal, 1 = high, 2 = emergency (requires ack)
@@ -98,7 +102,11 @@ async function shouldSendPushover(eventType: PushoverEventType): Promise<{
     'sec_filing_found': 'pushover_on_sec',
     'spike_detected': 'pushover_on_sec',
     'mode_v_short_signal': 'pushover_on_mode_v_short',
-    'wait_upgrade_signal': 'pushover_on_wait_upgrade'
+    'wait_upgrade_signal': 'pushover_on_wait_upgrade',
+    'risk_rejected': 'pushover_on_risk',
+    'kill_switch_tripped': 'pushover_on_kill_switch',
+    'price_guard': 'pushover_on_risk',
+    'broker_dead_letter': 'pushover_on_kill_switch'
   };
 
   const settingKey = eventSettingMap[eventType];
@@ -129,7 +137,11 @@ function getTitle(eventType: PushoverEventType, ticker: string, details?: Record
     'sec_filing_found':    `SEC FILING: ${ticker}`,
     'spike_detected':      `📡 SPIKE: ${ticker}`,
     'mode_v_short_signal': `⚡ MODE V SHORT: ${ticker}${strat}`,
-    'wait_upgrade_signal': `🔁 UPGRADED: ${ticker}`
+    'wait_upgrade_signal': `🔁 UPGRADED: ${ticker}`,
+    'risk_rejected':       `🛑 RISK BLOCKED: ${ticker}${strat}`,
+    'kill_switch_tripped': `🚨 KILL SWITCH TRIPPED — execution OFF`,
+    'price_guard':         `🧮 PRICE GUARD: ${ticker}`,
+    'broker_dead_letter':  `📮 ORDER NOT DELIVERED: ${ticker}${strat}`
   };
   return titles[eventType];
 }
@@ -162,6 +174,10 @@ function getMessage(eventType: PushoverEventType, ticker: string, details: Recor
   // Wait upgrade specific fields
   if (details.was_t2) parts.push(`was ${details.was_t2}`);
   if (details.size_note) parts.push(details.size_note);
+  // Risk rejection / kill switch reason
+  if (details.reason) parts.push(details.reason);
+  if (details.cancelled_entries !== undefined) parts.push(`Cancelled entries: ${details.cancelled_entries}`);
+  if (details.attempts) parts.push(`Attempts: ${details.attempts}`);
 
   return parts.join(' | ') || eventType.replace(/_/g, ' ');
 }
@@ -180,7 +196,11 @@ function getDefaultPriority(eventType: PushoverEventType): PushoverPriority {
     'sec_filing_found': 1,
     'spike_detected': 0,
     'mode_v_short_signal': 1,
-    'wait_upgrade_signal': 1
+    'wait_upgrade_signal': 1,
+    'risk_rejected': 1,
+    'kill_switch_tripped': 2, // Emergency - requires acknowledgement
+    'price_guard': 1,
+    'broker_dead_letter': 2   // Emergency - an order never reached the broker
   };
   return priorities[eventType];
 }
@@ -199,7 +219,11 @@ function getSound(eventType: PushoverEventType): string {
     'sec_filing_found': 'magic',
     'spike_detected': 'pushover',
     'mode_v_short_signal': 'siren',
-    'wait_upgrade_signal': 'siren'
+    'wait_upgrade_signal': 'siren',
+    'risk_rejected': 'falling',
+    'kill_switch_tripped': 'siren',
+    'price_guard': 'falling',
+    'broker_dead_letter': 'siren'
   };
   return sounds[eventType];
 }
@@ -339,5 +363,17 @@ export const PushoverNotifications = {
     sendPushoverNotification({ eventType: 'mode_v_short_signal', ticker, details, priority: 1 }),
 
   waitUpgradeSignal: (ticker: string, details: Record<string, any>) =>
-    sendPushoverNotification({ eventType: 'wait_upgrade_signal', ticker, details, priority: 1 })
+    sendPushoverNotification({ eventType: 'wait_upgrade_signal', ticker, details, priority: 1 }),
+
+  riskRejected: (ticker: string, details: Record<string, any>) =>
+    sendPushoverNotification({ eventType: 'risk_rejected', ticker, details, priority: 1 }),
+
+  killSwitchTripped: (details: Record<string, any>) =>
+    sendPushoverNotification({ eventType: 'kill_switch_tripped', ticker: 'ALL', details, priority: 2 }),
+
+  priceGuard: (ticker: string, details: Record<string, any>) =>
+    sendPushoverNotification({ eventType: 'price_guard', ticker, details, priority: 1 }),
+
+  brokerDeadLetter: (ticker: string, details: Record<string, any>) =>
+    sendPushoverNotification({ eventType: 'broker_dead_letter', ticker, details, priority: 2 })
 };
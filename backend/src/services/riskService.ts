@@ -0,0 +1,367 @@
+import { prisma } from '../index';
+import { PushoverNotifications } from './pushoverService';
+import { isExitPayload, EXIT_PAYLOAD_FILTERS } from './orderSpec';
+import { fetchGuardQuote } from './priceGuardService';
+
+/**
+ * Pre-trade risk engine.
+ *
+ * Every path that can send an entry order to the broker calls enforcePreTradeRisk()
+ * before forwarding: handleOrderSignal (webhook), POST /executions/custom,
+ * POST /executions/:id/execute, swipe-approve, and the scheduler's Mode V auto-execute.
+ *
+ * EXIT orders and orders that only reduce an existing position are never blocked —
+ * risk limits exist to stop exposure growing, not to trap a trader in a position.
+ *
+ * Notional is priced from the order's reference price, else the signal's, else a
+ * live quote (a market order may carry none). An order that can't be priced is
+ * rejected while any notional limit is set — it is never counted as $0.
+ *
+ * Limits live on ExecutionSettings (null = no limit). A rejected order is marked
+ * status 'rejected' with error_message `RISK_REJECTED[<rule>]: <reason>` so the
+ * Execution Queue card can show exactly which limit tripped.
+ */
+
+export type RiskRule =
+  | 'max_shares'
+  | 'max_notional'
+  | 'max_open_positions'
+  | 'max_gross_exposure'
+  | 'max_orders_per_ticker'
+  | 'strategy_max_shares'
+  | 'strategy_max_notional'
+  | 'strategy_max_orders_per_day';
+
+export interface RiskViolation {
+  rule: RiskRule;
+  reason: string;
+  limit: number;
+  actual: number;
+  strategy_id?: string;
+}
+
+export interface StrategyRiskCap {
+  max_shares?: number;
+  max_notional?: number;
+  max_orders_per_day?: number;
+}
+
+export interface RiskLimits {
+  max_shares: number | null;
+  max_notional: number | null;
+  max_open_positions: number | null;
+  max_gross_exposure: number | null;
+  max_orders_per_ticker: number | null;
+  strategy_caps: Record<string, StrategyRiskCap>;
+}
+
+interface RiskOrder {
+  id?: string;
+  ticker: string;
+  order_action: string;
+  quantity: number;
+  limit_price: any;
+  stop_price?: any;
+  strategy_id?: string | null;
+  raw_payload?: string | null;
+}
+
+export const RISK_REJECTION_PREFIX = 'RISK_REJECTED';
+
+// Statuses that mean an order reached (or is about to reach) the broker today
+const COUNTED_ORDER_STATUSES = ['pending', 'executing', 'executed', 'partially_filled', 'confirmed'];
+
+async function getSettingsSafe() {
+  try {
+    return await prisma.executionSettings.findFirst();
+  } catch (e: any) {
+    if (e.message?.includes('does not exist')) {
+      try {
+        const results = await prisma.$queryRawUnsafe(`SELECT * FROM execution_settings LIMIT 1`) as any[];
+        return results[0] || null;
+      } catch {
+        return null;
+      }
+    }
+    throw e;
+  }
+}
+
+function toLimit(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/** Parse the per-strategy caps JSON, dropping anything malformed */
+export function parseStrategyCaps(raw: string | null | undefined): Record<string, StrategyRiskCap> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    const caps: Record<string, StrategyRiskCap> = {};
+    for (const [strategyId, cap] of Object.entries(parsed as Record<string, any>)) {
+      if (!cap || typeof cap !== 'object') continue;
+      caps[strategyId] = {
+        ...(toLimit(cap.max_shares) !== null && { max_shares: toLimit(cap.max_shares)! }),
+        ...(toLimit(cap.max_notional) !== null && { max_notional: toLimit(cap.max_notional)! }),
+        ...(toLimit(cap.max_orders_per_day) !== null && { max_orders_per_day: toLimit(cap.max_orders_per_day)! })
+      };
+    }
+    return caps;
+  } catch {
+    return {};
+  }
+}
+
+export async function getRiskLimits(): Promise<RiskLimits> {
+  const settings: any = await getSettingsSafe();
+  return {
+    max_shares: toLimit(settings?.risk_max_shares),
+    max_notional: toLimit(settings?.risk_max_notional),
+    max_open_positions: toLimit(settings?.risk_max_open_positions),
+    max_gross_exposure: toLimit(settings?.risk_max_gross_exposure),
+    max_orders_per_ticker: toLimit(settings?.risk_max_orders_per_ticker),
+    strategy_caps: parseStrategyCaps(settings?.risk_strategy_caps)
+  };
+}
+
+/** Midnight America/New_York, as a UTC Date */
+function startOfTodayET(): Date {
+  const now = new Date();
+  const etNow = new Date(now.toLocaleString('en-US', { timeZone: 'America/New_York' }));
+  const offsetMs = now.getTime() - etNow.getTime();
+  etNow.setHours(0, 0, 0, 0);
+  return new Date(etNow.getTime() + offsetMs);
+}
+
+function isExitOrder(order: RiskOrder): boolean {
+  return isExitPayload(order.raw_payload);
+}
+
+function strategyOf(order: RiskOrder): string | null {
+  if (order.strategy_id) return order.strategy_id;
+  if (!order.raw_payload) return null;
+  try {
+    return JSON.parse(order.raw_payload).strategy_id || null;
+  } catch {
+    return null;
+  }
+}
+
+const positive = (value: any): number | null => {
+  const n = value === null || value === undefined ? NaN : parseFloat(value.toString());
+  return n > 0 ? n : null;
+};
+
+/** Price for an order's notional: its reference price, the signal's, else a live quote's; null when there's none */
+async function referencePriceOf(order: RiskOrder): Promise<number | null> {
+  let payload: any = {};
+  try {
+    if (order.raw_payload) payload = JSON.parse(order.raw_payload);
+  } catch (_) {}
+
+  const stated = [order.limit_price, payload.limit_price, payload.price, order.stop_price, payload.stop_price]
+    .map(positive)
+    .find((n): n is number => n !== null);
+  if (stated !== undefined) return stated;
+
+  const fetched = await fetchGuardQuote(order.ticker.toUpperCase());
+  if (!fetched) return null;
+  const { bid, ask, last } = fetched.quote;
+  return bid > 0 && ask >= bid ? (bid + ask) / 2 : positive(last);
+}
+
+const usd = (n: number) => `$${n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Evaluate an order against the configured limits. Returns the first violation,
+ * or null if the order may be sent. Read-only — does not touch the execution.
+ *
+ * bookedShares: shares of this order the open position already counts — for
+ * an edit of an order that was sent (intent accounting books it on send, fill
+ * accounting as it fills), so they aren't counted twice in gross exposure.
+ */
+export async function checkPreTradeRisk(
+  order: RiskOrder,
+  limits?: RiskLimits,
+  options: { bookedShares?: number } = {}
+): Promise<RiskViolation | null> {
+  if (isExitOrder(order)) return null;
+
+  const ticker = order.ticker.toUpperCase();
+  const quantity = Number(order.quantity) || 0;
+
+  const openPositions = await prisma.position.findMany({ where: { closed_at: null } });
+  const tickerPosition = openPositions.find(p => p.ticker === ticker);
+
+  // Reducing or closing an existing position never adds risk
+  if (tickerPosition) {
+    const reduces = (tickerPosition.side === 'Long' && order.order_action === 'sell')
+      || (tickerPosition.side === 'Short' && order.order_action === 'buy');
+    if (reduces && quantity <= tickerPosition.quantity) return null;
+  }
+
+  const l = limits || await getRiskLimits();
+  const strategyId = strategyOf(order);
+  const cap = strategyId ? l.strategy_caps[strategyId] : undefined;
+
+  if (l.max_shares !== null && quantity > l.max_shares) {
+    return { rule: 'max_shares', limit: l.max_shares, actual: quantity, reason: `Quantity ${quantity} exceeds max ${l.max_shares} shares per order` };
+  }
+
+  let notional = 0;
+  const notionalLimit: [RiskRule, number] | null = l.max_notional !== null ? ['max_notional', l.max_notional]
+    : l.max_gross_exposure !== null ? ['max_gross_exposure', l.max_gross_exposure]
+    : cap?.max_notional !== undefined ? ['strategy_max_notional', cap.max_notional]
+    : null;
+  if (notionalLimit) {
+    const price = await referencePriceOf(order);
+    if (price === null) {
+      const [rule, limit] = notionalLimit;
+      return {
+        rule,
+        limit,
+        actual: 0,
+        ...(rule === 'strategy_max_notional' && { strategy_id: strategyId! }),
+        reason: `No price for ${ticker} (no limit or signal price, no quote) — can't check the ${rule.replace(/_/g, ' ')} limit`
+      };
+    }
+    notional = quantity * price;
+  }
+
+  if (l.max_notional !== null && notional > l.max_notional) {
+    return { rule: 'max_notional', limit: l.max_notional, actual: notional, reason: `Notional ${usd(notional)} exceeds max ${usd(l.max_notional)} per order` };
+  }
+
+  if (l.max_open_positions !== null && !tickerPosition && openPositions.length >= l.max_open_positions) {
+    return {
+      rule: 'max_open_positions',
+      limit: l.max_open_positions,
+      actual: openPositions.length + 1,
+      reason: `Would open position ${openPositions.length + 1} — max ${l.max_open_positions} open positions`
+    };
+  }
+
+  if (l.max_gross_exposure !== null) {
+    const currentExposure = openPositions.reduce((sum, p) => sum + p.quantity * parseFloat(p.entry_price.toString()), 0);
+    const booked = tickerPosition && options.bookedShares
+      ? Math.min(options.bookedShares, tickerPosition.quantity) * parseFloat(tickerPosition.entry_price.toString())
+      : 0;
+    const projected = currentExposure - booked + notional;
+    if (projected > l.max_gross_exposure) {
+      return {
+        rule: 'max_gross_exposure',
+        limit: l.max_gross_exposure,
+        actual: projected,
+        reason: `Gross exposure would be ${usd(projected)} — max ${usd(l.max_gross_exposure)}`
+      };
+    }
+  }
+
+  const dayStart = startOfTodayET();
+  const excludeSelf = order.id ? { NOT: { id: order.id } } : {};
+  const notExit = { NOT: EXIT_PAYLOAD_FILTERS };
+
+  if (l.max_orders_per_ticker !== null) {
+    const todayCount = await prisma.execution.count({
+      where: {
+        ticker,
+        created_at: { gte: dayStart },
+        status: { in: COUNTED_ORDER_STATUSES },
+        AND: [excludeSelf, notExit]
+      }
+    });
+    if (todayCount >= l.max_orders_per_ticker) {
+      return {
+        rule: 'max_orders_per_ticker',
+        limit: l.max_orders_per_ticker,
+        actual: todayCount + 1,
+        reason: `${ticker} already has ${todayCount} order(s) today — max ${l.max_orders_per_ticker} per ticker per day`
+      };
+    }
+  }
+
+  if (strategyId && cap) {
+    if (cap.max_shares !== undefined && quantity > cap.max_shares) {
+      return { rule: 'strategy_max_shares', strategy_id: strategyId, limit: cap.max_shares, actual: quantity, reason: `Quantity ${quantity} exceeds ${strategyId} cap of ${cap.max_shares} shares` };
+    }
+    if (cap.max_notional !== undefined && notional > cap.max_notional) {
+      return { rule: 'strategy_max_notional', strategy_id: strategyId, limit: cap.max_notional, actual: notional, reason: `Notional ${usd(notional)} exceeds ${strategyId} cap of ${usd(cap.max_notional)}` };
+    }
+    if (cap.max_orders_per_day !== undefined) {
+      const strategyCount = await prisma.execution.count({
+        where: {
+          strategy_id: strategyId,
+          created_at: { gte: dayStart },
+          status: { in: COUNTED_ORDER_STATUSES },
+          AND: [excludeSelf, notExit]
+        }
+      });
+      if (strategyCount >= cap.max_orders_per_day) {
+        return {
+          rule: 'strategy_max_orders_per_day',
+          strategy_id: strategyId,
+          limit: cap.max_orders_per_day,
+          actual: strategyCount + 1,
+          reason: `${strategyId} already has ${strategyCount} order(s) today — cap ${cap.max_orders_per_day} per day`
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+export function formatRiskRejection(violation: RiskViolation): string {
+  return `${RISK_REJECTION_PREFIX}[${violation.rule}]: ${violation.reason}`;
+}
+
+/**
+ * Run the risk check for an existing execution and, if it fails, mark it
+ * rejected, write a `risk_rejected` audit event and send a Pushover alert.
+ * Returns the violation so the caller can stop before forwarding to the broker.
+ */
+export async function enforcePreTradeRisk(
+  execution: RiskOrder & { id: string; intent_id?: string | null },
+  source: string
+): Promise<RiskViolation | null> {
+  const violation = await checkPreTradeRisk(execution);
+  if (!violation) return null;
+
+  const ticker = execution.ticker.toUpperCase();
+
+  await prisma.execution.update({
+    where: { id: execution.id },
+    data: {
+      status: 'rejected',
+      error_message: formatRiskRejection(violation)
+    }
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'risk_rejected',
+      ticker,
+      details: JSON.stringify({
+        execution_id: execution.id,
+        intent_id: execution.intent_id || null,
+        source,
+        order_action: execution.order_action,
+        quantity: execution.quantity,
+        limit_price: execution.limit_price ? parseFloat(execution.limit_price.toString()) : null,
+        ...violation
+      })
+    }
+  });
+
+  PushoverNotifications.riskRejected(ticker, {
+    action: execution.order_action,
+    quantity: execution.quantity,
+    reason: violation.reason,
+    strategy: violation.strategy_id || strategyOf(execution) || 'N/A'
+  }).catch(err => console.error('Pushover notification error:', err));
+
+  console.warn(`🛑 Risk rejected ${ticker} ${execution.order_action} ${execution.quantity} (${source}): ${violation.reason}`);
+  return violation;
+}
@@ -1,69 +1,292 @@
+import crypto from 'crypto';
+import os from 'os';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+
 /**
  * Symbol Lock Service
  * Prevents race conditions when multiple webhooks arrive for the same symbol simultaneously
  *
- * Uses in-memory locks with TTL to prevent duplicate order creation
+ * Locks are leases with a TTL, held through a LockProvider:
+ *   - memory (default): an in-process map — enough for a single backend
+ *   - postgres: rows in symbol_locks, claimed through the primary key, so
+ *     WALL, ORDER and position_close serialization holds across replicas
+ *
+ * Pick one with SYMBOL_LOCK_PROVIDER=memory|postgres. Every replica must use
+ * the same provider.
+ *
+ * A held lock's lease is renewed every third of its TTL until it is
+ * released, so work that outlasts the TTL (an inline broker call can take
+ * 10 s per request) keeps it; the TTL only frees a lock whose holder died.
+ * A lock taken with renew: false is never released — its TTL is the window.
  */
 
-interface LockEntry {
+export type SymbolLockType = 'order' | 'position_close' | 'wall';
+
+export interface HeldLock {
+  key: string;
   lockedAt: number;
   ttl: number;
+  holder: string;
+}
+
+export interface LockProvider {
+  readonly name: 'memory' | 'postgres';
+  /** Take the lock; `expired` when it was taken over from a holder whose TTL ran out */
+  acquire(key: string, ttlMs: number): Promise<{ acquired: boolean; expired: boolean }>;
+  /** Extend a lock this instance holds to ttlMs from now; false when it no longer holds it */
+  renew(key: string, ttlMs: number): Promise<boolean>;
+  /** Release a lock this instance holds; false when it wasn't held */
+  release(key: string): Promise<boolean>;
+  /** Locks currently held (by any instance, for a shared provider) */
+  list(): Promise<HeldLock[]>;
+  /** Drop expired locks */
+  cleanup(): Promise<number>;
+}
+
+/** This process, as a lock holder — host:pid plus a nonce so a restarted pid isn't mistaken for the old one */
+export const LOCK_INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+
+export function createMemoryLockProvider(): LockProvider {
+  const symbolLocks: Map<string, { lockedAt: number; ttl: number }> = new Map();
+
+  return {
+    name: 'memory',
+
+    async acquire(key, ttlMs) {
+      const now = Date.now();
+      const existingLock = symbolLocks.get(key);
+      if (existingLock && now - existingLock.lockedAt < existingLock.ttl) {
+        return { acquired: false, expired: false };
+      }
+      symbolLocks.set(key, { lockedAt: now, ttl: ttlMs });
+      return { acquired: true, expired: !!existingLock };
+    },
+
+    async renew(key, ttlMs) {
+      if (!symbolLocks.has(key)) return false;
+      symbolLocks.set(key, { lockedAt: Date.now(), ttl: ttlMs });
+      return true;
+    },
+
+    async release(key) {
+      return symbolLocks.delete(key);
+    },
+
+    async list() {
+      const now = Date.now();
+      return [...symbolLocks.entries()]
+        .filter(([, lock]) => now - lock.lockedAt < lock.ttl)
+        .map(([key, lock]) => ({ key, lockedAt: lock.lockedAt, ttl: lock.ttl, holder: LOCK_INSTANCE_ID }));
+    },
+
+    async cleanup() {
+      const now = Date.now();
+      let cleaned = 0;
+      for (const [key, lock] of symbolLocks.entries()) {
+        if (now - lock.lockedAt >= lock.ttl) {
+          symbolLocks.delete(key);
+          cleaned++;
+        }
+      }
+      return cleaned;
+    }
+  };
+}
+
+/**
+ * Lease rows in symbol_locks. A lock is claimed by inserting its key (the
+ * primary key decides between replicas), or by a conditional update when the
+ * previous lease has expired. Release only deletes this instance's lease.
+ */
+export function createPostgresLockProvider(): LockProvider {
+  return {
+    name: 'postgres',
+
+    async acquire(key, ttlMs) {
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + ttlMs);
+      try {
+        await prisma.symbolLock.create({
+          data: { key, holder: LOCK_INSTANCE_ID, acquired_at: now, expires_at: expiresAt }
+        });
+        return { acquired: true, expired: false };
+      } catch (e) {
+        if (!(e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002')) throw e;
+      }
+
+      const takenOver = await prisma.symbolLock.updateMany({
+        where: { key, expires_at: { lte: now } },
+        data: { holder: LOCK_INSTANCE_ID, acquired_at: now, expires_at: expiresAt }
+      });
+      return { acquired: takenOver.count > 0, expired: takenOver.count > 0 };
+    },
+
+    async renew(key, ttlMs) {
+      const renewed = await prisma.symbolLock.updateMany({
+        where: { key, holder: LOCK_INSTANCE_ID },
+        data: { expires_at: new Date(Date.now() + ttlMs) }
+      });
+      return renewed.count > 0;
+    },
+
+    async release(key) {
+      const released = await prisma.symbolLock.deleteMany({ where: { key, holder: LOCK_INSTANCE_ID } });
+      return released.count > 0;
+    },
+
+    async list() {
+      const locks = await prisma.symbolLock.findMany({
+        where: { expires_at: { gt: new Date() } },
+        orderBy: { acquired_at: 'asc' }
+      });
+      return locks.map(lock => ({
+        key: lock.key,
+        lockedAt: lock.acquired_at.getTime(),
+        ttl: lock.expires_at.getTime() - lock.acquired_at.getTime(),
+        holder: lock.holder
+      }));
+    },
+
+    async cleanup() {
+      const result = await prisma.symbolLock.deleteMany({ where: { expires_at: { lt: new Date() } } });
+      return result.count;
+    }
+  };
+}
+
+function providerFromEnv(): LockProvider {
+  const name = (process.env.SYMBOL_LOCK_PROVIDER || 'memory').toLowerCase();
+  if (name === 'postgres') return createPostgresLockProvider();
+  if (name !== 'memory') {
+    console.warn(`⚠️ Unknown SYMBOL_LOCK_PROVIDER "${name}" — using in-memory symbol locks`);
+  }
+  return createMemoryLockProvider();
+}
+
+const provider: LockProvider = providerFromEnv();
+
+export function getLockProvider(): LockProvider {
+  return provider;
+}
+
+// Per lock type, for this instance since startup
+interface LockTypeMetrics {
+  acquired: number;
+  contended: number;   // refused — another request held the lock
+  released: number;
+  expired: number;     // taken over after the previous holder's TTL ran out instead of a release
+  errors: number;      // provider failures (acquire or release)
+  wait_ms_total: number;
+  wait_ms_max: number;
 }
 
-// In-memory lock store (per symbol)
-const symbolLocks: Map<string, LockEntry> = new Map();
+const metrics: Map<string, LockTypeMetrics> = new Map();
+
+function metricsFor(lockType: string): LockTypeMetrics {
+  let entry = metrics.get(lockType);
+  if (!entry) {
+    entry = { acquired: 0, contended: 0, released: 0, expired: 0, errors: 0, wait_ms_total: 0, wait_ms_max: 0 };
+    metrics.set(lockType, entry);
+  }
+  return entry;
+}
 
 // Default lock TTL in milliseconds (3 seconds)
 const DEFAULT_LOCK_TTL = 3000;
 
+const lockKeyFor = (symbol: string, lockType: SymbolLockType) => `${symbol.toUpperCase()}:${lockType}`;
+
+// Lease renewal timers for the locks this instance holds, by lock key
+const renewals: Map<string, NodeJS.Timeout> = new Map();
+
+function stopRenewal(lockKey: string, timer = renewals.get(lockKey)) {
+  if (timer && renewals.get(lockKey) === timer) {
+    clearInterval(timer);
+    renewals.delete(lockKey);
+  }
+}
+
+function startRenewal(lockKey: string, lockType: SymbolLockType, ttlMs: number) {
+  stopRenewal(lockKey);
+  const timer: NodeJS.Timeout = setInterval(() => {
+    provider.renew(lockKey, ttlMs)
+      .then(renewed => {
+        if (renewed) return;
+        console.warn(`⚠️ Lost the lease on ${lockKey} before it was released`);
+        stopRenewal(lockKey, timer);
+      })
+      .catch(error => {
+        // Tried again next tick; the lease still runs out at its TTL
+        metricsFor(lockType).errors++;
+        console.error(`❌ Failed to renew lock for ${lockKey}:`, error.message);
+      });
+  }, Math.max(Math.floor(ttlMs / 3), 250));
+  timer.unref();
+  renewals.set(lockKey, timer);
+}
+
 /**
  * Attempt to acquire a lock for a symbol
  * @param symbol - The ticker symbol to lock
  * @param lockType - Type of lock. 'position_close' is shared by EXIT, SL_HIT, and mark-flat
  *   to prevent race conditions between different close paths. 'order' and 'wall' are separate.
- * @param ttlMs - Lock TTL in milliseconds (default: 3000ms)
+ * @param ttlMs - Lock TTL in milliseconds (default: 3000ms), renewed until release
+ * @param options.renew - false for a lock that is never released, so it lapses at its TTL
  * @returns true if lock acquired, false if already locked
  */
-export function acquireSymbolLock(
+export async function acquireSymbolLock(
   symbol: string,
-  lockType: 'order' | 'position_close' | 'wall' = 'order',
-  ttlMs: number = DEFAULT_LOCK_TTL
-): boolean {
-  const lockKey = `${symbol.toUpperCase()}:${lockType}`;
-  const now = Date.now();
+  lockType: SymbolLockType = 'order',
+  ttlMs: number = DEFAULT_LOCK_TTL,
+  options: { renew?: boolean } = {}
+): Promise<boolean> {
+  const lockKey = lockKeyFor(symbol, lockType);
+  const stats = metricsFor(lockType);
+  const started = Date.now();
 
-  // Check if lock exists and is still valid
-  const existingLock = symbolLocks.get(lockKey);
-  if (existingLock) {
-    const lockAge = now - existingLock.lockedAt;
-    if (lockAge < existingLock.ttl) {
-      // Lock is still active
-      console.log(`🔒 Symbol lock active for ${lockKey} (${lockAge}ms old, TTL: ${existingLock.ttl}ms)`);
-      return false;
-    }
-    // Lock has expired, remove it
-    symbolLocks.delete(lockKey);
+  let result: { acquired: boolean; expired: boolean };
+  try {
+    result = await provider.acquire(lockKey, ttlMs);
+  } catch (error) {
+    stats.errors++;
+    throw error;
   }
 
-  // Acquire new lock
-  symbolLocks.set(lockKey, {
-    lockedAt: now,
-    ttl: ttlMs
-  });
+  const waited = Date.now() - started;
+  stats.wait_ms_total += waited;
+  stats.wait_ms_max = Math.max(stats.wait_ms_max, waited);
 
-  console.log(`🔓 Acquired lock for ${lockKey} (TTL: ${ttlMs}ms)`);
+  if (!result.acquired) {
+    stats.contended++;
+    console.log(`🔒 Symbol lock active for ${lockKey} (${provider.name})`);
+    return false;
+  }
+
+  stats.acquired++;
+  if (result.expired) stats.expired++;
+  if (options.renew !== false) startRenewal(lockKey, lockType, ttlMs);
+  console.log(`🔓 Acquired lock for ${lockKey} (TTL: ${ttlMs}ms, ${provider.name})`);
   return true;
 }
 
 /**
- * Release a symbol lock early (before TTL expires)
+ * Release a symbol lock early (before TTL expires). Never throws — a lock
+ * that can't be released still runs out at its TTL.
  * @param symbol - The ticker symbol to unlock
  * @param lockType - Type of lock
  */
-export function releaseSymbolLock(symbol: string, lockType: 'order' | 'position_close' | 'wall' = 'order'): void {
-  const lockKey = `${symbol.toUpperCase()}:${lockType}`;
-  if (symbolLocks.delete(lockKey)) {
-    console.log(`🔓 Released lock for ${lockKey}`);
+export async function releaseSymbolLock(symbol: string, lockType: SymbolLockType = 'order'): Promise<void> {
+  const lockKey = lockKeyFor(symbol, lockType);
+  stopRenewal(lockKey);
+  try {
+    if (await provider.release(lockKey)) {
+      metricsFor(lockType).released++;
+      console.log(`🔓 Released lock for ${lockKey}`);
+    }
+  } catch (error: any) {
+    metricsFor(lockType).errors++;
+    console.error(`❌ Failed to release lock for ${lockKey} (expires at its TTL):`, error.message);
   }
 }
 
@@ -73,59 +296,40 @@ export function releaseSymbolLock(symbol: string, lockType: 'order' | 'position_
  * @param lockType - Type of lock
  * @returns true if locked, false if not locked
  */
-export function isSymbolLocked(symbol: string, lockType: 'order' | 'position_close' | 'wall' = 'order'): boolean {
-  const lockKey = `${symbol.toUpperCase()}:${lockType}`;
-  const existingLock = symbolLocks.get(lockKey);
-
-  if (!existingLock) return false;
-
-  const lockAge = Date.now() - existingLock.lockedAt;
-  if (lockAge >= existingLock.ttl) {
-    // Lock expired, clean it up
-    symbolLocks.delete(lockKey);
-    return false;
-  }
-
-  return true;
+export async function isSymbolLocked(symbol: string, lockType: SymbolLockType = 'order'): Promise<boolean> {
+  const lockKey = lockKeyFor(symbol, lockType);
+  return (await provider.list()).some(lock => lock.key === lockKey);
 }
 
 /**
  * Clean up expired locks (can be called periodically)
  */
-export function cleanupExpiredLocks(): number {
-  const now = Date.now();
-  let cleaned = 0;
-
-  for (const [key, lock] of symbolLocks.entries()) {
-    if (now - lock.lockedAt >= lock.ttl) {
-      symbolLocks.delete(key);
-      cleaned++;
-    }
-  }
-
+export async function cleanupExpiredLocks(): Promise<number> {
+  const cleaned = await provider.cleanup();
   if (cleaned > 0) {
     console.log(`🧹 Cleaned up ${cleaned} expired symbol lock(s)`);
   }
-
   return cleaned;
 }
 
 /**
- * Get current lock status (for debugging)
+ * Get current lock status — every held lock and its holder
  */
-export function getLockStatus(): { symbol: string; lockType: string; age: number; ttl: number }[] {
+export async function getLockStatus(): Promise<{ symbol: string; lockType: string; age: number; ttl: number; holder: string }[]> {
   const now = Date.now();
-  const status: { symbol: string; lockType: string; age: number; ttl: number }[] = [];
-
-  for (const [key, lock] of symbolLocks.entries()) {
-    const [symbol, lockType] = key.split(':');
-    status.push({
-      symbol,
-      lockType,
-      age: now - lock.lockedAt,
-      ttl: lock.ttl
-    });
-  }
+  return (await provider.list()).map(lock => {
+    const [symbol, lockType] = lock.key.split(':');
+    return { symbol, lockType, age: now - lock.lockedAt, ttl: lock.ttl, holder: lock.holder };
+  });
+}
 
-  return status;
+/**
+ * Acquire / contention / expiry counts and acquire wait per lock type, for
+ * this instance since startup
+ */
+export function getLockMetrics(): Record<string, Omit<LockTypeMetrics, 'wait_ms_total'> & { wait_ms_avg: number }> {
+  return Object.fromEntries([...metrics.entries()].map(([lockType, { wait_ms_total, ...counts }]) => {
+    const attempts = counts.acquired + counts.contended;
+    return [lockType, { ...counts, wait_ms_avg: attempts > 0 ? Math.round(wait_ms_total / attempts) : 0 }];
+  }));
 }
@@ -0,0 +1,139 @@
+import { prisma } from '../index';
+import { attachProtectiveOrders } from './protectiveOrderService';
+
+/**
+ * Trade journal — one round-trip record per Position.
+ *
+ * A Trade pulls together what is otherwise spread across tables: the entry
+ * and exit executions (linked through Execution.position_id), the TradeIntent
+ * of the first entry, its grade / SEC checklist snapshots, and the position's
+ * exit outcome. It is re-synced whenever the position opens, scales, closes or
+ * is repriced; the journal fields (notes, tags, setup_rating, mistake) belong
+ * to the user and are never touched by a sync.
+ *
+ * CONFIRMED fills and SL_HIT closes need no extra link: fills carry
+ * position_id themselves and an SL close shows up as close_reason.
+ *
+ * entry_mode is captured once, when the first entry creates the Trade — the
+ * execution mode can change later in the day and must not rewrite history.
+ */
+
+export const MISTAKE_CATEGORIES = [
+  'early_entry', 'late_entry', 'chased', 'oversized', 'early_exit',
+  'late_exit', 'ignored_stop', 'against_bias', 'overtraded', 'other'
+] as const;
+
+export type TradeOutcome = 'open' | 'win' | 'loss' | 'breakeven' | 'unpriced';
+
+const toNumber = (value: any): number | null => {
+  if (value === null || value === undefined) return null;
+  const n = parseFloat(value.toString());
+  return Number.isFinite(n) ? n : null;
+};
+
+function parseJson(value: string | null | undefined): any {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function outcomeFor(position: any): TradeOutcome {
+  if (!position.closed_at) return 'open';
+  const pnl = toNumber(position.realized_pnl);
+  if (pnl === null) return 'unpriced';
+  if (Math.abs(pnl) < 0.005) return 'breakeven';
+  return pnl > 0 ? 'win' : 'loss';
+}
+
+/** An order reduces a position when it trades against the position's side */
+export function isClosingOrder(positionSide: string, orderAction: string): boolean {
+  return positionSide === 'Short' ? orderAction === 'buy' : orderAction === 'sell';
+}
+
+/** Execution mode right now, e.g. 'full' or 'auto:mode_v_short' */
+async function currentExecutionMode(): Promise<string | null> {
+  try {
+    const settings: any = await prisma.executionSettings.findFirst();
+    if (!settings?.execution_mode) return null;
+    return settings.execution_mode === 'auto' && settings.auto_sub_mode ? `${settings.execution_mode}:${settings.auto_sub_mode}` : settings.execution_mode;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create or refresh the Trade for a position. Never throws — journal
+ * bookkeeping must not break the trading path that called it.
+ * `entryMode` only applies when this call creates the Trade.
+ */
+export async function syncTrade(positionId: string, entryMode: string | null = null): Promise<void> {
+  try {
+    const position: any = await prisma.position.findUnique({ where: { id: positionId } });
+    if (!position) return;
+
+    const executions = await prisma.execution.findMany({
+      where: { position_id: positionId },
+      orderBy: { created_at: 'asc' }
+    });
+    const entries = executions.filter(e => !isClosingOrder(position.side, e.order_action));
+    const exits = executions.filter(e => isClosingOrder(position.side, e.order_action));
+    const firstEntry = entries[0] ?? null;
+
+    const intentId = firstEntry?.intent_id ?? null;
+    const intent = intentId ? await prisma.tradeIntent.findUnique({ where: { id: intentId } }) : null;
+    const grade = parseJson(firstEntry?.grade_snapshot);
+
+    const data = {
+      intent_id: intentId,
+      ticker: position.ticker,
+      side: position.side,
+      strategy_id: firstEntry?.strategy_id ?? intent?.strategy_id ?? null,
+      timeframe: intent?.timeframe ?? null,
+      quality_tier: intent?.quality_tier ?? null,
+      sec_bias: intent?.sec_bias ?? null,
+      snapshot_bias: grade?.bias ?? null,
+      pre_fall_tier: grade?.pre_fall_tier ?? null,
+      snapshot_section: grade?.section ?? null,
+      entry_execution_ids: JSON.stringify(entries.map(e => e.id)),
+      exit_execution_ids: JSON.stringify(exits.map(e => e.id)),
+      grade_snapshot: firstEntry?.grade_snapshot ?? null,
+      sec_checklist_snapshot: firstEntry?.sec_checklist_snapshot ?? null,
+      // A full close leaves Position.quantity at the size that was closed
+      quantity: position.closed_at ? (position.exited_quantity || position.quantity) : position.quantity + (position.exited_quantity ?? 0),
+      entry_price: position.entry_price,
+      exit_price: position.exit_price ?? null,
+      realized_pnl: position.realized_pnl ?? null,
+      fees: position.fees ?? 0,
+      outcome: outcomeFor(position),
+      close_reason: position.close_reason ?? null,
+      opened_at: position.opened_at,
+      closed_at: position.closed_at ?? null,
+      holding_seconds: position.holding_seconds ?? null
+    };
+
+    await prisma.trade.upsert({
+      where: { position_id: positionId },
+      create: { position_id: positionId, entry_mode: entryMode, ...data },
+      update: data
+    });
+  } catch (error: any) {
+    console.error(`❌ Trade journal sync error (position ${positionId}):`, error.message);
+  }
+}
+
+/**
+ * Record that an execution opened or added to a position, attach its
+ * take-profit / stop-loss legs to the position, then refresh the position's
+ * Trade.
+ */
+export async function linkEntryExecution(executionId: string, positionId: string): Promise<void> {
+  await prisma.execution.update({
+    where: { id: executionId },
+    data: { position_id: positionId }
+  });
+  await attachProtectiveOrders(executionId, positionId);
+  await syncTrade(positionId, await currentExecutionMode());
+}
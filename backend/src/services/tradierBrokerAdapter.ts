@@ -0,0 +1,212 @@
+import {
+  BrokerAdapter,
+  BrokerOrderChanges,
+  BrokerOrderRequest,
+  BrokerOrderState,
+  BrokerOrderStatus,
+  BrokerPosition,
+  BrokerResult,
+  readBrokerResponse,
+  brokerErrorMessage,
+  unsupportedOrder
+} from './brokerAdapter';
+
+/**
+ * Tradier brokerage adapter.
+ * Requires TRADIER_ACCOUNT_ID and a trading token (TRADIER_BROKER_TOKEN, or
+ * TRADIER_API_KEY when the market-data token is the account's own).
+ * TRADIER_BROKER_BASE_URL overrides the sandbox/live endpoint.
+ *
+ * Tradier distinguishes opening shorts and covering (sell_short /
+ * buy_to_cover) and can't change an order's quantity on modify. Equity
+ * orders here are market, limit, stop or stop_limit, day or gtc; trailing
+ * stops, ioc/fok and attached legs are refused rather than approximated.
+ */
+
+const SANDBOX_BASE = 'https://sandbox.tradier.com';
+const LIVE_BASE = 'https://api.tradier.com';
+const TIMEOUT_MS = 10000;
+
+const STATE_MAP: Record<string, BrokerOrderState> = {
+  pending: 'accepted',
+  open: 'accepted',
+  partially_filled: 'partially_filled',
+  filled: 'filled',
+  canceled: 'cancelled',
+  expired: 'expired',
+  rejected: 'rejected',
+  error: 'rejected'
+};
+
+/** Extended-hours session for the current ET time */
+function durationNowET(): 'pre' | 'day' | 'post' {
+  const etHHMM = new Date().toLocaleString('en-US', {
+    timeZone: 'America/New_York',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+  const [h, m] = etHHMM.split(':').map(Number);
+  const totalMin = (h % 24) * 60 + m;
+  if (totalMin < 570) return 'pre';
+  if (totalMin >= 960) return 'post';
+  return 'day';
+}
+
+function toStatus(order: any): BrokerOrderStatus {
+  return {
+    broker_order_id: String(order.id),
+    state: STATE_MAP[order.status] ?? 'unknown',
+    filled_quantity: Number(order.exec_quantity) || 0,
+    avg_fill_price: order.avg_fill_price ? Number(order.avg_fill_price) : null,
+    raw: order
+  };
+}
+
+function tradierSide(order: BrokerOrderRequest): string {
+  if (order.side === 'buy') return order.position_effect === 'close' ? 'buy_to_cover' : 'buy';
+  return order.position_effect === 'close' ? 'sell' : 'sell_short';
+}
+
+/** env_prefix: read <prefix>_TRADIER_ACCOUNT_ID / _TRADIER_BROKER_TOKEN instead (a second account) */
+export function createTradierBrokerAdapter(options: { paper: boolean; env_prefix?: string | null }): BrokerAdapter {
+  const base = (process.env.TRADIER_BROKER_BASE_URL || (options.paper ? SANDBOX_BASE : LIVE_BASE)).replace(/\/$/, '');
+  const prefix = options.env_prefix ? `${options.env_prefix}_` : '';
+  const accountId = process.env[`${prefix}TRADIER_ACCOUNT_ID`] ?? '';
+  // The market-data key only stands in for the primary account's token
+  const token = process.env[`${prefix}TRADIER_BROKER_TOKEN`] || (prefix ? '' : process.env.TRADIER_API_KEY) || '';
+  const accountPath = `/v1/accounts/${encodeURIComponent(accountId)}`;
+
+  async function request(method: string, path: string, form?: Record<string, string>): Promise<{ response: Response; data: any; url: string }> {
+    const url = `${base}${path}`;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: 'application/json',
+        ...(form && { 'Content-Type': 'application/x-www-form-urlencoded' })
+      },
+      body: form ? new URLSearchParams(form).toString() : undefined,
+      signal: AbortSignal.timeout(TIMEOUT_MS)
+    });
+    return { response, data: await readBrokerResponse(response), url };
+  }
+
+  return {
+    name: 'tradier',
+    tracksOrders: true,
+
+    configurationError() {
+      if (!accountId) return `${prefix}TRADIER_ACCOUNT_ID not set`;
+      if (!token) return `${prefix}TRADIER_BROKER_TOKEN not set`;
+      return null;
+    },
+
+    async submitOrder(order: BrokerOrderRequest): Promise<BrokerResult> {
+      if (order.order_type === 'trailing_stop') {
+        return unsupportedOrder('Tradier does not support trailing_stop equity orders');
+      }
+      if (order.time_in_force === 'ioc' || order.time_in_force === 'fok') {
+        return unsupportedOrder(`Tradier does not support ${order.time_in_force} equity orders`);
+      }
+      if (order.take_profit_price !== null || order.stop_loss_price !== null) {
+        return unsupportedOrder('Tradier take-profit / stop-loss legs need an OTOCO order, which this adapter does not place');
+      }
+
+      const form: Record<string, string> = {
+        class: 'equity',
+        symbol: order.symbol,
+        side: tradierSide(order),
+        quantity: String(order.quantity),
+        type: order.order_type,
+        // Extended sessions only accept limit day orders
+        duration: order.time_in_force === 'gtc' ? 'gtc' : order.order_type === 'limit' ? durationNowET() : 'day',
+        tag: order.client_order_id
+      };
+      if (order.limit_price !== null) form.price = String(order.limit_price);
+      if (order.stop_price !== null) form.stop = String(order.stop_price);
+
+      const { response, data, url } = await request('POST', `${accountPath}/orders`, form);
+      const ok = response.ok && data?.order?.status === 'ok';
+      return {
+        success: ok,
+        broker_order_id: ok ? String(data.order.id) : null,
+        state: ok ? 'accepted' : undefined,
+        request: { url, payload: form },
+        response: data,
+        statusCode: response.status,
+        ...(!ok && { error: brokerErrorMessage(response, data) })
+      };
+    },
+
+    async cancelOrder(brokerOrderId: string): Promise<BrokerResult> {
+      const { response, data, url } = await request('DELETE', `${accountPath}/orders/${encodeURIComponent(brokerOrderId)}`);
+      const ok = response.ok && data?.order?.status === 'ok';
+      return {
+        success: ok,
+        broker_order_id: brokerOrderId,
+        state: ok ? 'cancelled' : undefined,
+        request: { url, payload: null },
+        response: data,
+        statusCode: response.status,
+        ...(!ok && { error: brokerErrorMessage(response, data) })
+      };
+    },
+
+    async replaceOrder(brokerOrderId: string, changes: BrokerOrderChanges): Promise<BrokerResult> {
+      if (changes.quantity !== undefined) {
+        return unsupportedOrder('Tradier cannot change the quantity of a working order — cancel and resubmit');
+      }
+      // Modify repeats the order's type alongside the new prices
+      const form: Record<string, string> = { type: changes.order_type };
+      if (changes.limit_price !== undefined) form.price = String(changes.limit_price);
+      if (changes.stop_price !== undefined) form.stop = String(changes.stop_price);
+
+      const { response, data, url } = await request('PUT', `${accountPath}/orders/${encodeURIComponent(brokerOrderId)}`, form);
+      const ok = response.ok && data?.order?.status === 'ok';
+      return {
+        success: ok,
+        // Tradier modifies in place — the order id is unchanged
+        broker_order_id: brokerOrderId,
+        state: ok ? 'accepted' : undefined,
+        request: { url, payload: form },
+        response: data,
+        statusCode: response.status,
+        ...(!ok && { error: brokerErrorMessage(response, data) })
+      };
+    },
+
+    async getOrder(brokerOrderId: string): Promise<BrokerOrderStatus | null> {
+      const { response, data } = await request('GET', `${accountPath}/orders/${encodeURIComponent(brokerOrderId)}`);
+      const order = data?.order;
+      if (!response.ok || !order?.id) return null;
+      return toStatus(order);
+    },
+
+    async findOrder(clientOrderId: string): Promise<BrokerOrderStatus | null> {
+      // No lookup by tag — scan the account's orders for the day
+      const { response, data } = await request('GET', `${accountPath}/orders`);
+      if (!response.ok) throw new Error(brokerErrorMessage(response, data));
+      const raw = data?.orders?.order;
+      const orders = !raw ? [] : Array.isArray(raw) ? raw : [raw];
+      const order = orders.find((o: any) => o.tag === clientOrderId);
+      return order ? toStatus(order) : null;
+    },
+
+    async listPositions(): Promise<BrokerPosition[]> {
+      const { response, data } = await request('GET', `${accountPath}/positions`);
+      if (!response.ok) throw new Error(brokerErrorMessage(response, data));
+      // Tradier returns "null" for none and an object (not an array) for one
+      const raw = data?.positions?.position;
+      const positions = !raw ? [] : Array.isArray(raw) ? raw : [raw];
+      return positions.map((p: any) => {
+        const quantity = Number(p.quantity) || 0;
+        return {
+          symbol: p.symbol,
+          quantity,
+          avg_entry_price: quantity ? Math.abs(Number(p.cost_basis) / quantity) : null
+        };
+      });
+    }
+  };
+}
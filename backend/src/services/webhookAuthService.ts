@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import { prisma } from '../index';
+
+/**
+ * Inbound webhook authentication.
+ *
+ * Two ways a sender can prove it knows a shared secret:
+ * - passphrase: TradingView can't set headers, so the secret travels inside the
+ *   JSON body as `"passphrase": "..."`. It is stripped before the payload is logged.
+ * - hmac: other senders sign `<timestamp>.<raw body>` with HMAC-SHA256 and send
+ *   `X-Webhook-Signature: sha256=<hex>` with `X-Webhook-Timestamp` (unix seconds).
+ *   The timestamp is required and must be within MAX_TIMESTAMP_SKEW_SECONDS, so a
+ *   captured request can't be replayed later.
+ *
+ * Rotation keeps the old secret valid until `expires_at` so alerts already
+ * configured in TradingView keep landing while they're being updated.
+ *
+ * The same table holds the outbound `signing` secret: requests the webhook
+ * broker adapter sends carry the same two headers, signed with the newest
+ * active signing secret, so the relay receiving them can check they came
+ * from here (verifyOutboundSignature is the reference check).
+ */
+
+export type WebhookSecretKind = 'passphrase' | 'hmac' | 'signing';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const WEBHOOK_SOURCE_HEADER = 'x-webhook-source';
+
+const MAX_TIMESTAMP_SKEW_SECONDS = 300;
+
+export interface WebhookAuthResult {
+  ok: boolean;
+  method?: WebhookSecretKind;
+  source?: string;
+  secret_id?: string;
+  reason?: string;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/** Active, non-expired secrets of one kind — optionally narrowed to a single source */
+async function getUsableSecrets(kind: WebhookSecretKind, source?: string) {
+  const now = new Date();
+  return prisma.webhookSecret.findMany({
+    where: {
+      kind,
+      active: true,
+      ...(source && { source }),
+      OR: [{ expires_at: null }, { expires_at: { gt: now } }]
+    },
+    orderBy: { created_at: 'desc' }
+  });
+}
+
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+/** Show only the last 4 characters — secrets are returned in full once, at creation */
+export function maskSecret(secret: string): string {
+  return secret.length <= 4 ? '****' : `****${secret.slice(-4)}`;
+}
+
+/** HMAC-SHA256 hex digest of `<timestamp>.<body>` — what a sender puts in X-Webhook-Signature */
+export function computeWebhookSignature(secret: string, rawBody: Buffer | string, timestamp: string): string {
+  const hmac = crypto.createHmac('sha256', secret);
+  hmac.update(`${timestamp}.`);
+  hmac.update(rawBody);
+  return hmac.digest('hex');
+}
+
+/** Signing secret for outbound broker requests — the newest usable one, or null (requests go unsigned) */
+export async function getOutboundSigningSecret(): Promise<{ id: string; secret: string } | null> {
+  const [secret] = await getUsableSecrets('signing');
+  return secret ? { id: secret.id, secret: secret.secret } : null;
+}
+
+/** Headers for an outbound request: signs `<timestamp>.<body>`, timestamp in unix seconds */
+export function signOutboundRequest(
+  secret: string,
+  body: string,
+  timestamp: string = String(Math.floor(Date.now() / 1000))
+): { timestamp: string; signature: string } {
+  return { timestamp, signature: `sha256=${computeWebhookSignature(secret, body, timestamp)}` };
+}
+
+/**
+ * Reference verifier for the receiving end of our broker webhooks. Check the
+ * raw body exactly as received — re-serialized JSON won't match. Relays in
+ * other languages should do the same: HMAC-SHA256 over `<timestamp>.<body>`,
+ * constant-time compare, reject timestamps outside the tolerance.
+ */
+export function verifyOutboundSignature(
+  secret: string,
+  rawBody: Buffer | string,
+  signatureHeader: string | undefined,
+  timestampHeader: string | undefined,
+  options: { now?: number; toleranceSeconds?: number } = {}
+): { valid: boolean; reason?: string } {
+  if (!signatureHeader || !timestampHeader) {
+    return { valid: false, reason: 'Missing X-Webhook-Signature or X-Webhook-Timestamp' };
+  }
+  const tolerance = options.toleranceSeconds ?? MAX_TIMESTAMP_SKEW_SECONDS;
+  const skew = Math.abs((options.now ?? Date.now()) / 1000 - Number(timestampHeader));
+  if (!Number.isFinite(skew) || skew > tolerance) {
+    return { valid: false, reason: `Signature timestamp outside ${tolerance}s window` };
+  }
+  const provided = signatureHeader.replace(/^sha256=/, '').toLowerCase();
+  if (!safeEqual(computeWebhookSignature(secret, rawBody, timestampHeader), provided)) {
+    return { valid: false, reason: 'Invalid signature' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Verify an inbound webhook against the configured secrets.
+ * A signature header takes precedence over a body passphrase.
+ */
+export async function verifyWebhookRequest(
+  headers: Record<string, string | string[] | undefined>,
+  body: any,
+  rawBody: Buffer | undefined
+): Promise<WebhookAuthResult> {
+  const header = (name: string) => {
+    const v = headers[name];
+    return Array.isArray(v) ? v[0] : v;
+  };
+  const requestedSource = header(WEBHOOK_SOURCE_HEADER);
+  const signatureHeader = header(WEBHOOK_SIGNATURE_HEADER);
+
+  let matched: { id: string; source: string } | undefined;
+  let method: WebhookSecretKind;
+
+  if (signatureHeader) {
+    method = 'hmac';
+    if (!rawBody) {
+      return { ok: false, method, reason: 'Signature present but raw body unavailable' };
+    }
+    const timestamp = header(WEBHOOK_TIMESTAMP_HEADER);
+    if (!timestamp) {
+      return { ok: false, method, reason: 'Missing X-Webhook-Timestamp — signed requests must carry one' };
+    }
+    const skew = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!Number.isFinite(skew) || skew > MAX_TIMESTAMP_SKEW_SECONDS) {
+      return { ok: false, method, reason: `Signature timestamp outside ${MAX_TIMESTAMP_SKEW_SECONDS}s window` };
+    }
+    const provided = signatureHeader.replace(/^sha256=/, '').toLowerCase();
+    const secrets = await getUsableSecrets('hmac', requestedSource);
+    matched = secrets.find(s => safeEqual(computeWebhookSignature(s.secret, rawBody, timestamp), provided));
+    if (!matched) return { ok: false, method, reason: 'Invalid signature' };
+  } else {
+    method = 'passphrase';
+    const passphrase = typeof body?.passphrase === 'string' ? body.passphrase : null;
+    if (!passphrase) {
+      return { ok: false, method, reason: 'Missing passphrase or X-Webhook-Signature' };
+    }
+    const secrets = await getUsableSecrets('passphrase', requestedSource);
+    matched = secrets.find(s => safeEqual(s.secret, passphrase));
+    if (!matched) return { ok: false, method, reason: 'Invalid passphrase' };
+  }
+
+  prisma.webhookSecret.update({
+    where: { id: matched.id },
+    data: { last_used_at: new Date() }
+  }).catch(err => console.error('Failed to record webhook secret use:', err));
+
+  return { ok: true, method, source: matched.source, secret_id: matched.id };
+}
+
+/**
+ * Replace a secret with a freshly generated one for the same source/kind.
+ * The old secret keeps working for `overlapMinutes` (0 = cut over immediately).
+ */
+export async function rotateWebhookSecret(id: string, overlapMinutes: number) {
+  const existing = await prisma.webhookSecret.findUnique({ where: { id } });
+  if (!existing) return null;
+
+  const expiresAt = new Date(Date.now() + Math.max(0, overlapMinutes) * 60 * 1000);
+
+  const [previous, created] = await prisma.$transaction([
+    prisma.webhookSecret.update({
+      where: { id },
+      data: overlapMinutes > 0 ? { expires_at: expiresAt } : { active: false, expires_at: expiresAt }
+    }),
+    prisma.webhookSecret.create({
+      data: {
+        source: existing.source,
+        kind: existing.kind,
+        secret: generateWebhookSecret()
+      }
+    })
+  ]);
+
+  return { previous, created };
+}
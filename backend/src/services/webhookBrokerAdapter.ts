@@ -0,0 +1,290 @@
+import fs from 'fs';
+import https from 'https';
+import {
+  BrokerAdapter,
+  BrokerOrderChanges,
+  BrokerOrderRequest,
+  BrokerResult,
+  RequestSignature,
+  readBrokerResponse,
+  brokerErrorMessage,
+  unsupportedOrder
+} from './brokerAdapter';
+import {
+  PayloadTemplateEvent,
+  PayloadTemplates,
+  orderPayloadFields,
+  renderPayloadTemplate,
+  templateFor
+} from './brokerPayloadTemplate';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  getOutboundSigningSecret,
+  signOutboundRequest
+} from './webhookAuthService';
+
+/**
+ * Generic webhook adapter — the original forwarder. POSTs a fixed JSON body
+ * (order type fields only when they apply) to broker_webhook_url. It can't
+ * query an order, so fills still arrive as TradingView CONFIRMED alerts.
+ *
+ * Every attempt for one execution carries the same Idempotency-Key header;
+ * the receiving end must use it to drop retries of an order it already took.
+ * That key is also the only order id this adapter has: cancels and edits go
+ * to the same URL as {event: 'cancel' | 'replace', client_order_id, …}.
+ *
+ * Any of these bodies can be replaced by a user template per event (entry,
+ * exit, cancel, replace — see brokerPayloadTemplate). A template that fails
+ * to render refuses the order (422) rather than sending the built-in body.
+ *
+ * When a `signing` webhook secret exists every request is signed:
+ * X-Webhook-Signature: sha256=<hmac of "<timestamp>.<body>"> plus
+ * X-Webhook-Timestamp (see verifyOutboundSignature for the receiving side).
+ * With broker_webhook_mtls on, the request also presents the client
+ * certificate from BROKER_CLIENT_CERT / BROKER_CLIENT_KEY (PEM file paths,
+ * BROKER_CLIENT_CA optionally pins the relay's CA).
+ */
+
+interface BrokerOrderPayload {
+  symbol: string;
+  action: 'buy' | 'sell';
+  quantity: number;
+  limit_price: number;
+  order_type: string;
+  time_in_force: string;
+  stop_price?: number;
+  trail_amount?: number;
+  trail_percent?: number;
+  take_profit_price?: number;
+  stop_loss_price?: number;
+}
+
+const TIMEOUT_MS = 10000;
+
+export interface ClientCertificate {
+  cert: Buffer;
+  key: Buffer;
+  ca?: Buffer;
+  passphrase?: string;
+}
+
+/** Client certificate for mTLS from the environment, or why it can't be used */
+export function loadClientCertificate(): { certificate: ClientCertificate | null; error: string | null } {
+  const certPath = process.env.BROKER_CLIENT_CERT;
+  const keyPath = process.env.BROKER_CLIENT_KEY;
+  if (!certPath || !keyPath) {
+    return { certificate: null, error: 'mTLS is on but BROKER_CLIENT_CERT / BROKER_CLIENT_KEY are not set' };
+  }
+  try {
+    return {
+      certificate: {
+        cert: fs.readFileSync(certPath),
+        key: fs.readFileSync(keyPath),
+        ...(process.env.BROKER_CLIENT_CA && { ca: fs.readFileSync(process.env.BROKER_CLIENT_CA) }),
+        ...(process.env.BROKER_CLIENT_KEY_PASSPHRASE && { passphrase: process.env.BROKER_CLIENT_KEY_PASSPHRASE })
+      },
+      error: null
+    };
+  } catch (error: any) {
+    return { certificate: null, error: `Can't read broker client certificate: ${error.message}` };
+  }
+}
+
+/**
+ * fetch() can't present a client certificate without a custom dispatcher, so
+ * mTLS requests go through https.request. The reply is wrapped in a Response
+ * so both paths read it the same way.
+ */
+function postWithClientCertificate(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  certificate: ClientCertificate
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    if (target.protocol !== 'https:') {
+      reject(new Error('mTLS needs an https:// broker webhook URL'));
+      return;
+    }
+
+    const request = https.request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      ...certificate,
+      timeout: TIMEOUT_MS
+    }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('error', reject);
+      res.on('end', () => {
+        const status = res.statusCode ?? 502;
+        // Response refuses a body on null-body statuses
+        const text = [204, 205, 304].includes(status) ? null : Buffer.concat(chunks).toString('utf8');
+        resolve(new Response(text, { status: Math.min(Math.max(status, 200), 599) }));
+      });
+    });
+    request.on('timeout', () => request.destroy(new Error(`Broker webhook timed out after ${TIMEOUT_MS}ms`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * POST a JSON body to a broker webhook — signed when a signing secret is
+ * configured, over mTLS when a client certificate is given. Shared by the
+ * adapter and the settings test send so the test exercises the real path.
+ */
+export async function sendWebhookRequest(
+  url: string,
+  payload: any,
+  options: { idempotency_key?: string; client_certificate?: ClientCertificate | null } = {}
+): Promise<BrokerResult> {
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.idempotency_key) headers['Idempotency-Key'] = options.idempotency_key;
+
+  let signature: RequestSignature | undefined;
+  const signing = await getOutboundSigningSecret();
+  if (signing) {
+    const signed = signOutboundRequest(signing.secret, body);
+    headers[WEBHOOK_SIGNATURE_HEADER] = signed.signature;
+    headers[WEBHOOK_TIMESTAMP_HEADER] = signed.timestamp;
+    signature = { secret_id: signing.id, ...signed };
+  }
+
+  const response = options.client_certificate
+    ? await postWithClientCertificate(url, headers, body, options.client_certificate)
+    : await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(TIMEOUT_MS) });
+  const data = await readBrokerResponse(response);
+
+  return {
+    success: response.ok,
+    request: { url, payload, ...(signature && { signature }) },
+    response: data,
+    statusCode: response.status,
+    ...(!response.ok && { error: brokerErrorMessage(response, data) })
+  };
+}
+
+/** Built-in body for an event, used when no template is set */
+function defaultPayload(event: PayloadTemplateEvent, order: BrokerOrderRequest): Record<string, any> {
+  if (event === 'cancel') return { event, client_order_id: order.client_order_id };
+  if (event === 'replace') {
+    return {
+      event,
+      client_order_id: order.client_order_id,
+      order_type: order.order_type,
+      quantity: order.quantity,
+      ...(order.limit_price !== null && { limit_price: order.limit_price }),
+      ...(order.stop_price !== null && { stop_price: order.stop_price }),
+      ...(order.trail_amount !== null && { trail_amount: order.trail_amount }),
+      ...(order.trail_percent !== null && { trail_percent: order.trail_percent })
+    };
+  }
+
+  const payload: BrokerOrderPayload = {
+    symbol: order.symbol,
+    action: order.side,
+    quantity: order.quantity,
+    limit_price: order.limit_price ?? 0,
+    order_type: order.order_type,
+    time_in_force: order.time_in_force,
+    ...(order.stop_price !== null && { stop_price: order.stop_price }),
+    ...(order.trail_amount !== null && { trail_amount: order.trail_amount }),
+    ...(order.trail_percent !== null && { trail_percent: order.trail_percent }),
+    ...(order.take_profit_price !== null && { take_profit_price: order.take_profit_price }),
+    ...(order.stop_loss_price !== null && { stop_loss_price: order.stop_loss_price })
+  };
+  return payload;
+}
+
+/** Entry or exit, from whether the order trades against the open position */
+export function orderEvent(order: BrokerOrderRequest): PayloadTemplateEvent {
+  return order.position_effect === 'close' ? 'exit' : 'entry';
+}
+
+/**
+ * The body the webhook sends for an event — the user's template when one is
+ * set, else the built-in payload. Also used by the settings preview.
+ */
+export function buildWebhookPayload(
+  event: PayloadTemplateEvent,
+  order: BrokerOrderRequest,
+  templates: PayloadTemplates
+): { payload: any; templated: boolean; error: string | null } {
+  const template = templateFor(templates, event);
+  if (!template) return { payload: defaultPayload(event, order), templated: false, error: null };
+
+  const { payload, error } = renderPayloadTemplate(template, orderPayloadFields(event, order));
+  return { payload, templated: true, error: error && `Broker payload template (${event}): ${error}` };
+}
+
+export function createWebhookBrokerAdapter(options: {
+  url: string | null;
+  templates?: PayloadTemplates;
+  mtls?: boolean;
+}): BrokerAdapter {
+  const templates = options.templates ?? {};
+  const tls = options.mtls ? loadClientCertificate() : null;
+
+  async function post(payload: Record<string, any>, idempotencyKey: string): Promise<BrokerResult> {
+    return sendWebhookRequest(options.url!, payload, {
+      idempotency_key: idempotencyKey,
+      client_certificate: tls?.certificate
+    });
+  }
+
+  return {
+    name: 'webhook',
+    tracksOrders: false,
+
+    configurationError() {
+      if (!options.url) return 'Broker webhook URL not configured';
+      return tls?.error ?? null;
+    },
+
+    async submitOrder(order: BrokerOrderRequest): Promise<BrokerResult> {
+      const { payload, error } = buildWebhookPayload(orderEvent(order), order, templates);
+      if (error) return unsupportedOrder(error);
+      return post(payload, order.client_order_id);
+    },
+
+    async cancelOrder(clientOrderId: string, order?: BrokerOrderRequest): Promise<BrokerResult> {
+      let payload: any = { event: 'cancel', client_order_id: clientOrderId };
+      if (order) {
+        const built = buildWebhookPayload('cancel', order, templates);
+        if (built.error) return unsupportedOrder(built.error);
+        payload = built.payload;
+      }
+      const result = await post(payload, `${clientOrderId}:cancel`);
+      return { ...result, broker_order_id: clientOrderId, ...(result.success && { state: 'cancelled' }) };
+    },
+
+    async replaceOrder(clientOrderId: string, changes: BrokerOrderChanges, order?: BrokerOrderRequest): Promise<BrokerResult> {
+      let payload: any = { event: 'replace', client_order_id: clientOrderId, ...changes };
+      if (order) {
+        // Templates see the order as it will be after the edit
+        const built = buildWebhookPayload('replace', { ...order, ...changes }, templates);
+        if (built.error) return unsupportedOrder(built.error);
+        payload = built.payload;
+      }
+      // A different edit of the same order is a different request
+      const result = await post(payload, `${clientOrderId}:replace:${JSON.stringify(changes)}`);
+      return { ...result, broker_order_id: clientOrderId, ...(result.success && { state: 'accepted' }) };
+    },
+
+    async getOrder() {
+      return null;
+    },
+
+    async findOrder() {
+      return null;
+    },
+
+    async listPositions() {
+      return [];
+    }
+  };
+}
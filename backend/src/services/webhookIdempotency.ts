@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+
+/**
+ * Inbound webhook idempotency.
+ *
+ * An alert's key is its `alert_id`, or else a hash of the fields that
+ * identify it (event, ticker, direction, price, quantity, fill, and the bar
+ * time — `bar_time` / `time` — when the template sends one). Without a bar
+ * time only the window separates a re-send from a new alert: the same
+ * payload again inside it is taken for a duplicate, after it for a new one.
+ *
+ * The first webhook log to claim a key owns it for the window (Settings →
+ * webhook_idempotency_window_seconds); a repeat inside the window is logged
+ * as 'duplicate' and answered with the original log id. Keys live in the database, so this holds across restarts
+ * and between server instances — the unique key decides which one wins.
+ */
+
+export const DEFAULT_IDEMPOTENCY_WINDOW_SECONDS = 300;
+
+// Fields hashed when there's no alert_id — enough to tell two different alerts apart
+const IDENTITY_FIELDS = [
+  'event', 'type', 'ticker', 'symbol', 'dir', 'action', 'order_action',
+  'price', 'price_ticks', 'limit_price', 'limit_price_ticks', 'stop_price', 'stop_price_ticks',
+  'trail_amount', 'trail_percent', 'quantity', 'qty_percent', 'execution_id',
+  'fill_id', 'fill_price_ticks', 'day_peak_move_pct', 'bar_time', 'time'
+];
+
+const present = (value: any) => value !== undefined && value !== null && value !== '';
+
+/** The payload's idempotency key: `alert:<alert_id>`, else `hash:<sha256>` of its identity fields */
+export function idempotencyKeyFor(payload: any): string {
+  if (present(payload?.alert_id)) {
+    return `alert:${String(payload.alert_id)}`;
+  }
+  const identity = IDENTITY_FIELDS
+    .filter(field => payload?.[field] !== undefined && payload[field] !== null)
+    .map(field => {
+      const value = payload[field];
+      // Tickers and event names arrive in either case
+      return `${field}=${['event', 'type', 'ticker', 'symbol'].includes(field) ? String(value).toUpperCase() : String(value)}`;
+    });
+  return `hash:${crypto.createHash('sha256').update(identity.join('|')).digest('hex')}`;
+}
+
+/**
+ * Claim a key for a webhook log. Returns null when the log owns it now, or
+ * the id of the log that already owns it (the payload is a duplicate).
+ * An expired key is taken over with a conditional update, so two instances
+ * can't both take it.
+ */
+export async function claimIdempotencyKey(key: string, logId: string, windowSeconds: number): Promise<string | null> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + windowSeconds * 1000);
+
+  try {
+    await prisma.webhookIdempotencyKey.create({ data: { key, log_id: logId, expires_at: expiresAt } });
+    return null;
+  } catch (e) {
+    if (!(e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002')) throw e;
+  }
+
+  const takenOver = await prisma.webhookIdempotencyKey.updateMany({
+    where: { key, expires_at: { lte: now } },
+    data: { log_id: logId, expires_at: expiresAt, created_at: now }
+  });
+  if (takenOver.count > 0) return null;
+
+  const existing = await prisma.webhookIdempotencyKey.findUnique({ where: { key } });
+  // Released between our create and lookup — treat as claimed rather than drop the alert
+  return existing && existing.log_id !== logId ? existing.log_id : null;
+}
+
+/** Give a key back (its log was never written), so a re-send isn't taken for a duplicate */
+export async function releaseIdempotencyKey(key: string, logId: string): Promise<void> {
+  await prisma.webhookIdempotencyKey.deleteMany({ where: { key, log_id: logId } });
+}
+
+/** Delete keys whose window has passed */
+export async function purgeExpiredIdempotencyKeys(): Promise<number> {
+  const result = await prisma.webhookIdempotencyKey.deleteMany({ where: { expires_at: { lt: new Date() } } });
+  return result.count;
+}
@@ -0,0 +1,253 @@
+import { prisma } from '../index';
+import { isTradingWindowET } from './executionScheduler';
+
+/**
+ * Durable inbound webhook queue.
+ *
+ * handleWebhook() only writes the WebhookLog row ('queued') and acknowledges
+ * TradingView; this worker owns the processing:
+ *   - up to MAX_CONCURRENCY rows are processed at once, oldest first
+ *   - rows for one ticker run strictly in arrival order — a ticker's next row
+ *     isn't claimed while an earlier one is queued or processing
+ *   - a row is claimed with a conditional update (queued → processing), so
+ *     two workers can never both take it
+ *   - a row left 'processing' longer than STALE_PROCESSING_MS was
+ *     interrupted (a restart or crash of whichever process claimed it) and
+ *     goes back to 'queued' — checked at startup and every RECOVERY_INTERVAL_MS.
+ *     Rows claimed more recently are left alone: another replica may still be
+ *     working on them. One interrupted MAX_ATTEMPTS times, or older than
+ *     MAX_SIGNAL_AGE_MS (the market has moved on), is marked 'error' instead
+ *   - polling only runs while rows are queued or processing; handleWebhook
+ *     kicks the queue awake, and when it's empty it drops to an idle heartbeat
+ *     (in the trading window only) so the database can sleep
+ *
+ * Failed rows can be queued again by hand from Webhook Logs (requeueWebhookLog).
+ */
+
+const MAX_CONCURRENCY = 4;
+const POLL_INTERVAL_MS = 2000;
+const MAX_ATTEMPTS = 3;
+const MAX_SIGNAL_AGE_MS = 10 * 60 * 1000;
+// Longer than any one row takes, broker calls (10s timeout, inline retries) included
+const STALE_PROCESSING_MS = 2 * 60 * 1000;
+const RECOVERY_INTERVAL_MS = 60 * 1000;
+const IDLE_HEARTBEAT_MS = 5 * 60 * 1000;
+const SCAN_SIZE = 50;
+
+let running = false;
+let pollInterval: NodeJS.Timeout | null = null;   // active — rows queued or processing
+let idleInterval: NodeJS.Timeout | null = null;   // idle heartbeat
+let pumping = false;
+let pumpAgain = false;
+let lastRecoveryAt = 0;
+const inFlight = new Map<string, string | null>();  // log id → ticker
+
+async function runLog(log: { id: string; payload: string }): Promise<void> {
+  // Dynamic import — the controller imports this module to kick the queue
+  const { processWebhookAsync } = await import('../controllers/webhookController');
+  let body: any;
+  try {
+    body = JSON.parse(log.payload);
+  } catch {
+    await prisma.webhookLog.update({ where: { id: log.id }, data: { status: 'error', error: 'Stored payload is not valid JSON' } });
+    return;
+  }
+  await processWebhookAsync(body, log.id);
+}
+
+/** Claim and start as many eligible rows as there are free slots */
+async function pump(): Promise<void> {
+  if (pumping) {
+    pumpAgain = true;
+    return;
+  }
+  pumping = true;
+  try {
+    do {
+      pumpAgain = false;
+      if (inFlight.size >= MAX_CONCURRENCY) return;
+
+      const candidates = await prisma.webhookLog.findMany({
+        where: { status: 'queued' },
+        orderBy: { timestamp: 'asc' },
+        take: SCAN_SIZE,
+        select: { id: true, ticker: true, payload: true, timestamp: true }
+      });
+      if (candidates.length === 0) return;
+
+      // Tickers with a row still running anywhere (this process or another) hold back their later rows
+      const busy = new Set<string>(
+        (await prisma.webhookLog.findMany({
+          where: { status: 'processing', ticker: { in: candidates.map(c => c.ticker).filter((t): t is string => !!t) } },
+          select: { ticker: true }
+        })).map(r => r.ticker!)
+      );
+
+      for (const log of candidates) {
+        if (inFlight.size >= MAX_CONCURRENCY) break;
+        if (log.ticker) {
+          if (busy.has(log.ticker)) continue;
+          busy.add(log.ticker);  // later rows for this ticker wait even if this claim loses
+        }
+
+        const claimed = await prisma.webhookLog.updateMany({
+          where: { id: log.id, status: 'queued' },
+          data: { status: 'processing', started_at: new Date(), attempts: { increment: 1 } }
+        });
+        if (claimed.count === 0) continue;
+
+        inFlight.set(log.id, log.ticker);
+        runLog(log)
+          .catch(async (error: any) => {
+            console.error(`❌ Webhook queue error for ${log.id}:`, error.message);
+            await prisma.webhookLog.update({
+              where: { id: log.id },
+              data: { status: 'error', error: error.message }
+            }).catch(err => console.error('Failed to update webhook log:', err));
+          })
+          .finally(() => {
+            inFlight.delete(log.id);
+            // A finished row may free its ticker's next one
+            kickWebhookQueue();
+          });
+      }
+    } while (pumpAgain);
+  } catch (error: any) {
+    console.error('❌ Webhook queue error:', error.message);
+  } finally {
+    pumping = false;
+  }
+}
+
+/** Process newly queued rows now instead of at the next poll — wakes the poller if it's idle */
+export function kickWebhookQueue(): void {
+  if (!running) return;  // stopped (shutting down) — queued rows wait for the next start
+  activateWebhookQueue();
+  pump().catch(err => console.error('❌ Webhook queue error:', err.message));
+}
+
+function activateWebhookQueue(): void {
+  if (pollInterval) return;
+  if (idleInterval) {
+    clearInterval(idleInterval);
+    idleInterval = null;
+  }
+  pollInterval = setInterval(pollWebhookQueue, POLL_INTERVAL_MS);
+}
+
+function idleWebhookQueue(): void {
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+  if (idleInterval) return;
+  // Catches rows another replica queued and never finished; the next webhook wakes it anyway
+  idleInterval = setInterval(async () => {
+    if (!isTradingWindowET()) return;
+    try {
+      if (await hasQueuedWork()) kickWebhookQueue();
+    } catch (err: any) {
+      console.error('❌ Webhook queue heartbeat error:', err.message);
+    }
+  }, IDLE_HEARTBEAT_MS);
+}
+
+async function hasQueuedWork(): Promise<boolean> {
+  return (await prisma.webhookLog.count({ where: { status: { in: ['queued', 'processing'] } } })) > 0;
+}
+
+/**
+ * Put rows an interrupted process left behind back in the queue. A row counts
+ * as interrupted once its claim is STALE_PROCESSING_MS old, so rows this or
+ * another replica is still processing are never taken from under it.
+ */
+async function recoverInterruptedLogs(): Promise<void> {
+  lastRecoveryAt = Date.now();
+  const interrupted = await prisma.webhookLog.findMany({
+    where: {
+      status: 'processing',
+      OR: [{ started_at: { lt: new Date(Date.now() - STALE_PROCESSING_MS) } }, { started_at: null }]
+    },
+    select: { id: true, attempts: true, timestamp: true }
+  });
+  const cutoff = Date.now() - MAX_SIGNAL_AGE_MS;
+  let requeued = 0;
+
+  for (const log of interrupted) {
+    const error = log.attempts >= MAX_ATTEMPTS
+      ? `Interrupted ${log.attempts} times while processing — retry from Webhook Logs`
+      : log.timestamp.getTime() < cutoff
+        ? 'Interrupted and too old to resume — retry from Webhook Logs'
+        : null;
+    // Conditional — the row may have finished since it was read
+    const recovered = await prisma.webhookLog.updateMany({
+      where: { id: log.id, status: 'processing' },
+      data: error ? { status: 'error', error } : { status: 'queued' }
+    });
+    if (recovered.count > 0 && !error) requeued++;
+  }
+
+  const expired = await prisma.webhookLog.updateMany({
+    where: { status: 'queued', timestamp: { lt: new Date(cutoff) } },
+    data: { status: 'error', error: 'Queued too long to process — retry from Webhook Logs' }
+  });
+
+  if (interrupted.length > 0 || expired.count > 0) {
+    console.warn(`⚠️ Webhook queue recovery: ${requeued} resumed, ${interrupted.length - requeued + expired.count} marked error`);
+  }
+}
+
+/** Queue a failed row again (null when there's no such row; throws when it hasn't failed) */
+export async function requeueWebhookLog(id: string, requestedBy: string | null) {
+  const log = await prisma.webhookLog.findUnique({ where: { id } });
+  if (!log) return null;
+
+  const requeued = await prisma.webhookLog.updateMany({
+    where: { id, status: 'error' },
+    data: { status: 'queued', error: null, attempts: 0 }
+  });
+  if (requeued.count === 0) throw new Error(`Only failed webhooks can be retried (this one is ${log.status})`);
+
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'webhook_retried',
+      ticker: log.ticker,
+      details: JSON.stringify({ webhook_log_id: id, last_error: log.error, attempts: log.attempts, requested_by: requestedBy })
+    }
+  });
+  console.log(`🔁 Webhook ${id} (${log.ticker || 'no ticker'}) queued again${requestedBy ? ` by ${requestedBy}` : ''}`);
+
+  kickWebhookQueue();
+  return { ...log, status: 'queued', error: null };
+}
+
+/** Active tick: recover stale rows now and then, claim what's eligible, go idle once nothing is left */
+async function pollWebhookQueue(): Promise<void> {
+  try {
+    if (Date.now() - lastRecoveryAt >= RECOVERY_INTERVAL_MS) await recoverInterruptedLogs();
+    await pump();
+    if (running && inFlight.size === 0 && !(await hasQueuedWork())) idleWebhookQueue();
+  } catch (err: any) {
+    console.error('❌ Webhook queue error:', err.message);
+  }
+}
+
+export async function startWebhookQueue(): Promise<void> {
+  if (running) return;
+  running = true;
+  await recoverInterruptedLogs();
+  kickWebhookQueue();
+  console.log(`📥 Webhook queue started (${MAX_CONCURRENCY} at a time, every ${POLL_INTERVAL_MS / 1000}s while busy)`);
+}
+
+export function stopWebhookQueue(): void {
+  running = false;
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+  if (idleInterval) {
+    clearInterval(idleInterval);
+    idleInterval = null;
+  }
+}
@@ -0,0 +1,239 @@
+import { prisma } from '../index';
+import { kickWebhookQueue } from './webhookQueue';
+
+/**
+ * Webhook replay.
+ *
+ * Stored payloads — WebhookLog rows, or a webhook history CSV export — are
+ * re-run either for real or as a dry run:
+ *   - real: each payload becomes a new WebhookLog row (source 'replay',
+ *     replay_of the original) in the webhook queue, so it is processed exactly
+ *     like a live alert, in order per ticker
+ *   - dry run: dryRunWebhook evaluates the blocking rules and reports what
+ *     would have happened, writing nothing. A batch shares one DryRunState so
+ *     later rows see the cards / orders / positions earlier ones would have made
+ *
+ * Rows that failed webhook auth are never replayed for real.
+ */
+
+export const MAX_REPLAY_BATCH = 5000;
+
+export interface ReplayItem {
+  payload: any;
+  timestamp: Date | null;
+  log_id?: string;
+}
+
+/** Split one CSV line into cells (quoted cells may hold commas and "" escapes) */
+function csvCells(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+const numberOrUndefined = (value: string | undefined) => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+/**
+ * Rebuild webhook payloads from a webhook history CSV (Type, Timestamp (UTC),
+ * Ticker, Direction, Strategy, Timeframe, Price, … Gate Vector). WALL_NEW /
+ * WALL_UPDATE rows become WALL; a missing direction comes from the order
+ * action or a LONG / SHORT strategy name. A `Payload` column of JSON, when
+ * present, is used as-is.
+ */
+export function parseWebhookHistoryCsv(text: string): { items: ReplayItem[]; error: string | null } {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) return { items: [], error: 'CSV has no rows' };
+
+  const header = csvCells(lines[0]).map(h => h.trim().toLowerCase());
+  const col = (cells: string[], name: string) => {
+    const index = header.indexOf(name);
+    return index >= 0 ? cells[index]?.trim() : undefined;
+  };
+  if (!header.includes('payload') && !(header.includes('type') && header.includes('ticker'))) {
+    return { items: [], error: 'CSV needs a Payload column, or Type and Ticker columns' };
+  }
+
+  const items: ReplayItem[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const cells = csvCells(lines[i]);
+    const stamp = col(cells, 'timestamp (utc)') || col(cells, 'timestamp');
+    const timestamp = stamp && !isNaN(Date.parse(stamp)) ? new Date(stamp) : null;
+
+    const raw = col(cells, 'payload');
+    if (raw) {
+      try {
+        items.push({ payload: JSON.parse(raw), timestamp });
+      } catch {
+        return { items: [], error: `Row ${i + 1}: Payload is not valid JSON` };
+      }
+      continue;
+    }
+
+    const type = (col(cells, 'type') || '').toUpperCase();
+    const strategy = col(cells, 'strategy') || undefined;
+    const orderAction = col(cells, 'order action')?.toLowerCase() || undefined;
+    const dir = col(cells, 'direction')
+      || (orderAction === 'sell' ? 'Short' : orderAction === 'buy' ? 'Long' : undefined)
+      || (/\bshort\b/i.test(strategy ?? '') ? 'Short' : /\blong\b/i.test(strategy ?? '') ? 'Long' : undefined);
+
+    const gates: Record<string, boolean> = {};
+    for (const pair of (col(cells, 'gate vector') || '').split(';')) {
+      const [name, value] = pair.split('=').map(part => part?.trim());
+      if (name) gates[name] = value === '1' || value?.toLowerCase() === 'true';
+    }
+
+    const payload: Record<string, any> = {
+      event: type.startsWith('WALL') && type !== 'WALL_55PCT' ? 'WALL' : type,
+      ticker: col(cells, 'ticker'),
+      dir,
+      strategy_id: strategy,
+      tf: col(cells, 'timeframe') || undefined,
+      price: numberOrUndefined(col(cells, 'price')),
+      gates_hit: numberOrUndefined(col(cells, 'gates hit')),
+      gates_total: numberOrUndefined(col(cells, 'gates total')),
+      quality_tier: col(cells, 'quality tier') || undefined,
+      quality_score: numberOrUndefined(col(cells, 'quality score')),
+      order_action: orderAction,
+      quantity: numberOrUndefined(col(cells, 'quantity')),
+      limit_price: numberOrUndefined(col(cells, 'limit price')),
+      ...(Object.keys(gates).length > 0 && { gates })
+    };
+    items.push({ payload: JSON.parse(JSON.stringify(payload)), timestamp });
+  }
+
+  if (items.length > MAX_REPLAY_BATCH) {
+    return { items: [], error: `CSV has ${items.length} rows — replay at most ${MAX_REPLAY_BATCH} at a time` };
+  }
+  items.sort((a, b) => (a.timestamp?.getTime() ?? 0) - (b.timestamp?.getTime() ?? 0));
+  return { items, error: null };
+}
+
+/**
+ * Stored webhooks received in a time range, oldest first — never the
+ * unauthorized ones, and earlier replays only when asked for by source
+ */
+export async function replayItemsFromLogs(filter: { from: Date; to: Date; ticker?: string; status?: string; source?: string }): Promise<{
+  items: ReplayItem[];
+  error: string | null;
+}> {
+  const logs = await prisma.webhookLog.findMany({
+    where: {
+      timestamp: { gte: filter.from, lte: filter.to },
+      status: filter.status ? filter.status : { not: 'unauthorized' },
+      ...(filter.ticker && { ticker: filter.ticker.toUpperCase() }),
+      source: filter.source ? filter.source : { not: 'replay' }
+    },
+    orderBy: { timestamp: 'asc' },
+    take: MAX_REPLAY_BATCH + 1
+  });
+  if (logs.length > MAX_REPLAY_BATCH) {
+    return { items: [], error: `More than ${MAX_REPLAY_BATCH} webhooks in that range — narrow it` };
+  }
+  const items = logs
+    .filter(log => log.status !== 'unauthorized')
+    .map(log => {
+      let payload: any = null;
+      try { payload = JSON.parse(log.payload); } catch {}
+      return { payload, timestamp: log.timestamp, log_id: log.id };
+    });
+  return { items, error: null };
+}
+
+/**
+ * Replay a batch. Dry runs return one outcome per item plus counts by
+ * outcome / reason; real replays return the ids of the queued rows.
+ */
+export async function replayWebhooks(
+  items: ReplayItem[],
+  options: { dry_run: boolean; fresh?: boolean; requested_by: string | null; label: string }
+) {
+  if (options.dry_run) {
+    const { createDryRunState, dryRunWebhook } = await import('../controllers/webhookController');
+    const state = createDryRunState(options.fresh === true);
+    const results = [];
+    const summary: Record<string, number> = {};
+
+    for (const item of items) {
+      const outcome = await dryRunWebhook(item.payload, state);
+      const key = outcome.reason ? `${outcome.outcome}:${outcome.reason}` : outcome.outcome;
+      summary[key] = (summary[key] ?? 0) + 1;
+      results.push({ log_id: item.log_id ?? null, timestamp: item.timestamp, ...outcome });
+    }
+    return { dry_run: true as const, fresh: state.fresh, count: items.length, summary, results };
+  }
+
+  const queued: string[] = [];
+  for (const item of items) {
+    if (!item.payload || typeof item.payload !== 'object') continue;
+    const rawTicker = item.payload.ticker || item.payload.symbol;
+    const log = await prisma.webhookLog.create({
+      data: {
+        source: 'replay',
+        payload: JSON.stringify(item.payload),
+        status: 'queued',
+        ticker: typeof rawTicker === 'string' ? rawTicker.toUpperCase() : null,
+        replay_of: item.log_id ?? null
+      }
+    });
+    queued.push(log.id);
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      event_type: 'webhooks_replayed',
+      ticker: null,
+      details: JSON.stringify({
+        source: options.label,
+        count: queued.length,
+        replay_of: items.length === 1 ? items[0].log_id ?? null : undefined,
+        requested_by: options.requested_by
+      })
+    }
+  });
+  console.log(`🔁 Replaying ${queued.length} webhook(s) from ${options.label}${options.requested_by ? ` for ${options.requested_by}` : ''}`);
+
+  kickWebhookQueue();
+  return { dry_run: false as const, count: queued.length, queued };
+}
+
+/** Replay one stored webhook; null when there's no such log, an error when it can't be replayed */
+export async function replayWebhookLog(id: string, options: { dry_run: boolean; requested_by: string | null }): Promise<{
+  result: any;
+  error: string | null;
+} | null> {
+  const log = await prisma.webhookLog.findUnique({ where: { id } });
+  if (!log) return null;
+  if (log.status === 'unauthorized' && !options.dry_run) {
+    return { result: null, error: 'This webhook failed authentication — it can only be dry-run' };
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(log.payload);
+  } catch {
+    return { result: null, error: 'Stored payload is not valid JSON' };
+  }
+  const result = await replayWebhooks([{ payload, timestamp: log.timestamp, log_id: log.id }], { ...options, label: `log ${id}` });
+  return { result: result.dry_run ? { dry_run: true, ...result.results[0] } : result, error: null };
+}
@@ -0,0 +1,357 @@
+import { body, checkSchema, oneOf, Schema, validationResult } from 'express-validator';
+import { ORDER_TYPES, TIME_IN_FORCE } from './orderSpec';
+
+/**
+ * Inbound webhook contract.
+ *
+ * Each event has an explicit field list. The same table drives both the
+ * express-validator run on every payload and the JSON Schema published at
+ * GET /api/webhook/schema, so Pine script authors validate against exactly
+ * what the server enforces.
+ *
+ * `schema_version` is optional — a payload without it is read as the current
+ * version. Fields not listed are ignored, as before; listed fields must have
+ * the right type. Numbers may arrive as numeric strings ("{{close}}" quoted
+ * in an alert template). Requirements mirror what processing already needed,
+ * so a payload that used to work still validates unless a field was wrong.
+ */
+
+export const WEBHOOK_SCHEMA_VERSION = 1;
+export const SUPPORTED_SCHEMA_VERSIONS = [1];
+
+export const WEBHOOK_EVENTS = [
+  'WALL', 'SIGNAL', 'ORDER', 'EXIT', 'SL_HIT', 'CONFIRMED', 'WALL_55PCT',
+  'SCALE_IN', 'PARTIAL_EXIT', 'CANCEL', 'MODIFY'
+] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export interface WebhookFieldError {
+  field: string;
+  message: string;
+  value?: any;
+}
+
+type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'gates' | 'scalar';
+
+interface FieldSpec {
+  type: FieldType;
+  description: string;
+  enum?: readonly string[];
+  loose?: boolean;  // enum compared ignoring case, spaces and dashes — processing normalizes these
+  positive?: boolean;
+}
+
+interface EventSpec {
+  description: string;
+  fields: Record<string, FieldSpec>;
+  required: string[][];  // each group: at least one of these fields
+}
+
+const COMMON_FIELDS: Record<string, FieldSpec> = {
+  event: { type: 'string', description: 'Event type', enum: WEBHOOK_EVENTS, loose: true },
+  type: { type: 'string', description: 'Legacy alias for event', enum: WEBHOOK_EVENTS, loose: true },
+  schema_version: { type: 'integer', description: `Contract version (current: ${WEBHOOK_SCHEMA_VERSION})` },
+  ticker: { type: 'string', description: 'Symbol, e.g. AAPL' },
+  symbol: { type: 'string', description: 'TradingView alias for ticker' },
+  strategy_id: { type: 'string', description: 'Strategy that produced the alert' },
+  alert_id: { type: 'scalar', description: 'Unique alert id — repeats inside the idempotency window are logged as duplicates' },
+  bar_time: { type: 'scalar', description: 'Bar time, e.g. {{time}} — part of the duplicate check when alert_id is absent' },
+  time: { type: 'scalar', description: 'Alias for bar_time' },
+  mintick: { type: 'number', description: 'Tick size — *_ticks fields are multiplied by it', positive: true }
+};
+
+const DIRECTION_FIELDS: Record<string, FieldSpec> = {
+  dir: { type: 'string', description: 'Long or Short', enum: ['Long', 'Short'] },
+  action: { type: 'string', description: 'TradingView alias: buy = Long, sell = Short', enum: ['buy', 'sell'] }
+};
+
+const QUALITY_FIELDS: Record<string, FieldSpec> = {
+  quality_tier: { type: 'string', description: 'Legacy quality tier (A–D)' },
+  quality_score: { type: 'number', description: 'Legacy quality score 0–100' }
+};
+
+const ORDER_FIELDS: Record<string, FieldSpec> = {
+  price: { type: 'number', description: 'Signal price (limit when limit_price is absent)' },
+  limit_price: { type: 'number', description: 'Limit price; 0 means market' },
+  limit_price_ticks: { type: 'integer', description: 'limit_price in ticks (× mintick)' },
+  quantity: { type: 'number', description: 'Shares — absent or 0: 1 for ORDER, the whole position for EXIT' },
+  order_action: { type: 'string', description: 'buy or sell (defaults from dir)', enum: ['buy', 'sell'] },
+  order_type: { type: 'string', description: 'Order type (default limit, or market without a limit)', enum: ORDER_TYPES, loose: true },
+  time_in_force: { type: 'string', description: 'Time in force (default day)', enum: TIME_IN_FORCE, loose: true },
+  tif: { type: 'string', description: 'Alias for time_in_force', enum: TIME_IN_FORCE, loose: true },
+  stop_price: { type: 'number', description: 'Stop trigger for stop / stop_limit orders', positive: true },
+  stop_price_ticks: { type: 'integer', description: 'stop_price in ticks' },
+  trail_amount: { type: 'number', description: 'Trailing stop distance in price', positive: true },
+  trail_percent: { type: 'number', description: 'Trailing stop distance in percent', positive: true },
+  take_profit_price: { type: 'number', description: 'Bracket take-profit leg', positive: true },
+  take_profit: { type: 'number', description: 'Alias for take_profit_price', positive: true },
+  take_profit_ticks: { type: 'integer', description: 'take_profit_price in ticks' },
+  stop_loss_price: { type: 'number', description: 'Bracket stop-loss leg', positive: true },
+  stop_loss: { type: 'number', description: 'Alias for stop_loss_price', positive: true },
+  stop_loss_ticks: { type: 'integer', description: 'stop_loss_price in ticks' }
+};
+
+// CANCEL / MODIFY target: this execution, or else the ticker's latest resting entry
+const TARGET_FIELDS: Record<string, FieldSpec> = {
+  execution_id: { type: 'string', description: 'Execution to act on (default: the latest resting entry for the ticker)' }
+};
+
+const TICKER_REQUIRED = ['ticker', 'symbol'];
+const DIRECTION_REQUIRED = ['dir', 'action'];
+
+const WALL_SPEC: EventSpec = {
+  description: 'Candidate card for review, scored from its gates',
+  fields: {
+    ...DIRECTION_FIELDS,
+    ...QUALITY_FIELDS,
+    price: { type: 'number', description: 'Signal price' },
+    price_ticks: { type: 'integer', description: 'price in ticks (× mintick)' },
+    limit_price: { type: 'number', description: 'Suggested limit price' },
+    tf: { type: 'string', description: 'Timeframe, e.g. 1m' },
+    intent: { type: 'object', description: 'Strategy intent flags' },
+    gates: { type: 'gates', description: 'Gate name → passed (true / false)' },
+    gates_hit: { type: 'integer', description: 'Legacy: gates passed (when gates is absent)' },
+    gates_total: { type: 'integer', description: 'Legacy: gates evaluated' },
+    primary_blocker: { type: 'string', description: 'Gate holding the card back' },
+    card_state: { type: 'string', description: 'Card state, e.g. ARMED' }
+  },
+  required: [TICKER_REQUIRED, DIRECTION_REQUIRED]
+};
+
+export const EVENT_SPECS: Record<WebhookEvent, EventSpec> = {
+  WALL: WALL_SPEC,
+  SIGNAL: { ...WALL_SPEC, description: 'Alias for WALL' },
+  ORDER: {
+    description: 'Entry order',
+    fields: { ...DIRECTION_FIELDS, ...QUALITY_FIELDS, ...ORDER_FIELDS },
+    required: [TICKER_REQUIRED, ['dir', 'action', 'order_action']]
+  },
+  EXIT: {
+    description: 'Close (part of) the open position',
+    fields: { ...DIRECTION_FIELDS, ...ORDER_FIELDS },
+    required: [TICKER_REQUIRED]
+  },
+  SL_HIT: {
+    description: 'Broker-side stop loss filled — close the position locally',
+    fields: {
+      stop_price: { type: 'number', description: 'Price the stop filled at', positive: true }
+    },
+    required: [TICKER_REQUIRED]
+  },
+  CONFIRMED: {
+    description: 'Order fill confirmation',
+    fields: {
+      ...DIRECTION_FIELDS,
+      quantity: { type: 'number', description: 'Filled shares', positive: true },
+      fill_price_ticks: { type: 'integer', description: 'Fill price in ticks (× mintick)' },
+      fill_id: { type: 'string', description: 'Unique fill id — repeats are ignored' }
+    },
+    required: [TICKER_REQUIRED, ['quantity'], ['fill_price_ticks'], ['mintick']]
+  },
+  SCALE_IN: {
+    description: 'Add to the open position (same side)',
+    fields: {
+      ...DIRECTION_FIELDS,
+      ...ORDER_FIELDS,
+      quantity: { type: 'number', description: 'Shares to add', positive: true }
+    },
+    required: [TICKER_REQUIRED, ['quantity']]
+  },
+  PARTIAL_EXIT: {
+    description: 'Take partial profit — close part of the open position',
+    fields: {
+      ...DIRECTION_FIELDS,
+      ...ORDER_FIELDS,
+      quantity: { type: 'number', description: 'Shares to close (capped at the position)', positive: true },
+      qty_percent: { type: 'number', description: 'Percent of the open position to close, when quantity is absent', positive: true }
+    },
+    required: [TICKER_REQUIRED, ['quantity', 'qty_percent']]
+  },
+  CANCEL: {
+    description: 'Cancel a resting entry order',
+    fields: { ...TARGET_FIELDS },
+    required: [TICKER_REQUIRED]
+  },
+  MODIFY: {
+    description: 'Move the price (or size) of a resting entry order',
+    fields: {
+      ...TARGET_FIELDS,
+      limit_price: { type: 'number', description: 'New limit price', positive: true },
+      limit_price_ticks: { type: 'integer', description: 'limit_price in ticks (× mintick)' },
+      stop_price: { type: 'number', description: 'New stop trigger', positive: true },
+      stop_price_ticks: { type: 'integer', description: 'stop_price in ticks' },
+      trail_amount: { type: 'number', description: 'New trailing stop distance in price', positive: true },
+      trail_percent: { type: 'number', description: 'New trailing stop distance in percent', positive: true },
+      quantity: { type: 'number', description: 'New share count', positive: true }
+    },
+    required: [
+      TICKER_REQUIRED,
+      ['limit_price', 'limit_price_ticks', 'stop_price', 'stop_price_ticks', 'trail_amount', 'trail_percent', 'quantity']
+    ]
+  },
+  WALL_55PCT: {
+    description: 'Intraday 55%+ mover badge',
+    fields: {
+      ...DIRECTION_FIELDS,
+      day_peak_move_pct: { type: 'number', description: 'Peak intraday move in percent' },
+      is_delayed: { type: 'boolean', description: 'true: update the badge without notifying' }
+    },
+    required: [TICKER_REQUIRED, ['day_peak_move_pct']]
+  }
+};
+
+const matchesEnum = (value: any, spec: FieldSpec) => {
+  if (!spec.loose) return spec.enum!.includes(value);
+  const normalized = String(value).toLowerCase().replace(/[\s-]/g, '_');
+  return spec.enum!.some(option => option.toLowerCase() === normalized);
+};
+
+/** express-validator rules for one field */
+function fieldRules(spec: FieldSpec): Schema[string] {
+  const rules: Schema[string] = { optional: { options: { values: 'null' } } };
+  switch (spec.type) {
+    case 'string':
+      rules.isString = { errorMessage: 'must be a string' };
+      if (spec.enum) {
+        rules.custom = {
+          options: (value: any) => matchesEnum(value, spec),
+          errorMessage: `must be one of ${spec.enum.join(', ')}`
+        };
+      }
+      break;
+    case 'number':
+      rules.isFloat = spec.positive
+        ? { options: { gt: 0 }, errorMessage: 'must be a number above 0' }
+        : { errorMessage: 'must be a number' };
+      break;
+    case 'integer':
+      rules.isInt = { errorMessage: 'must be an integer' };
+      break;
+    case 'boolean':
+      rules.isBoolean = { options: { strict: true }, errorMessage: 'must be true or false' };
+      break;
+    case 'object':
+      rules.isObject = { errorMessage: 'must be an object' };
+      break;
+    case 'scalar':
+      rules.custom = {
+        options: (value: any) => (typeof value === 'string' && value !== '') || (typeof value === 'number' && Number.isFinite(value)),
+        errorMessage: 'must be a string or a number'
+      };
+      break;
+    case 'gates':
+      rules.custom = {
+        options: (value: any) => typeof value === 'object' && !Array.isArray(value)
+          && Object.values(value).every(v => typeof v === 'boolean'),
+        errorMessage: 'must be an object of gate name → true / false'
+      };
+      break;
+  }
+  return rules;
+}
+
+/**
+ * Check a payload against its event's contract. Errors are per field;
+ * an empty list means the payload can be processed.
+ */
+export async function validateWebhookPayload(payload: any): Promise<{ event: WebhookEvent | null; errors: WebhookFieldError[] }> {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return { event: null, errors: [{ field: '(body)', message: 'must be a JSON object' }] };
+  }
+
+  const rawEvent = payload.event ?? payload.type;
+  if (rawEvent === undefined || rawEvent === null || rawEvent === '') {
+    return { event: null, errors: [{ field: 'event', message: `is required (one of ${WEBHOOK_EVENTS.join(', ')})` }] };
+  }
+  const event = String(rawEvent).toUpperCase() as WebhookEvent;
+  if (!WEBHOOK_EVENTS.includes(event)) {
+    return { event: null, errors: [{ field: 'event', message: `must be one of ${WEBHOOK_EVENTS.join(', ')}`, value: rawEvent }] };
+  }
+  if (payload.schema_version !== undefined && !SUPPORTED_SCHEMA_VERSIONS.includes(Number(payload.schema_version))) {
+    return {
+      event,
+      errors: [{ field: 'schema_version', message: `unsupported — this server reads ${SUPPORTED_SCHEMA_VERSIONS.join(', ')}`, value: payload.schema_version }]
+    };
+  }
+
+  const spec = EVENT_SPECS[event];
+  const fields = { ...COMMON_FIELDS, ...spec.fields };
+  const schema: Schema = Object.fromEntries(
+    Object.entries(fields).map(([name, field]) => [name, fieldRules(field)])
+  );
+
+  // express-validator runs against a request; a plain object with the body is enough
+  const req: any = { body: payload };
+  await checkSchema(schema, ['body']).run(req);
+  for (const group of spec.required) {
+    await oneOf(
+      group.map(name => body(name).exists({ values: 'falsy' })),
+      { message: group.length === 1 ? 'is required' : `one of ${group.join(', ')} is required` }
+    ).run(req);
+  }
+
+  const errors: WebhookFieldError[] = [];
+  const required = new Map(spec.required.map(group => [group.join(' | '), group]));
+  for (const error of validationResult(req).array()) {
+    if (error.type === 'field') {
+      errors.push({ field: error.path, message: error.msg, value: error.value });
+    } else if (error.type === 'alternative' || error.type === 'alternative_grouped') {
+      // oneOf errors carry the group's fields in their nested errors
+      const paths = (error.type === 'alternative' ? error.nestedErrors : error.nestedErrors.flat())
+        .map((nested: any) => nested.path);
+      const group = [...required.values()].find(g => g.every(name => paths.includes(name)));
+      errors.push({ field: group ? group.join(' | ') : paths.join(' | '), message: error.msg });
+    }
+  }
+  return { event, errors };
+}
+
+/** One line for WebhookLog.error — the full list goes in validation_errors */
+export function summarizeFieldErrors(errors: WebhookFieldError[]): string {
+  return `Invalid payload: ${errors.map(e => `${e.field} ${e.message}`).join('; ')}`;
+}
+
+function jsonSchemaFor(field: FieldSpec): Record<string, any> {
+  const numeric = '^-?\\d+(\\.\\d+)?$';
+  switch (field.type) {
+    case 'number':
+      return {
+        description: field.description,
+        anyOf: [{ type: 'number', ...(field.positive && { exclusiveMinimum: 0 }) }, { type: 'string', pattern: numeric }]
+      };
+    case 'integer':
+      return { description: field.description, anyOf: [{ type: 'integer' }, { type: 'string', pattern: '^-?\\d+$' }] };
+    case 'gates':
+      return { description: field.description, type: 'object', additionalProperties: { type: 'boolean' } };
+    case 'scalar':
+      return { description: field.description, type: ['string', 'number'] };
+    case 'string':
+      return { description: field.description, type: 'string', ...(field.enum && { enum: [...field.enum] }) };
+    default:
+      return { description: field.description, type: field.type };
+  }
+}
+
+/** JSON Schema (draft 2020-12) of every event's payload — published for alert template authors */
+export function webhookJsonSchema(): Record<string, any> {
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: `execution-wall/webhook/v${WEBHOOK_SCHEMA_VERSION}`,
+    title: 'Execution Wall webhook payload',
+    description: 'Send one JSON object per alert. Fields not listed are ignored. Numbers may be sent as numeric strings.',
+    'x-schema-version': WEBHOOK_SCHEMA_VERSION,
+    type: 'object',
+    required: ['event'],
+    properties: Object.fromEntries(Object.entries(COMMON_FIELDS).map(([name, field]) => [name, jsonSchemaFor(field)])),
+    allOf: Object.entries(EVENT_SPECS).map(([event, spec]) => ({
+      if: { properties: { event: { const: event } }, required: ['event'] },
+      then: {
+        description: spec.description,
+        properties: Object.fromEntries(Object.entries(spec.fields).map(([name, field]) => [name, jsonSchemaFor(field)])),
+        allOf: spec.required.map(group => group.length === 1
+          ? { required: group }
+          : { anyOf: group.map(name => ({ required: [name] })) })
+      }
+    }))
+  };
+}
@@ -0,0 +1,287 @@
+import { Request } from 'express';
+import { prisma } from '../index';
+import { WEBHOOK_SOURCE_HEADER } from './webhookAuthService';
+import type { WebhookFieldError } from './webhookSchema';
+
+/**
+ * Webhook source profiles.
+ *
+ * TradingView alerts are written in the signal shape (event, ticker, dir,
+ * price…). Other senders — a TrendSpider alert, a scanner, a Discord bot —
+ * post their own field names, so each gets a profile and its own URL,
+ * POST /api/webhook/src/<name>. The profile turns the body into a signal
+ * before schema validation:
+ *
+ *   fields:   rules, in order, each writing one signal field (target) from the
+ *             first body path in `from` that has a value (dot paths, e.g.
+ *             "alert.symbol" or "embeds.0.title"). The value is looked up in
+ *             `map`, then converted by `transform`, then multiplied by `scale`;
+ *             `default` is used when no path has a value.
+ *   defaults: signal fields set when still missing after the rules
+ *   passthrough: body fields no rule reads are kept as-is
+ *
+ * The body as posted is kept on the WebhookLog (source_payload) next to the
+ * mapped payload, and the profile name is the log's source.
+ */
+
+export const SOURCE_TRANSFORMS = [
+  'string', 'number', 'integer', 'boolean', 'uppercase', 'lowercase', 'direction', 'action', 'event'
+] as const;
+export type SourceTransform = typeof SOURCE_TRANSFORMS[number];
+
+export interface SourceFieldRule {
+  target: string;
+  from: string[];
+  transform?: SourceTransform;
+  map?: Record<string, any>;
+  scale?: number;
+  default?: any;
+}
+
+export interface SourceProfile {
+  name: string;
+  description: string | null;
+  fields: SourceFieldRule[];
+  defaults: Record<string, any>;
+  passthrough: boolean;
+  active: boolean;
+}
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+// Sources the server writes itself — a profile can't take them over
+const RESERVED_SOURCES = ['replay', 'test', 'webhook'];
+const MAX_FIELD_RULES = 100;
+
+const LONG_WORDS = ['long', 'buy', 'bull', 'bullish', 'up', '1'];
+const SHORT_WORDS = ['short', 'sell', 'bear', 'bearish', 'down', '-1'];
+
+const isPlainObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+const present = (value: any) => value !== undefined && value !== null && value !== '';
+
+// Routes that label their own rows; the other signal routes take the built-in (TradingView) shape
+const ROUTE_SOURCES: Record<string, string> = { '/test': 'test' };
+
+/**
+ * WebhookLog.source for an inbound request: the source profile in the URL,
+ * else the source of the secret that authenticated it, else the
+ * X-Webhook-Source header, else the route's own label
+ */
+export function webhookSourceFor(req: Request, authenticatedSource?: string | null): string {
+  const profile = req.params?.profile;
+  if (profile) return String(profile).trim().toLowerCase();
+  if (authenticatedSource) return authenticatedSource;
+  const claimed = req.headers[WEBHOOK_SOURCE_HEADER];
+  const header = (Array.isArray(claimed) ? claimed[0] : claimed)?.trim().toLowerCase();
+  if (header) return header.slice(0, 40);
+  return ROUTE_SOURCES[req.route?.path] ?? 'tradingview';
+}
+
+/** Value at a dot path ("alert.symbol", "embeds.0.title"); undefined when any step is missing */
+export function valueAtPath(body: any, path: string): any {
+  let value = body;
+  for (const step of path.split('.')) {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined;
+    value = value[step];
+  }
+  return value;
+}
+
+/** Convert one value; an error message when it can't be */
+function applyTransform(value: any, transform: SourceTransform): { value: any; error: string | null } {
+  const text = String(value).trim();
+  switch (transform) {
+    case 'string':
+      return { value: typeof value === 'object' ? JSON.stringify(value) : text, error: null };
+    case 'uppercase':
+      return { value: text.toUpperCase(), error: null };
+    case 'lowercase':
+      return { value: text.toLowerCase(), error: null };
+    case 'number': {
+      const n = typeof value === 'number' ? value : Number(text.replace(/[$,\s]/g, ''));
+      return Number.isFinite(n) && text !== '' ? { value: n, error: null } : { value, error: 'is not a number' };
+    }
+    case 'integer': {
+      const n = typeof value === 'number' ? value : Number(text.replace(/[,\s]/g, ''));
+      return Number.isInteger(n) && text !== '' ? { value: n, error: null } : { value, error: 'is not a whole number' };
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value, error: null };
+      const lower = text.toLowerCase();
+      if (['true', '1', 'yes', 'y', 'on'].includes(lower)) return { value: true, error: null };
+      if (['false', '0', 'no', 'n', 'off'].includes(lower)) return { value: false, error: null };
+      return { value, error: 'is not true / false' };
+    }
+    case 'direction':
+    case 'action': {
+      const lower = text.toLowerCase();
+      const long = LONG_WORDS.includes(lower);
+      if (!long && !SHORT_WORDS.includes(lower)) return { value, error: 'is not a long / short (buy / sell) word' };
+      if (transform === 'direction') return { value: long ? 'Long' : 'Short', error: null };
+      return { value: long ? 'buy' : 'sell', error: null };
+    }
+    case 'event':
+      return { value: text.toUpperCase().replace(/[\s-]+/g, '_'), error: null };
+  }
+}
+
+/**
+ * Map a sender's body onto the signal shape. Errors name the signal field
+ * (target) and the body path it came from; the field is left out of the
+ * payload, so schema validation reports anything it needed.
+ */
+export function applySourceProfile(profile: Pick<SourceProfile, 'fields' | 'defaults' | 'passthrough'>, body: any): {
+  payload: Record<string, any>;
+  errors: WebhookFieldError[];
+} {
+  if (!isPlainObject(body)) {
+    return { payload: {}, errors: [{ field: '(body)', message: 'must be a JSON object' }] };
+  }
+
+  const errors: WebhookFieldError[] = [];
+  const payload: Record<string, any> = {};
+  if (profile.passthrough) {
+    // A body field a rule reads is consumed — a sender's "action: BUY_ALERT" mustn't reach the schema as-is
+    const consumed = new Set(profile.fields.flatMap(rule => rule.from.map(path => path.split('.')[0])));
+    for (const [key, value] of Object.entries(body)) {
+      if (!consumed.has(key)) payload[key] = value;
+    }
+  }
+
+  for (const rule of profile.fields) {
+    const path = rule.from.find(candidate => present(valueAtPath(body, candidate)));
+    if (path === undefined) {
+      if (rule.default !== undefined) payload[rule.target] = rule.default;
+      continue;
+    }
+
+    let value = valueAtPath(body, path);
+    if (rule.map) {
+      const key = String(value);
+      const mapped = Object.prototype.hasOwnProperty.call(rule.map, key)
+        ? rule.map[key]
+        : Object.entries(rule.map).find(([from]) => from.toLowerCase() === key.toLowerCase())?.[1];
+      if (mapped !== undefined) value = mapped;
+    }
+    if (rule.transform) {
+      const result = applyTransform(value, rule.transform);
+      if (result.error) {
+        errors.push({ field: rule.target, message: `${path} ${result.error}`, value });
+        continue;
+      }
+      value = result.value;
+    }
+    if (rule.scale !== undefined) {
+      const n = Number(value);
+      if (!Number.isFinite(n)) {
+        errors.push({ field: rule.target, message: `${path} is not a number, so can't be scaled`, value });
+        continue;
+      }
+      // Round off float noise from the multiply (e.g. cents × 0.01)
+      value = Math.round(n * rule.scale * 1e8) / 1e8;
+    }
+    payload[rule.target] = value;
+  }
+
+  for (const [field, value] of Object.entries(profile.defaults)) {
+    if (!present(payload[field])) payload[field] = value;
+  }
+  return { payload, errors };
+}
+
+/**
+ * Check a source profile create / update body (the parsed definition, or
+ * fields / defaults as JSON strings). Fields not in the body keep their
+ * current value.
+ */
+export function parseSourceProfileInput(input: any, existing?: any): { data: Record<string, any> | null; error: string | null } {
+  const fail = (error: string) => ({ data: null, error });
+  const data: Record<string, any> = {};
+  const has = (field: string) => input?.[field] !== undefined;
+  const parsed = (value: any) => {
+    if (typeof value !== 'string') return value;
+    try { return JSON.parse(value); } catch { return undefined; }
+  };
+
+  if (has('name') || !existing) {
+    const name = typeof input?.name === 'string' ? input.name.trim().toLowerCase() : '';
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      return fail('name must be 1-40 lowercase letters, digits, - or _ — it is the URL segment');
+    }
+    if (RESERVED_SOURCES.includes(name)) return fail(`name can't be one of: ${RESERVED_SOURCES.join(', ')}`);
+    data.name = name;
+  }
+  if (has('description')) {
+    const description = input.description ? String(input.description).trim() : '';
+    if (description.length > 200) return fail('description must be 200 characters or fewer');
+    data.description = description || null;
+  }
+  if (has('fields') || !existing) {
+    const fields = parsed(input?.fields ?? []);
+    if (!Array.isArray(fields)) return fail('fields must be an array of rules');
+    if (fields.length > MAX_FIELD_RULES) return fail(`fields can have at most ${MAX_FIELD_RULES} rules`);
+
+    const rules: SourceFieldRule[] = [];
+    for (const [i, raw] of fields.entries()) {
+      const at = `fields[${i}]`;
+      if (!isPlainObject(raw)) return fail(`${at} must be an object`);
+      const target = typeof raw.target === 'string' ? raw.target.trim() : '';
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(target)) return fail(`${at}.target must be a signal field name, e.g. ticker`);
+      const from = (Array.isArray(raw.from) ? raw.from : [raw.from ?? target])
+        .map((path: any) => (typeof path === 'string' ? path.trim() : ''));
+      if (from.length === 0 || from.some((path: string) => !path)) return fail(`${at}.from must be a body path or a list of them`);
+
+      const rule: SourceFieldRule = { target, from };
+      if (raw.transform !== undefined && raw.transform !== null && raw.transform !== '') {
+        if (!(SOURCE_TRANSFORMS as readonly string[]).includes(raw.transform)) {
+          return fail(`${at}.transform must be one of: ${SOURCE_TRANSFORMS.join(', ')}`);
+        }
+        rule.transform = raw.transform;
+      }
+      if (raw.map !== undefined && raw.map !== null) {
+        if (!isPlainObject(raw.map)) return fail(`${at}.map must be an object of sender value → signal value`);
+        rule.map = raw.map;
+      }
+      if (raw.scale !== undefined && raw.scale !== null && raw.scale !== '') {
+        const scale = Number(raw.scale);
+        if (!Number.isFinite(scale) || scale === 0) return fail(`${at}.scale must be a non-zero number`);
+        rule.scale = scale;
+      }
+      if (raw.default !== undefined) rule.default = raw.default;
+      rules.push(rule);
+    }
+    data.fields = JSON.stringify(rules);
+  }
+  if (has('defaults')) {
+    const defaults = parsed(input.defaults ?? {});
+    if (!isPlainObject(defaults)) return fail('defaults must be an object of signal field → value');
+    data.defaults = JSON.stringify(defaults);
+  }
+  if (has('passthrough')) data.passthrough = input.passthrough !== false;
+  if (has('active')) data.active = input.active !== false;
+  return { data, error: null };
+}
+
+/** A stored profile row with its JSON columns parsed */
+export function sourceProfileFromRow(row: any): SourceProfile & { id: string; created_at: Date; updated_at: Date } {
+  let fields: SourceFieldRule[] = [];
+  let defaults: Record<string, any> = {};
+  try { fields = JSON.parse(row.fields); } catch {}
+  try { defaults = JSON.parse(row.defaults); } catch {}
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    fields: Array.isArray(fields) ? fields : [],
+    defaults: isPlainObject(defaults) ? defaults : {},
+    passthrough: row.passthrough,
+    active: row.active,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+}
+
+/** The active profile for a URL segment; null when there's none */
+export async function findSourceProfile(name: string): Promise<SourceProfile | null> {
+  const row = await prisma.webhookSourceProfile.findUnique({ where: { name: name.trim().toLowerCase() } });
+  return row && row.active ? sourceProfileFromRow(row) : null;
+}
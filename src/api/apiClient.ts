@@ -35,15 +35,33 @@ api.interceptors.response.use(
     // Log error for debugging
     console.error('API Error:', error.response?.data || error.message);
 
-    // Handle 401 Unauthorized - redirect to login
+    // Handle 401 Unauthorized - drop the stale token and send the user to login
     if (error.response?.status === 401) {
       localStorage.removeItem('auth_token');
-      // Optionally redirect to login page
-      // window.location.href = '/login';
+      localStorage.removeItem('auth_user');
+      if (window.location.pathname.toLowerCase() !== '/login') {
+        window.location.href = '/login';
+      }
     }
 
     return Promise.reject(error);
   }
 );
 
+/**
+ * EventSource can't send an Authorization header — append the token as a
+ * query param instead (the backend accepts `?token=` for streams).
+ */
+export function withAuthToken(url: string): string {
+  const token = localStorage.getItem('auth_token');
+  if (!token) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}`;
+}
+
+/** Authorization header for code paths that use fetch() instead of axios */
+export function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token');
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 export default api;
@@ -0,0 +1,419 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Landmark, Plus, Pencil, Trash2, Send } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Card, CardContent } from '@/components/ui/card';
+import { toast } from 'sonner';
+import api from '@/api/apiClient';
+
+const ADAPTERS = [
+  { value: 'webhook', label: 'Webhook' },
+  { value: 'alpaca', label: 'Alpaca' },
+  { value: 'tradier', label: 'Tradier' },
+  { value: 'paper', label: 'Paper' },
+];
+
+const DEFAULT_FORM = {
+  name: '',
+  adapter: 'webhook',
+  paper: true,
+  webhook_url: '',
+  credentials_env: '',
+  enabled: true,
+  size_mode: 'multiplier',
+  size_multiplier: 1,
+  fixed_quantity: '',
+  max_notional: '',
+};
+
+const formatMoney = (value) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function sizingLabel(account) {
+  const size = account.size_mode === 'fixed'
+    ? `${account.fixed_quantity} shares`
+    : `${account.size_multiplier}× quantity`;
+  return account.max_notional ? `${size} · max ${formatMoney(account.max_notional)}` : size;
+}
+
+/**
+ * Additional broker accounts that trade every execution alongside the
+ * primary broker above. Each gets its own order per execution, sized here;
+ * its positions and realized P&L are booked separately.
+ */
+export default function BrokerAccountList({ isAdmin }) {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState(null); // null closed, 'new', or the account being edited
+  const [formData, setFormData] = useState(DEFAULT_FORM);
+
+  const { data: accounts = [], isLoading } = useQuery({
+    queryKey: ['brokerAccounts'],
+    queryFn: async () => {
+      const response = await api.get('/broker-accounts');
+      return response.data;
+    }
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data) => {
+      const payload = {
+        ...data,
+        fixed_quantity: data.size_mode === 'fixed' ? data.fixed_quantity : null,
+      };
+      const response = editing === 'new'
+        ? await api.post('/broker-accounts', payload)
+        : await api.put(`/broker-accounts/${editing.id}`, payload);
+      return response.data;
+    },
+    onSuccess: (account) => {
+      queryClient.invalidateQueries({ queryKey: ['brokerAccounts'] });
+      toast.success(`${account.name} saved`);
+      setEditing(null);
+    },
+    onError: (error) => {
+      toast.error(`Failed to save account: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, enabled }) => {
+      const response = await api.put(`/broker-accounts/${id}`, { enabled });
+      return response.data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['brokerAccounts'] }),
+    onError: (error) => {
+      toast.error(error.response?.data?.error || 'Failed to update account');
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id) => {
+      await api.delete(`/broker-accounts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['brokerAccounts'] });
+      toast.success('Account deleted');
+    },
+    onError: (error) => {
+      toast.error(error.response?.data?.error || 'Failed to delete account');
+    }
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id) => {
+      const response = await api.post(`/broker-accounts/${id}/test`);
+      return response.data;
+    },
+    onSuccess: (data) => toast.success(data.message || 'Account test successful'),
+    onError: (error) => {
+      toast.error(error.response?.data?.error || 'Account test failed');
+    }
+  });
+
+  const openEditor = (account) => {
+    setEditing(account);
+    setFormData(account === 'new' ? DEFAULT_FORM : {
+      ...DEFAULT_FORM,
+      ...account,
+      webhook_url: account.webhook_url ?? '',
+      credentials_env: account.credentials_env ?? '',
+      fixed_quantity: account.fixed_quantity ?? '',
+      max_notional: account.max_notional ?? '',
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-3">
+        <div className="h-16 bg-slate-800/50 rounded-lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {accounts.length === 0 ? (
+        <Card className="bg-slate-800/30 border-slate-700/50">
+          <CardContent className="py-8 text-center">
+            <Landmark className="w-10 h-10 mx-auto text-slate-500 mb-3" />
+            <p className="text-sm text-slate-400">Only the primary broker is trading</p>
+            <p className="text-xs text-slate-500 mt-1">
+              Add an account to mirror every execution into it
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {accounts.map((account) => (
+            <Card
+              key={account.id}
+              className={cn('bg-slate-800/30 border-slate-700/50', !account.enabled && 'opacity-60')}
+            >
+              <CardContent className="p-3 space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm text-slate-200 truncate">{account.name}</span>
+                      <span className="px-2 py-0.5 rounded text-xs font-medium text-orange-400 bg-orange-500/20 uppercase">
+                        {account.adapter}{['alpaca', 'tradier'].includes(account.adapter) && account.paper ? ' paper' : ''}
+                      </span>
+                      {account.orders?.failed > 0 && (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium text-red-400 bg-red-500/20">
+                          {account.orders.failed} failed
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 mt-1 text-xs text-slate-400">
+                      <span>{sizingLabel(account)}</span>
+                      <span className="text-slate-600">|</span>
+                      <span className={account.realized_pnl >= 0 ? 'text-emerald-400' : 'text-red-400'}>
+                        {formatMoney(account.realized_pnl ?? 0)} realized
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={account.enabled}
+                      disabled={!isAdmin}
+                      onCheckedChange={(enabled) => toggleMutation.mutate({ id: account.id, enabled })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-slate-400 hover:text-slate-200"
+                      title="Test connection"
+                      disabled={testMutation.isPending}
+                      onClick={() => testMutation.mutate(account.id)}
+                    >
+                      <Send className="w-4 h-4" />
+                    </Button>
+                    {isAdmin && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-slate-400 hover:text-slate-200"
+                          title="Edit"
+                          onClick={() => openEditor(account)}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-slate-400 hover:text-red-400"
+                          title="Delete"
+                          onClick={() => {
+                            if (confirm(`Delete broker account "${account.name}"?`)) {
+                              deleteMutation.mutate(account.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {account.open_positions?.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {account.open_positions.map((position) => (
+                      <span
+                        key={position.id}
+                        className={cn(
+                          'px-2 py-0.5 rounded text-xs font-mono',
+                          position.side === 'Long' ? 'text-emerald-300 bg-emerald-500/10' : 'text-red-300 bg-red-500/10'
+                        )}
+                      >
+                        {position.ticker} {position.side === 'Long' ? '+' : '-'}{position.quantity} @ {position.entry_price?.toFixed(2)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {isAdmin && (
+        <Button
+          variant="outline"
+          className="w-full border-dashed border-slate-600 text-slate-400 hover:text-slate-200 hover:border-slate-500"
+          onClick={() => openEditor('new')}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Account
+        </Button>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="bg-slate-900 border-slate-700 sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-slate-200">
+              {editing === 'new' ? 'Add Broker Account' : `Edit ${editing?.name ?? ''}`}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label className="text-slate-300">Name</Label>
+              <Input
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., IRA"
+                className="bg-slate-800 border-slate-700 text-slate-200"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-slate-300">Broker</Label>
+              <div className="grid grid-cols-4 gap-2">
+                {ADAPTERS.map(adapter => (
+                  <button
+                    key={adapter.value}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, adapter: adapter.value })}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+                      formData.adapter === adapter.value
+                        ? 'bg-orange-500/20 text-orange-400 border border-orange-500/50'
+                        : 'bg-slate-800/50 text-slate-400 hover:text-slate-300'
+                    }`}
+                  >
+                    {adapter.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {formData.adapter === 'webhook' && (
+              <div className="space-y-2">
+                <Label className="text-slate-300">Webhook URL</Label>
+                <Input
+                  value={formData.webhook_url}
+                  onChange={(e) => setFormData({ ...formData, webhook_url: e.target.value })}
+                  placeholder="https://..."
+                  className="bg-slate-800 border-slate-700 text-slate-200 font-mono text-xs"
+                />
+                <p className="text-xs text-slate-500">Uses the payload templates above.</p>
+              </div>
+            )}
+
+            {['alpaca', 'tradier'].includes(formData.adapter) && (
+              <>
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Credentials Prefix</Label>
+                  <Input
+                    value={formData.credentials_env}
+                    onChange={(e) => setFormData({ ...formData, credentials_env: e.target.value.toUpperCase() })}
+                    placeholder="e.g., IRA"
+                    className="bg-slate-800 border-slate-700 text-slate-200 font-mono"
+                  />
+                  <p className="text-xs text-slate-500">
+                    Reads {formData.credentials_env || 'PREFIX'}_{formData.adapter === 'alpaca' ? 'ALPACA_API_KEY_ID / _ALPACA_API_SECRET_KEY' : 'TRADIER_ACCOUNT_ID / _TRADIER_BROKER_TOKEN'} from the server environment.
+                  </p>
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label className="text-slate-300">Paper / sandbox</Label>
+                  <Switch
+                    checked={formData.paper}
+                    onCheckedChange={(paper) => setFormData({ ...formData, paper })}
+                  />
+                </div>
+              </>
+            )}
+
+            <div className="space-y-2">
+              <Label className="text-slate-300">Size</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {[
+                  { value: 'multiplier', label: 'Multiplier' },
+                  { value: 'fixed', label: 'Fixed shares' },
+                ].map(mode => (
+                  <button
+                    key={mode.value}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, size_mode: mode.value })}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+                      formData.size_mode === mode.value
+                        ? 'bg-orange-500/20 text-orange-400 border border-orange-500/50'
+                        : 'bg-slate-800/50 text-slate-400 hover:text-slate-300'
+                    }`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+              {formData.size_mode === 'multiplier' ? (
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={formData.size_multiplier}
+                  onChange={(e) => setFormData({ ...formData, size_multiplier: e.target.value })}
+                  className="bg-slate-800 border-slate-700 text-slate-200 w-32"
+                />
+              ) : (
+                <Input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={formData.fixed_quantity}
+                  onChange={(e) => setFormData({ ...formData, fixed_quantity: e.target.value })}
+                  className="bg-slate-800 border-slate-700 text-slate-200 w-32"
+                />
+              )}
+              <p className="text-xs text-slate-500">
+                Entries only — exits close the same share of this account&apos;s position as the signal closes of the primary&apos;s.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-slate-300">Max Notional ($)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={formData.max_notional}
+                onChange={(e) => setFormData({ ...formData, max_notional: e.target.value })}
+                placeholder="No limit"
+                className="bg-slate-800 border-slate-700 text-slate-200 w-40"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setEditing(null)} className="text-slate-400">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (!formData.name.trim()) {
+                  toast.error('Name is required');
+                  return;
+                }
+                saveMutation.mutate(formData);
+              }}
+              disabled={saveMutation.isPending}
+              className="bg-orange-500 hover:bg-orange-600"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
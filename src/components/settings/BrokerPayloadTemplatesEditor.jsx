@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Eye } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import api from '@/api/apiClient';
+
+const EVENTS = [
+  { value: 'entry', label: 'Entry' },
+  { value: 'exit', label: 'Exit', hint: 'Blank uses the entry template' },
+  { value: 'cancel', label: 'Cancel' },
+  { value: 'replace', label: 'Replace' },
+];
+
+const EXAMPLE = `{
+  "ticker": "{{ticker}}",
+  "action": "{{action}}",
+  "quantity": "{{qty}}",
+  "price": "{{limit | round:2}}",
+  "sentiment": "{{action | map:buy=bullish,sell=bearish}}"
+}`;
+
+function parseTemplates(value) {
+  if (!value) return {};
+  try {
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+    return Object.fromEntries(
+      Object.entries(parsed || {}).map(([event, template]) => [
+        event,
+        typeof template === 'string' ? template : JSON.stringify(template, null, 2)
+      ])
+    );
+  } catch {
+    return {};
+  }
+}
+
+// Event texts go to the server as-is — it parses and validates them on save
+function serializeTemplates(texts) {
+  const templates = {};
+  for (const [event, text] of Object.entries(texts)) {
+    if (text?.trim()) templates[event] = text;
+  }
+  return Object.keys(templates).length > 0 ? JSON.stringify(templates) : '';
+}
+
+/**
+ * Webhook body templates per event. `value` is the JSON string stored in
+ * settings.broker_payload_templates — like StrategyCapsEditor it's only
+ * re-serialized when a template is edited. Preview renders the current
+ * (unsaved) templates against a real execution.
+ */
+export default function BrokerPayloadTemplatesEditor({ value, onChange, disabled }) {
+  const [texts, setTexts] = useState(() => parseTemplates(value));
+  const [event, setEvent] = useState('entry');
+  const [executionId, setExecutionId] = useState('');
+  const [preview, setPreview] = useState(null);
+
+  const { data: reference } = useQuery({
+    queryKey: ['brokerTemplateFields'],
+    queryFn: async () => (await api.get('/settings/broker-templates/fields')).data,
+    staleTime: Infinity
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post('/settings/broker-templates/preview', {
+        execution_id: executionId.trim(),
+        event,
+        templates: serializeTemplates(texts) || undefined
+      });
+      return response.data;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error) => {
+      setPreview(null);
+      toast.error(error.response?.data?.error || 'Failed to render template');
+    }
+  });
+
+  const setText = (text) => {
+    const next = { ...texts, [event]: text };
+    setTexts(next);
+    onChange(serializeTemplates(next));
+  };
+
+  const current = EVENTS.find(e => e.value === event);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {EVENTS.map(({ value: eventValue, label }) => (
+          <Button
+            key={eventValue}
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => { setEvent(eventValue); setPreview(null); }}
+            className={cn(
+              "h-7 text-xs border-slate-700",
+              event === eventValue ? "bg-orange-500/20 border-orange-500/50 text-orange-300" : "text-slate-400"
+            )}
+          >
+            {label}
+            {texts[eventValue]?.trim() && <span className="ml-1 text-orange-400">•</span>}
+          </Button>
+        ))}
+      </div>
+
+      <Textarea
+        value={texts[event] ?? ''}
+        placeholder={event === 'entry' ? EXAMPLE : `Blank sends the built-in ${event} body`}
+        disabled={disabled}
+        onChange={(e) => setText(e.target.value)}
+        rows={8}
+        className="bg-slate-800 border-slate-700 text-white font-mono text-xs"
+      />
+      <p className="text-[11px] text-slate-500">
+        {current?.hint ? `${current.hint}. ` : ''}
+        Blank sends the built-in body. A whole-value placeholder keeps its type (&quot;{'{{qty}}'}&quot; → 10).
+      </p>
+
+      {reference && (
+        <div className="text-[11px] text-slate-500 space-y-1">
+          <p>
+            <span className="text-slate-400">Fields:</span>{' '}
+            {Object.entries(reference.fields).map(([name, description], i) => (
+              <span key={name} title={description}>
+                {i > 0 && ', '}
+                <code className="text-orange-300/80">{name}</code>
+              </span>
+            ))}
+          </p>
+          <p>
+            <span className="text-slate-400">Filters:</span>{' '}
+            <code className="text-orange-300/80">{reference.filters.join(', ')}</code>
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={executionId}
+          placeholder="Execution id to preview"
+          onChange={(e) => setExecutionId(e.target.value)}
+          className="bg-slate-800 border-slate-700 text-white font-mono text-xs h-8"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => previewMutation.mutate()}
+          disabled={!executionId.trim() || previewMutation.isPending}
+          className="h-8 border-orange-500/50 text-orange-400 hover:bg-orange-500/20"
+        >
+          <Eye className="w-4 h-4 mr-1" />
+          {previewMutation.isPending ? 'Rendering...' : 'Preview'}
+        </Button>
+      </div>
+
+      {preview && (
+        <div className="space-y-1">
+          <p className="text-[11px] text-slate-500">
+            {preview.event} · {preview.templated ? 'from template' : 'built-in body'}
+          </p>
+          <pre className="bg-slate-800/50 p-2 rounded text-[10px] text-orange-200 overflow-x-auto">
+            {JSON.stringify(preview.payload, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { OctagonX, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import api from '@/api/apiClient';
+import { useCurrentUser } from '@/hooks/use-auth';
+import { tradingWindowRefetchInterval } from '@/lib/marketHours';
+
+const formatUsd = (n) =>
+  `${n < 0 ? '-' : ''}$${Math.abs(n).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Live kill-switch state: session counters against their limits, the trip
+ * reason, and the manual trip / re-arm buttons. Limits themselves are edited
+ * in the parent Settings form.
+ */
+export default function KillSwitchStatus() {
+  const queryClient = useQueryClient();
+  const { canTrade, isAdmin } = useCurrentUser();
+
+  const { data: status } = useQuery({
+    queryKey: ['killSwitch'],
+    queryFn: async () => {
+      const response = await api.get('/settings/kill-switch');
+      return response.data;
+    },
+    refetchInterval: tradingWindowRefetchInterval(15000, 120000)
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['killSwitch'] });
+    queryClient.invalidateQueries({ queryKey: ['settings'] });
+    queryClient.invalidateQueries({ queryKey: ['executions'] });
+  };
+
+  const tripMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post('/settings/kill-switch/trip', { reason: 'Manual kill switch' });
+      return response.data;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Kill switch tripped — execution is OFF');
+    },
+    onError: (error) => {
+      toast.error(`Failed to trip kill switch: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const rearmMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post('/settings/kill-switch/rearm');
+      return response.data;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Kill switch re-armed — set the execution mode to resume trading');
+    },
+    onError: (error) => {
+      toast.error(`Failed to re-arm: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  if (!status) return null;
+
+  const counters = [
+    {
+      label: 'Session P&L',
+      value: formatUsd(status.session_realized_pnl),
+      limit: status.daily_loss_limit !== null ? `-${formatUsd(status.daily_loss_limit)}` : null,
+      negative: status.session_realized_pnl < 0
+    },
+    {
+      label: 'Losing Streak',
+      value: status.session_consecutive_losses,
+      limit: status.max_consecutive_losses,
+      negative: status.session_consecutive_losses > 0
+    },
+    {
+      label: 'Broker Failures',
+      value: status.session_broker_failures,
+      limit: status.max_broker_failures,
+      negative: status.session_broker_failures > 0
+    }
+  ];
+
+  return (
+    <div className="space-y-3">
+      {status.tripped && (
+        <div className="p-3 rounded-lg bg-red-500/15 border border-red-500/50">
+          <p className="text-sm font-semibold text-red-400">
+            Tripped{status.tripped_at && ` at ${format(new Date(status.tripped_at), 'HH:mm:ss')}`}
+          </p>
+          <p className="text-xs text-red-300 mt-1">{status.reason}</p>
+          <p className="text-[11px] text-slate-400 mt-2">
+            Execution is held OFF and schedules are paused until an admin re-arms.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        {counters.map(({ label, value, limit, negative }) => (
+          <div key={label} className="p-2 rounded bg-slate-800/50">
+            <p className="text-[10px] uppercase tracking-wider text-slate-500">{label}</p>
+            <p className={cn('text-sm font-mono', negative ? 'text-red-400' : 'text-slate-200')}>{value}</p>
+            <p className="text-[10px] text-slate-500">{limit !== null ? `limit ${limit}` : 'no limit'}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        {!status.tripped && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!canTrade || tripMutation.isPending}
+            onClick={() => {
+              if (confirm('Trip the kill switch? Execution goes OFF and pending entries are cancelled.')) {
+                tripMutation.mutate();
+              }
+            }}
+            className="flex-1 border-red-500/50 text-red-400 hover:bg-red-500/10"
+          >
+            <OctagonX className="w-4 h-4 mr-2" />
+            Trip Now
+          </Button>
+        )}
+        {status.tripped && (
+          <Button
+            size="sm"
+            disabled={!isAdmin || rearmMutation.isPending}
+            onClick={() => rearmMutation.mutate()}
+            className="flex-1 bg-amber-500 hover:bg-amber-600 text-white"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            {isAdmin ? 'Re-arm' : 'Re-arm (admin only)'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+const CAP_FIELDS = [
+  { key: 'max_shares', label: 'Max shares' },
+  { key: 'max_notional', label: 'Max notional $' },
+  { key: 'max_orders_per_day', label: 'Orders / day' },
+];
+
+function parseCaps(value) {
+  if (!value) return [];
+  try {
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+    return Object.entries(parsed || {}).map(([strategy_id, cap]) => ({ strategy_id, ...cap }));
+  } catch {
+    return [];
+  }
+}
+
+function serializeCaps(rows) {
+  const caps = {};
+  for (const row of rows) {
+    const id = row.strategy_id?.trim();
+    if (!id) continue;
+    caps[id] = {};
+    for (const { key } of CAP_FIELDS) {
+      if (row[key] !== undefined && row[key] !== '') caps[id][key] = Number(row[key]);
+    }
+  }
+  return Object.keys(caps).length > 0 ? JSON.stringify(caps) : '';
+}
+
+/**
+ * Per-strategy_id risk caps. `value` is the JSON string stored in
+ * settings.risk_strategy_caps — it's only re-serialized when a row is edited,
+ * so saving unrelated settings never rewrites it. Rows are kept locally so a
+ * row with a blank strategy_id doesn't vanish mid-edit.
+ */
+export default function StrategyCapsEditor({ value, onChange, disabled }) {
+  const [rows, setRows] = useState(() => parseCaps(value));
+
+  const update = (nextRows) => {
+    setRows(nextRows);
+    onChange(serializeCaps(nextRows));
+  };
+
+  const setField = (index, key, fieldValue) => {
+    update(rows.map((row, i) => (i === index ? { ...row, [key]: fieldValue } : row)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {rows.length === 0 && (
+        <p className="text-xs text-slate-500">No per-strategy caps — only the global limits apply.</p>
+      )}
+
+      {rows.map((row, index) => (
+        <div key={index} className="grid grid-cols-[1fr_repeat(3,5.5rem)_2rem] gap-2 items-center">
+          <Input
+            value={row.strategy_id}
+            placeholder="strategy_id"
+            disabled={disabled}
+            onChange={(e) => setField(index, 'strategy_id', e.target.value)}
+            className="bg-slate-800 border-slate-700 text-white font-mono text-xs h-8"
+          />
+          {CAP_FIELDS.map(({ key, label }) => (
+            <Input
+              key={key}
+              type="number"
+              min={0}
+              value={row[key] ?? ''}
+              placeholder={label}
+              title={label}
+              disabled={disabled}
+              onChange={(e) => setField(index, key, e.target.value)}
+              className="bg-slate-800 border-slate-700 text-white text-xs h-8"
+            />
+          ))}
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={disabled}
+            onClick={() => update(rows.filter((_, i) => i !== index))}
+            className="h-8 w-8 text-slate-400 hover:text-red-400"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      {!disabled && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => update([...rows, { strategy_id: '' }])}
+          className="w-full border-dashed border-slate-600 text-slate-400 hover:text-slate-200 hover:border-slate-500"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Strategy Cap
+        </Button>
+      )}
+    </div>
+  );
+}
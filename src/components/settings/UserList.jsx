@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Users, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Card, CardContent } from '@/components/ui/card';
+import { toast } from 'sonner';
+import api from '@/api/apiClient';
+import { useCurrentUser } from '@/hooks/use-auth';
+
+const ROLES = [
+  { value: 'viewer', label: 'Viewer', hint: 'Watch only — no swipes, executions or setting changes' },
+  { value: 'trader', label: 'Trader', hint: 'Swipe, execute, mark flat, change execution mode' },
+  { value: 'admin', label: 'Admin', hint: 'Everything, plus users, webhook secrets and database reset' },
+];
+
+const DEFAULT_FORM = { email: '', password: '', role: 'viewer' };
+
+export default function UserList() {
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useCurrentUser();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(DEFAULT_FORM);
+
+  const { data: users = [], isLoading } = useQuery({
+    queryKey: ['users'],
+    queryFn: async () => {
+      const response = await api.get('/auth/users');
+      return response.data;
+    }
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data) => {
+      const response = await api.post('/auth/register', data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      toast.success('User created');
+      setDialogOpen(false);
+      setFormData(DEFAULT_FORM);
+    },
+    onError: (error) => {
+      toast.error(`Failed to create user: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }) => {
+      const response = await api.put(`/auth/users/${id}/role`, { role });
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      toast.success('Role updated');
+    },
+    onError: (error) => {
+      toast.error(`Failed to update role: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id) => {
+      const response = await api.delete(`/auth/users/${id}`);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      toast.success('User deleted');
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete user: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-3">
+        <div className="h-16 bg-slate-800/50 rounded-lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {users.length === 0 ? (
+        <Card className="bg-slate-800/30 border-slate-700/50">
+          <CardContent className="py-8 text-center">
+            <Users className="w-10 h-10 mx-auto text-slate-500 mb-3" />
+            <p className="text-sm text-slate-400">No users</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {users.map((user) => {
+            const isSelf = user.id === currentUser?.id;
+
+            return (
+              <Card key={user.id} className="bg-slate-800/30 border-slate-700/50">
+                <CardContent className="p-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                      <span className="font-medium text-sm text-slate-200 truncate">{user.email}</span>
+                      {isSelf && <span className="ml-2 text-xs text-slate-500">(you)</span>}
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={user.role}
+                        onValueChange={(role) => roleMutation.mutate({ id: user.id, role })}
+                      >
+                        <SelectTrigger className="w-28 h-8 bg-slate-800 border-slate-700 text-slate-200 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-800 border-slate-700">
+                          {ROLES.map(role => (
+                            <SelectItem key={role.value} value={role.value} className="text-slate-200">
+                              {role.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-slate-400 hover:text-red-400"
+                        disabled={isSelf}
+                        onClick={() => {
+                          if (confirm(`Delete user "${user.email}"?`)) {
+                            deleteMutation.mutate(user.id);
+                          }
+                        }}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        className="w-full border-dashed border-slate-600 text-slate-400 hover:text-slate-200 hover:border-slate-500"
+        onClick={() => setDialogOpen(true)}
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add User
+      </Button>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="bg-slate-900 border-slate-700 sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-slate-200">Add User</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label className="text-slate-300">Email</Label>
+              <Input
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                className="bg-slate-800 border-slate-700 text-slate-200"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-slate-300">Password</Label>
+              <Input
+                type="password"
+                autoComplete="new-password"
+                value={formData.password}
+                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                className="bg-slate-800 border-slate-700 text-slate-200"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-slate-300">Role</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {ROLES.map(role => (
+                  <button
+                    key={role.value}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, role: role.value })}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+                      formData.role === role.value
+                        ? 'bg-blue-500/20 text-blue-400 border border-blue-500/50'
+                        : 'bg-slate-800/50 text-slate-400 hover:text-slate-300'
+                    }`}
+                  >
+                    {role.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500">
+                {ROLES.find(r => r.value === formData.role)?.hint}
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDialogOpen(false)} className="text-slate-400">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (!formData.email || !formData.password) {
+                  toast.error('Email and password are required');
+                  return;
+                }
+                createMutation.mutate(formData);
+              }}
+              disabled={createMutation.isPending}
+              className="bg-blue-500 hover:bg-blue-600"
+            >
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { KeyRound, Plus, RefreshCw, Trash2, Copy } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Card, CardContent } from '@/components/ui/card';
+import { toast } from 'sonner';
+import api from '@/api/apiClient';
+
+const KINDS = [
+  { value: 'passphrase', label: 'Passphrase', hint: 'Sent as "passphrase" inside the alert JSON (TradingView)' },
+  { value: 'hmac', label: 'HMAC', hint: 'Sender signs <timestamp>.<body>: X-Webhook-Timestamp + X-Webhook-Signature: sha256=<hex>' },
+  { value: 'signing', label: 'Signing', hint: 'Outbound: signs our broker webhook requests so the relay can verify them' },
+];
+
+const DEFAULT_FORM = { source: 'tradingview', kind: 'passphrase' };
+
+export default function WebhookSecretList() {
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(DEFAULT_FORM);
+  // Plaintext secret from the last create/rotate — the API never returns it again
+  const [revealed, setRevealed] = useState(null);
+
+  const { data: secrets = [], isLoading } = useQuery({
+    queryKey: ['webhookSecrets'],
+    queryFn: async () => {
+      const response = await api.get('/webhook-secrets');
+      return response.data;
+    }
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data) => {
+      const response = await api.post('/webhook-secrets', data);
+      return response.data;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['webhookSecrets'] });
+      setRevealed(created);
+      setDialogOpen(false);
+      setFormData(DEFAULT_FORM);
+    },
+    onError: (error) => {
+      toast.error(`Failed to create secret: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id) => {
+      const response = await api.post(`/webhook-secrets/${id}/rotate`);
+      return response.data;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['webhookSecrets'] });
+      setRevealed(result.created);
+    },
+    onError: (error) => {
+      toast.error(`Failed to rotate secret: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id) => {
+      const response = await api.delete(`/webhook-secrets/${id}`);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhookSecrets'] });
+      toast.success('Secret revoked');
+    },
+    onError: (error) => {
+      toast.error(`Failed to revoke secret: ${error.response?.data?.error || error.message}`);
+    }
+  });
+
+  const getStatus = (secret) => {
+    if (secret.revoked) return { label: 'Revoked', color: 'text-red-400 bg-red-500/20' };
+    if (!secret.active) return { label: 'Expired', color: 'text-slate-400 bg-slate-500/20' };
+    if (secret.expires_at) {
+      return { label: `Expires ${format(new Date(secret.expires_at), 'MMM d, HH:mm')}`, color: 'text-amber-400 bg-amber-500/20' };
+    }
+    return { label: 'Active', color: 'text-emerald-400 bg-emerald-500/20' };
+  };
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-3">
+        <div className="h-16 bg-slate-800/50 rounded-lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {revealed && (
+        <div className="p-3 rounded-lg bg-emerald-500/10 border border-emerald-500/30 space-y-2">
+          <p className="text-xs font-semibold text-emerald-300">
+            New {revealed.kind} for {revealed.source} — copy it now, it won&apos;t be shown again
+          </p>
+          <div className="flex gap-2">
+            <Input
+              readOnly
+              value={revealed.secret}
+              className="bg-slate-800 border-slate-700 text-emerald-400 font-mono text-xs"
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              className="border-emerald-500/50 text-emerald-400 hover:bg-emerald-500/20 shrink-0"
+              onClick={() => {
+                navigator.clipboard.writeText(revealed.secret);
+                toast.success('Secret copied');
+              }}
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-xs text-slate-400"
+            onClick={() => setRevealed(null)}
+          >
+            Done
+          </Button>
+        </div>
+      )}
+
+      {secrets.length === 0 ? (
+        <Card className="bg-slate-800/30 border-slate-700/50">
+          <CardContent className="py-8 text-center">
+            <KeyRound className="w-10 h-10 mx-auto text-slate-500 mb-3" />
+            <p className="text-sm text-slate-400">No webhook secrets configured</p>
+            <p className="text-xs text-slate-500 mt-1">
+              Create one per signal source before requiring authentication
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {secrets.map((secret) => {
+            const status = getStatus(secret);
+            const usable = secret.active && !secret.revoked;
+
+            return (
+              <Card
+                key={secret.id}
+                className={`bg-slate-800/30 border-slate-700/50 ${!usable ? 'opacity-50' : ''}`}
+              >
+                <CardContent className="p-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-sm text-slate-200 truncate">{secret.source}</span>
+                        <span className="px-2 py-0.5 rounded text-xs font-medium text-blue-400 bg-blue-500/20 uppercase">
+                          {secret.kind}
+                        </span>
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${status.color}`}>
+                          {status.label}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2 mt-1 text-xs text-slate-400">
+                        <span className="font-mono">{secret.secret}</span>
+                        <span className="text-slate-600">|</span>
+                        <span>
+                          {secret.last_used_at
+                            ? `Last used ${format(new Date(secret.last_used_at), 'MMM d, HH:mm')}`
+                            : 'Never used'}
+                        </span>
+                      </div>
+                    </div>
+
+                    {usable && (
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-slate-400 hover:text-slate-200"
+                          title="Rotate (old key keeps working for the overlap window)"
+                          disabled={rotateMutation.isPending}
+                          onClick={() => {
+                            if (confirm(`Rotate the ${secret.kind} for "${secret.source}"?`)) {
+                              rotateMutation.mutate(secret.id);
+                            }
+                          }}
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-slate-400 hover:text-red-400"
+                          title="Revoke immediately"
+                          onClick={() => {
+                            if (confirm(`Revoke the ${secret.kind} for "${secret.source}"? Alerts using it will be rejected.`)) {
+                              revokeMutation.mutate(secret.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        className="w-full border-dashed border-slate-600 text-slate-400 hover:text-slate-200 hover:border-slate-500"
+        onClick={() => setDialogOpen(true)}
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add Secret
+      </Button>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="bg-slate-900 border-slate-700 sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-slate-200">Create Webhook Secret</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label className="text-slate-300">Source</Label>
+              <Input
+                value={formData.source}
+                onChange={(e) => setFormData({ ...formData, source: e.target.value })}
+                placeholder="e.g., tradingview"
+                className="bg-slate-800 border-slate-700 text-slate-200"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-slate-300">Type</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {KINDS.map(kind => (
+                  <button
+                    key={kind.value}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, kind: kind.value })}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+                      formData.kind === kind.value
+                        ? 'bg-blue-500/20 text-blue-400 border border-blue-500/50'
+                        : 'bg-slate-800/50 text-slate-400 hover:text-slate-300'
+                    }`}
+                  >
+                    {kind.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500">
+                {KINDS.find(k => k.value === formData.kind)?.hint}
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDialogOpen(false)} className="text-slate-400">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (!formData.source.trim()) {
+                  toast.error('Source is required');
+                  return;
+                }
+                createMutation.mutate(formData);
+              }}
+              disabled={createMutation.isPending}
+              className="bg-blue-500 hover:bg-blue-600"
+            >
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
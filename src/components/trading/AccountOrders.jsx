@@ -0,0 +1,111 @@
+import { cn } from "@/lib/utils";
+import { Landmark, RefreshCw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { format } from "date-fns";
+
+const STATUS_STYLES = {
+  pending: "text-slate-400 bg-slate-500/20",
+  delivering: "text-blue-400 bg-blue-500/20",
+  working: "text-blue-400 bg-blue-500/20",
+  partially_filled: "text-amber-400 bg-amber-500/20",
+  filled: "text-emerald-400 bg-emerald-500/20",
+  skipped: "text-slate-500 bg-slate-700/40",
+  cancelled: "text-slate-400 bg-slate-600/30",
+  abandoned: "text-slate-400 bg-slate-600/30",
+  rejected: "text-red-400 bg-red-500/20",
+  failed: "text-red-400 bg-red-500/20"
+};
+
+const statusLabel = (status) => status.replace(/_/g, " ");
+
+/**
+ * One line per additional broker account on an execution card — each
+ * account's order has its own status, so a failure in one sits next to the
+ * others going through.
+ */
+export function AccountOrderList({ orders = [] }) {
+  if (orders.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <p className="text-[10px] uppercase tracking-wider text-slate-500">Accounts</p>
+      {orders.map((order) => (
+        <div key={order.id} className="flex items-center justify-between gap-2 text-xs">
+          <span className="text-slate-300 truncate">{order.account_name || order.account_id}</span>
+          <div className="flex items-center gap-2 shrink-0">
+            <span className="font-mono text-slate-400">
+              {order.filled_quantity > 0 ? `${order.filled_quantity}/` : ""}{order.quantity}
+            </span>
+            <span
+              className={cn("px-1.5 py-0.5 rounded capitalize", STATUS_STYLES[order.status] || STATUS_STYLES.pending)}
+              title={order.error_message || undefined}
+            >
+              {statusLabel(order.status)}
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Account orders that failed or are retrying. Listed on their own because
+ * the execution they belong to has usually gone through and left the queue.
+ */
+export default function AccountOrderIssues({ issues = [], onRetry, onAbandon }) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border border-amber-500/50 bg-amber-500/5 overflow-hidden">
+      <div className="px-4 py-2 border-b border-amber-500/30 flex items-center gap-2">
+        <Landmark className="w-4 h-4 text-amber-400" />
+        <span className="text-xs font-semibold text-amber-400 uppercase tracking-wider">
+          Account orders needing attention ({issues.length})
+        </span>
+      </div>
+      <div className="divide-y divide-amber-500/20">
+        {issues.map((order) => (
+          <div key={order.id} className="p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="font-bold text-white">{order.ticker}</span>
+                <span className="text-xs text-slate-300 truncate">{order.account_name || order.account_id}</span>
+                <span className="text-xs font-mono text-slate-400">
+                  {order.order_action?.toUpperCase()} {order.quantity}
+                </span>
+              </div>
+              <span className="text-xs text-slate-500 shrink-0">
+                {format(new Date(order.updated_at), "HH:mm:ss")} · {order.attempts} attempt{order.attempts === 1 ? "" : "s"}
+              </span>
+            </div>
+            <p className={cn("text-xs break-words", order.status === "failed" ? "text-red-300" : "text-amber-300")}>
+              {order.error_message || "Unknown broker error"}
+            </p>
+            {order.status === "failed" && (
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => onAbandon?.(order)}
+                  variant="outline"
+                  size="sm"
+                  className="flex-1 border-slate-600 text-slate-400 hover:bg-slate-700/50"
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Abandon
+                </Button>
+                <Button
+                  onClick={() => onRetry?.(order)}
+                  size="sm"
+                  className="flex-1 bg-amber-500 hover:bg-amber-600 text-white"
+                >
+                  <RefreshCw className="w-4 h-4 mr-1" />
+                  Retry Now
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
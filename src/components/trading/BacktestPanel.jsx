@@ -2,6 +2,7 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { BarChart2, Plus, Trash2, Play, Square, ChevronRight, BookOpen, X, Filter, Zap, FileText, ShieldCheck, Clock, Activity } from 'lucide-react';
 import Anser from 'anser';
+import { withAuthToken, authHeaders } from '@/api/apiClient';
 
 // Renders a single line of classifier output, converting ANSI color codes
 // (print_signal()'s green/yellow/red zones) into colored spans instead of
@@ -26,7 +27,7 @@ function AnsiLine({ text }) {
 const API = ((import.meta.env.VITE_API_URL || (import.meta.env.PROD ? '/api' : 'http://localhost:3000/api')) + '/sim');
 
 async function apiFetch(path, opts = {}) {
-  const res = await fetch(API + path, opts);
+  const res = await fetch(API + path, { ...opts, headers: { ...authHeaders(), ...opts.headers } });
   if (!res.ok) {
     const text = await res.text();
     let parsed = {};
@@ -115,7 +116,7 @@ export function BacktestPanel() {
     setActivePanel('notify-scan');
 
     const params = new URLSearchParams({ ticker: selected.ticker, date: selected.spike_date });
-    const es = new EventSource(`${API}/notify-scan?${params}`);
+    const es = new EventSource(withAuthToken(`${API}/notify-scan?${params}`));
     scanEsRef.current = es;
 
     es.addEventListener('progress', (e) => {
@@ -161,7 +162,7 @@ export function BacktestPanel() {
     if (snapTime.trim()) params.set('time', normalizeSnapTime(snapTime));
     if (pretradeHistory) params.set('history', 'true');
 
-    const es = new EventSource(`${API}/pretrade-state?${params}`);
+    const es = new EventSource(withAuthToken(`${API}/pretrade-state?${params}`));
     pretradeEsRef.current = es;
 
     es.addEventListener('result', (e) => {
@@ -203,7 +204,7 @@ export function BacktestPanel() {
     const params = new URLSearchParams({ ticker: selected.ticker, date: selected.spike_date });
     if (snapTime.trim()) params.set('time', normalizeSnapTime(snapTime));
 
-    const es = new EventSource(`${API}/signal-stack-report?${params}`);
+    const es = new EventSource(withAuthToken(`${API}/signal-stack-report?${params}`));
     gatesEsRef.current = es;
 
     es.addEventListener('progress', (e) => {
@@ -249,7 +250,7 @@ export function BacktestPanel() {
       if (snapTime.trim())    params.set('time', normalizeSnapTime(snapTime));
     }
 
-    const es = new EventSource(`${API}/run?${params}`);
+    const es = new EventSource(withAuthToken(`${API}/run?${params}`));
     esRef.current = es;
 
     es.onmessage = (e) => {
@@ -614,7 +615,7 @@ export function BacktestPanel() {
                 disabled={running}
                 onClick={() => {
                   setLines([`[fetch] GET ${API}/health ...`]);
-                  fetch(`${API}/health`)
+                  fetch(`${API}/health`, { headers: authHeaders() })
                     .then(r => { setLines(prev => [...prev, `[http] status ${r.status}`]); return r.text(); })
                     .then(t => setLines(prev => [...prev, t]))
                     .catch(e => setLines(prev => [...prev, `[error] ${e.message}`]));
@@ -0,0 +1,34 @@
+import { cn } from "@/lib/utils";
+
+const OUTCOME_STYLES = {
+  processed: "border-emerald-500/30 bg-emerald-500/10 text-emerald-300",
+  blocked: "border-orange-500/30 bg-orange-500/10 text-orange-300",
+  rejected: "border-orange-500/30 bg-orange-500/10 text-orange-300",
+  error: "border-red-500/30 bg-red-500/10 text-red-300"
+};
+
+/**
+ * What a dry-run replay of a webhook says would happen now — the rule that
+ * blocks it, or the steps processing would take. Nothing was written.
+ */
+export default function DryRunOutcome({ outcome }) {
+  if (!outcome) return null;
+
+  return (
+    <div className={cn("p-3 rounded-lg border space-y-1 text-xs", OUTCOME_STYLES[outcome.outcome] || OUTCOME_STYLES.error)}>
+      <p className="font-medium">
+        Dry run: <span className="uppercase">{outcome.outcome}</span>
+        {outcome.reason && <span className="font-mono"> · {outcome.reason}</span>}
+      </p>
+      <p>{outcome.message}</p>
+      {outcome.would?.length > 0 && (
+        <ul className="list-disc list-inside text-slate-300">
+          {outcome.would.map((step) => <li key={step}>{step}</li>)}
+        </ul>
+      )}
+      {outcome.not_evaluated?.length > 0 && (
+        <p className="text-slate-500">Not evaluated: {outcome.not_evaluated.join(", ")}</p>
+      )}
+    </div>
+  );
+}
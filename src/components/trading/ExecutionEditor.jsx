@@ -10,14 +10,37 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertTriangle, Clock, TrendingUp, TrendingDown, Check, X,
-  DollarSign, Hash, Save
+  DollarSign, Hash, Save, SlidersHorizontal
 } from "lucide-react";
+import { ORDER_TYPES, TIME_IN_FORCE, executionEvent } from "@/lib/orders";
+
+// Editable order fields as strings for the inputs ('' = not set)
+function orderFieldsOf(execution) {
+  const str = (value) => (value === null || value === undefined ? '' : String(Number(value)));
+  return {
+    order_type: execution?.order_type || (execution?.limit_price ? 'limit' : 'market'),
+    time_in_force: execution?.time_in_force || 'day',
+    stop_price: str(execution?.stop_price),
+    trail_mode: execution?.trail_amount != null ? 'amount' : 'percent',
+    trail_value: str(execution?.trail_amount ?? execution?.trail_percent),
+    take_profit_price: str(execution?.take_profit_price),
+    stop_loss_price: str(execution?.stop_loss_price),
+  };
+}
 
 /**
  * ExecutionEditor - Enhanced editor for exit orders
- * Supports both price AND quantity adjustments
+ * Supports both price AND quantity adjustments, plus order type,
+ * time-in-force and (entries only) take-profit / stop-loss legs
  */
 export default function ExecutionEditor({
   open,
@@ -36,6 +59,7 @@ export default function ExecutionEditor({
   const [adjustedPrice, setAdjustedPrice] = useState(originalPrice);
   const [adjustedQty, setAdjustedQty] = useState(originalQty);
   const [pricePercent, setPricePercent] = useState(0);
+  const [orderFields, setOrderFields] = useState(() => orderFieldsOf(execution));
 
   // Price adjustment bounds
   const minPrice = originalPrice * (1 - maxAdjustmentPercent / 100);
@@ -53,9 +77,12 @@ export default function ExecutionEditor({
       setAdjustedPrice(price);
       setAdjustedQty(execution.quantity || 1);
       setPricePercent(0);
+      setOrderFields(orderFieldsOf(execution));
     }
   }, [execution?.id]);
 
+  const setOrderField = (field, value) => setOrderFields(prev => ({ ...prev, [field]: value }));
+
   const handlePriceSlider = (value) => {
     const percent = value[0];
     setPricePercent(percent);
@@ -79,18 +106,42 @@ export default function ExecutionEditor({
     setAdjustedQty(clamped);
   };
 
+  const { order_type: orderType } = orderFields;
+  const usesLimit = orderType === 'limit' || orderType === 'stop_limit';
+  const usesStop = orderType === 'stop' || orderType === 'stop_limit';
+  const isTrailing = orderType === 'trailing_stop';
+  const canAttachLegs = !isExit && !isTrailing && !['ioc', 'fok'].includes(orderFields.time_in_force);
+  const num = (value) => (value === '' ? null : Number(value));
+
+  const initialOrderFields = orderFieldsOf(execution);
+  const orderChanged = Object.keys(orderFields).some(key => orderFields[key] !== initialOrderFields[key]);
+  // The backend re-validates everything; this only keeps obviously incomplete orders from being sent
+  const orderIncomplete = (usesStop && !(num(orderFields.stop_price) > 0)) ||
+    (isTrailing && !(num(orderFields.trail_value) > 0));
+
   const handleSave = () => {
     onSave?.({
       execution,
       newPrice: adjustedPrice,
-      newQuantity: adjustedQty
+      newQuantity: adjustedQty,
+      orderFields: orderChanged ? {
+        order_type: orderType,
+        time_in_force: orderFields.time_in_force,
+        stop_price: usesStop ? num(orderFields.stop_price) : null,
+        trail_amount: isTrailing && orderFields.trail_mode === 'amount' ? num(orderFields.trail_value) : null,
+        trail_percent: isTrailing && orderFields.trail_mode === 'percent' ? num(orderFields.trail_value) : null,
+        ...(!isExit && {
+          take_profit_price: canAttachLegs ? num(orderFields.take_profit_price) : null,
+          stop_loss_price: canAttachLegs ? num(orderFields.stop_loss_price) : null,
+        }),
+      } : undefined
     });
     onOpenChange(false);
   };
 
   const priceChanged = Math.abs(adjustedPrice - originalPrice) > 0.0001;
   const qtyChanged = adjustedQty !== originalQty;
-  const hasChanges = priceChanged || qtyChanged;
+  const hasChanges = (priceChanged || qtyChanged || orderChanged) && !orderIncomplete;
 
   const formatPrice = (price) => {
     if (!price || price === undefined || price === null) return "0.00";
@@ -123,7 +174,7 @@ export default function ExecutionEditor({
               "px-2 py-0.5 rounded text-xs font-bold",
               isLong ? "bg-emerald-500/20 text-emerald-400" : "bg-rose-500/20 text-rose-400"
             )}>
-              {isExit ? 'EXIT' : execution.dir?.toUpperCase()}
+              {isExit ? (executionEvent(execution) === 'PARTIAL_EXIT' ? 'PARTIAL EXIT' : 'EXIT') : execution.dir?.toUpperCase()}
             </span>
             {isExit && (
               <span className="px-2 py-0.5 rounded text-xs font-bold bg-orange-500/20 text-orange-400">
@@ -133,8 +184,8 @@ export default function ExecutionEditor({
           </DialogTitle>
           <DialogDescription className="text-slate-400">
             {isExit
-              ? "Adjust exit order price and quantity"
-              : `Adjust limit entry price within ±${maxAdjustmentPercent}%`
+              ? "Adjust exit order price, quantity and order type"
+              : `Adjust entry price within ±${maxAdjustmentPercent}%, order type and take-profit / stop-loss legs`
             }
           </DialogDescription>
         </DialogHeader>
@@ -181,7 +232,7 @@ export default function ExecutionEditor({
           {/* Price input */}
           <div className="space-y-2">
             <label className="text-xs text-slate-400 uppercase tracking-wider">
-              Limit Price
+              {usesLimit ? "Limit Price" : "Reference Price"}
             </label>
             <div className="relative">
               <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500">$</span>
@@ -259,6 +310,115 @@ export default function ExecutionEditor({
             </div>
           )}
 
+          {/* Order type, time-in-force, trigger and legs */}
+          <div className="space-y-3 p-3 rounded-xl bg-slate-800/50 border border-slate-700">
+            <p className="text-xs text-slate-400 uppercase tracking-wider flex items-center gap-2">
+              <SlidersHorizontal className="w-3 h-3" />
+              Order
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label className="text-[10px] text-slate-500 uppercase">Type</label>
+                <Select value={orderType} onValueChange={(value) => setOrderField('order_type', value)}>
+                  <SelectTrigger className="bg-slate-800 border-slate-700 text-slate-200">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    {ORDER_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-[10px] text-slate-500 uppercase">Time in Force</label>
+                <Select value={orderFields.time_in_force} onValueChange={(value) => setOrderField('time_in_force', value)}>
+                  <SelectTrigger className="bg-slate-800 border-slate-700 text-slate-200">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    {TIME_IN_FORCE.map(tif => (
+                      <SelectItem key={tif.value} value={tif.value}>{tif.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {usesStop && (
+              <div className="space-y-1">
+                <label className="text-[10px] text-slate-500 uppercase">Stop Price</label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={orderFields.stop_price}
+                  onChange={(e) => setOrderField('stop_price', e.target.value)}
+                  className="font-mono bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+            )}
+
+            {isTrailing && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <label className="text-[10px] text-slate-500 uppercase">Trail By</label>
+                  <Select value={orderFields.trail_mode} onValueChange={(value) => setOrderField('trail_mode', value)}>
+                    <SelectTrigger className="bg-slate-800 border-slate-700 text-slate-200">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700">
+                      <SelectItem value="percent">Percent</SelectItem>
+                      <SelectItem value="amount">Dollars</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-[10px] text-slate-500 uppercase">
+                    Trail {orderFields.trail_mode === 'amount' ? '($)' : '(%)'}
+                  </label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={orderFields.trail_value}
+                    onChange={(e) => setOrderField('trail_value', e.target.value)}
+                    className="font-mono bg-slate-800 border-slate-700 text-white"
+                  />
+                </div>
+              </div>
+            )}
+
+            {!isExit && (canAttachLegs ? (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <label className="text-[10px] text-emerald-400 uppercase">Take Profit</label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    placeholder="none"
+                    value={orderFields.take_profit_price}
+                    onChange={(e) => setOrderField('take_profit_price', e.target.value)}
+                    className="font-mono bg-slate-800 border-slate-700 text-white"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-[10px] text-rose-400 uppercase">Stop Loss</label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    placeholder="none"
+                    value={orderFields.stop_loss_price}
+                    onChange={(e) => setOrderField('stop_loss_price', e.target.value)}
+                    className="font-mono bg-slate-800 border-slate-700 text-white"
+                  />
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-slate-500">
+                Take-profit / stop-loss legs need a non-trailing day or GTC order.
+              </p>
+            ))}
+          </div>
+
           {/* Safety notice */}
           <div className="flex items-start gap-2 p-3 rounded-xl bg-slate-800/50 text-slate-400 text-xs">
             <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
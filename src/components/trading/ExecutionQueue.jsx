@@ -1,20 +1,34 @@
-import React from 'react';
 import { cn } from "@/lib/utils";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Clock, TrendingUp, TrendingDown, Send, X,
-  AlertTriangle, CheckCircle2, Loader2, Edit3, RefreshCw, ThumbsUp, Snowflake, Eye, EyeOff, Layers
+  AlertTriangle, CheckCircle2, Loader2, Edit3, RefreshCw, ThumbsUp, Snowflake, Eye, EyeOff, Layers, ShieldAlert, Inbox, SlidersHorizontal
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { format } from "date-fns";
 import DelayProgress from "./DelayProgress";
+import { AccountOrderList } from "./AccountOrders";
+import { isExitExecution, executionEvent, hasOrderDetails, orderTypeLabel } from "@/lib/orders";
+
+// error_message written by the backend risk engine / price guard:
+// "RISK_REJECTED[<rule>]: <reason>" or "PRICE_GUARD[<rule>]: <reason>"
+const GUARD_MESSAGE_RE = /^(RISK_REJECTED|PRICE_GUARD)\[([a-z_]+)\]:\s*(.*)$/;
+
+function parseGuardMessage(errorMessage) {
+  const match = errorMessage?.match(GUARD_MESSAGE_RE);
+  return match ? { source: match[1], rule: match[2], reason: match[3] } : null;
+}
 
 export default function ExecutionQueue({
   executions = [],
+  deadLetters = [],
+  onRetryDelivery,
+  onAbandonDelivery,
   onCancel,
   onForceExecute,
   onApprove,
   onEditLimit,
+  onEditOrder,
   onRetry,
   onFreeze,
   onStartWatch,
@@ -31,7 +45,8 @@ export default function ExecutionQueue({
       executed: { label: "Executed", icon: CheckCircle2, color: "text-emerald-400 bg-emerald-500/20" },
       cancelled: { label: "Cancelled", icon: X, color: "text-red-400 bg-red-500/20" },
       invalidated: { label: "Invalidated", icon: AlertTriangle, color: "text-orange-400 bg-orange-500/20" },
-      failed: { label: "Failed", icon: AlertTriangle, color: "text-red-400 bg-red-500/20" }
+      failed: { label: "Failed", icon: AlertTriangle, color: "text-red-400 bg-red-500/20" },
+      rejected: { label: "Risk Blocked", icon: ShieldAlert, color: "text-red-400 bg-red-500/20" }
     };
     return config[status] || config.pending;
   };
@@ -57,6 +72,58 @@ export default function ExecutionQueue({
         </span>
       </div>
 
+      {/* Dead letters — orders the broker delivery queue gave up on */}
+      {deadLetters.length > 0 && (
+        <div className="rounded-xl border border-red-500/50 bg-red-500/5 overflow-hidden">
+          <div className="px-4 py-2 border-b border-red-500/30 flex items-center gap-2">
+            <Inbox className="w-4 h-4 text-red-400" />
+            <span className="text-xs font-semibold text-red-400 uppercase tracking-wider">
+              Not delivered to broker ({deadLetters.length})
+            </span>
+          </div>
+          <div className="divide-y divide-red-500/20">
+            {deadLetters.map((letter) => (
+              <div key={letter.id} className="p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="font-bold text-white">{letter.ticker}</span>
+                    <span className="text-xs font-mono text-slate-300">
+                      {letter.payload?.side?.toUpperCase()} {letter.payload?.quantity} @ {letter.payload?.limit_price ? `$${formatPrice(letter.payload.limit_price)}` : 'MKT'}
+                    </span>
+                  </div>
+                  <span className="text-xs text-slate-500 shrink-0">
+                    {letter.dead_at && format(new Date(letter.dead_at), "HH:mm:ss")} · {letter.attempts} attempt{letter.attempts === 1 ? '' : 's'}
+                  </span>
+                </div>
+                <p className="text-xs text-red-300 break-words">{letter.last_error || 'Unknown broker error'}</p>
+                <p className="text-[10px] text-slate-500 font-mono truncate" title="Idempotency key — the broker refuses a second order with it">
+                  {letter.idempotency_key}
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => onAbandonDelivery?.(letter)}
+                    variant="outline"
+                    size="sm"
+                    className="flex-1 border-slate-600 text-slate-400 hover:bg-slate-700/50"
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Abandon
+                  </Button>
+                  <Button
+                    onClick={() => onRetryDelivery?.(letter)}
+                    size="sm"
+                    className="flex-1 bg-amber-500 hover:bg-amber-600 text-white"
+                  >
+                    <RefreshCw className="w-4 h-4 mr-1" />
+                    Retry Now
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <AnimatePresence>
         {executions.map((exec, index) => {
           const statusBadge = getStatusBadge(exec.status);
@@ -65,7 +132,21 @@ export default function ExecutionQueue({
           const sideLabel = exec.dir?.toUpperCase();
           const isActive = ["pending", "executing"].includes(exec.status);
           const isFailed = exec.status === "failed";
+          const guardMessage = parseGuardMessage(exec.error_message);
+          const riskRejection = exec.status === "rejected" ? guardMessage : null;
+          // Held by the price guard: pending with no delay timer until Execute Now
+          const priceHold = exec.status === "pending" && guardMessage?.source === "PRICE_GUARD" ? guardMessage : null;
           const isFrozen = !!exec.frozen;
+          const isExit = isExitExecution(exec);
+          const showOrderDetails = hasOrderDetails(exec);
+          const usesLimit = !exec.order_type || ['limit', 'stop_limit'].includes(exec.order_type);
+          // Forward failed but brokerDeliveryQueue will try again
+          const deliveryRetrying = exec.status === "executing" && exec.delivery?.status === "pending" && exec.delivery.attempts > 0;
+          // Sent and still working at the broker — edits and cancels go to the broker (brokerOrderControl)
+          const workingAtBroker = ["executed", "partially_filled"].includes(exec.status) && (
+            ["accepted", "partially_filled"].includes(exec.broker_status) ||
+            (!exec.broker_order_id && exec.delivery?.status === "delivered")
+          );
           // Freezing only pauses the safe-mode delay timer (executionScheduler.ts
           // only checks `frozen` for status==='pending' rows with a real
           // delay_expires_at). "executing" orders have already been forwarded
@@ -87,7 +168,9 @@ export default function ExecutionQueue({
             const rp = exec.raw_payload ? JSON.parse(exec.raw_payload) : null;
             const strat = gs?.strategy || rp?.strategy_id?.replace('Strat ', '') || null;
             if (strat) strategyLabel = `Strategy ${strat}`;
-          } catch (_) {}
+          } catch {
+            console.error(`[ExecutionQueue] unreadable strategy payload on execution ${exec.id}`);
+          }
 
 
           return (
@@ -101,6 +184,8 @@ export default function ExecutionQueue({
                 "rounded-xl border overflow-hidden",
                 isWatching ? "bg-slate-800/80 border-2 border-cyan-400/70 shadow-[0_0_20px_rgba(34,211,238,0.25)]" :
                 isFrozen ? "bg-slate-800/80 border-cyan-500/50" :
+                riskRejection ? "bg-slate-800/80 border-red-500/50" :
+                priceHold ? "bg-slate-800/80 border-amber-500/50" :
                 isActive ? "bg-slate-800/80 border-slate-600" : "bg-slate-800/40 border-slate-700/50"
               )}
             >
@@ -121,9 +206,19 @@ export default function ExecutionQueue({
                       {isLong ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
                       {sideLabel}
                     </span>
-                    {exec.order_type === 'exit' && (
+                    {isExit && (
                       <span className="px-2 py-0.5 rounded text-xs font-bold bg-orange-500 text-orange-950">
-                        EXIT
+                        {executionEvent(exec) === 'PARTIAL_EXIT' ? 'PARTIAL EXIT' : 'EXIT'}
+                      </span>
+                    )}
+                    {executionEvent(exec) === 'SCALE_IN' && (
+                      <span className="px-2 py-0.5 rounded text-xs font-bold bg-violet-500/20 text-violet-300 border border-violet-500/30">
+                        SCALE IN
+                      </span>
+                    )}
+                    {showOrderDetails && (
+                      <span className="px-2 py-0.5 rounded text-xs font-semibold bg-sky-500/20 text-sky-300 border border-sky-500/30">
+                        {orderTypeLabel(exec.order_type).toUpperCase()} · {(exec.time_in_force || 'day').toUpperCase()}
                       </span>
                     )}
                     {isWatching && (
@@ -203,11 +298,32 @@ export default function ExecutionQueue({
                     <p className="font-mono font-bold text-white">{exec.quantity || 1}</p>
                   </div>
                   <div>
-                    <p className="text-xs text-slate-500 uppercase mb-1">Limit</p>
+                    <p className="text-xs text-slate-500 uppercase mb-1">{usesLimit ? "Limit" : "Ref. Price"}</p>
                     <p className="font-mono font-bold text-white">${formatPrice(exec.limit_price)}</p>
                   </div>
                 </div>
 
+                {/* Stop / trail trigger and attached take-profit / stop-loss legs */}
+                {showOrderDetails && (
+                  <div className="flex flex-wrap justify-center gap-2 text-xs font-mono">
+                    {exec.stop_price != null && (
+                      <span className="px-2 py-0.5 rounded bg-slate-700/60 text-slate-300">Stop ${formatPrice(exec.stop_price)}</span>
+                    )}
+                    {exec.trail_amount != null && (
+                      <span className="px-2 py-0.5 rounded bg-slate-700/60 text-slate-300">Trail ${formatPrice(exec.trail_amount)}</span>
+                    )}
+                    {exec.trail_percent != null && (
+                      <span className="px-2 py-0.5 rounded bg-slate-700/60 text-slate-300">Trail {Number(exec.trail_percent)}%</span>
+                    )}
+                    {exec.take_profit_price != null && (
+                      <span className="px-2 py-0.5 rounded bg-emerald-500/15 text-emerald-400">TP ${formatPrice(exec.take_profit_price)}</span>
+                    )}
+                    {exec.stop_loss_price != null && (
+                      <span className="px-2 py-0.5 rounded bg-rose-500/15 text-rose-400">SL ${formatPrice(exec.stop_loss_price)}</span>
+                    )}
+                  </div>
+                )}
+
                 {/* Delay progress for safe mode only */}
                 {isActive && executionMode === "safe" && (
                   <DelayProgress
@@ -216,8 +332,22 @@ export default function ExecutionQueue({
                   />
                 )}
 
+                {/* Broker delivery backing off between attempts */}
+                {deliveryRetrying && (
+                  <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/30">
+                    <p className="text-xs text-amber-400 font-medium mb-1">
+                      Broker retry {exec.delivery.attempts}/{exec.delivery.max_attempts}
+                      {exec.delivery.next_attempt_at && ` · next at ${format(new Date(exec.delivery.next_attempt_at), "HH:mm:ss")}`}
+                    </p>
+                    {exec.delivery.last_error && <p className="text-xs text-amber-300">{exec.delivery.last_error}</p>}
+                  </div>
+                )}
+
+                {/* Additional broker accounts — each with its own status */}
+                <AccountOrderList orders={exec.account_orders} />
+
                 {/* Full mode - just shows entry was sent */}
-                {isActive && executionMode === "full" && (
+                {isActive && executionMode === "full" && !deliveryRetrying && (
                   <div className="p-3 rounded-lg bg-emerald-500/10 border border-emerald-500/30 text-center">
                     <p className="text-sm text-emerald-400 font-medium">Order sent immediately to broker</p>
                   </div>
@@ -244,8 +374,83 @@ export default function ExecutionQueue({
                   </div>
                 )}
 
-                {/* Actions - only show in safe mode */}
-                {isActive && executionMode === "safe" && (
+                {/* Blocked by pre-trade risk limit — dismiss, or retry once limits/exposure allow it */}
+                {exec.status === "rejected" && (
+                  <div className="space-y-3">
+                    <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30">
+                      <p className="text-xs text-red-400 font-medium mb-1">
+                        {riskRejection?.source === "PRICE_GUARD" ? "Rejected by price guard" : "Blocked by risk limit"}
+                        {riskRejection && <span className="font-mono text-red-300/80"> · {riskRejection.rule}</span>}
+                      </p>
+                      <p className="text-xs text-red-300">{riskRejection?.reason || exec.error_message}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={() => { onCancel?.(exec); }}
+                        variant="outline"
+                        size="sm"
+                        className="flex-1 border-slate-600 text-slate-400 hover:bg-slate-700/50"
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        Dismiss
+                      </Button>
+                      <Button
+                        onClick={() => onRetry?.(exec)}
+                        size="sm"
+                        className="flex-1 bg-amber-500 hover:bg-amber-600 text-white"
+                      >
+                        <RefreshCw className="w-4 h-4 mr-1" />
+                        Re-check &amp; Send
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Price guard hold — the limit looked wrong against the live quote */}
+                {priceHold && (
+                  <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/30">
+                    <p className="text-xs text-amber-400 font-medium mb-1">
+                      Held by price guard<span className="font-mono text-amber-300/80"> · {priceHold.rule}</span>
+                    </p>
+                    <p className="text-xs text-amber-300">{priceHold.reason}</p>
+                    <p className="text-[10px] text-slate-500 mt-1">Fix the limit, or Execute Now to send it as-is.</p>
+                  </div>
+                )}
+
+                {/* Working at the broker — Modify / Cancel replace or cancel the live order */}
+                {workingAtBroker && (
+                  <div className="space-y-2 pt-2">
+                    <p className="text-xs text-slate-500 text-center">
+                      Working at {exec.broker || "broker webhook"}
+                      {exec.broker_order_id && <span className="font-mono"> · {exec.broker_order_id}</span>}
+                    </p>
+                    <div className="flex gap-2">
+                      {exec.limit_price && (
+                        <Button
+                          onClick={() => onEditLimit?.(exec)}
+                          variant="outline"
+                          size="sm"
+                          className="flex-1 border-amber-500/50 text-amber-400 hover:bg-amber-500/20"
+                        >
+                          <Edit3 className="w-4 h-4 mr-1" />
+                          Modify
+                        </Button>
+                      )}
+                      <Button
+                        onClick={() => { onCancel?.(exec); }}
+                        variant="outline"
+                        size="sm"
+                        className="flex-1 border-red-500/50 text-red-400 hover:bg-red-500/20"
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        Cancel at Broker
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Actions - only show in safe mode (or for a price-guard hold in any mode) */}
+                {isActive && (executionMode === "safe" || priceHold) && (
                   <div className="space-y-2 pt-2">
                     {exec.intent_id && (
                       <Button
@@ -265,7 +470,18 @@ export default function ExecutionQueue({
                         className="w-full border-amber-500/50 text-amber-400 hover:bg-amber-500/20"
                       >
                         <Edit3 className="w-4 h-4 mr-1" />
-                        {exec.order_type === 'exit' ? 'Edit Exit Order' : 'Change Limit Price'}
+                        {isExit ? 'Edit Exit Order' : 'Change Limit Price'}
+                      </Button>
+                    )}
+                    {!isExit && (
+                      <Button
+                        onClick={() => onEditOrder?.(exec)}
+                        variant="outline"
+                        size="sm"
+                        className="w-full border-sky-500/50 text-sky-300 hover:bg-sky-500/20"
+                      >
+                        <SlidersHorizontal className="w-4 h-4 mr-1" />
+                        Order Type &amp; Legs
                       </Button>
                     )}
                     <div className="flex gap-2">
@@ -1,10 +1,12 @@
 import React from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { TrendingUp, TrendingDown, ShieldOff, Shield, Flag, Target, X, Activity, FlaskConical, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { format } from "date-fns";
+import { withAuthToken } from "@/api/apiClient";
 
 const API = (import.meta.env.VITE_API_URL || (import.meta.env.PROD ? '/api' : 'http://localhost:3000/api')) + '/positions';
 
@@ -25,8 +27,28 @@ const ACTION_COLOR = {
   CAUTION: 'text-amber-400', 'COVER PARTIAL': 'text-rose-400', EXIT: 'text-rose-400',
 };
 
+const CLOSE_REASON_LABEL = {
+  exit_signal: 'Exit Signal',
+  sl_hit: 'Stop Loss',
+  mark_flat: 'Marked Flat',
+  manual: 'Manual',
+  entry_cancelled: 'Entry Cancelled',
+};
+
+const formatHolding = (seconds) => {
+  if (seconds == null) return '—';
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+const formatPnl = (pnl) => `${pnl >= 0 ? '+' : '-'}$${Math.abs(pnl).toFixed(2)}`;
+
 export default function PositionsList({
   positions = [],
+  closedPositions = [],
   onBlockSignals,
   onUnblockSignals,
   onMarkFlat,
@@ -43,6 +65,35 @@ export default function PositionsList({
   const [monitoring, setMonitoring] = React.useState({});       // { [positionId]: true }
   const [liveState, setLiveState] = React.useState({});         // { [positionId]: parsed update }
   const esRefs = React.useRef({});                              // { [positionId]: EventSource }
+  const [marks, setMarks] = React.useState(null);               // latest mark-to-market snapshot
+  const queryClient = useQueryClient();
+  const hasPositions = positions.length > 0;
+
+  // Live unrealized P&L — one shared server-side quote loop, pushed over SSE
+  React.useEffect(() => {
+    if (!hasPositions) {
+      setMarks(null);
+      return undefined;
+    }
+    const es = new EventSource(withAuthToken(`${API}/pnl/stream`));
+    es.addEventListener('marks', (e) => {
+      try { setMarks(JSON.parse(e.data)); } catch { /* ignore malformed frame */ }
+    });
+    return () => es.close();
+  }, [hasPositions]);
+
+  // The stream sees opens/closes first — refetch the list when it disagrees
+  React.useEffect(() => {
+    if (!marks) return;
+    const streamed = marks.positions.map(m => m.id).sort().join(',');
+    const listed = positions.map(p => p.id).sort().join(',');
+    if (streamed !== listed) queryClient.invalidateQueries({ queryKey: ['positions'] });
+  }, [marks, positions, queryClient]);
+
+  const markById = React.useMemo(
+    () => Object.fromEntries((marks?.positions || []).map(m => [m.id, m])),
+    [marks]
+  );
 
   const stopMonitor = React.useCallback((positionId) => {
     esRefs.current[positionId]?.close();
@@ -55,17 +106,25 @@ export default function PositionsList({
     setMonitoring(prev => ({ ...prev, [positionId]: true }));
     setLiveState(prev => ({ ...prev, [positionId]: null }));
 
-    const es = new EventSource(`${API}/${positionId}/monitor`);
+    const es = new EventSource(withAuthToken(`${API}/${positionId}/monitor`));
     esRefs.current[positionId] = es;
 
     es.addEventListener('update', (e) => {
-      try { setLiveState(prev => ({ ...prev, [positionId]: JSON.parse(e.data) })); } catch {}
+      try {
+        setLiveState(prev => ({ ...prev, [positionId]: JSON.parse(e.data) }));
+      } catch (err) {
+        console.error('[PositionsList] unreadable monitor update', err);
+        setLiveState(prev => ({ ...prev, [positionId]: { error: 'Unreadable monitor update' } }));
+      }
     });
     es.addEventListener('error', (e) => {
       try {
         const data = JSON.parse(e.data || '{}');
         if (data.message) setLiveState(prev => ({ ...prev, [positionId]: { error: data.message } }));
-      } catch {}
+      } catch (err) {
+        console.error('[PositionsList] unreadable monitor error', err);
+        setLiveState(prev => ({ ...prev, [positionId]: { error: 'Monitor failed' } }));
+      }
     });
     es.addEventListener('done', () => stopMonitor(positionId));
     es.onerror = () => stopMonitor(positionId);
@@ -176,19 +235,91 @@ export default function PositionsList({
     </Button>
   );
 
+  const closedSection = closedPositions.length > 0 && (
+    <div className="space-y-2">
+      <p className="text-xs text-slate-500 uppercase tracking-wider">Recently Closed</p>
+      {closedPositions.map((position) => {
+        const isLong = position.side === "long";
+        const hasPnl = position.realized_pnl != null;
+        const exitedQty = position.exited_quantity || position.quantity;
+        return (
+          <div
+            key={position.id}
+            className="bg-slate-800/30 border border-slate-700/40 rounded-lg px-3 py-2 text-xs"
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="font-bold text-white">{position.ticker}</span>
+                <span className={cn("font-medium", isLong ? "text-emerald-400" : "text-rose-400")}>
+                  {position.side.toUpperCase()} {exitedQty}
+                </span>
+                {position.close_reason && (
+                  <span className="px-1.5 py-0.5 rounded bg-slate-700/50 text-slate-400 text-[10px]">
+                    {CLOSE_REASON_LABEL[position.close_reason] || position.close_reason}
+                  </span>
+                )}
+              </div>
+              <span className={cn(
+                "font-mono font-bold",
+                !hasPnl ? "text-slate-500" : position.realized_pnl >= 0 ? "text-emerald-400" : "text-rose-400"
+              )}>
+                {hasPnl ? formatPnl(position.realized_pnl) : 'unpriced'}
+              </span>
+            </div>
+            <div className="flex items-center justify-between mt-1 text-slate-500">
+              <span className="font-mono">
+                ${position.avg_entry_price ? Number(position.avg_entry_price).toFixed(2) : '—'}
+                {' → '}
+                ${position.exit_price != null ? position.exit_price.toFixed(2) : '—'}
+                {position.fees > 0 && <span className="ml-2">fees ${position.fees.toFixed(2)}</span>}
+              </span>
+              <span>
+                held {formatHolding(position.holding_seconds)}
+                {position.closed_at && ` · ${format(new Date(position.closed_at), "HH:mm")}`}
+              </span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
   if (positions.length === 0) {
     return (
-      <div className="text-center py-12 text-slate-500">
-        <TrendingUp className="w-10 h-10 mx-auto mb-3 opacity-40" />
-        <p className="font-medium">No open positions</p>
-        <p className="text-xs mt-1">Executed trades will appear here</p>
-        {demoButton && <div className="mt-4 flex justify-center">{demoButton}</div>}
+      <div className="space-y-4">
+        <div className="text-center py-12 text-slate-500">
+          <TrendingUp className="w-10 h-10 mx-auto mb-3 opacity-40" />
+          <p className="font-medium">No open positions</p>
+          <p className="text-xs mt-1">Executed trades will appear here</p>
+          {demoButton && <div className="mt-4 flex justify-center">{demoButton}</div>}
+        </div>
+        {closedSection}
       </div>
     );
   }
 
   return (
     <div className="space-y-3">
+      {marks && (
+        <div className="flex items-center justify-between px-3 py-2 rounded-lg bg-slate-900/60 border border-slate-700/50">
+          <div>
+            <p className="text-[10px] uppercase tracking-wider text-slate-500">Unrealized P&amp;L</p>
+            <p className={cn(
+              "font-mono font-bold",
+              marks.totals.unrealized_pnl >= 0 ? "text-emerald-400" : "text-rose-400"
+            )}>
+              {formatPnl(marks.totals.unrealized_pnl)}
+            </p>
+          </div>
+          <div className="text-right text-[10px] text-slate-500">
+            <p>
+              {marks.totals.priced}/{marks.totals.priced + marks.totals.unpriced} priced
+              {!marks.trading_window && ' · market closed'}
+            </p>
+            <p>as of {format(new Date(marks.as_of), "HH:mm:ss")}</p>
+          </div>
+        </div>
+      )}
       {demoButton && (
         <div className="flex justify-end">
           {demoButton}
@@ -204,6 +335,7 @@ export default function PositionsList({
           const isTtpInputOpen = !!ttpInputOpen[position.id];
           const isMonitoring = !!monitoring[position.id];
           const live = liveState[position.id];
+          const mark = markById[position.id];
 
           return (
             <motion.div
@@ -244,6 +376,47 @@ export default function PositionsList({
                 </div>
               </div>
 
+              {/* Live mark-to-market */}
+              {mark && mark.mark != null && (
+                <div className="flex items-center justify-between mb-3 p-2 rounded-lg bg-slate-900/40 text-xs">
+                  <span className="font-mono text-slate-300">
+                    ${mark.mark.toFixed(2)}
+                    <span className={cn("ml-2", mark.move_pct >= 0 ? "text-emerald-400" : "text-rose-400")}>
+                      {mark.move_pct >= 0 ? '+' : ''}{mark.move_pct.toFixed(2)}%
+                    </span>
+                  </span>
+                  {mark.ttp_distance_pct != null && (
+                    <span className="text-amber-400/80">
+                      TTP {mark.ttp_distance_pct >= 0 ? '+' : ''}{mark.ttp_distance_pct.toFixed(2)}%
+                    </span>
+                  )}
+                  <span className={cn(
+                    "font-mono font-bold",
+                    mark.unrealized_pnl >= 0 ? "text-emerald-400" : "text-rose-400"
+                  )}>
+                    {formatPnl(mark.unrealized_pnl)}
+                  </span>
+                </div>
+              )}
+
+              {/* Partial exits so far */}
+              {position.exited_quantity > 0 && (
+                <div className="flex items-center justify-between mb-3 text-xs text-slate-500">
+                  <span>
+                    Exited {position.exited_quantity}
+                    {position.exit_price != null && ` @ $${position.exit_price.toFixed(2)}`}
+                  </span>
+                  {position.realized_pnl != null && (
+                    <span className={cn(
+                      "font-mono font-bold",
+                      position.realized_pnl >= 0 ? "text-emerald-400" : "text-rose-400"
+                    )}>
+                      Realized {formatPnl(position.realized_pnl)}
+                    </span>
+                  )}
+                </div>
+              )}
+
               {position.notes && (
                 <div className="mb-3 p-2 rounded-lg bg-slate-700/30">
                   <p className="text-xs text-slate-400">{position.notes}</p>
@@ -275,6 +448,27 @@ export default function PositionsList({
                 );
               })()}
 
+              {/* Working take-profit / stop-loss orders attached by the entry */}
+              {position.protective_orders?.some(o => o.status === 'working') && (
+                <div className="flex items-center gap-2 mb-3 flex-wrap">
+                  {position.protective_orders.filter(o => o.status === 'working').map(order => (
+                    <span
+                      key={order.id}
+                      title={order.broker_order_id ? `${order.broker} order ${order.broker_order_id}` : 'Sent with the entry — not tracked at the broker'}
+                      className={cn(
+                        "inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-bold border",
+                        order.kind === 'take_profit'
+                          ? "bg-emerald-500/15 text-emerald-400 border-emerald-500/40"
+                          : "bg-rose-500/15 text-rose-400 border-rose-500/40"
+                      )}
+                    >
+                      <Shield className="w-3 h-3" />
+                      {order.kind === 'take_profit' ? 'TP' : 'SL'} ${Number(order.limit_price ?? order.stop_price).toFixed(2)} × {order.quantity}
+                    </span>
+                  ))}
+                </div>
+              )}
+
               {/* Live spike-state panel */}
               {isMonitoring && (
                 <div className="mb-3 p-3 rounded-lg bg-slate-900/60 border border-slate-700/50 text-xs space-y-1.5">
@@ -491,6 +685,7 @@ export default function PositionsList({
           );
         })}
       </AnimatePresence>
+      {closedSection}
     </div>
   );
 }
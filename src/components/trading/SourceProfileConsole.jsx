@@ -0,0 +1,271 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FlaskConical, Plus, Save, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import api from '@/api/apiClient';
+import { useCurrentUser } from '@/hooks/use-auth';
+import DryRunOutcome from '@/components/trading/DryRunOutcome';
+
+const EXAMPLE_DEFINITION = {
+  fields: [
+    { target: 'event', from: 'kind', map: { entry: 'ORDER', alert: 'WALL' }, transform: 'event', default: 'WALL' },
+    { target: 'ticker', from: ['symbol', 'alert.symbol'], transform: 'uppercase' },
+    { target: 'dir', from: 'side', transform: 'direction' },
+    { target: 'price', from: 'price_cents', transform: 'number', scale: 0.01 }
+  ],
+  defaults: { strategy_id: 'scanner', tf: '1m' },
+  passthrough: true
+};
+
+const EXAMPLE_PAYLOAD = {
+  kind: 'alert',
+  symbol: 'aapl',
+  side: 'buy',
+  price_cents: 18934
+};
+
+const pretty = (value) => JSON.stringify(value, null, 2);
+
+function definitionOf(profile) {
+  return pretty({ fields: profile.fields, defaults: profile.defaults, passthrough: profile.passthrough });
+}
+
+function parseJson(text, label) {
+  try {
+    return { value: JSON.parse(text), error: null };
+  } catch (e) {
+    return { value: null, error: `${label} is not valid JSON: ${e.message}` };
+  }
+}
+
+/**
+ * Source profiles map another sender's fields (TrendSpider, a scanner, a
+ * Discord bot) onto the signal shape for POST /api/webhook/src/<name>.
+ * Test runs a sample body through the current — possibly unsaved —
+ * definition and dry-runs the mapped signal; nothing is logged or processed.
+ */
+export default function SourceProfileConsole() {
+  const { canTrade, isAdmin } = useCurrentUser();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [definition, setDefinition] = useState(() => pretty(EXAMPLE_DEFINITION));
+  const [sample, setSample] = useState(() => pretty(EXAMPLE_PAYLOAD));
+  const [result, setResult] = useState(null);
+
+  const { data } = useQuery({
+    queryKey: ['webhookSources'],
+    queryFn: async () => (await api.get('/webhook-sources')).data
+  });
+  const profiles = data?.profiles || [];
+
+  const select = (profile) => {
+    setSelected(profile?.id ?? null);
+    setName(profile?.name ?? '');
+    setDescription(profile?.description ?? '');
+    setDefinition(profile ? definitionOf(profile) : pretty(EXAMPLE_DEFINITION));
+    setResult(null);
+  };
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const parsedDefinition = parseJson(definition, 'Definition');
+      if (parsedDefinition.error) throw new Error(parsedDefinition.error);
+      const parsedSample = parseJson(sample, 'Sample payload');
+      if (parsedSample.error) throw new Error(parsedSample.error);
+      const response = await api.post('/webhook-sources/test', {
+        profile: name.trim() || undefined,
+        definition: parsedDefinition.value,
+        payload: parsedSample.value
+      });
+      return response.data;
+    },
+    onSuccess: (data) => setResult(data),
+    onError: (error) => {
+      setResult(null);
+      toast.error(error.response?.data?.error || error.message || 'Test failed');
+    }
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const parsedDefinition = parseJson(definition, 'Definition');
+      if (parsedDefinition.error) throw new Error(parsedDefinition.error);
+      const body = { name: name.trim(), description, ...parsedDefinition.value };
+      const response = selected
+        ? await api.put(`/webhook-sources/${selected}`, body)
+        : await api.post('/webhook-sources', body);
+      return response.data;
+    },
+    onSuccess: (profile) => {
+      toast.success(`Saved — senders post to ${profile.url}`);
+      queryClient.invalidateQueries({ queryKey: ['webhookSources'] });
+      select(profile);
+    },
+    onError: (error) => {
+      toast.error(error.response?.data?.error || error.message || 'Failed to save profile');
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => (await api.delete(`/webhook-sources/${selected}`)).data,
+    onSuccess: () => {
+      toast.success('Source profile deleted');
+      queryClient.invalidateQueries({ queryKey: ['webhookSources'] });
+      select(null);
+    },
+    onError: (error) => {
+      toast.error(error.response?.data?.error || 'Failed to delete profile');
+    }
+  });
+
+  const current = profiles.find(p => p.id === selected);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 overflow-x-auto">
+        {profiles.map(profile => (
+          <button
+            key={profile.id}
+            onClick={() => select(profile)}
+            className={cn(
+              "px-3 py-1.5 rounded-lg text-xs font-medium whitespace-nowrap transition-all",
+              selected === profile.id
+                ? "bg-orange-500/20 text-orange-400 border border-orange-500/50"
+                : "bg-slate-800/50 text-slate-400 hover:text-slate-300",
+              !profile.active && "line-through"
+            )}
+          >
+            {profile.name}
+          </button>
+        ))}
+        <button
+          onClick={() => select(null)}
+          className={cn(
+            "flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium whitespace-nowrap transition-all",
+            selected === null
+              ? "bg-orange-500/20 text-orange-400 border border-orange-500/50"
+              : "bg-slate-800/50 text-slate-400 hover:text-slate-300"
+          )}
+        >
+          <Plus className="w-3 h-3" />
+          New
+        </button>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        <Input
+          value={name}
+          placeholder="Profile name, e.g. trendspider"
+          onChange={(e) => setName(e.target.value)}
+          disabled={!isAdmin}
+          className="bg-slate-800 border-slate-700 text-white font-mono text-xs h-8"
+        />
+        <Input
+          value={description}
+          placeholder="Description"
+          onChange={(e) => setDescription(e.target.value)}
+          disabled={!isAdmin}
+          className="bg-slate-800 border-slate-700 text-white text-xs h-8"
+        />
+      </div>
+      <p className="text-[11px] text-slate-500">
+        Senders post to <code className="text-orange-300/80">/api/webhook/src/{name.trim().toLowerCase() || '<name>'}</code>
+        {current && !current.active && ' · inactive — webhooks to it are rejected'}
+      </p>
+
+      <div className="grid gap-3 lg:grid-cols-2">
+        <div className="space-y-1">
+          <p className="text-xs text-slate-500 uppercase">Definition</p>
+          <Textarea
+            value={definition}
+            onChange={(e) => setDefinition(e.target.value)}
+            rows={14}
+            className="bg-slate-800 border-slate-700 text-white font-mono text-xs"
+          />
+          {data?.transforms && (
+            <p className="text-[11px] text-slate-500">
+              <span className="text-slate-400">Transforms:</span>{' '}
+              <code className="text-orange-300/80">{data.transforms.join(', ')}</code>
+            </p>
+          )}
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-slate-500 uppercase">Sample payload (as the sender posts it)</p>
+          <Textarea
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            rows={14}
+            className="bg-slate-800 border-slate-700 text-white font-mono text-xs"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {canTrade && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => testMutation.mutate()}
+            disabled={testMutation.isPending}
+            className="h-8 border-slate-600 text-slate-300 hover:bg-slate-700/50"
+          >
+            <FlaskConical className="w-4 h-4 mr-1" />
+            {testMutation.isPending ? 'Testing...' : 'Test'}
+          </Button>
+        )}
+        {isAdmin && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => saveMutation.mutate()}
+            disabled={!name.trim() || saveMutation.isPending}
+            className="h-8 border-orange-500/50 text-orange-400 hover:bg-orange-500/20"
+          >
+            <Save className="w-4 h-4 mr-1" />
+            {selected ? 'Save' : 'Create'}
+          </Button>
+        )}
+        {isAdmin && selected && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => deleteMutation.mutate()}
+            disabled={deleteMutation.isPending}
+            className="h-8 border-red-500/50 text-red-400 hover:bg-red-500/20"
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete
+          </Button>
+        )}
+      </div>
+
+      {result && (
+        <div className="space-y-2">
+          {result.mapping_errors?.length > 0 && (
+            <ul className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-300 space-y-0.5">
+              {result.mapping_errors.map((e) => (
+                <li key={`${e.field}:${e.message}`}>
+                  <span className="font-mono">{e.field}</span> {e.message}
+                  {e.value !== undefined && <span className="text-slate-500"> (got {JSON.stringify(e.value)})</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div>
+            <p className="text-xs text-slate-500 uppercase mb-1">Mapped signal</p>
+            <pre className="bg-slate-900/50 rounded-lg p-3 text-xs text-slate-300 overflow-x-auto">
+              {pretty(result.payload)}
+            </pre>
+          </div>
+          <DryRunOutcome outcome={result.dry_run} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import api from '@/api/apiClient';
+
+const ROLE_RANK = { viewer: 0, trader: 1, admin: 2 };
+
+export function isLoggedIn() {
+  return !!localStorage.getItem('auth_token');
+}
+
+export function storeSession({ token, user }) {
+  localStorage.setItem('auth_token', token);
+  localStorage.setItem('auth_user', JSON.stringify(user));
+}
+
+function getStoredUser() {
+  try {
+    return JSON.parse(localStorage.getItem('auth_user') || 'null');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The logged-in user ({ id, email, role }). Seeded from localStorage so the UI
+ * doesn't flicker, then refreshed from /auth/me in case an admin changed the role.
+ */
+export function useCurrentUser() {
+  const { data: user } = useQuery({
+    queryKey: ['currentUser'],
+    queryFn: async () => {
+      const response = await api.get('/auth/me');
+      localStorage.setItem('auth_user', JSON.stringify(response.data));
+      return response.data;
+    },
+    placeholderData: getStoredUser,
+    enabled: isLoggedIn(),
+    staleTime: 5 * 60 * 1000
+  });
+
+  const hasRole = (role) => !!user && (ROLE_RANK[user.role] ?? -1) >= ROLE_RANK[role];
+
+  return {
+    user,
+    hasRole,
+    canTrade: hasRole('trader'),
+    isAdmin: hasRole('admin')
+  };
+}
+
+export function useLogout() {
+  const queryClient = useQueryClient();
+  return () => {
+    localStorage.removeItem('auth_token');
+    localStorage.removeItem('auth_user');
+    queryClient.clear();
+    window.location.href = '/login';
+  };
+}
@@ -0,0 +1,44 @@
+// Order type / time-in-force vocabulary - mirrors the backend's
+// services/orderSpec.ts, which validates whatever the editor sends.
+export const ORDER_TYPES = [
+  { value: 'market', label: 'Market' },
+  { value: 'limit', label: 'Limit' },
+  { value: 'stop', label: 'Stop' },
+  { value: 'stop_limit', label: 'Stop Limit' },
+  { value: 'trailing_stop', label: 'Trailing Stop' },
+];
+
+export const TIME_IN_FORCE = [
+  { value: 'day', label: 'Day' },
+  { value: 'gtc', label: 'GTC' },
+  { value: 'ioc', label: 'IOC' },
+  { value: 'fok', label: 'FOK' },
+];
+
+export const orderTypeLabel = (type) => ORDER_TYPES.find(t => t.value === type)?.label ?? 'Limit';
+
+// Webhook events whose executions reduce a position - mirrors EXIT_EVENTS in services/orderSpec.ts
+export const EXIT_EVENTS = ['EXIT', 'PARTIAL_EXIT'];
+
+// The webhook event an execution came from (ORDER, EXIT, PARTIAL_EXIT, SCALE_IN, ...), or null
+export function executionEvent(exec) {
+  if (!exec?.raw_payload) return null;
+  try {
+    return JSON.parse(exec.raw_payload).event ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Exits are identified by the event in raw_payload (executions have no exit flag)
+export function isExitExecution(exec) {
+  return EXIT_EVENTS.includes(executionEvent(exec));
+}
+
+// True when an execution is anything other than a plain limit/market day order
+export function hasOrderDetails(exec) {
+  return (exec?.order_type && !['limit', 'market'].includes(exec.order_type)) ||
+    (exec?.time_in_force && exec.time_in_force !== 'day') ||
+    exec?.take_profit_price != null ||
+    exec?.stop_loss_price != null;
+}
@@ -4,7 +4,7 @@ import { cn } from "@/lib/utils";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Layers, Send, History, Settings, X,
-  RefreshCw, Bell, Shield, TrendingUp, Webhook, ScrollText
+  RefreshCw, Bell, Shield, TrendingUp, Webhook, ScrollText, LogOut, OctagonX, BookOpen
 } from "lucide-react";
 import { Link } from "react-router-dom";
 import { createPageUrl } from "@/utils";
@@ -16,11 +16,13 @@ import { tradingWindowRefetchInterval } from "@/lib/marketHours";
 
 import SwipeDeck from "../components/trading/SwipeDeck";
 import ExecutionQueue from "../components/trading/ExecutionQueue";
+import AccountOrderIssues from "../components/trading/AccountOrders";
 import { BacktestPanel } from "../components/trading/BacktestPanel";
 import StatsOverview from "../components/trading/StatsOverview";
 import TickerList from "../components/trading/TickerList";
 import LimitPriceEditor from "../components/trading/LimitPriceEditor";
 import ExecutionEditor from "../components/trading/ExecutionEditor";
+import { isExitExecution } from "@/lib/orders";
 import CandidatesList from "../components/trading/CandidatesList";
 import SecWatchList from "../components/trading/SecWatchList";
 import PositionsList from "../components/trading/PositionsList";
@@ -30,6 +32,7 @@ import ErrorBoundary from "../components/ErrorBoundary";
 
 // Import new REST API client
 import api from "@/api/apiClient";
+import { useCurrentUser, useLogout } from "@/hooks/use-auth";
 
 export default function Dashboard() {
   const [activeTab, setActiveTab] = useState("candidates");
@@ -46,6 +49,8 @@ export default function Dashboard() {
   const [viewMode, setViewMode] = useState("deck"); // "deck" or "list"
 
   const queryClient = useQueryClient();
+  const { user } = useCurrentUser();
+  const logout = useLogout();
 
   // Fetch settings
   const { data: settings } = useQuery({
@@ -123,18 +128,38 @@ export default function Dashboard() {
     refetchInterval: tradingWindowRefetchInterval(120000)
   });
 
-  // Fetch executions from the Execution table (only pending/executing - active queue)
+  // Fetch executions from the Execution table (active queue + risk-blocked orders until dismissed)
   const { data: executions = [], refetch: refetchExecutions } = useQuery({
     queryKey: ['executions'],
     queryFn: async () => {
       const response = await api.get('/executions', {
-        params: { status: 'pending,executing' }
+        params: { status: 'pending,executing,rejected' }
       });
       return response.data || [];
     },
     refetchInterval: tradingWindowRefetchInterval(10000, 60000)
   });
 
+  // Additional broker accounts' orders that failed or are retrying
+  const { data: accountIssues = [] } = useQuery({
+    queryKey: ['accountOrderIssues'],
+    queryFn: async () => {
+      const response = await api.get('/executions/account-orders/issues');
+      return response.data || [];
+    },
+    refetchInterval: tradingWindowRefetchInterval(15000, 60000)
+  });
+
+  // Orders the broker delivery queue gave up on (retry now / abandon)
+  const { data: deadLetters = [] } = useQuery({
+    queryKey: ['deadLetters'],
+    queryFn: async () => {
+      const response = await api.get('/executions/dead-letters');
+      return response.data || [];
+    },
+    refetchInterval: tradingWindowRefetchInterval(15000, 60000)
+  });
+
   // Force execute an order
   const forceExecuteMutation = useMutation({
     mutationFn: async (exec) => {
@@ -146,6 +171,11 @@ export default function Dashboard() {
       queryClient.invalidateQueries({ queryKey: ['positions'] });
       queryClient.invalidateQueries({ queryKey: ['auditLogs'] });
       toast.success('Order executed');
+    },
+    onError: (error) => {
+      // 422 = blocked by a risk limit; the card now shows the reason
+      queryClient.invalidateQueries({ queryKey: ['executions'] });
+      toast.error(error.response?.data?.error || 'Execution failed');
     }
   });
 
@@ -186,7 +216,21 @@ export default function Dashboard() {
       });
       return response.data || [];
     },
-    refetchInterval: tradingWindowRefetchInterval(15000, 60000)
+    // Live prices arrive over the P&L stream in PositionsList, which also
+    // refetches this list when a position opens or closes
+    refetchInterval: tradingWindowRefetchInterval(60000, 120000)
+  });
+
+  // Recently closed positions (exit price / realized P&L)
+  const { data: closedPositions = [] } = useQuery({
+    queryKey: ['positions', 'closed'],
+    queryFn: async () => {
+      const response = await api.get('/positions', {
+        params: { closed_only: true, limit: 10 }
+      });
+      return response.data || [];
+    },
+    refetchInterval: tradingWindowRefetchInterval(30000, 120000)
   });
 
   // Calculate stats
@@ -227,7 +271,7 @@ export default function Dashboard() {
     onError: (err, newData, context) => {
       // If the mutation fails, use the context returned from onMutate to roll back
       queryClient.setQueryData(['settings'], context.previousSettings);
-      toast.error('Failed to update settings');
+      toast.error(err.response?.data?.error || 'Failed to update settings');
     },
     onSuccess: () => {
       toast.success('Settings updated');
@@ -310,8 +354,8 @@ export default function Dashboard() {
     mutationFn: async ({ intent, newPrice }) => {
       const originalPrice = intent.limit_price;
 
-      // Update the execution's limit_price directly so broker gets the new price
-      await api.put(`/executions/${intent.id}`, {
+      // Update the execution's limit_price - an order already at the broker is replaced there
+      const response = await api.put(`/executions/${intent.id}`, {
         limit_price: newPrice
       });
 
@@ -328,22 +372,28 @@ export default function Dashboard() {
           change_percent: ((newPrice - originalPrice) / originalPrice) * 100
         })
       });
+      return response.data;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['executions'] });
       queryClient.invalidateQueries({ queryKey: ['auditLogs'] });
-      toast.success('Limit price updated - broker will receive new price');
+      toast.success(data?.broker_replaced ? 'Limit price replaced at broker' : 'Limit price updated - broker will receive new price');
+    },
+    onError: (error) => {
+      // 400 = outside the server-side max adjustment band, 409 = order can no longer be edited,
+      // 502 = broker refused the replace
+      toast.error(error.response?.data?.error || 'Failed to update limit price');
     }
   });
 
   // Save execution edits (price AND quantity) - for enhanced exit order editing
   const saveExecutionMutation = useMutation({
-    mutationFn: async ({ execution, newPrice, newQuantity }) => {
-      const updateData = {};
+    mutationFn: async ({ execution, newPrice, newQuantity, orderFields }) => {
+      const updateData = { ...orderFields };
       if (newPrice !== undefined) updateData.limit_price = newPrice;
       if (newQuantity !== undefined) updateData.quantity = newQuantity;
 
-      await api.put(`/executions/${execution.id}`, updateData);
+      const response = await api.put(`/executions/${execution.id}`, updateData);
 
       // Log the edit
       await api.post('/audit-logs', {
@@ -359,14 +409,19 @@ export default function Dashboard() {
           quantity_change: newQuantity !== undefined ? {
             from: execution.quantity,
             to: newQuantity
-          } : null
+          } : null,
+          order_change: orderFields ?? null
         })
       });
+      return response.data;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['executions'] });
       queryClient.invalidateQueries({ queryKey: ['auditLogs'] });
-      toast.success('Execution updated');
+      toast.success(data?.broker_replaced ? 'Order replaced at broker' : 'Execution updated');
+    },
+    onError: (error) => {
+      toast.error(error.response?.data?.error || 'Failed to update execution');
     }
   });
 
@@ -414,12 +469,21 @@ export default function Dashboard() {
 
   const cancelExecutionMutation = useMutation({
     mutationFn: async (exec) => {
-      await api.post(`/executions/${exec.id}/cancel`);
+      const response = await api.post(`/executions/${exec.id}/cancel`);
+      return response.data;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['executions'] });
       queryClient.invalidateQueries({ queryKey: ['auditLogs'] });
-      toast.success('Execution cancelled');
+      toast.success(data?.broker_cancelled ? 'Cancel acknowledged by broker' : 'Execution cancelled');
+      const refused = (data?.account_cancels || []).filter(c => !c.cancelled);
+      if (refused.length > 0) {
+        toast.warning(`Cancel refused for ${refused.map(c => c.account).join(', ')}: ${refused[0].error}`);
+      }
+    },
+    onError: (error) => {
+      // 409 = already filled / cancelled or mid-delivery, 502 = broker refused the cancel
+      toast.error(error.response?.data?.error || 'Failed to cancel execution');
     }
   });
 
@@ -454,8 +518,73 @@ export default function Dashboard() {
       queryClient.invalidateQueries({ queryKey: ['auditLogs'] });
       toast.success('Retry initiated');
     },
-    onError: () => {
-      toast.error('Retry failed');
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['executions'] });
+      toast.error(error.response?.data?.error || 'Retry failed');
+    }
+  });
+
+  const retryDeliveryMutation = useMutation({
+    mutationFn: async (deadLetter) => {
+      const response = await api.post(`/executions/${deadLetter.execution_id}/delivery/retry`);
+      return response.data;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['deadLetters'] });
+      queryClient.invalidateQueries({ queryKey: ['executions'] });
+      queryClient.invalidateQueries({ queryKey: ['auditLogs'] });
+      if (result.success) toast.success('Order delivered to broker');
+      else if (result.queued) toast.warning(`Broker still failing — retrying: ${result.error}`);
+      else toast.error(result.error || 'Delivery failed again');
+    },
+    onError: (error) => {
+      toast.error(error.response?.data?.error || 'Retry failed');
+    }
+  });
+
+  const abandonDeliveryMutation = useMutation({
+    mutationFn: async (deadLetter) => {
+      await api.post(`/executions/${deadLetter.execution_id}/delivery/abandon`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['deadLetters'] });
+      queryClient.invalidateQueries({ queryKey: ['executions'] });
+      queryClient.invalidateQueries({ queryKey: ['auditLogs'] });
+      toast.success('Order abandoned');
+    },
+    onError: (error) => {
+      toast.error(error.response?.data?.error || 'Failed to abandon order');
+    }
+  });
+
+  const retryAccountOrderMutation = useMutation({
+    mutationFn: async (order) => {
+      const response = await api.post(`/executions/${order.execution_id}/accounts/${order.account_id}/retry`);
+      return response.data;
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ['accountOrderIssues'] });
+      queryClient.invalidateQueries({ queryKey: ['executions'] });
+      if (order.status === 'failed') toast.error(order.error_message || 'Account order failed again');
+      else if (order.status === 'pending') toast.warning(`Broker still failing — retrying: ${order.error_message}`);
+      else toast.success('Account order delivered');
+    },
+    onError: (error) => {
+      toast.error(error.response?.data?.error || 'Retry failed');
+    }
+  });
+
+  const abandonAccountOrderMutation = useMutation({
+    mutationFn: async (order) => {
+      await api.post(`/executions/${order.execution_id}/accounts/${order.account_id}/abandon`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accountOrderIssues'] });
+      queryClient.invalidateQueries({ queryKey: ['executions'] });
+      toast.success('Account order abandoned');
+    },
+    onError: (error) => {
+      toast.error(error.response?.data?.error || 'Failed to abandon account order');
     }
   });
 
@@ -564,12 +693,16 @@ export default function Dashboard() {
       const response = await api.post(`/positions/${position.id}/mark-flat`);
       return response.data;
     },
-    onSuccess: () => {
+    onSuccess: (position) => {
       queryClient.invalidateQueries({ queryKey: ['positions'] });
       queryClient.invalidateQueries({ queryKey: ['candidates'] });
       queryClient.invalidateQueries({ queryKey: ['auditLogs'] });
-      toast.success('Position marked flat - 5 min cooldown active');
-    }
+      const pnl = position?.realized_pnl;
+      toast.success(pnl != null
+        ? `Position marked flat (${pnl >= 0 ? '+' : '-'}$${Math.abs(pnl).toFixed(2)}) - 5 min cooldown active`
+        : 'Position marked flat - 5 min cooldown active');
+    },
+    onError: (error) => toast.error(error.response?.data?.error || 'Failed to mark position flat')
   });
 
   const setTTPMutation = useMutation({
@@ -875,11 +1008,7 @@ export default function Dashboard() {
   }, [settings, getEditWindowSeconds]);
 
   const handleEditLimit = async (exec) => {
-    // Check if this is an exit order
-    const isExit = exec.order_type === 'exit' ||
-      (exec.raw_payload && JSON.parse(exec.raw_payload).event === 'EXIT');
-
-    if (isExit) {
+    if (isExitExecution(exec)) {
       // Fetch execution with position context for exit orders
       try {
         const response = await api.get(`/executions/${exec.id}/with-position`);
@@ -901,12 +1030,19 @@ export default function Dashboard() {
     }
   };
 
+  // Order type, time-in-force and take-profit / stop-loss legs of an entry
+  const handleEditOrder = (exec) => {
+    setEditingExecution(exec);
+    setEditingPosition(null);
+    setExecutionEditorOpen(true);
+  };
+
   const handleSaveLimit = (intent, newPrice) => {
     saveLimitOverrideMutation.mutate({ intent, newPrice });
   };
 
-  const handleSaveExecution = ({ execution, newPrice, newQuantity }) => {
-    saveExecutionMutation.mutate({ execution, newPrice, newQuantity });
+  const handleSaveExecution = ({ execution, newPrice, newQuantity, orderFields }) => {
+    saveExecutionMutation.mutate({ execution, newPrice, newQuantity, orderFields });
   };
 
   return (
@@ -938,6 +1074,12 @@ export default function Dashboard() {
                 </Button>
               </Link>
 
+              <Link to={createPageUrl("Journal")}>
+                <Button variant="ghost" size="icon" className="text-slate-400" title="Trade Journal">
+                  <BookOpen className="w-5 h-5" />
+                </Button>
+              </Link>
+
               <Link to={createPageUrl("ExecutionHistory")}>
                 <Button variant="ghost" size="icon" className="text-slate-400">
                   <History className="w-5 h-5" />
@@ -958,6 +1100,16 @@ export default function Dashboard() {
               >
                 <RefreshCw className={cn("w-5 h-5", candidatesLoading && "animate-spin")} />
               </Button>
+
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={logout}
+                className="text-slate-400"
+                title={user ? `Sign out ${user.email} (${user.role})` : 'Sign out'}
+              >
+                <LogOut className="w-5 h-5" />
+              </Button>
             </div>
           </div>
 
@@ -967,6 +1119,18 @@ export default function Dashboard() {
         <main ref={mainRef} className="flex-1 overflow-y-auto pb-16 sm:pb-20">
           {/* Execution mode toggle — always visible above all tabs */}
           <div className="px-4 pt-3 pb-2">
+            {settings?.kill_switch_tripped && (
+              <Link
+                to={createPageUrl("Settings")}
+                className="flex items-start gap-2 mb-2 p-3 rounded-lg bg-red-500/15 border border-red-500/50"
+              >
+                <OctagonX className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+                <div>
+                  <p className="text-sm font-semibold text-red-400">Kill switch tripped — execution held OFF</p>
+                  <p className="text-xs text-red-300">{settings.kill_switch_reason} · re-arm in Settings</p>
+                </div>
+              </Link>
+            )}
             <ExecutionModeToggle
               mode={settings?.execution_mode || 'safe'}
               onChange={(mode) => updateSettingsMutation.mutate({ execution_mode: mode })}
@@ -1122,15 +1286,24 @@ export default function Dashboard() {
               )}
             </TabsContent>
 
-            <TabsContent value="executions" className="mt-0 px-4 py-6">
+            <TabsContent value="executions" className="mt-0 px-4 py-6 space-y-4">
+              <AccountOrderIssues
+                issues={accountIssues}
+                onRetry={(order) => retryAccountOrderMutation.mutate(order)}
+                onAbandon={(order) => abandonAccountOrderMutation.mutate(order)}
+              />
               <ExecutionQueue
                 executions={executions}
+                deadLetters={deadLetters}
+                onRetryDelivery={(deadLetter) => retryDeliveryMutation.mutate(deadLetter)}
+                onAbandonDelivery={(deadLetter) => abandonDeliveryMutation.mutate(deadLetter)}
                 executionMode={settings?.execution_mode || 'safe'}
                 onCancel={(exec) => cancelExecutionMutation.mutate(exec)}
                 onForceExecute={(exec) => forceExecuteMutation.mutate(exec)}
                 onApprove={(exec) => approveExecutionMutation.mutate(exec)}
                 onRetry={(exec) => retryExecutionMutation.mutate(exec)}
                 onEditLimit={handleEditLimit}
+                onEditOrder={handleEditOrder}
                 onFreeze={(exec) => freezeExecutionMutation.mutate(exec)}
                 onStartWatch={({ exec, minutes }) => startWatchExecutionMutation.mutate({ exec, minutes })}
                 onStopWatch={(exec) => stopWatchExecutionMutation.mutate(exec)}
@@ -1143,6 +1316,7 @@ export default function Dashboard() {
             <TabsContent value="positions" className="mt-0 px-4 py-6">
               <PositionsList
                 positions={positions}
+                closedPositions={closedPositions}
                 onBlockSignals={(position) => blockSignalsMutation.mutate(position)}
                 onUnblockSignals={(position) => unblockSignalsMutation.mutate(position)}
                 onMarkFlat={(position) => markFlatMutation.mutate(position)}
@@ -1185,9 +1359,12 @@ export default function Dashboard() {
                 >
                   <Send className="w-5 h-5 sm:w-6 sm:h-6" />
                   <span className="text-[10px] sm:text-xs font-medium">Executions</span>
-                  {stats.pending > 0 && (
-                    <span className="absolute top-1 sm:top-2 right-1/2 translate-x-3 sm:translate-x-4 w-4 h-4 sm:w-5 sm:h-5 rounded-full bg-emerald-500 text-emerald-950 text-[10px] sm:text-xs flex items-center justify-center font-bold">
-                      {stats.pending}
+                  {(stats.pending > 0 || deadLetters.length > 0) && (
+                    <span className={cn(
+                      "absolute top-1 sm:top-2 right-1/2 translate-x-3 sm:translate-x-4 w-4 h-4 sm:w-5 sm:h-5 rounded-full text-[10px] sm:text-xs flex items-center justify-center font-bold",
+                      deadLetters.length > 0 ? "bg-red-500 text-white" : "bg-emerald-500 text-emerald-950"
+                    )}>
+                      {stats.pending + deadLetters.length}
                     </span>
                   )}
                 </TabsTrigger>
@@ -1231,13 +1408,13 @@ export default function Dashboard() {
           onSave={handleSaveLimit}
         />
 
-        {/* Execution Editor Modal (for exit orders - supports price AND quantity) */}
+        {/* Execution Editor Modal (exit orders, and order type / legs of entries) */}
         <ExecutionEditor
           open={executionEditorOpen}
           onOpenChange={setExecutionEditorOpen}
           execution={editingExecution}
           position={editingPosition}
-          isExit={editingExecution?.order_type === 'exit'}
+          isExit={isExitExecution(editingExecution)}
           maxAdjustmentPercent={settings?.max_adjustment_pct || 2}
           timeRemaining={editingExecution ? getLimitEditTimeRemaining(editingExecution) : 0}
           onSave={handleSaveExecution}
@@ -13,6 +13,7 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { format, differenceInDays } from "date-fns";
 import api from "@/api/apiClient";
 import { tradingWindowRefetchInterval } from "@/lib/marketHours";
+import { isExitExecution } from "@/lib/orders";
 
 const PRE_FALL_COLORS = {
   HIGH: "text-red-400",
@@ -220,8 +221,7 @@ export default function ExecutionHistory() {
             const statusBadge = getStatusBadge(exec.status);
             const StatusIcon = statusBadge.icon;
             const isLong = exec.dir === "Long";
-            let isExit = false;
-            try { isExit = exec.raw_payload && JSON.parse(exec.raw_payload).event === 'EXIT'; } catch {}
+            const isExit = isExitExecution(exec);
 
             let grade = null;
             try { if (exec.grade_snapshot) grade = JSON.parse(exec.grade_snapshot); } catch {}
@@ -0,0 +1,408 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { cn } from "@/lib/utils";
+import { motion } from "framer-motion";
+import {
+  ArrowLeft, TrendingUp, TrendingDown, Clock, BookOpen,
+  ChevronDown, ChevronUp, Star, Save, RefreshCw
+} from "lucide-react";
+import { Link } from "react-router-dom";
+import { createPageUrl } from "@/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import api from "@/api/apiClient";
+import { useCurrentUser } from "@/hooks/use-auth";
+import { tradingWindowRefetchInterval } from "@/lib/marketHours";
+
+const OUTCOME_OPTIONS = [
+  { value: "all", label: "All" },
+  { value: "win", label: "Wins" },
+  { value: "loss", label: "Losses" },
+  { value: "breakeven", label: "Breakeven" },
+  { value: "open", label: "Open" },
+  { value: "unpriced", label: "Unpriced" }
+];
+
+const OUTCOME_COLORS = {
+  win: "bg-emerald-500/20 text-emerald-400",
+  loss: "bg-rose-500/20 text-rose-400",
+  breakeven: "bg-slate-500/20 text-slate-300",
+  open: "bg-blue-500/20 text-blue-400",
+  unpriced: "bg-amber-500/20 text-amber-400",
+};
+
+const CLOSE_REASON_LABEL = {
+  exit_signal: "Exit signal",
+  sl_hit: "Stop loss",
+  mark_flat: "Marked flat",
+  manual: "Manual",
+  entry_cancelled: "Entry cancelled",
+};
+
+const selectClass = "h-9 px-3 rounded-md bg-slate-800 border border-slate-700 text-white text-sm";
+
+const formatPrice = (price) => (price != null ? `$${Number(price).toFixed(2)}` : "—");
+
+const formatPnl = (pnl) => {
+  if (pnl == null) return "—";
+  return `${pnl >= 0 ? "+" : "-"}$${Math.abs(pnl).toFixed(2)}`;
+};
+
+const formatHolding = (seconds) => {
+  if (seconds == null) return "—";
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+const distinct = (trades, pick) =>
+  [...new Set(trades.flatMap(pick).filter(Boolean))].sort();
+
+function FilterSelect({ label, value, options, onChange }) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={selectClass}>
+      <option value="all">{label}: All</option>
+      {options.map(option => (
+        <option key={option} value={option}>{option.replace(/_/g, " ")}</option>
+      ))}
+    </select>
+  );
+}
+
+function TradeJournalEditor({ trade, mistakes, canTrade }) {
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState(trade.notes || "");
+  const [tags, setTags] = useState((trade.tags || []).join(", "));
+  const [rating, setRating] = useState(trade.setup_rating);
+  const [mistake, setMistake] = useState(trade.mistake || "");
+
+  const { data: detail } = useQuery({
+    queryKey: ['trade', trade.id],
+    queryFn: () => api.get(`/trades/${trade.id}`).then(r => r.data),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => api.put(`/trades/${trade.id}`, {
+      notes,
+      tags: tags.split(",").map(t => t.trim()).filter(Boolean),
+      setup_rating: rating ?? null,
+      mistake: mistake || null,
+    }),
+    onSuccess: () => {
+      toast.success(`${trade.ticker} journal saved`);
+      queryClient.invalidateQueries({ queryKey: ['trades'] });
+    },
+    onError: (error) => toast.error(error.response?.data?.error || error.message),
+  });
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-700/50 space-y-3">
+      {/* Executions that make up the round trip */}
+      {detail?.executions?.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-slate-500 uppercase">Executions</p>
+          {detail.executions.map(exec => (
+            <div key={exec.id} className="flex items-center justify-between text-xs text-slate-300">
+              <span>
+                {exec.order_action?.toUpperCase()} {exec.quantity} @ {formatPrice(exec.fill_price ?? exec.limit_price)}
+                {exec.fill_price != null && <span className="text-slate-500 ml-1">(filled)</span>}
+              </span>
+              <span className="text-slate-500">
+                {exec.created_at && format(new Date(exec.created_at), "MMM d, HH:mm:ss")}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <p className="text-xs text-slate-500 uppercase mb-1">Setup Rating</p>
+        <div className="flex items-center gap-1">
+          {[1, 2, 3, 4, 5].map(n => (
+            <button
+              key={n}
+              type="button"
+              disabled={!canTrade}
+              onClick={() => setRating(rating === n ? null : n)}
+              className="p-0.5 disabled:cursor-not-allowed"
+            >
+              <Star className={cn("w-5 h-5", rating != null && n <= rating ? "fill-amber-400 text-amber-400" : "text-slate-600")} />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <p className="text-xs text-slate-500 uppercase mb-1">Mistake</p>
+          <select
+            value={mistake}
+            disabled={!canTrade}
+            onChange={(e) => setMistake(e.target.value)}
+            className={cn(selectClass, "w-full")}
+          >
+            <option value="">None</option>
+            {mistakes.map(m => (
+              <option key={m} value={m}>{m.replace(/_/g, " ")}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500 uppercase mb-1">Tags</p>
+          <Input
+            value={tags}
+            disabled={!canTrade}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="gap-fade, news, a+ setup"
+            className="bg-slate-800 border-slate-700 text-white"
+          />
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs text-slate-500 uppercase mb-1">Notes</p>
+        <Textarea
+          value={notes}
+          disabled={!canTrade}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="What went right, what went wrong…"
+          className="bg-slate-800 border-slate-700 text-white min-h-[80px]"
+        />
+      </div>
+
+      {canTrade && (
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <Save className="w-4 h-4 mr-1" />
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function Journal() {
+  const { canTrade, isAdmin } = useCurrentUser();
+  const queryClient = useQueryClient();
+  const [outcomeFilter, setOutcomeFilter] = useState("all");
+  const [strategyFilter, setStrategyFilter] = useState("all");
+  const [biasFilter, setBiasFilter] = useState("all");
+  const [tierFilter, setTierFilter] = useState("all");
+  const [expandedId, setExpandedId] = useState(null);
+
+  const { data: trades = [], isLoading } = useQuery({
+    queryKey: ['trades'],
+    queryFn: () => api.get('/trades', { params: { limit: 1000 } }).then(r => r.data || []),
+    refetchInterval: tradingWindowRefetchInterval(30000, 120000)
+  });
+
+  const { data: mistakes = [] } = useQuery({
+    queryKey: ['trade-mistakes'],
+    queryFn: () => api.get('/trades/mistakes').then(r => r.data),
+    staleTime: Infinity,
+  });
+
+  const backfillMutation = useMutation({
+    mutationFn: () => api.post('/trades/backfill').then(r => r.data),
+    onSuccess: (data) => {
+      toast.success(`Journaled ${data.created} earlier position(s)`);
+      queryClient.invalidateQueries({ queryKey: ['trades'] });
+    },
+    onError: (error) => toast.error(error.response?.data?.error || error.message),
+  });
+
+  const strategies = useMemo(() => distinct(trades, t => [t.strategy_id]), [trades]);
+  const biases = useMemo(() => distinct(trades, t => [t.sec_bias, t.snapshot_bias]), [trades]);
+  const tiers = useMemo(() => distinct(trades, t => [t.quality_tier]), [trades]);
+
+  const filtered = useMemo(() => trades.filter(t =>
+    (outcomeFilter === "all" || t.outcome === outcomeFilter) &&
+    (strategyFilter === "all" || t.strategy_id === strategyFilter) &&
+    (biasFilter === "all" || t.sec_bias === biasFilter || t.snapshot_bias === biasFilter) &&
+    (tierFilter === "all" || t.quality_tier === tierFilter)
+  ), [trades, outcomeFilter, strategyFilter, biasFilter, tierFilter]);
+
+  const summary = useMemo(() => {
+    const closed = filtered.filter(t => t.outcome === "win" || t.outcome === "loss" || t.outcome === "breakeven");
+    const wins = closed.filter(t => t.outcome === "win").length;
+    const pnl = filtered.reduce((sum, t) => sum + (t.realized_pnl ?? 0), 0);
+    return { closed: closed.length, winRate: closed.length ? (wins / closed.length) * 100 : null, pnl };
+  }, [filtered]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
+      {/* Header */}
+      <header className="sticky top-0 z-40 bg-slate-950/80 backdrop-blur-xl border-b border-slate-800">
+        <div className="flex items-center gap-3 px-4 h-16">
+          <Link to={createPageUrl("Dashboard")}>
+            <Button variant="ghost" size="icon" className="text-slate-400">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <div className="flex-1">
+            <h1 className="font-bold text-white text-lg">Trade Journal</h1>
+            <p className="text-xs text-slate-500">
+              {filtered.length} trades · {summary.winRate != null ? `${summary.winRate.toFixed(0)}% win rate` : "no closed trades"} ·{" "}
+              <span className={summary.pnl >= 0 ? "text-emerald-400" : "text-rose-400"}>{formatPnl(summary.pnl)}</span>
+            </p>
+          </div>
+          {isAdmin && (
+            <Button
+              onClick={() => backfillMutation.mutate()}
+              disabled={backfillMutation.isPending}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2 border-slate-700 text-slate-300 hover:text-white hover:border-slate-500"
+            >
+              <RefreshCw className={cn("w-4 h-4", backfillMutation.isPending && "animate-spin")} />
+              Backfill
+            </Button>
+          )}
+        </div>
+      </header>
+
+      {/* Filters */}
+      <div className="px-4 py-4 border-b border-slate-800 space-y-3">
+        <div className="flex gap-2 overflow-x-auto">
+          {OUTCOME_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setOutcomeFilter(option.value)}
+              className={cn(
+                "px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition-all",
+                outcomeFilter === option.value
+                  ? "bg-blue-500/20 text-blue-400 border border-blue-500/50"
+                  : "bg-slate-800/50 text-slate-400 hover:text-slate-300"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <FilterSelect label="Strategy" value={strategyFilter} options={strategies} onChange={setStrategyFilter} />
+          <FilterSelect label="Bias" value={biasFilter} options={biases} onChange={setBiasFilter} />
+          <FilterSelect label="Tier" value={tierFilter} options={tiers} onChange={setTierFilter} />
+        </div>
+      </div>
+
+      {/* Trade List */}
+      <div className="p-4 space-y-3">
+        {isLoading ? (
+          <div className="text-center py-12 text-slate-500">
+            <Clock className="w-10 h-10 mx-auto mb-3 opacity-40 animate-spin" />
+            <p>Loading journal...</p>
+          </div>
+        ) : filtered.length === 0 ? (
+          <div className="text-center py-12 text-slate-500">
+            <BookOpen className="w-10 h-10 mx-auto mb-3 opacity-40" />
+            <p>No trades found</p>
+          </div>
+        ) : (
+          filtered.map((trade, index) => {
+            const isLong = trade.side === "Long";
+            const expanded = expandedId === trade.id;
+
+            return (
+              <motion.div
+                key={trade.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: Math.min(index, 20) * 0.02 }}
+                className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4"
+              >
+                {/* Header row */}
+                <button
+                  type="button"
+                  onClick={() => setExpandedId(expanded ? null : trade.id)}
+                  className="w-full flex items-center justify-between mb-3 text-left"
+                >
+                  <div className="flex items-center gap-3 flex-wrap">
+                    <span className="text-lg font-bold text-white">{trade.ticker}</span>
+                    <span className={cn(
+                      "flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium",
+                      isLong ? "bg-emerald-500/20 text-emerald-400" : "bg-rose-500/20 text-rose-400"
+                    )}>
+                      {isLong ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+                      {trade.side?.toUpperCase()}
+                    </span>
+                    <span className={cn("px-2 py-0.5 rounded text-xs font-medium", OUTCOME_COLORS[trade.outcome])}>
+                      {trade.outcome}
+                    </span>
+                    {trade.strategy_id && (
+                      <span className="px-2 py-0.5 rounded text-xs bg-slate-700/60 text-slate-300">{trade.strategy_id}</span>
+                    )}
+                    {trade.setup_rating != null && (
+                      <span className="flex items-center gap-0.5 text-xs text-amber-400">
+                        <Star className="w-3 h-3 fill-amber-400" />{trade.setup_rating}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-slate-500">
+                    {trade.opened_at && format(new Date(trade.opened_at), "MMM d, HH:mm")}
+                    {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                  </div>
+                </button>
+
+                {/* Round-trip summary */}
+                <div className="grid grid-cols-4 gap-3 text-center">
+                  <div>
+                    <p className="text-xs text-slate-500 uppercase mb-1">Qty</p>
+                    <p className="font-medium text-white text-sm">{trade.quantity}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-500 uppercase mb-1">Entry → Exit</p>
+                    <p className="font-medium text-white text-sm">
+                      {formatPrice(trade.entry_price)} → {formatPrice(trade.exit_price)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-500 uppercase mb-1">P&amp;L</p>
+                    <p className={cn(
+                      "font-medium text-sm",
+                      trade.realized_pnl == null ? "text-slate-500" : trade.realized_pnl >= 0 ? "text-emerald-400" : "text-rose-400"
+                    )}>
+                      {formatPnl(trade.realized_pnl)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-500 uppercase mb-1">Held</p>
+                    <p className="font-medium text-white text-sm">{formatHolding(trade.holding_seconds)}</p>
+                  </div>
+                </div>
+
+                {/* Context row */}
+                <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500">
+                  {trade.timeframe && <span>TF {trade.timeframe}</span>}
+                  {trade.quality_tier && <span>Tier {trade.quality_tier}</span>}
+                  {(trade.sec_bias || trade.snapshot_bias) && (
+                    <span>Bias {(trade.sec_bias || trade.snapshot_bias).replace(/_/g, " ")}</span>
+                  )}
+                  {trade.pre_fall_tier && <span>Pre-fall {trade.pre_fall_tier}</span>}
+                  {trade.close_reason && <span>{CLOSE_REASON_LABEL[trade.close_reason] || trade.close_reason}</span>}
+                  {trade.mistake && <span className="text-orange-400">Mistake: {trade.mistake.replace(/_/g, " ")}</span>}
+                  {trade.tags?.map(tag => (
+                    <span key={tag} className="text-violet-400">#{tag}</span>
+                  ))}
+                </div>
+
+                {expanded && (
+                  <TradeJournalEditor trade={trade} mistakes={mistakes} canTrade={canTrade} />
+                )}
+              </motion.div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
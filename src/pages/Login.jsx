@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Navigate } from "react-router-dom";
+import { Shield, LogIn, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import api from "@/api/apiClient";
+import { isLoggedIn, storeSession } from "@/hooks/use-auth";
+
+export default function Login() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+
+  // No users yet → the first account created here becomes admin
+  const { data: status } = useQuery({
+    queryKey: ['authStatus'],
+    queryFn: async () => {
+      const response = await api.get('/auth/status');
+      return response.data;
+    }
+  });
+  const setupRequired = !!status?.setup_required;
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials) => {
+      const response = await api.post(setupRequired ? '/auth/register' : '/auth/login', credentials);
+      return response.data;
+    },
+    onSuccess: (data) => {
+      storeSession(data);
+      // Full reload so every query refetches with the new token
+      window.location.href = '/';
+    },
+    onError: (error) => {
+      toast.error(error.response?.data?.error || 'Login failed');
+    }
+  });
+
+  if (isLoggedIn()) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleSubmit = (e) => {
+    e.preventDefault();
+    if (!email || !password) {
+      toast.error('Email and password are required');
+      return;
+    }
+    loginMutation.mutate({ email, password });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 p-4">
+      <Card className="w-full max-w-sm bg-slate-900/50 border-slate-800">
+        <CardHeader className="text-center">
+          <div className="w-12 h-12 mx-auto mb-2 rounded-xl bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center">
+            <Shield className="w-6 h-6 text-white" />
+          </div>
+          <CardTitle className="text-white">Execution Wall</CardTitle>
+          <CardDescription className="text-slate-400">
+            {setupRequired ? 'Create the admin account to get started' : 'Sign in to continue'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-slate-300">Email</Label>
+              <Input
+                type="email"
+                autoComplete="username"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-slate-300">Password</Label>
+              <Input
+                type="password"
+                autoComplete={setupRequired ? 'new-password' : 'current-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+            <Button
+              type="submit"
+              disabled={loginMutation.isPending}
+              className="w-full bg-blue-500 hover:bg-blue-600"
+            >
+              {setupRequired ? <UserPlus className="w-4 h-4 mr-2" /> : <LogIn className="w-4 h-4 mr-2" />}
+              {setupRequired ? 'Create Admin' : 'Sign In'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -6,7 +6,7 @@ import { createPageUrl } from "@/utils";
 import {
   ArrowLeft, Save, Clock, Shield, Sliders,
   Webhook, Bell, BarChart3, AlertTriangle, Info, Zap, Plus, Trash2,
-  ExternalLink, Send, Smartphone
+  ExternalLink, Send, Smartphone, KeyRound, Users, ShieldAlert, OctagonX, Crosshair, Layers
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -19,6 +19,13 @@ import { tradingWindowRefetchInterval } from "@/lib/marketHours";
 
 import ExecutionModeToggle from "../components/trading/ExecutionModeToggle";
 import ScheduleList from "../components/settings/ScheduleList";
+import WebhookSecretList from "../components/settings/WebhookSecretList";
+import UserList from "../components/settings/UserList";
+import StrategyCapsEditor from "../components/settings/StrategyCapsEditor";
+import BrokerPayloadTemplatesEditor from "../components/settings/BrokerPayloadTemplatesEditor";
+import BrokerAccountList from "../components/settings/BrokerAccountList";
+import KillSwitchStatus from "../components/settings/KillSwitchStatus";
+import { useCurrentUser } from "@/hooks/use-auth";
 import api from "@/api/apiClient";
 
 // Get the backend API URL
@@ -61,6 +68,7 @@ export default function Settings() {
   });
 
   const [formData, setFormData] = useState(null);
+  const { isAdmin } = useCurrentUser();
 
   React.useEffect(() => {
     if (settings && !formData) {
@@ -79,6 +87,12 @@ export default function Settings() {
         max_adjustment_pct: settings.max_adjustment_pct || 2.0,
         broker_webhook_url: settings.broker_webhook_url || '',
         broker_webhook_enabled: toBool(settings.broker_webhook_enabled),
+        broker_payload_templates: settings.broker_payload_templates ?? '',
+        broker_adapter: settings.broker_adapter || 'webhook',
+        broker_paper: settings.broker_paper !== false && settings.broker_paper !== 0,
+        broker_webhook_mtls: toBool(settings.broker_webhook_mtls),
+        paper_slippage_pct: settings.paper_slippage_pct ?? 0,
+        paper_max_volume_pct: settings.paper_max_volume_pct ?? 25,
         use_time_schedules: toBool(settings.use_time_schedules),
         timezone: settings.timezone || 'America/New_York',
         tradingview_chart_id: settings.tradingview_chart_id || '',
@@ -94,12 +108,36 @@ export default function Settings() {
         pushover_on_close: settings.pushover_on_close !== 0 && settings.pushover_on_close !== false,
         pushover_on_sec: settings.pushover_on_sec !== 0 && settings.pushover_on_sec !== false,
         pushover_on_mode_v_short: settings.pushover_on_mode_v_short !== 0 && settings.pushover_on_mode_v_short !== false,
+        pushover_on_risk: settings.pushover_on_risk !== 0 && settings.pushover_on_risk !== false,
         auto_sub_mode: settings.auto_sub_mode || null,
         // Mode V notify thresholds
         mode_v_notify_min_signals:    settings.mode_v_notify_min_signals    ?? 3,
         mode_v_notify_min_conf:       settings.mode_v_notify_min_conf       ?? 45,
         mode_v_notify_s2_min_signals: settings.mode_v_notify_s2_min_signals ?? 4,
         default_watch_minutes: settings.default_watch_minutes ?? 60,
+        // Inbound webhook auth
+        webhook_auth_required: toBool(settings.webhook_auth_required),
+        webhook_secret_overlap_minutes: settings.webhook_secret_overlap_minutes ?? 60,
+        webhook_idempotency_window_seconds: settings.webhook_idempotency_window_seconds ?? 300,
+        // Pre-trade risk limits (blank = no limit)
+        risk_max_shares: settings.risk_max_shares ?? '',
+        risk_max_notional: settings.risk_max_notional ?? '',
+        risk_max_open_positions: settings.risk_max_open_positions ?? '',
+        risk_max_gross_exposure: settings.risk_max_gross_exposure ?? '',
+        risk_max_orders_per_ticker: settings.risk_max_orders_per_ticker ?? '',
+        risk_strategy_caps: settings.risk_strategy_caps ?? '',
+        // Kill switch limits (blank = no limit)
+        pushover_on_kill_switch: settings.pushover_on_kill_switch !== 0 && settings.pushover_on_kill_switch !== false,
+        kill_daily_loss_limit: settings.kill_daily_loss_limit ?? '',
+        kill_max_consecutive_losses: settings.kill_max_consecutive_losses ?? '',
+        kill_max_broker_failures: settings.kill_max_broker_failures ?? '',
+        // Fat-finger price guard
+        price_guard_enabled: toBool(settings.price_guard_enabled),
+        price_guard_max_deviation_pct: settings.price_guard_max_deviation_pct ?? '',
+        price_guard_max_ticks_outside: settings.price_guard_max_ticks_outside ?? '',
+        price_guard_action: settings.price_guard_action || 'hold',
+        // Position accounting
+        position_accounting: settings.position_accounting || 'intent',
       });
     }
   }, [settings]);
@@ -113,24 +151,38 @@ export default function Settings() {
       queryClient.invalidateQueries({ queryKey: ['settings'] });
       toast.success('Settings saved');
     },
-    onError: () => {
-      toast.error('Failed to save settings');
+    onError: (error) => {
+      toast.error(error.response?.data?.error || 'Failed to save settings');
     }
   });
 
   const testBrokerMutation = useMutation({
-    mutationFn: async (url) => {
-      const response = await api.post('/settings/test-broker-webhook', { url });
+    mutationFn: async ({ url, templates, mtls }) => {
+      // Sends the entry template (unsaved edits included) rendered for a TEST order, signed like a real one
+      const response = await api.post('/settings/test-broker-webhook', { url, templates: templates || undefined, mtls });
       return response.data;
     },
-    onSuccess: () => {
-      toast.success('Broker webhook test successful!');
+    onSuccess: (data) => {
+      toast.success(data.message || 'Broker webhook test successful!');
     },
     onError: (error) => {
       toast.error(error.response?.data?.error || 'Broker webhook test failed');
     }
   });
 
+  const testBrokerAdapterMutation = useMutation({
+    mutationFn: async ({ adapter, paper }) => {
+      const response = await api.post('/settings/test-broker', { adapter, paper });
+      return response.data;
+    },
+    onSuccess: (data) => {
+      toast.success(data.message || 'Broker connection successful!');
+    },
+    onError: (error) => {
+      toast.error(error.response?.data?.error || 'Broker connection test failed');
+    }
+  });
+
   const validateSettings = () => {
     const errors = [];
 
@@ -142,8 +194,8 @@ export default function Settings() {
       }
     }
 
-    // Broker webhook URL validation
-    if (formData.broker_webhook_enabled && formData.broker_webhook_url) {
+    // Broker webhook URL validation (non-admins only see it masked and can't change it)
+    if (isAdmin && formData.broker_webhook_enabled && formData.broker_adapter === 'webhook' && formData.broker_webhook_url) {
       try {
         new URL(formData.broker_webhook_url);
       } catch {
@@ -168,7 +220,9 @@ export default function Settings() {
       return;
     }
 
-    updateMutation.mutate(formData);
+    // While the kill switch is tripped the server holds the mode at off
+    const { execution_mode, ...rest } = formData;
+    updateMutation.mutate(settings?.kill_switch_tripped ? rest : { ...rest, execution_mode });
   };
 
   if (isLoading || !formData) {
@@ -224,9 +278,9 @@ export default function Settings() {
           </CardHeader>
           <CardContent>
             <ExecutionModeToggle
-              mode={formData.use_time_schedules ? settings?.execution_mode : formData.execution_mode}
+              mode={formData.use_time_schedules || settings?.kill_switch_tripped ? settings?.execution_mode : formData.execution_mode}
               onChange={(mode) => setFormData(f => ({ ...f, execution_mode: mode }))}
-              disabled={formData.use_time_schedules}
+              disabled={formData.use_time_schedules || settings?.kill_switch_tripped}
               autoSubMode={formData.auto_sub_mode}
               onAutoSubModeChange={(sub) => setFormData(f => ({ ...f, auto_sub_mode: sub }))}
             />
@@ -440,6 +494,248 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Pre-Trade Risk Limits */}
+        <Card className="bg-slate-900/50 border-slate-800">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <ShieldAlert className="w-5 h-5 text-red-400" />
+              Risk Limits
+            </CardTitle>
+            <CardDescription className="text-slate-400">
+              Checked before every entry order reaches the broker. Leave blank for no limit.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              {[
+                { key: 'risk_max_shares', label: 'Max Shares / Order', step: 1 },
+                { key: 'risk_max_notional', label: 'Max Notional / Order ($)', step: 100 },
+                { key: 'risk_max_open_positions', label: 'Max Open Positions', step: 1 },
+                { key: 'risk_max_gross_exposure', label: 'Max Gross Exposure ($)', step: 100 },
+                { key: 'risk_max_orders_per_ticker', label: 'Max Orders / Ticker / Day', step: 1 },
+              ].map(({ key, label, step }) => (
+                <div key={key} className="space-y-2">
+                  <Label className="text-slate-300 text-xs">{label}</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={step}
+                    placeholder="No limit"
+                    disabled={!isAdmin}
+                    value={formData[key]}
+                    onChange={(e) => setFormData(f => ({ ...f, [key]: e.target.value }))}
+                    className="bg-slate-800 border-slate-700 text-white"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-slate-300">Per-Strategy Caps</Label>
+              <StrategyCapsEditor
+                value={formData.risk_strategy_caps}
+                disabled={!isAdmin}
+                onChange={(caps) => setFormData(f => ({ ...f, risk_strategy_caps: caps }))}
+              />
+            </div>
+
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30">
+              <Info className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+              <div className="text-xs text-red-300 space-y-1">
+                <p>Applies to webhook ORDERs, custom orders, Execute Now, swipe approval and Mode V auto-execution.</p>
+                <p>EXIT orders and orders that reduce an open position are never blocked.</p>
+                {!isAdmin && <p className="font-semibold">Only admins can change risk limits.</p>}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Fat-Finger Price Guard */}
+        <Card className="bg-slate-900/50 border-slate-800">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Crosshair className="w-5 h-5 text-amber-400" />
+              Price Guard
+            </CardTitle>
+            <CardDescription className="text-slate-400">
+              Compare each order&apos;s limit price with a live quote right before it is sent
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-slate-300">Enable Price Guard</Label>
+                <p className="text-xs text-slate-500 mt-1">Tradier quote, Polygon fallback. Orders pass if no quote is available.</p>
+              </div>
+              <Switch
+                checked={formData.price_guard_enabled}
+                disabled={!isAdmin}
+                onCheckedChange={(checked) => setFormData(f => ({ ...f, price_guard_enabled: checked }))}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-slate-300 text-xs">Max Deviation from Mid/Last (%)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  placeholder="No limit"
+                  disabled={!isAdmin}
+                  value={formData.price_guard_max_deviation_pct}
+                  onChange={(e) => setFormData(f => ({ ...f, price_guard_max_deviation_pct: e.target.value }))}
+                  className="bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-slate-300 text-xs">Max Ticks Outside Bid/Ask</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={1}
+                  placeholder="No limit"
+                  disabled={!isAdmin}
+                  value={formData.price_guard_max_ticks_outside}
+                  onChange={(e) => setFormData(f => ({ ...f, price_guard_max_ticks_outside: e.target.value }))}
+                  className="bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-slate-300 text-xs">When an entry price fails the check</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {[
+                  { value: 'hold', label: 'Hold for approval' },
+                  { value: 'reject', label: 'Reject' },
+                ].map(({ value, label }) => (
+                  <Button
+                    key={value}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={!isAdmin}
+                    onClick={() => setFormData(f => ({ ...f, price_guard_action: value }))}
+                    className={cn(
+                      "border-slate-700",
+                      formData.price_guard_action === value
+                        ? "bg-amber-500/20 border-amber-500/50 text-amber-300"
+                        : "text-slate-400"
+                    )}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-500/10 border border-amber-500/30">
+              <Info className="w-4 h-4 text-amber-400 shrink-0 mt-0.5" />
+              <div className="text-xs text-amber-300 space-y-1">
+                <p>EXIT orders are always held, never rejected. A held order stays in the queue until you press Execute Now.</p>
+                <p>Manual limit edits are checked server-side against the Max Adjustment % below.</p>
+                {!isAdmin && <p className="font-semibold">Only admins can change the price guard.</p>}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Position Accounting */}
+        <Card className="bg-slate-900/50 border-slate-800">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Layers className="w-5 h-5 text-cyan-400" />
+              Position Accounting
+            </CardTitle>
+            <CardDescription className="text-slate-400">
+              What sizes and prices open positions
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {[
+                { value: 'intent', label: 'Order intent', hint: 'ORDER/EXIT signals at their limit price' },
+                { value: 'fills', label: 'Confirmed fills', hint: 'CONFIRMED fills with average cost' },
+              ].map(({ value, label, hint }) => (
+                <Button
+                  key={value}
+                  type="button"
+                  variant="outline"
+                  disabled={!isAdmin}
+                  onClick={() => setFormData(f => ({ ...f, position_accounting: value }))}
+                  className={cn(
+                    "h-auto flex-col items-start py-2 border-slate-700",
+                    formData.position_accounting === value
+                      ? "bg-cyan-500/20 border-cyan-500/50 text-cyan-300"
+                      : "text-slate-400"
+                  )}
+                >
+                  <span className="text-sm">{label}</span>
+                  <span className="text-[11px] font-normal opacity-70 whitespace-normal text-left">{hint}</span>
+                </Button>
+              ))}
+            </div>
+
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-cyan-500/10 border border-cyan-500/30">
+              <Info className="w-4 h-4 text-cyan-400 shrink-0 mt-0.5" />
+              <div className="text-xs text-cyan-300 space-y-1">
+                <p>With confirmed fills, each fill opens, scales into (average cost) or scales out of the position. Re-sent fills are ignored by broker fill id, or by quantity and price when there is none, and never exceed the order&apos;s quantity.</p>
+                <p>SL_HIT and Flatten still close positions directly. Switch modes while flat.</p>
+                {!isAdmin && <p className="font-semibold">Only admins can change position accounting.</p>}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Kill Switch */}
+        <Card className={cn("bg-slate-900/50", settings?.kill_switch_tripped ? "border-red-500/60" : "border-slate-800")}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <OctagonX className="w-5 h-5 text-red-400" />
+              Kill Switch
+            </CardTitle>
+            <CardDescription className="text-slate-400">
+              Turns execution OFF for the rest of the session when a limit is hit. Leave blank for no limit.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <KillSwitchStatus />
+
+            <div className="grid grid-cols-3 gap-4">
+              {[
+                { key: 'kill_daily_loss_limit', label: 'Daily Loss Limit ($)', step: 50 },
+                { key: 'kill_max_consecutive_losses', label: 'Consecutive Losses', step: 1 },
+                { key: 'kill_max_broker_failures', label: 'Broker Failures', step: 1 },
+              ].map(({ key, label, step }) => (
+                <div key={key} className="space-y-2">
+                  <Label className="text-slate-300 text-xs">{label}</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={step}
+                    placeholder="No limit"
+                    disabled={!isAdmin}
+                    value={formData[key]}
+                    onChange={(e) => setFormData(f => ({ ...f, [key]: e.target.value }))}
+                    className="bg-slate-800 border-slate-700 text-white"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30">
+              <Info className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+              <div className="text-xs text-red-300 space-y-1">
+                <p>On trip: mode is set to OFF, pending entry orders are cancelled (EXIT orders are kept) and time schedules stop changing the mode.</p>
+                <p>A broker failure is an order that could not be delivered after all retries.</p>
+                <p>Counters reset with the daily reset. Only an admin re-arm clears a trip.</p>
+                {!isAdmin && <p className="font-semibold">Only admins can change kill switch limits.</p>}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Limit Edit Settings */}
         <Card className="bg-slate-900/50 border-slate-800">
           <CardHeader>
@@ -474,21 +770,21 @@ export default function Settings() {
           </CardContent>
         </Card>
 
-        {/* Broker Webhook */}
+        {/* Broker */}
         <Card className="bg-slate-900/50 border-slate-800">
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-white">
               <Send className="w-5 h-5 text-orange-400" />
-              Broker Webhook
+              Broker
             </CardTitle>
             <CardDescription className="text-slate-400">
-              Forward approved orders to your broker via webhook
+              Forward approved orders to your broker
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="flex items-center justify-between p-3 rounded-lg bg-slate-800/50">
               <div>
-                <Label className="text-slate-300">Enable Broker Webhook</Label>
+                <Label className="text-slate-300">Enable Broker Forwarding</Label>
                 <p className="text-xs text-slate-500 mt-1">
                   Orders will be forwarded to your broker when executed
                 </p>
@@ -500,6 +796,37 @@ export default function Settings() {
             </div>
 
             {formData.broker_webhook_enabled && (
+              <>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  {[
+                    { value: 'webhook', label: 'Webhook', hint: 'POST to a URL' },
+                    { value: 'alpaca', label: 'Alpaca', hint: 'Trading API' },
+                    { value: 'tradier', label: 'Tradier', hint: 'Brokerage API' },
+                    { value: 'paper', label: 'Paper', hint: 'Simulated fills' },
+                  ].map(({ value, label, hint }) => (
+                    <Button
+                      key={value}
+                      type="button"
+                      variant="outline"
+                      disabled={!isAdmin}
+                      onClick={() => setFormData(f => ({ ...f, broker_adapter: value }))}
+                      className={cn(
+                        "h-auto flex-col items-start py-2 border-slate-700",
+                        formData.broker_adapter === value
+                          ? "bg-orange-500/20 border-orange-500/50 text-orange-300"
+                          : "text-slate-400"
+                      )}
+                    >
+                      <span className="text-sm">{label}</span>
+                      <span className="text-[11px] font-normal opacity-70">{hint}</span>
+                    </Button>
+                  ))}
+                </div>
+                {!isAdmin && <p className="text-xs text-slate-500">Only admins can change the broker.</p>}
+              </>
+            )}
+
+            {formData.broker_webhook_enabled && formData.broker_adapter === 'webhook' && (
               <>
                 <div className="space-y-2">
                   <Label className="text-slate-300">Broker Webhook URL</Label>
@@ -509,10 +836,15 @@ export default function Settings() {
                       placeholder="https://your-broker.com/webhook"
                       value={formData.broker_webhook_url}
                       onChange={(e) => setFormData(f => ({ ...f, broker_webhook_url: e.target.value }))}
+                      disabled={!isAdmin}
                       className="bg-slate-800 border-slate-700 text-white"
                     />
                     <Button
-                      onClick={() => testBrokerMutation.mutate(formData.broker_webhook_url)}
+                      onClick={() => testBrokerMutation.mutate({
+                        url: formData.broker_webhook_url,
+                        templates: formData.broker_payload_templates,
+                        mtls: formData.broker_webhook_mtls
+                      })}
                       disabled={!formData.broker_webhook_url || testBrokerMutation.isPending}
                       variant="outline"
                       className="border-orange-500/50 text-orange-400 hover:bg-orange-500/20"
@@ -522,25 +854,154 @@ export default function Settings() {
                   </div>
                 </div>
 
+                <div className="flex items-center justify-between p-3 rounded-lg bg-slate-800/50">
+                  <div>
+                    <Label className="text-slate-300">Client Certificate (mTLS)</Label>
+                    <p className="text-xs text-slate-500 mt-1">
+                      Present <code>BROKER_CLIENT_CERT</code> / <code>BROKER_CLIENT_KEY</code> from the server environment — needs an https:// URL
+                    </p>
+                  </div>
+                  <Switch
+                    checked={formData.broker_webhook_mtls}
+                    disabled={!isAdmin}
+                    onCheckedChange={(checked) => setFormData(f => ({ ...f, broker_webhook_mtls: checked }))}
+                  />
+                </div>
+                <p className="text-xs text-slate-500">
+                  Requests are signed (<code>X-Webhook-Signature</code> + <code>X-Webhook-Timestamp</code>) once a Signing secret exists under Webhook Secrets.
+                </p>
+
                 <div className="p-3 rounded-lg bg-orange-500/10 border border-orange-500/30">
                   <div className="flex items-center gap-2 mb-2">
                     <Info className="w-4 h-4 text-orange-400" />
-                    <span className="text-xs font-semibold text-orange-300">Order Payload Format</span>
+                    <span className="text-xs font-semibold text-orange-300">Built-in Order Payload</span>
                   </div>
                   <pre className="bg-slate-800/50 p-2 rounded text-[10px] text-orange-200 overflow-x-auto">
 {`{
   "symbol": "AAPL",
   "action": "buy",
   "quantity": 100,
-  "limit_price": 150.25
+  "limit_price": 150.25,
+  "order_type": "limit",
+  "time_in_force": "day"
 }`}
                   </pre>
                 </div>
+
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Payload Templates</Label>
+                  <p className="text-xs text-slate-500">
+                    Replace the built-in body with the JSON your bridge expects (TradersPost, PickMyTrade, a custom relay).
+                  </p>
+                  <BrokerPayloadTemplatesEditor
+                    value={formData.broker_payload_templates}
+                    disabled={!isAdmin}
+                    onChange={(templates) => setFormData(f => ({ ...f, broker_payload_templates: templates }))}
+                  />
+                </div>
+              </>
+            )}
+
+            {formData.broker_webhook_enabled && formData.broker_adapter === 'paper' && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label className="text-slate-300">Slippage %</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="10"
+                      disabled={!isAdmin}
+                      value={formData.paper_slippage_pct}
+                      onChange={(e) => setFormData(f => ({ ...f, paper_slippage_pct: e.target.value }))}
+                      className="bg-slate-800 border-slate-700 text-white"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-slate-300">Max % of Bar Volume</Label>
+                    <Input
+                      type="number"
+                      step="1"
+                      min="1"
+                      max="100"
+                      disabled={!isAdmin}
+                      value={formData.paper_max_volume_pct}
+                      onChange={(e) => setFormData(f => ({ ...f, paper_max_volume_pct: e.target.value }))}
+                      className="bg-slate-800 border-slate-700 text-white"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-orange-500/10 border border-orange-500/30">
+                  <Info className="w-4 h-4 text-orange-400 shrink-0 mt-0.5" />
+                  <div className="text-xs text-orange-300 space-y-1">
+                    <p>Orders never leave the server. Limits fill when a 1-minute bar touches them, market orders at the next bar&apos;s open, each bar filling at most the set share of its volume.</p>
+                    <p>Fills post as CONFIRMED, so positions, P&amp;L and the journal behave as with a real broker.</p>
+                  </div>
+                </div>
+              </>
+            )}
+
+            {formData.broker_webhook_enabled && (formData.broker_adapter === 'alpaca' || formData.broker_adapter === 'tradier') && (
+              <>
+                <div className="flex items-center justify-between p-3 rounded-lg bg-slate-800/50">
+                  <div>
+                    <Label className="text-slate-300">Paper Trading</Label>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {formData.broker_adapter === 'alpaca' ? 'paper-api.alpaca.markets' : 'sandbox.tradier.com'} instead of the live account
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Button
+                      onClick={() => testBrokerAdapterMutation.mutate({ adapter: formData.broker_adapter, paper: formData.broker_paper })}
+                      disabled={testBrokerAdapterMutation.isPending}
+                      variant="outline"
+                      size="sm"
+                      className="border-orange-500/50 text-orange-400 hover:bg-orange-500/20"
+                    >
+                      {testBrokerAdapterMutation.isPending ? 'Testing...' : 'Test'}
+                    </Button>
+                    <Switch
+                      checked={formData.broker_paper}
+                      disabled={!isAdmin}
+                      onCheckedChange={(checked) => setFormData(f => ({ ...f, broker_paper: checked }))}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-orange-500/10 border border-orange-500/30">
+                  <Info className="w-4 h-4 text-orange-400 shrink-0 mt-0.5" />
+                  <div className="text-xs text-orange-300 space-y-1">
+                    {formData.broker_adapter === 'alpaca' ? (
+                      <p>Credentials come from the server environment: <code>ALPACA_API_KEY_ID</code> and <code>ALPACA_API_SECRET_KEY</code>.</p>
+                    ) : (
+                      <p>Credentials come from the server environment: <code>TRADIER_ACCOUNT_ID</code> and <code>TRADIER_BROKER_TOKEN</code>.</p>
+                    )}
+                    <p>Order status and fills are read back from the broker, so TradingView CONFIRMED alerts for these orders are ignored.</p>
+                  </div>
+                </div>
               </>
             )}
           </CardContent>
         </Card>
 
+        {/* Additional broker accounts */}
+        <Card className="bg-slate-900/50 border-slate-800">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Layers className="w-5 h-5 text-orange-400" />
+              Broker Accounts
+            </CardTitle>
+            <CardDescription className="text-slate-400">
+              Trade the same executions in more accounts, each sized and tracked on its own
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BrokerAccountList isAdmin={isAdmin} />
+          </CardContent>
+        </Card>
+
         {/* TradingView Integration */}
         <Card className="bg-slate-900/50 border-slate-800">
           <CardHeader>
@@ -622,6 +1083,7 @@ export default function Settings() {
                     placeholder="Your Pushover User Key"
                     value={formData.pushover_user_key}
                     onChange={(e) => setFormData(f => ({ ...f, pushover_user_key: e.target.value }))}
+                    disabled={!isAdmin}
                     className="bg-slate-800 border-slate-700 text-white font-mono"
                   />
                 </div>
@@ -633,6 +1095,7 @@ export default function Settings() {
                     placeholder="Your Application API Token"
                     value={formData.pushover_api_token}
                     onChange={(e) => setFormData(f => ({ ...f, pushover_api_token: e.target.value }))}
+                    disabled={!isAdmin}
                     className="bg-slate-800 border-slate-700 text-white font-mono"
                   />
                 </div>
@@ -689,6 +1152,22 @@ export default function Settings() {
                     />
                   </div>
 
+                  <div className="flex items-center justify-between p-2 rounded bg-slate-800/30">
+                    <span className="text-xs text-slate-400">Order blocked by risk limit</span>
+                    <Switch
+                      checked={formData.pushover_on_risk}
+                      onCheckedChange={(checked) => setFormData(f => ({ ...f, pushover_on_risk: checked }))}
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between p-2 rounded bg-slate-800/30">
+                    <span className="text-xs text-slate-400">Kill switch tripped / order not delivered (emergency)</span>
+                    <Switch
+                      checked={formData.pushover_on_kill_switch}
+                      onCheckedChange={(checked) => setFormData(f => ({ ...f, pushover_on_kill_switch: checked }))}
+                    />
+                  </div>
+
                   <div className="flex items-center justify-between p-2 rounded bg-slate-800/30">
                     <span className="text-xs text-slate-400">SEC filing found (scanner)</span>
                     <Switch
@@ -936,11 +1415,102 @@ export default function Settings() {
               <div className="text-xs text-slate-300 space-y-1">
                 <p><strong>Note:</strong> If no "event" is specified, signals default to WALL.</p>
                 <p>Raw payloads are stored verbatim for replay, audits, and ML labeling.</p>
+                <p>When webhook authentication is on, add <code className="text-emerald-400">{'"passphrase": "<secret>"'}</code> to every alert.</p>
               </div>
             </div>
           </CardContent>
         </Card>
 
+        {/* Webhook Security — admin only (secrets endpoints require admin) */}
+        {isAdmin && (
+          <Card className="bg-slate-900/50 border-slate-800">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-white">
+                <KeyRound className="w-5 h-5 text-red-400" />
+                Webhook Security
+              </CardTitle>
+              <CardDescription className="text-slate-400">
+                Reject inbound signals that don&apos;t carry a valid passphrase or HMAC signature
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label className="text-slate-300">Require Authentication</Label>
+                  <p className="text-xs text-slate-500">
+                    Unauthenticated requests get a 401 and are logged as <span className="text-red-400">unauthorized</span>
+                  </p>
+                </div>
+                <Switch
+                  checked={formData.webhook_auth_required}
+                  onCheckedChange={(checked) => setFormData(f => ({ ...f, webhook_auth_required: checked }))}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-slate-300">Rotation Overlap (minutes)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={10080}
+                  value={formData.webhook_secret_overlap_minutes}
+                  onChange={(e) => setFormData(f => ({ ...f, webhook_secret_overlap_minutes: Number(e.target.value) }))}
+                  className="bg-slate-800 border-slate-700 text-white w-32"
+                />
+                <p className="text-xs text-slate-500">
+                  How long a rotated secret keeps working while alerts are updated. 0 = cut over immediately.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-slate-300">Duplicate Window (seconds)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={86400}
+                  value={formData.webhook_idempotency_window_seconds}
+                  onChange={(e) => setFormData(f => ({ ...f, webhook_idempotency_window_seconds: Number(e.target.value) }))}
+                  className="bg-slate-800 border-slate-700 text-white w-32"
+                />
+                <p className="text-xs text-slate-500">
+                  A repeat of an alert (same <code>alert_id</code>, or same event, ticker, price and bar time if sent) inside this window
+                  is logged as <span className="text-slate-300">duplicate</span> and not processed. Without an <code>alert_id</code>{' '}
+                  or bar time, the same payload again inside the window counts as a repeat. 0 = off.
+                </p>
+              </div>
+
+              <WebhookSecretList />
+
+              <div className="flex items-start gap-2 p-3 rounded-lg bg-slate-700/30 border border-slate-600/30">
+                <Info className="w-4 h-4 text-slate-400 shrink-0 mt-0.5" />
+                <div className="text-xs text-slate-300 space-y-1">
+                  <p><strong>Passphrase:</strong> TradingView can&apos;t set headers — put the secret in the alert JSON as <code>passphrase</code>. It is stripped before logging.</p>
+                  <p><strong>HMAC:</strong> send <code>X-Webhook-Timestamp</code> (unix seconds) and <code>X-Webhook-Signature: sha256=&lt;hex&gt;</code> of <code>&lt;timestamp&gt;.&lt;raw body&gt;</code>. The timestamp is required and must be within 5 minutes.</p>
+                  <p>Send <code>X-Webhook-Source</code> to restrict matching to one source&apos;s secrets.</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Users */}
+        {isAdmin && (
+          <Card className="bg-slate-900/50 border-slate-800">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-white">
+                <Users className="w-5 h-5 text-blue-400" />
+                Users
+              </CardTitle>
+              <CardDescription className="text-slate-400">
+                Viewers can watch, traders can act, admins manage users and security
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <UserList />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Database Info */}
         <Card className="bg-slate-900/50 border-slate-800">
           <CardHeader>
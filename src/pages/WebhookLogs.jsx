@@ -1,22 +1,30 @@
 import React, { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { cn } from "@/lib/utils";
 import { motion } from "framer-motion";
 import {
   ArrowLeft, CheckCircle2, XCircle, Clock,
-  AlertTriangle, RefreshCw, Webhook, ChevronDown, ChevronUp, ShieldOff
+  AlertTriangle, RefreshCw, Webhook, ChevronDown, ChevronUp, ShieldOff, Lock, Hourglass, RotateCcw, Copy,
+  FlaskConical, Play, Shuffle
 } from "lucide-react";
 import { Link } from "react-router-dom";
 import { createPageUrl } from "@/utils";
 import { Button } from "@/components/ui/button";
 import { format } from "date-fns";
+import { toast } from "sonner";
 import api from "@/api/apiClient";
 import { tradingWindowRefetchInterval } from "@/lib/marketHours";
+import { useCurrentUser } from "@/hooks/use-auth";
+import DryRunOutcome from "@/components/trading/DryRunOutcome";
+import SourceProfileConsole from "@/components/trading/SourceProfileConsole";
 
 export default function WebhookLogs() {
   const [statusFilter, setStatusFilter] = useState("all");
   const [sourceFilter, setSourceFilter] = useState("all");
   const [expandedLog, setExpandedLog] = useState(null);
+  const [dryRuns, setDryRuns] = useState({});
+  const [showProfiles, setShowProfiles] = useState(false);
+  const { isAdmin } = useCurrentUser();
 
   const { data, isLoading, refetch, isFetching } = useQuery({
     queryKey: ['webhookLogs', statusFilter, sourceFilter],
@@ -34,18 +42,50 @@ export default function WebhookLogs() {
 
   const logs = data?.logs || [];
 
+  const queryClient = useQueryClient();
+  const retryMutation = useMutation({
+    mutationFn: async (id) => (await api.post(`/webhook/logs/${id}/retry`)).data,
+    onSuccess: () => {
+      toast.success('Webhook queued again');
+      queryClient.invalidateQueries({ queryKey: ['webhookLogs'] });
+    },
+    onError: (error) => {
+      toast.error(error.response?.data?.error || 'Failed to retry webhook');
+    }
+  });
+
+  // Dry runs show their outcome under the log; real replays land as new 'replay' rows
+  const replayMutation = useMutation({
+    mutationFn: async ({ id, dryRun }) => (await api.post(`/webhook/logs/${id}/replay`, { dry_run: dryRun })).data,
+    onSuccess: (data, { id, dryRun }) => {
+      if (dryRun) {
+        setDryRuns(current => ({ ...current, [id]: data }));
+      } else {
+        toast.success('Webhook queued for replay');
+        queryClient.invalidateQueries({ queryKey: ['webhookLogs'] });
+      }
+    },
+    onError: (error) => {
+      toast.error(error.response?.data?.error || 'Replay failed');
+    }
+  });
+
   const statusOptions = [
     { value: "all", label: "All" },
     { value: "success", label: "Success" },
     { value: "blocked", label: "Blocked" },
     { value: "error", label: "Error" },
+    { value: "unauthorized", label: "Unauthorized" },
+    { value: "invalid", label: "Invalid" },
+    { value: "duplicate", label: "Duplicate" },
+    { value: "queued", label: "Queued" },
     { value: "processing", label: "Processing" }
   ];
 
+  // Every source the server has logged — source profile names, secret sources, test and replay
   const sourceOptions = [
     { value: "all", label: "All Sources" },
-    { value: "tradingview", label: "TradingView" },
-    { value: "zapier", label: "Zapier" }
+    ...(data?.sources || []).map(source => ({ value: source, label: source === 'tradingview' ? 'TradingView' : source }))
   ];
 
   const getStatusBadge = (status) => {
@@ -53,6 +93,10 @@ export default function WebhookLogs() {
       success: { icon: CheckCircle2, color: "text-emerald-400 bg-emerald-500/20", label: "Success" },
       error: { icon: XCircle, color: "text-red-400 bg-red-500/20", label: "Error" },
       blocked: { icon: ShieldOff, color: "text-orange-400 bg-orange-500/20", label: "Blocked" },
+      unauthorized: { icon: Lock, color: "text-red-400 bg-red-500/20", label: "Unauthorized" },
+      invalid: { icon: AlertTriangle, color: "text-yellow-400 bg-yellow-500/20", label: "Invalid" },
+      duplicate: { icon: Copy, color: "text-slate-400 bg-slate-500/20", label: "Duplicate" },
+      queued: { icon: Hourglass, color: "text-slate-300 bg-slate-500/20", label: "Queued" },
       processing: { icon: Clock, color: "text-amber-400 bg-amber-500/20", label: "Processing" }
     };
     return config[status] || config.processing;
@@ -85,17 +129,35 @@ export default function WebhookLogs() {
               <p className="text-xs text-slate-500">{data?.total || 0} total webhooks received</p>
             </div>
           </div>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => refetch()}
-            className={cn("text-slate-400", isFetching && "animate-spin")}
-          >
-            <RefreshCw className="w-5 h-5" />
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Source profiles"
+              onClick={() => setShowProfiles(!showProfiles)}
+              className={cn("text-slate-400", showProfiles && "text-orange-400")}
+            >
+              <Shuffle className="w-5 h-5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => refetch()}
+              className={cn("text-slate-400", isFetching && "animate-spin")}
+            >
+              <RefreshCw className="w-5 h-5" />
+            </Button>
+          </div>
         </div>
       </header>
 
+      {/* Source profiles — field mapping for senders that don't post the signal shape */}
+      {showProfiles && (
+        <div className="px-4 py-4 border-b border-slate-800">
+          <SourceProfileConsole />
+        </div>
+      )}
+
       {/* Filters */}
       <div className="px-4 py-4 border-b border-slate-800 space-y-3">
         {/* Status Filter */}
@@ -210,7 +272,7 @@ export default function WebhookLogs() {
                 {isExpanded && (
                   <div className="px-4 pb-4 space-y-3 border-t border-slate-700/50">
                     {/* Error / blocked message if present */}
-                    {log.error && (
+                    {log.error && log.status !== 'duplicate' && (
                       <div className={cn(
                         "mt-3 p-3 rounded-lg",
                         log.status === 'blocked'
@@ -218,24 +280,88 @@ export default function WebhookLogs() {
                           : "bg-red-500/10 border border-red-500/30"
                       )}>
                         <p className={cn("text-xs font-medium mb-1", log.status === 'blocked' ? "text-orange-400" : "text-red-400")}>
-                          {log.status === 'blocked' ? 'Blocked reason:' : 'Error:'}
+                          {log.status === 'blocked' ? 'Blocked reason:' : log.status === 'invalid' ? 'Invalid fields:' : 'Error:'}
                         </p>
-                        <p className={cn("text-sm", log.status === 'blocked' ? "text-orange-300" : "text-red-300")}>{log.error}</p>
+                        {log.validation_errors?.length > 0 ? (
+                          <ul className="text-sm text-red-300 space-y-0.5">
+                            {log.validation_errors.map((e) => (
+                              <li key={e.field}>
+                                <span className="font-mono">{e.field}</span> {e.message}
+                                {e.value !== undefined && <span className="text-slate-500"> (got {JSON.stringify(e.value)})</span>}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className={cn("text-sm", log.status === 'blocked' ? "text-orange-300" : "text-red-300")}>{log.error}</p>
+                        )}
                       </div>
                     )}
 
                     {/* Payload */}
                     <div className="mt-3">
-                      <p className="text-xs text-slate-500 uppercase mb-2">Payload:</p>
+                      <p className="text-xs text-slate-500 uppercase mb-2">{log.source_payload ? 'Mapped payload:' : 'Payload:'}</p>
                       <pre className="bg-slate-900/50 rounded-lg p-3 text-xs text-slate-300 overflow-x-auto">
                         {JSON.stringify(payload, null, 2)}
                       </pre>
                     </div>
 
-                    {/* ID */}
+                    {/* The body as the sender posted it, before its source profile mapped it */}
+                    {log.source_payload && (
+                      <div>
+                        <p className="text-xs text-slate-500 uppercase mb-2">As received from {log.source}:</p>
+                        <pre className="bg-slate-900/50 rounded-lg p-3 text-xs text-slate-400 overflow-x-auto">
+                          {JSON.stringify(parsePayload(log.source_payload), null, 2)}
+                        </pre>
+                      </div>
+                    )}
+
+                    {/* ID, attempts and retry for failed rows */}
                     <div className="flex items-center justify-between text-xs">
-                      <span className="text-slate-500">ID: {log.id}</span>
+                      <span className="text-slate-500">
+                        ID: {log.id}
+                        {log.attempts > 1 && ` · ${log.attempts} attempts`}
+                        {log.replay_of && ` · replay of ${log.replay_of}`}
+                        {log.duplicate_of && ` · duplicate of ${log.duplicate_of}`}
+                      </span>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => replayMutation.mutate({ id: log.id, dryRun: true })}
+                          disabled={replayMutation.isPending}
+                          className="h-7 border-slate-600 text-slate-300 hover:bg-slate-700/50"
+                        >
+                          <FlaskConical className="w-3 h-3 mr-1" />
+                          Dry run
+                        </Button>
+                        {isAdmin && log.status !== 'unauthorized' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => replayMutation.mutate({ id: log.id, dryRun: false })}
+                            disabled={replayMutation.isPending}
+                            className="h-7 border-blue-500/50 text-blue-400 hover:bg-blue-500/20"
+                          >
+                            <Play className="w-3 h-3 mr-1" />
+                            Replay
+                          </Button>
+                        )}
+                        {log.status === 'error' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => retryMutation.mutate(log.id)}
+                            disabled={retryMutation.isPending}
+                            className="h-7 border-amber-500/50 text-amber-400 hover:bg-amber-500/20"
+                          >
+                            <RotateCcw className="w-3 h-3 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                      </div>
                     </div>
+
+                    <DryRunOutcome outcome={dryRuns[log.id]} />
                   </div>
                 )}
               </motion.div>
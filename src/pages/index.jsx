@@ -10,7 +10,13 @@ import WebhookLogs from "./WebhookLogs";
 
 import AuditLog from "./AuditLog";
 
-import { BrowserRouter as Router, Route, Routes, useLocation } from 'react-router-dom';
+import Journal from "./Journal";
+
+import Login from "./Login";
+
+import { isLoggedIn } from "@/hooks/use-auth";
+
+import { BrowserRouter as Router, Route, Routes, Navigate, useLocation } from 'react-router-dom';
 
 const PAGES = {
 
@@ -24,6 +30,8 @@ const PAGES = {
 
     AuditLog: AuditLog,
 
+    Journal: Journal,
+
 }
 
 function _getCurrentPage(url) {
@@ -43,6 +51,14 @@ function _getCurrentPage(url) {
 function PagesContent() {
     const location = useLocation();
     const currentPage = _getCurrentPage(location.pathname);
+
+    // Login renders outside the app shell; everything else needs a token
+    if (location.pathname.toLowerCase() === '/login') {
+        return <Login />;
+    }
+    if (!isLoggedIn()) {
+        return <Navigate to="/login" replace />;
+    }
     
     return (
         <Layout currentPageName={currentPage}>
@@ -61,6 +77,8 @@ function PagesContent() {
 
                 <Route path="/AuditLog" element={<AuditLog />} />
 
+                <Route path="/Journal" element={<Journal />} />
+
             </Routes>
         </Layout>
     );